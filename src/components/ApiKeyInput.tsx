@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Eye, EyeOff, Check, X } from 'lucide-react';
-import { aiService } from '../services/aiService';
+import { aiService, AIProviderId, AIProviderSettings } from '../services/aiService';
+import { AI_PROVIDERS, AI_PROVIDER_IDS } from '../services/aiProviders';
 import { Theme } from '../types';
 
 interface ApiKeyInputProps {
@@ -9,58 +10,71 @@ interface ApiKeyInputProps {
 }
 
 export const ApiKeyInput: React.FC<ApiKeyInputProps> = ({ theme, onClose }) => {
-  const [apiKey, setApiKey] = useState('');
+  const [activeProvider, setActiveProvider] = useState<AIProviderId>(() => aiService.getSettings().activeProvider);
+  const [drafts, setDrafts] = useState<Record<AIProviderId, AIProviderSettings>>(() => aiService.getSettings().providers);
   const [showKey, setShowKey] = useState(false);
   const [isValid, setIsValid] = useState<boolean | null>(null);
   const [isValidating, setIsValidating] = useState(false);
 
+  const provider = AI_PROVIDERS[activeProvider];
+  const draft = drafts[activeProvider];
+
   useEffect(() => {
-    const currentKey = aiService.getApiKey();
-    if (currentKey) {
-      setApiKey(currentKey);
-      setIsValid(true);
-    }
-  }, []);
+    // 저장된 설정이 있으면 유효한 것으로 간주 (다시 검사는 blur 시)
+    const saved = aiService.getProviderSettings(activeProvider);
+    setIsValid(provider.requiresApiKey && saved.apiKey ? true : null);
+  }, [activeProvider, provider.requiresApiKey]);
+
+  const updateDraft = (updates: Partial<AIProviderSettings>) => {
+    setDrafts(prev => ({ ...prev, [activeProvider]: { ...prev[activeProvider], ...updates } }));
+    setIsValid(null);
+  };
 
-  const validateApiKey = async (key: string) => {
-    if (!key.trim()) {
+  const validateSettings = async () => {
+    if (provider.requiresApiKey && !draft.apiKey.trim()) {
       setIsValid(null);
       return;
     }
 
     setIsValidating(true);
     try {
-      // 간단한 API 호출로 키 유효성 검사
-      const response = await fetch('https://api.openai.com/v1/models', {
-        headers: {
-          'Authorization': `Bearer ${key}`,
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      setIsValid(response.ok);
-    } catch (error) {
-      setIsValid(false);
+      // 모델 목록 호출로 키/서버 연결 확인
+      setIsValid(await aiService.validateSettings(activeProvider, { ...draft, apiKey: draft.apiKey.trim() }));
     } finally {
       setIsValidating(false);
     }
   };
 
   const handleSave = () => {
-    if (apiKey.trim()) {
-      aiService.setApiKey(apiKey.trim());
-    } else {
-      aiService.setApiKey('');
-    }
+    aiService.setActiveProvider(activeProvider);
+    AI_PROVIDER_IDS.forEach(id => {
+      aiService.updateProviderSettings(id, {
+        ...drafts[id],
+        apiKey: drafts[id].apiKey.trim(),
+        baseURL: drafts[id].baseURL.trim() || AI_PROVIDERS[id].defaults.baseURL,
+        model: drafts[id].model.trim() || AI_PROVIDERS[id].defaults.model
+      });
+    });
     onClose();
   };
 
   const handleClear = () => {
-    setApiKey('');
-    setIsValid(null);
-    aiService.setApiKey('');
+    updateDraft({ apiKey: '' });
+    aiService.updateProviderSettings(activeProvider, { apiKey: '' });
   };
 
+  const handleReset = () => {
+    updateDraft({ ...provider.defaults, apiKey: draft.apiKey });
+  };
+
+  const inputClassName = `w-full px-3 py-2 border rounded font-mono text-sm ${
+    theme === 'dark'
+      ? 'bg-gray-900 border-gray-700 text-white placeholder-gray-500'
+      : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400'
+  } focus:outline-none focus:border-gray-400`;
+
+  const labelClassName = `block text-xs mb-1 ${theme === 'dark' ? 'text-gray-400' : 'text-gray-600'}`;
+
   return (
     <div className="fixed inset-0 bg-black/10 flex items-center justify-center z-50">
       <div
@@ -68,27 +82,45 @@ export const ApiKeyInput: React.FC<ApiKeyInputProps> = ({ theme, onClose }) => {
           theme === 'dark'
             ? 'bg-black/90 text-white'
             : 'bg-white text-gray-900'
-        } rounded-lg p-6 w-80 shadow-lg border ${
+        } rounded-lg p-6 w-96 shadow-lg border ${
           theme === 'dark' ? 'border-gray-800' : 'border-gray-200'
         }`}
       >
-        <h3 className="text-lg font-normal mb-4">OpenAI API Key</h3>
+        <h3 className="text-lg font-normal mb-4">AI Provider</h3>
+
+        <div className="flex gap-1 mb-4">
+          {AI_PROVIDER_IDS.map(id => (
+            <button
+              key={id}
+              onClick={() => {
+                setActiveProvider(id);
+                setShowKey(false);
+              }}
+              className={`flex-1 px-2 py-1.5 text-xs rounded transition-colors ${
+                id === activeProvider
+                  ? 'bg-blue-500/10 text-blue-500'
+                  : theme === 'dark'
+                    ? 'text-gray-400 hover:text-white hover:bg-gray-800'
+                    : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+              }`}
+              title={AI_PROVIDERS[id].label}
+            >
+              {id === 'local' ? 'Local' : AI_PROVIDERS[id].label}
+            </button>
+          ))}
+        </div>
 
-        <div className="relative mb-4">
+        <label className={labelClassName}>
+          API Key{provider.requiresApiKey ? '' : ' (optional)'}
+        </label>
+        <div className="relative mb-3">
           <input
             type={showKey ? 'text' : 'password'}
-            value={apiKey}
-            onChange={(e) => {
-              setApiKey(e.target.value);
-              setIsValid(null);
-            }}
-            onBlur={() => validateApiKey(apiKey)}
-            placeholder="sk-..."
-            className={`w-full px-3 py-2 pr-16 border rounded font-mono text-sm ${
-              theme === 'dark'
-                ? 'bg-gray-900 border-gray-700 text-white placeholder-gray-500'
-                : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400'
-            } focus:outline-none focus:border-gray-400`}
+            value={draft.apiKey}
+            onChange={(e) => updateDraft({ apiKey: e.target.value })}
+            onBlur={validateSettings}
+            placeholder={provider.apiKeyPlaceholder}
+            className={`${inputClassName} pr-16`}
           />
           
           <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1">
@@ -111,8 +143,55 @@ export const ApiKeyInput: React.FC<ApiKeyInputProps> = ({ theme, onClose }) => {
           </div>
         </div>
 
+        <label className={labelClassName}>Base URL</label>
+        <input
+          type="text"
+          value={draft.baseURL}
+          onChange={(e) => updateDraft({ baseURL: e.target.value })}
+          onBlur={validateSettings}
+          placeholder={provider.defaults.baseURL}
+          className={`${inputClassName} mb-3`}
+        />
+
+        <label className={labelClassName}>Model</label>
+        <input
+          type="text"
+          value={draft.model}
+          onChange={(e) => updateDraft({ model: e.target.value })}
+          placeholder={provider.defaults.model}
+          className={`${inputClassName} mb-3`}
+        />
+
+        <div className="flex gap-2 mb-4">
+          <div className="flex-1">
+            <label className={labelClassName}>Temperature</label>
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={draft.temperature}
+              onChange={(e) => updateDraft({ temperature: Math.min(2, Math.max(0, Number(e.target.value) || 0)) })}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex-1">
+            <label className={labelClassName}>Max tokens</label>
+            <input
+              type="number"
+              min={1}
+              step={100}
+              value={draft.maxTokens}
+              onChange={(e) => updateDraft({ maxTokens: Math.max(1, Math.round(Number(e.target.value)) || provider.defaults.maxTokens) })}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
         {isValid === false && (
-          <p className="text-red-500 text-xs mb-4">Invalid key</p>
+          <p className="text-red-500 text-xs mb-4">
+            {provider.requiresApiKey ? 'Invalid key or unreachable server' : 'Server not reachable'}
+          </p>
         )}
 
         <div className="flex gap-2">
@@ -138,6 +217,18 @@ export const ApiKeyInput: React.FC<ApiKeyInputProps> = ({ theme, onClose }) => {
             Clear
           </button>
           
+          <button
+            onClick={handleReset}
+            className={`px-3 py-2 text-sm rounded ${
+              theme === 'dark'
+                ? 'text-gray-400 hover:text-white'
+                : 'text-gray-600 hover:text-black'
+            }`}
+            title="Reset URL, model and temperature to defaults"
+          >
+            Reset
+          </button>
+          
           <button
             onClick={onClose}
             className={`px-3 py-2 text-sm rounded ${
@@ -153,15 +244,19 @@ export const ApiKeyInput: React.FC<ApiKeyInputProps> = ({ theme, onClose }) => {
         <p className={`mt-4 text-xs ${
           theme === 'dark' ? 'text-gray-500' : 'text-gray-500'
         }`}>
-          Uses GPT-4o-mini. Your key stays in your browser.{' '}
-          <a 
-            href="https://platform.openai.com/api-keys" 
-            target="_blank" 
-            rel="noopener noreferrer" 
-            className="underline"
-          >
-            Get one here
-          </a>
+          {provider.requiresApiKey
+            ? <>Uses {draft.model || provider.defaults.model}. Your key stays in your browser.{' '}</>
+            : <>Requests go only to {draft.baseURL || provider.defaults.baseURL}. Works with Ollama and llama.cpp servers.</>}
+          {provider.apiKeyHelpUrl && (
+            <a 
+              href={provider.apiKeyHelpUrl} 
+              target="_blank" 
+              rel="noopener noreferrer" 
+              className="underline"
+            >
+              Get one here
+            </a>
+          )}
         </p>
       </div>
     </div>
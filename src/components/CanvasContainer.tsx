@@ -5,7 +5,8 @@ import { CanvasInfoOverlay } from './CanvasInfoOverlay'
 import { ShortcutsOverlay } from './ShortcutsOverlay'
 import { StatusMessages } from './StatusMessages'
 import { ZoomControls } from './ZoomControls'
-import { CanvasObject, AIState, CanvasMode, PinPosition, LinkState, SelectionState } from '../types'
+import { CollaboratorsOverlay } from './CollaboratorsOverlay'
+import { CanvasObject, AIState, CanvasMode, PinPosition, LinkState, SelectionState, RemoteCollaborator } from '../types'
 
 interface CanvasContainerProps {
   // Canvas props
@@ -35,8 +36,8 @@ interface CanvasContainerProps {
   maxCharsPerLine: number
   selectedObject: any
   selectedObjects: any[]
-  undoStack: any[]
-  redoStack: any[]
+  canUndo: boolean
+  canRedo: boolean
   aiState: AIState
   getTextBoxWidth: () => number
   getCurrentLineHeight: (selectedObject: any, baseFontSize: number, scale: number) => number
@@ -53,6 +54,10 @@ interface CanvasContainerProps {
   onRemoveInputChannel: (channelIds: string[]) => void
   THEME_COLORS: any
   
+  // Slash command props
+  commandOutput: { lines: string[]; isError: boolean } | null
+  onCommandComplete: (text: string) => void
+  
   // Overlay props
   showInfo: boolean
   showShortcuts: boolean
@@ -97,6 +102,9 @@ interface CanvasContainerProps {
   allMessages?: any[]
   activeChannelId?: string | null
   links?: any[]
+  
+  // Collaboration props
+  collaborators?: RemoteCollaborator[]
 }
 
 export const CanvasContainer: React.FC<CanvasContainerProps> = ({
@@ -122,8 +130,8 @@ export const CanvasContainer: React.FC<CanvasContainerProps> = ({
   maxCharsPerLine,
   selectedObject,
   selectedObjects,
-  undoStack,
-  redoStack,
+  canUndo,
+  canRedo,
   aiState,
   getTextBoxWidth,
   getCurrentLineHeight,
@@ -161,7 +169,10 @@ export const CanvasContainer: React.FC<CanvasContainerProps> = ({
   activeChannelId,
   links,
   activeInputChannels,
-  onRemoveInputChannel
+  onRemoveInputChannel,
+  commandOutput,
+  onCommandComplete,
+  collaborators = []
 }) => {
   const getCursorClass = () => {
     if (isSpacePressed) {
@@ -190,6 +201,12 @@ export const CanvasContainer: React.FC<CanvasContainerProps> = ({
         onWheel={onWheel}
         tabIndex={0}
       />
+
+      <CollaboratorsOverlay
+        collaborators={collaborators}
+        canvasOffset={canvasOffset}
+        scale={scale}
+      />
       
       {(showShortcuts || currentMode === CanvasMode.SELECT || currentMode === CanvasMode.LINK) && (
         <div className="relative z-50 pointer-events-none">
@@ -215,8 +232,8 @@ export const CanvasContainer: React.FC<CanvasContainerProps> = ({
         theme={theme}
         maxCharsPerLine={maxCharsPerLine}
         selectedObject={selectedObject}
-        undoStack={undoStack}
-        redoStack={redoStack}
+        canUndo={canUndo}
+        canRedo={canRedo}
         aiState={aiState}
         getTextBoxWidth={getTextBoxWidth}
         getCurrentLineHeight={getCurrentLineHeight}
@@ -234,6 +251,8 @@ export const CanvasContainer: React.FC<CanvasContainerProps> = ({
         selectionState={selectionState}
         activeInputChannels={activeInputChannels}
         onRemoveInputChannel={onRemoveInputChannel}
+        commandOutput={commandOutput}
+        onCommandComplete={onCommandComplete}
       />
 
       <CanvasInfoOverlay
@@ -0,0 +1,161 @@
+import React, { useState } from 'react'
+import { Users } from 'lucide-react'
+import { CollaborationStatus, CollaboratorIdentity, RemoteCollaborator, Theme } from '../types'
+
+interface CollaborationMenuProps {
+  status: CollaborationStatus
+  room: string | null
+  identity: CollaboratorIdentity
+  collaborators: RemoteCollaborator[]
+  theme: Theme
+  onJoin: (room: string) => void
+  onLeave: () => void
+  onRename: (name: string) => void
+}
+
+const STATUS_LABELS: Record<CollaborationStatus, string> = {
+  disconnected: 'Offline',
+  connecting: 'Connecting…',
+  connected: 'Syncing…',
+  synced: 'Live'
+}
+
+const STATUS_COLORS: Record<CollaborationStatus, string> = {
+  disconnected: 'bg-gray-400',
+  connecting: 'bg-yellow-400',
+  connected: 'bg-yellow-400',
+  synced: 'bg-green-500'
+}
+
+const createRoomName = () => Math.random().toString(36).slice(2, 10)
+
+export const CollaborationMenu: React.FC<CollaborationMenuProps> = ({
+  status,
+  room,
+  identity,
+  collaborators,
+  theme,
+  onJoin,
+  onLeave,
+  onRename
+}) => {
+  const [isOpen, setIsOpen] = useState(false)
+  const [roomInput, setRoomInput] = useState('')
+  const [nameInput, setNameInput] = useState(identity.name)
+
+  const inputClass = `w-full px-2 py-1 rounded border text-xs bg-transparent focus:outline-none ${
+    theme === 'dark' ? 'border-gray-700 focus:border-blue-500' : 'border-gray-300 focus:border-blue-500'
+  }`
+  const buttonClass = 'px-2 py-1 rounded text-xs text-white bg-blue-500 hover:bg-blue-600 disabled:opacity-50'
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`relative p-1.5 rounded-lg transition-colors ${
+          room ? 'text-blue-500 bg-blue-500/10' : ''
+        } ${
+          theme === 'dark'
+            ? 'text-gray-400 hover:text-white hover:bg-gray-800'
+            : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+        }`}
+        title={room ? `Room "${room}" · ${STATUS_LABELS[status]}` : 'Collaborate'}
+      >
+        <Users className="w-3.5 h-3.5" />
+        {room && (
+          <span className={`absolute top-1 right-1 w-1.5 h-1.5 rounded-full ${STATUS_COLORS[status]}`} />
+        )}
+      </button>
+
+      {isOpen && (
+        <div
+          className={`absolute top-full right-0 mt-2 w-60 p-3 rounded-lg shadow-xs backdrop-blur-sm border text-xs space-y-3 ${
+            theme === 'dark'
+              ? 'bg-black/60 border-gray-700/30 text-gray-100'
+              : 'bg-white/90 border-gray-200/50 text-gray-800'
+          }`}
+        >
+          <div className="space-y-1">
+            <div className="font-medium">Your name</div>
+            <input
+              value={nameInput}
+              onChange={e => setNameInput(e.target.value)}
+              onBlur={() => onRename(nameInput)}
+              onKeyDown={e => {
+                e.stopPropagation()
+                if (e.key === 'Enter') onRename(nameInput)
+              }}
+              className={inputClass}
+              style={{ color: identity.color }}
+            />
+          </div>
+
+          {room ? (
+            <>
+              <div className="flex items-center justify-between">
+                <span>
+                  Room <span className="font-medium">{room}</span>
+                </span>
+                <span className="flex items-center gap-1 opacity-70">
+                  <span className={`w-1.5 h-1.5 rounded-full ${STATUS_COLORS[status]}`} />
+                  {STATUS_LABELS[status]}
+                </span>
+              </div>
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="w-2 h-2 rounded-full" style={{ background: identity.color }} />
+                  <span>{identity.name} (you)</span>
+                </div>
+                {collaborators.map(collaborator => (
+                  <div key={collaborator.clientId} className="flex items-center gap-2">
+                    <span className="w-2 h-2 rounded-full" style={{ background: collaborator.user.color }} />
+                    <span>{collaborator.user.name}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  className={buttonClass}
+                  onClick={() => navigator.clipboard?.writeText(window.location.href)}
+                >
+                  Copy invite link
+                </button>
+                <button
+                  className="px-2 py-1 rounded text-xs border border-current opacity-70 hover:opacity-100"
+                  onClick={onLeave}
+                >
+                  Leave
+                </button>
+              </div>
+            </>
+          ) : (
+            <div className="space-y-1">
+              <div className="font-medium">Join a room</div>
+              <div className="flex gap-2">
+                <input
+                  value={roomInput}
+                  onChange={e => setRoomInput(e.target.value)}
+                  onKeyDown={e => {
+                    e.stopPropagation()
+                    if (e.key === 'Enter') onJoin(roomInput)
+                  }}
+                  placeholder="room name"
+                  className={inputClass}
+                />
+                <button className={buttonClass} disabled={!roomInput.trim()} onClick={() => onJoin(roomInput)}>
+                  Join
+                </button>
+              </div>
+              <button
+                className="opacity-70 hover:opacity-100 underline"
+                onClick={() => onJoin(createRoomName())}
+              >
+                Start a new room
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
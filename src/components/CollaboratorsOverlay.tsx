@@ -0,0 +1,108 @@
+import React from 'react'
+import { RemoteCollaborator } from '../types'
+
+interface CollaboratorsOverlayProps {
+  collaborators: RemoteCollaborator[]
+  canvasOffset: { x: number; y: number }
+  scale: number
+}
+
+export const CollaboratorsOverlay: React.FC<CollaboratorsOverlayProps> = ({
+  collaborators,
+  canvasOffset,
+  scale
+}) => {
+  if (collaborators.length === 0) return null
+
+  // presence 좌표는 월드 좌표 → 내 화면 기준으로 변환
+  const toScreen = (x: number, y: number) => ({
+    x: x * scale + canvasOffset.x,
+    y: y * scale + canvasOffset.y
+  })
+
+  return (
+    <div className="absolute inset-0 pointer-events-none overflow-hidden z-30">
+      {collaborators.map(collaborator => {
+        const { user, cursor, typewriter, typingText } = collaborator
+        const typewriterScreen = typewriter ? toScreen(typewriter.x, typewriter.y) : null
+        const cursorScreen = cursor ? toScreen(cursor.x, cursor.y) : null
+
+        return (
+          <React.Fragment key={collaborator.clientId}>
+            {/* 상대방 타자기 위치 */}
+            {typewriterScreen && typewriter && (
+              <div
+                style={{
+                  position: 'absolute',
+                  left: typewriterScreen.x,
+                  top: typewriterScreen.y,
+                  width: typewriter.width * scale,
+                  minHeight: typewriter.fontSize * scale * 1.6,
+                  border: `1px dashed ${user.color}`,
+                  borderRadius: '2px',
+                  fontFamily: '"JetBrains Mono", monospace',
+                  fontSize: `${typewriter.fontSize * scale}px`,
+                  lineHeight: 1.6,
+                  color: user.color,
+                  opacity: 0.8,
+                  whiteSpace: 'pre-wrap',
+                  overflow: 'hidden'
+                }}
+              >
+                <span
+                  style={{
+                    position: 'absolute',
+                    bottom: '100%',
+                    left: -1,
+                    padding: '0 4px',
+                    fontSize: '10px',
+                    lineHeight: '16px',
+                    color: '#ffffff',
+                    background: user.color,
+                    borderRadius: '2px 2px 0 0',
+                    whiteSpace: 'nowrap'
+                  }}
+                >
+                  {user.name}
+                </span>
+                {typingText}
+              </div>
+            )}
+
+            {/* 상대방 마우스 커서 */}
+            {cursorScreen && (
+              <div
+                style={{
+                  position: 'absolute',
+                  left: cursorScreen.x,
+                  top: cursorScreen.y,
+                  transition: 'left 60ms linear, top 60ms linear'
+                }}
+              >
+                <svg width="14" height="18" viewBox="0 0 14 18">
+                  <path d="M0 0 L0 14 L4 10.5 L7 17 L9.5 16 L6.5 9.5 L12 9.5 Z" fill={user.color} stroke="#ffffff" strokeWidth="1" />
+                </svg>
+                <span
+                  style={{
+                    position: 'absolute',
+                    left: 12,
+                    top: 14,
+                    padding: '0 4px',
+                    fontSize: '10px',
+                    lineHeight: '16px',
+                    color: '#ffffff',
+                    background: user.color,
+                    borderRadius: '2px',
+                    whiteSpace: 'nowrap'
+                  }}
+                >
+                  {user.name}
+                </span>
+              </div>
+            )}
+          </React.Fragment>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+import React from 'react'
+import { CommandSuggestion } from '../utils/commandUtils'
+
+interface CommandSuggestionsProps {
+  suggestions: CommandSuggestion[]
+  activeIndex: number
+  output: { lines: string[]; isError: boolean } | null
+  theme: 'light' | 'dark'
+  onSelect: (suggestion: CommandSuggestion) => void
+}
+
+export const CommandSuggestions: React.FC<CommandSuggestionsProps> = ({
+  suggestions,
+  activeIndex,
+  output,
+  theme,
+  onSelect
+}) => {
+  if (suggestions.length === 0 && !output) return null
+
+  const mutedColor = theme === 'dark' ? 'rgba(255, 255, 255, 0.45)' : 'rgba(0, 0, 0, 0.45)'
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: '100%',
+        left: 0,
+        width: '100%',
+        marginTop: '4px',
+        padding: '4px 0',
+        background: theme === 'dark' ? 'rgba(17, 24, 39, 0.95)' : 'rgba(255, 255, 255, 0.95)',
+        border: `1px solid ${theme === 'dark' ? 'rgba(75, 85, 99, 0.5)' : 'rgba(209, 213, 219, 0.8)'}`,
+        borderRadius: '4px',
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.08)',
+        fontFamily: '"JetBrains Mono", monospace',
+        fontSize: '12px',
+        zIndex: 40,
+        pointerEvents: 'auto',
+      }}
+    >
+      {output ? (
+        output.lines.map((line, index) => (
+          <div
+            key={index}
+            style={{
+              padding: '2px 8px',
+              whiteSpace: 'pre-wrap',
+              color: output.isError
+                ? 'rgba(239, 68, 68, 0.8)'
+                : (theme === 'dark' ? '#d1d5db' : '#374151'),
+            }}
+          >
+            {line}
+          </div>
+        ))
+      ) : (
+        suggestions.map((suggestion, index) => (
+          <div
+            key={suggestion.label}
+            // 입력창 포커스를 유지한 채 선택
+            onMouseDown={e => {
+              e.preventDefault()
+              onSelect(suggestion)
+            }}
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              gap: '12px',
+              padding: '2px 8px',
+              cursor: 'pointer',
+              background: index === activeIndex
+                ? (theme === 'dark' ? 'rgba(59, 130, 246, 0.2)' : 'rgba(59, 130, 246, 0.1)')
+                : 'transparent',
+              color: theme === 'dark' ? '#e5e7eb' : '#1f2937',
+            }}
+          >
+            <span style={{ whiteSpace: 'nowrap' }}>{suggestion.label}</span>
+            <span style={{ color: mutedColor, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              {suggestion.description}
+            </span>
+          </div>
+        ))
+      )}
+      {!output && (
+        <div style={{ padding: '2px 8px', color: mutedColor, fontSize: '10px' }}>
+          Tab to complete · ↑↓ to choose · /help for all commands
+        </div>
+      )}
+    </div>
+  )
+}
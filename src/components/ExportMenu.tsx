@@ -11,6 +11,9 @@ interface ExportMenuProps {
   onExportPNG: () => void
   onExportSVG: () => void
   onExportJSON: () => void
+  onExportFigma: () => void
+  onExportMarkdown: () => void
+  onExportPDF: () => void
   theme: 'light' | 'dark'
 }
 
@@ -18,6 +21,9 @@ export const ExportMenu: React.FC<ExportMenuProps> = ({
   onExportPNG,
   onExportSVG,
   onExportJSON,
+  onExportFigma,
+  onExportMarkdown,
+  onExportPDF,
   theme
 }) => {
   return (
@@ -44,6 +50,15 @@ export const ExportMenu: React.FC<ExportMenuProps> = ({
         <DropdownMenuItem onClick={onExportJSON}>
           Export as JSON
         </DropdownMenuItem>
+        <DropdownMenuItem onClick={onExportMarkdown}>
+          Export as Markdown
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={onExportPDF}>
+          Export as PDF
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={onExportFigma}>
+          Export for Figma
+        </DropdownMenuItem>
       </DropdownMenuContent>
     </DropdownMenu>
   )
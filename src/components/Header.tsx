@@ -1,5 +1,5 @@
 import React from 'react'
-import { Import, Trash2, Grid, Sun, Moon, Info, Layers, Key } from 'lucide-react'
+import { Import, Trash2, Grid, Sun, Moon, Info, Layers, Key, History, LayoutGrid, Clock, Printer, Search } from 'lucide-react'
 import { ExportMenu } from './ExportMenu'
 import { Button } from './ui/Button'
 import { SettingsDropdown } from './SettingsDropdown'
@@ -12,10 +12,14 @@ interface HeaderProps {
   onExportPNG: () => void
   onExportSVG: () => void
   onExportJSON: () => void
+  onExportFigma: () => void
+  onExportMarkdown: () => void
+  onExportPDF: () => void
   onClearAll: () => void
   onApiKeyClick: () => void
   onChannelPanelToggle?: () => void
   infoPanel?: React.ReactNode
+  collaborationMenu?: React.ReactNode
   isPanelOpen?: boolean
   panelWidth?: number
 }
@@ -25,10 +29,14 @@ export const Header: React.FC<HeaderProps> = ({
   onExportPNG,
   onExportSVG,
   onExportJSON,
+  onExportFigma,
+  onExportMarkdown,
+  onExportPDF,
   onClearAll,
   onApiKeyClick,
   onChannelPanelToggle,
   infoPanel,
+  collaborationMenu,
   isPanelOpen = false,
   panelWidth = 280
 }) => {
@@ -38,6 +46,15 @@ export const Header: React.FC<HeaderProps> = ({
     showGrid,
     toggleGrid,
     toggleTheme,
+    showHistory,
+    toggleHistory,
+    showWorkspace,
+    toggleWorkspace,
+    showRevisions,
+    toggleRevisions,
+    togglePrintPreview,
+    showSearch,
+    toggleSearch,
     currentMode,
     switchMode
   } = useCanvasStore();
@@ -61,13 +78,16 @@ export const Header: React.FC<HeaderProps> = ({
             : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
         }`} title="Import">
           <Import className="w-3.5 h-3.5" />
-          <input type="file" accept=".json" onChange={onImportFile} className="hidden" />
+          <input type="file" accept=".json,.md,.markdown" onChange={onImportFile} className="hidden" />
         </label>
         
         <ExportMenu
           onExportPNG={onExportPNG}
           onExportSVG={onExportSVG}
           onExportJSON={onExportJSON}
+          onExportFigma={onExportFigma}
+          onExportMarkdown={onExportMarkdown}
+          onExportPDF={onExportPDF}
           theme={theme}
         />
 
@@ -82,6 +102,19 @@ export const Header: React.FC<HeaderProps> = ({
 
         <div className="mx-1 h-4 w-px bg-gray-300 dark:bg-gray-600" />
 
+        {/* Workspace Sidebar Toggle */}
+        <Button
+          variant="control"
+          theme={theme}
+          onClick={toggleWorkspace}
+          className={`p-1.5 rounded-lg ${
+            showWorkspace ? 'text-blue-500 bg-blue-500/10' : ''
+          }`}
+          title="Canvases"
+        >
+          <LayoutGrid className="w-3.5 h-3.5" />
+        </Button>
+
         {/* Grid Toggle */}
         <Button
           variant="control"
@@ -95,6 +128,56 @@ export const Header: React.FC<HeaderProps> = ({
           <Grid className="w-3.5 h-3.5" />
         </Button>
 
+        {/* History Panel Toggle */}
+        <Button
+          variant="control"
+          theme={theme}
+          onClick={toggleHistory}
+          className={`p-1.5 rounded-lg ${
+            showHistory ? 'text-blue-500 bg-blue-500/10' : ''
+          }`}
+          title="Undo History"
+        >
+          <History className="w-3.5 h-3.5" />
+        </Button>
+
+        {/* Search Palette Toggle */}
+        <Button
+          variant="control"
+          theme={theme}
+          onClick={toggleSearch}
+          className={`p-1.5 rounded-lg ${
+            showSearch ? 'text-blue-500 bg-blue-500/10' : ''
+          }`}
+          title="Search (Ctrl+F)"
+        >
+          <Search className="w-3.5 h-3.5" />
+        </Button>
+
+        {/* Revisions Panel Toggle */}
+        <Button
+          variant="control"
+          theme={theme}
+          onClick={toggleRevisions}
+          className={`p-1.5 rounded-lg ${
+            showRevisions ? 'text-blue-500 bg-blue-500/10' : ''
+          }`}
+          title="Revisions"
+        >
+          <Clock className="w-3.5 h-3.5" />
+        </Button>
+
+        {/* Print Preview */}
+        <Button
+          variant="control"
+          theme={theme}
+          onClick={togglePrintPreview}
+          className="p-1.5 rounded-lg"
+          title="Print Pages"
+        >
+          <Printer className="w-3.5 h-3.5" />
+        </Button>
+
         {/* Theme Toggle */}
         <Button
           variant="control"
@@ -112,11 +195,14 @@ export const Header: React.FC<HeaderProps> = ({
           theme={theme}
           onClick={onApiKeyClick}
           className="p-1.5 rounded-lg"
-          title="OpenAI API Key"
+          title="AI Provider Settings"
         >
           <Key className="w-3.5 h-3.5" />
         </Button>
 
+        {/* Collaboration */}
+        {collaborationMenu}
+
         <div className="mx-1 h-4 w-px bg-gray-300 dark:bg-gray-600" />
 
         {/* Reset */}
@@ -0,0 +1,89 @@
+import React from 'react'
+import { X, Circle, CircleDot } from 'lucide-react'
+import { HistoryEntry, PendingHistory, Theme } from '../types'
+import { describeHistoryEntry } from '../utils/historyUtils'
+
+interface HistoryPanelProps {
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+  pending: PendingHistory | null
+  theme: Theme
+  /** 클릭한 행 번호 (0 = 처음 상태, 진행 중인 행 포함) */
+  onJump: (rowIndex: number) => void
+  onClose: () => void
+}
+
+const formatTime = (timestamp: number) => {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  past,
+  future,
+  pending,
+  theme,
+  onJump,
+  onClose
+}) => {
+  // 진행 중인 동작은 확정 전이라도 현재 위치로 표시
+  const pendingRow = pending
+    ? [{ id: 'pending', label: pending.label, detail: 'in progress', timestamp: pending.timestamp }]
+    : []
+  const rows = [
+    { id: 'initial', label: 'Initial state', detail: '', timestamp: null as number | null },
+    ...past.map(entry => ({ id: entry.id, label: entry.label, detail: describeHistoryEntry(entry), timestamp: entry.timestamp as number | null })),
+    ...pendingRow,
+    ...[...future].reverse().map(entry => ({ id: entry.id, label: entry.label, detail: describeHistoryEntry(entry), timestamp: entry.timestamp as number | null }))
+  ]
+  const currentIndex = past.length + pendingRow.length
+
+  return (
+    <div
+      className={`absolute top-14 right-4 z-50 w-64 max-h-[60vh] flex flex-col rounded-lg shadow-xs backdrop-blur-sm border ${
+        theme === 'dark'
+          ? 'bg-black/40 border-gray-700/30 text-gray-100'
+          : 'bg-white/70 border-gray-200/50 text-gray-800'
+      }`}
+    >
+      <div className="flex items-center justify-between px-3 py-2 text-xs font-medium">
+        <span>History</span>
+        <button
+          onClick={onClose}
+          className={theme === 'dark' ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-900'}
+          title="Close"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      <div className="overflow-y-auto pb-1">
+        {rows.map((row, index) => {
+          const isCurrent = index === currentIndex
+          const isFuture = index > currentIndex
+          return (
+            <button
+              key={row.id}
+              onClick={() => onJump(index)}
+              disabled={isCurrent}
+              className={`w-full flex items-start gap-2 px-3 py-1 text-left text-xs transition-colors ${
+                isCurrent
+                  ? 'text-blue-500 bg-blue-500/10'
+                  : theme === 'dark'
+                    ? 'hover:bg-gray-800'
+                    : 'hover:bg-gray-100'
+              } ${isFuture ? 'opacity-50' : ''}`}
+            >
+              {isCurrent ? <CircleDot className="w-3 h-3 mt-0.5 shrink-0" /> : <Circle className="w-3 h-3 mt-0.5 shrink-0" />}
+              <span className="flex-1 min-w-0">
+                <span className="block truncate">{row.label}</span>
+                {row.detail && <span className="block truncate opacity-60">{row.detail}</span>}
+              </span>
+              {row.timestamp !== null && (
+                <span className="opacity-50 tabular-nums">{formatTime(row.timestamp)}</span>
+              )}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -36,7 +36,9 @@ import { Type, Move, Download, Import, Grid, FileText, Image, Code, RotateCcw, T
 import { Header } from './Header';
 import { CanvasContainer } from './CanvasContainer';
 import useCanvasStore from '../store/canvasStore';
-import { createPNGExporter, createJSONExporter, createSVGExporter } from '../utils/exportHandlers';
+import { createPNGExporter, createJSONExporter, createSVGExporter, createFigmaExporter, createMarkdownExporter, createPDFExporter } from '../utils/exportHandlers';
+import { importMarkdownToCanvas } from '../utils/markdownUtils';
+import { isFigmaExportDocument, importFigmaExportDocument } from '../utils/figmaExport';
 import { 
   measureTextWidth, 
   snapToGrid, 
@@ -69,8 +71,18 @@ import {
   createSelectionRectangle,
   drawSelectionRectangle,
   drawMultiSelectHighlight,
+  drawSearchHighlights,
   drawSingleSelectHighlight,
-  getObjectsInSelectionRect
+  getObjectsInSelectionRect,
+  MediaNode,
+  isMediaNode,
+  getMediaNodeSize,
+  createMediaNodeFromFile,
+  createMediaNodeFromUrl,
+  onMediaImageLoad,
+  releaseVideoObjectUrls,
+  SpatialIndex,
+  getObjectWorldBounds
 } from '../utils';
 import { 
   getNextMode, 
@@ -83,14 +95,26 @@ import {
   createLink,
   areObjectsLinked 
 } from '../utils/modeUtils';
-import { renderLink, renderLinkPreview, findLinkAtPosition, calculatePreviewConnectionPoint } from '../utils/linkUtils';
+import { renderLink, renderLinkPreview, findLinkAtPosition, calculatePreviewConnectionPoint, isLinkableObject, getLinkableObjectBounds, getLinkObstacles, updateLinkEndpoint, resolveLinkEnds, getLinkJunctions, LinkJunction } from '../utils/linkUtils';
 import { 
   renderSelectionHighlights, 
   moveSelectedObjects,
   clearSelection,
   addToSelection,
-  removeFromSelection 
+  removeFromSelection,
+  getSelectionBounds
 } from '../utils/selectionUtils';
+import {
+  FrameBounds,
+  TransformHandle,
+  TRANSFORM_HANDLE_CURSORS,
+  ROTATION_SNAP_DEGREES,
+  drawTransformHandles,
+  findTransformHandle,
+  isTransformableObject,
+  resizeObjects,
+  rotateObjects
+} from '../utils/transformUtils';
 import { 
   INITIAL_UI_FONT_SIZE_PX,
   INITIAL_BASE_FONT_SIZE_PT,
@@ -102,44 +126,71 @@ import {
   A4_MARGIN_TOP_MM,
   A4_WIDTH_MM,
   A4_HEIGHT_MM,
-  THEME_COLORS
+  THEME_COLORS,
+  LAYOUT_NODE_GAP
 } from '../constants';
 import { pxToPoints, pointsToPx } from '../utils/units';
-import { CanvasObject, TextObject, GuideObject, Theme, AICommand, SelectionRectangle, CanvasMode, PinPosition, LinkState, SelectionState, LinkObject } from '../types';
+import { CanvasObject, TextObject, GuideObject, Theme, AICommand, SelectionRectangle, CanvasMode, PinPosition, LinkState, SelectionState, LinkObject, HistoryState, generateNodeId } from '../types';
 import { aiService } from '../services/aiService';
 import { wrapTextToLines } from '../utils';
 import { ExportMenu } from './ExportMenu';
 import { ApiKeyInput } from './ApiKeyInput';
-import { saveSession, loadSession, clearSession } from '../utils/sessionStorage';
 import { useChannels } from '../hooks/useChannels';
 import { useSession } from '../hooks/useSession';
-import { SessionData } from '../types';
+import { useWorkspace } from '../hooks/useWorkspace';
+import { useRevisions } from '../hooks/useRevisions';
+import { useCollaboration } from '../hooks/useCollaboration';
+import { CollaborationSnapshot } from '../services/collaboration';
+import { SessionData, SessionViewState, SessionRevision } from '../types';
 import { ChannelPanel } from './ChannelPanel';
 import { FloatingMessagePanel } from './FloatingMessagePanel';
 import { ChannelTags, LiveChannelPreview } from './ChannelTags';
 import { parseChannelTags, hasChannelTags, parseChannelSwitch } from '../utils/channelUtils';
+import { parseAICommand, buildAIMessages, getTextObjectsInBounds, findAIThreadAbove, getAIThreadHistory } from '../utils/aiContextUtils';
+import { parseSlashCommand, CommandContext } from '../utils/commandUtils';
+import { applyHistoryOperations, diffHistoryStates, getHistoryRetainedNodes } from '../utils/historyUtils';
+import { restoreFromRevision } from '../utils/revisionUtils';
 import { ActiveChannelIndicator } from './ActiveChannelIndicator';
 import { SessionPanel } from './SessionPanel';
+import { HistoryPanel } from './HistoryPanel';
+import { WorkspaceSidebar } from './WorkspaceSidebar';
+import { RevisionPanel } from './RevisionPanel';
+import { PrintPreview } from './PrintPreview';
+import { SearchPalette } from './SearchPalette';
+import { useSearch } from '../hooks/useSearch';
+import { useObjectAnimation } from '../hooks/useObjectAnimation';
+import { computeGraphLayout, avoidObstacles, LayoutNode } from '../utils/graphLayout';
+import { SearchResult } from '../utils/searchUtils';
+import { CollaborationMenu } from './CollaborationMenu';
 import { ShareLinkButton } from './ShareLinkButton';
 import { SessionRecoveryNotification } from './SessionRecoveryNotification';
+import { RecoveryIssueNotice } from './RecoveryIssueNotice';
+import { ReadOnlySnapshotNotice } from './ReadOnlySnapshotNotice';
 
-const parseCommand = (text: string): AICommand | null => {
-  const trimmedText = text.trim();
-  if (trimmedText.startsWith('/gpt ')) {
-    const question = trimmedText.substring(5).trim();
-    if (question) {
-      return { type: 'gpt', question };
-    }
-  }
-  return null;
-};
+// AI 스레드 질문/답변을 잇는 링크 색상 (AI 응답 텍스트와 동일)
+const AI_THREAD_LINK_COLOR = '#3b82f6';
+
+// 진행 중인 AI 요청이 속한 스레드 위치
+interface AIThreadTurn {
+  threadId: string;
+  turn: number;
+  questionId: string;
+}
 
 // Helper function to check if object has position properties
-const hasPosition = (obj: CanvasObject): obj is TextObject | GuideObject => {
-  return obj.type === 'text' || obj.type === 'guide';
+const hasPosition = (obj: CanvasObject): obj is TextObject | GuideObject | MediaNode => {
+  return obj.type === 'text' || obj.type === 'guide' || isMediaNode(obj);
 };
 
-const InfiniteTypewriterCanvas = () => {
+interface InfiniteTypewriterCanvasProps {
+  /** 시작 전에 저장소에서 복구한 세션 */
+  initialSession?: SessionData | null;
+}
+
+const InfiniteTypewriterCanvas: React.FC<InfiniteTypewriterCanvasProps> = ({ initialSession = null }) => {
+  // 복구된 화면 상태 (없으면 기본값으로 시작)
+  const initialView = initialSession?.view;
+
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   
   // Get store state and actions
@@ -149,29 +200,46 @@ const InfiniteTypewriterCanvas = () => {
     theme: storeTheme,
     toggleTheme: storeToggleTheme,
     showGrid: storeShowGrid,
-    toggleGrid: storeToggleGrid
+    toggleGrid: storeToggleGrid,
+    historyPast,
+    historyFuture,
+    pendingHistory,
+    showHistory,
+    toggleHistory,
+    showWorkspace,
+    toggleWorkspace,
+    showRevisions,
+    toggleRevisions,
+    showPrintPreview,
+    togglePrintPreview,
+    showSearch,
+    toggleSearch,
+    clearHistory,
+    beginHistory,
+    undoHistory,
+    redoHistory,
+    jumpToHistory,
+    rebaseHistory
   } = useCanvasStore();
-  const [canvasObjects, setCanvasObjects] = useState<CanvasObject[]>(() => {
-    const sessionData = loadSession();
-    return sessionData?.canvasObjects || [];
-  });
-  const [currentTypingText, setCurrentTypingText] = useState(() => {
-    const sessionData = loadSession();
-    return sessionData?.currentTypingText || '';
-  });
+  const [canvasObjects, setCanvasObjects] = useState<CanvasObject[]>(() => initialSession?.canvasObjects || []);
+  const [currentTypingText, setCurrentTypingText] = useState(() => initialView?.currentTypingText || '');
   const [isComposing, setIsComposing] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [isDraggingText, setIsDraggingText] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [dragPreviewObjects, setDragPreviewObjects] = useState<CanvasObject[]>([]);
-  const [scale, setScale] = useState(() => {
-    const sessionData = loadSession();
-    return sessionData?.scale || 1;
-  });
+  const [scale, setScale] = useState(() => initialView?.scale || 1);
   const [isTyping, setIsTyping] = useState(false);
   const [fontLoaded, setFontLoaded] = useState(false);
   const [selectedObjects, setSelectedObjects] = useState<CanvasObject[]>([]);
   const [isSelecting, setIsSelecting] = useState(false);
+  // 선택 상자 핸들로 크기 조절/회전 중일 때: 잡은 핸들과 시작 시점의 상자, 객체, 포인터 (월드 좌표)
+  const [transformDrag, setTransformDrag] = useState<{
+    handle: TransformHandle;
+    bounds: FrameBounds;
+    startObjects: CanvasObject[];
+    startPointer: { x: number; y: number };
+  } | null>(null);
   
   // 채널 시스템 훅
   const {
@@ -185,6 +253,7 @@ const InfiniteTypewriterCanvas = () => {
     updateTextObjectMessage,
     getTextObjectChannels,
     channelMessages,
+    channelMap,
     loadSessionData,
     clearAllChannelsAndMessages,
     activeInputChannels,
@@ -229,6 +298,7 @@ const InfiniteTypewriterCanvas = () => {
   const [mousePosition, setMousePosition] = useState({ x: 0, y: 0 });
   const [isMouseInTextBox, setIsMouseInTextBox] = useState(false);
   const [hoveredObject, setHoveredObject] = useState<CanvasObject | null>(null);
+  const [mediaLoadTick, setMediaLoadTick] = useState(0);
   // 캔버스 크기 계산 - 패널이 열려있으면 너비를 줄임
   const [canvasWidth, setCanvasWidth] = useState(() => {
     // 초기 상태에서도 패널 상태를 고려
@@ -239,7 +309,7 @@ const InfiniteTypewriterCanvas = () => {
   const [canvasHeight, setCanvasHeight] = useState(window.innerHeight);
   const [canvasOffset, setCanvasOffset] = useState(() => {
     // 초기 렌더링 시 세션에서 LT 위치 복구하여 깜빡임 방지
-    const sessionData = loadSession();
+    const sessionData = initialView;
     if (sessionData?.typewriterLTWorldPosition) {
       try {
         // 정확한 세션 데이터 값으로 계산
@@ -289,10 +359,7 @@ const InfiniteTypewriterCanvas = () => {
     }, 16), // 60fps
     []
   );
-  const [showGrid, setShowGrid] = useState(() => {
-    const sessionData = loadSession();
-    return storeShowGrid ?? sessionData?.showGrid ?? true;
-  });
+  const [showGrid, setShowGrid] = useState(() => storeShowGrid ?? initialView?.showGrid ?? true);
   
   // Sync with store grid changes
   useEffect(() => {
@@ -302,25 +369,15 @@ const InfiniteTypewriterCanvas = () => {
   // Dynamically measure CSS pixels per millimeter (accounts for DPI / zoom)
   const [pxPerMm, setPxPerMm] = useState(96 / 25.4); // fallback default
 
-  const [showInfo, setShowInfo] = useState(() => {
-    const sessionData = loadSession();
-    return sessionData?.showInfo ?? true;
-  });
-  const [showShortcuts, setShowShortcuts] = useState(() => {
-    const sessionData = loadSession();
-    return sessionData?.showShortcuts ?? true;
-  });
+  const [showInfo, setShowInfo] = useState(() => initialView?.showInfo ?? true);
+  const [showShortcuts, setShowShortcuts] = useState(() => initialView?.showShortcuts ?? true);
   const [showApiKeyInput, setShowApiKeyInput] = useState(false);
   const [showSessionPanel, setShowSessionPanel] = useState(false);
   const [showSessionRecovery, setShowSessionRecovery] = useState(false);
   const [pendingSessionData, setPendingSessionData] = useState<SessionData | null>(null);
-  const [showTextBox, setShowTextBox] = useState(() => {
-    const sessionData = loadSession();
-    return sessionData?.showTextBox ?? true;
-  });
+  const [showTextBox, setShowTextBox] = useState(() => initialView?.showTextBox ?? true);
   const [theme, setTheme] = useState<Theme>(() => {
-    const sessionData = loadSession();
-    const initialTheme = storeTheme || sessionData?.theme || 'light';
+    const initialTheme = storeTheme || initialView?.theme || 'light';
     // Ensure dark class is set correctly on initial load
     if (initialTheme === 'dark') {
       document.documentElement.classList.add('dark');
@@ -348,19 +405,14 @@ const InfiniteTypewriterCanvas = () => {
     error: null as string | null,
     lastResponse: null as string | null
   });
-
-  const [maxCharsPerLine, setMaxCharsPerLine] = useState(() => {
-    const sessionData = loadSession();
-    return sessionData?.maxCharsPerLine || 80;
-  }); // 한글 기준 80자, 동적 변경
-  const [baseFontSize, setBaseFontSize] = useState(() => {
-    const sessionData = loadSession();
-    return sessionData?.baseFontSize || INITIAL_UI_FONT_SIZE_PX;
-  }); // Display Font Size (픽셀) - 화면에 표시되는 크기
-  const [baseFontSizePt, setBaseFontSizePt] = useState(() => {
-    const sessionData = loadSession();
-    return sessionData?.baseFontSizePt || INITIAL_BASE_FONT_SIZE_PT;
-  }); // Logical Font Size (포인트) - 논리적 텍스트 크기
+  // 진행 중인 AI 스트리밍 요청 취소용
+  const aiAbortControllerRef = useRef<AbortController | null>(null);
+  // 슬래시 명령어 결과 (/help 출력, 오류 메시지)
+  const [commandOutput, setCommandOutput] = useState<{ lines: string[]; isError: boolean } | null>(null);
+
+  const [maxCharsPerLine, setMaxCharsPerLine] = useState(() => initialView?.maxCharsPerLine || 80); // 한글 기준 80자, 동적 변경
+  const [baseFontSize, setBaseFontSize] = useState(() => initialView?.baseFontSize || INITIAL_UI_FONT_SIZE_PX); // Display Font Size (픽셀) - 화면에 표시되는 크기
+  const [baseFontSizePt, setBaseFontSizePt] = useState(() => initialView?.baseFontSizePt || INITIAL_BASE_FONT_SIZE_PT); // Logical Font Size (포인트) - 논리적 텍스트 크기
   const [needsLTPositionRestore, setNeedsLTPositionRestore] = useState<{ x: number; y: number } | null>(null); // LT 위치 복구 플래그
   const [typewriterPosition, setTypewriterPosition] = useState({ 
     x: window.innerWidth / 2, 
@@ -393,11 +445,34 @@ const InfiniteTypewriterCanvas = () => {
     selectedObjects: new Set<string>(),
     dragArea: null
   });
-  const [links, setLinks] = useState<LinkObject[]>([]);
+  const [links, setLinks] = useState<LinkObject[]>(() => initialSession?.links || []);
   const [selectedLinks, setSelectedLinks] = useState<Set<string>>(new Set());
   const [hoveredLink, setHoveredLink] = useState<LinkObject | null>(null);
   const [pinHoveredObject, setPinHoveredObject] = useState<CanvasObject | null>(null);
 
+  // 원격 변경 반영: 선택은 남아 있는 노드의 최신 버전으로 교체
+  const applyRemoteSnapshot = useCallback((snapshot: CollaborationSnapshot) => {
+    // 원격 변경은 로컬 undo 대상이 아님: 진행 중인 동작의 시작 상태에 먼저 반영해 diff에서 빠지게 함
+    const current = historyStateRef.current;
+    const next = { ...current, canvasObjects: snapshot.canvasObjects, links: snapshot.links };
+    rebaseHistory(diffHistoryStates(current, next));
+    historyStateRef.current = next;
+
+    const byId = new Map(snapshot.canvasObjects.map(obj => [obj.id, obj]));
+    setCanvasObjects(snapshot.canvasObjects);
+    setLinks(snapshot.links);
+    setSelectedObjects(prev => prev.map(obj => byId.get(obj.id)).filter((obj): obj is CanvasObject => !!obj));
+    loadSessionData(snapshot.channels, snapshot.channelMessages, null);
+  }, [loadSessionData, rebaseHistory]);
+
+  const collaboration = useCollaboration({
+    canvasObjects,
+    links,
+    channels: channelMap,
+    channelMessages,
+    onRemoteChange: applyRemoteSnapshot
+  });
+
   // Session management
   const handleSessionLoad = useCallback((sessionData: SessionData) => {
     // Check if there's existing content that would be lost
@@ -466,6 +541,10 @@ const InfiniteTypewriterCanvas = () => {
     setShowSessionRecovery(false);
   }, []);
 
+  // 저장할 화면 상태. 계산에 쓰는 값들은 아래에서 정의되므로 ref로 연결
+  const sessionViewStateRef = useRef<() => SessionViewState>();
+  const getSessionViewState = useCallback(() => sessionViewStateRef.current?.(), []);
+
   const {
     sessionState,
     saveSession: saveCurrentSession,
@@ -476,16 +555,63 @@ const InfiniteTypewriterCanvas = () => {
     importSession,
     generateShareLink,
     toggleAutoSave,
-    getCurrentSessionData
+    getCurrentSessionData,
+    markDirty: markSessionDirty,
+    switchCanvas,
+    createCanvas,
+    updateCurrentMetadata,
+    recoveryIssues,
+    dismissRecoveryIssues,
+    currentSessionId
   } = useSession({
-    channels: new Map(channels.map(ch => [ch.id, ch])),
+    channels: channelMap,
     messages: channelMessages,
     canvasObjects,
     links,
     activeChannelId,
+    initialSession,
+    getViewState: getSessionViewState,
     onSessionLoad: handleSessionLoad
   });
 
+  const workspace = useWorkspace({
+    enabled: showWorkspace,
+    currentSessionId,
+    onCurrentMetadataChange: updateCurrentMetadata
+  });
+
+  const {
+    revisions,
+    error: revisionError,
+    loadRevision,
+    recordCurrentRevision
+  } = useRevisions({
+    enabled: showRevisions,
+    sessionId: currentSessionId,
+    getCurrentSessionData
+  });
+  const revisionCompareContent = useMemo(() => ({ canvasObjects, links }), [canvasObjects, links]);
+
+  // 결과로 이동하는 데 쓰는 값들은 아래에서 정의되므로 ref로 연결
+  const revealSearchResultRef = useRef<(result: SearchResult) => void>();
+  const handleSearchResult = useCallback((result: SearchResult) => revealSearchResultRef.current?.(result), []);
+  const search = useSearch({
+    enabled: showSearch,
+    canvasObjects,
+    channelMessages,
+    onActiveResultChange: handleSearchResult
+  });
+  const searchHighlights = useMemo(() => {
+    const objectsById = new Map(canvasObjects.map(obj => [obj.id, obj]));
+    return search.results.flatMap(result => {
+      const obj = objectsById.get(result.document.objectId);
+      if (result.document.kind !== 'text' || obj?.type !== 'text') return [];
+      return [{ object: obj, ranges: result.ranges, isActive: result === search.activeResult }];
+    });
+  }, [canvasObjects, search.results, search.activeResult]);
+
+  const { animateMoves: animateObjectMoves, cancel: cancelObjectAnimation } = useObjectAnimation({ setCanvasObjects, setSelectedObjects });
+
   useEffect(() => {
     setPxPerMm(calculateDPIPixelsPerMM());
   }, []);
@@ -497,22 +623,15 @@ const InfiniteTypewriterCanvas = () => {
     loadGoogleFonts().then(() => setFontLoaded(true));
   }, []);
 
-  // Load session on component mount
+  // Restore the session recovered before mount (content is already in initial state)
   useEffect(() => {
-    const sessionData = loadSession();
+    if (initialSession) {
+      console.log('Restoring session from:', initialSession.metadata.lastUpdated);
+      loadSessionData(initialSession.channels, initialSession.messages, initialSession.activeChannelId);
+    }
+
+    const sessionData = initialView;
     if (sessionData) {
-      console.log('Restoring session from:', new Date(sessionData.timestamp));
-      
-      // Restore canvas state
-      setCanvasObjects(sessionData.canvasObjects);
-      setScale(sessionData.scale);
-      setCurrentTypingText(sessionData.currentTypingText);
-      setBaseFontSize(sessionData.baseFontSize);
-      if (sessionData.baseFontSizePt) {
-        setBaseFontSizePt(sessionData.baseFontSizePt);
-      }
-      setMaxCharsPerLine(sessionData.maxCharsPerLine);
-      
       // LT 월드 좌표를 기반으로 캔버스 오프셋 계산하여 타이프라이터 위치 복구
       if (sessionData.typewriterLTWorldPosition) {
         console.log('Restoring typewriter LT position:', sessionData.typewriterLTWorldPosition);
@@ -524,16 +643,9 @@ const InfiniteTypewriterCanvas = () => {
         setCanvasOffset(sessionData.canvasOffset);
       }
       
-      // Restore UI state
-      setShowGrid(sessionData.showGrid);
-      setShowTextBox(sessionData.showTextBox);
-      setShowInfo(sessionData.showInfo);
-      setShowShortcuts(sessionData.showShortcuts);
-      setTheme(sessionData.theme);
-      
       // Restore selected object if exists
       if (sessionData.selectedObjectId) {
-        const selectedObj = sessionData.canvasObjects.find(obj => obj.id === sessionData.selectedObjectId);
+        const selectedObj = initialSession?.canvasObjects.find(obj => obj.id === sessionData.selectedObjectId);
         if (selectedObj) {
           selectSingleObject(selectedObj);
         }
@@ -551,155 +663,17 @@ const InfiniteTypewriterCanvas = () => {
   const typewriterX = canvasWidth / 2;
   const typewriterY = canvasHeight / 2;
 
-  // Auto-save session when state changes (optimized)
-  const saveTimeoutRef = useRef<number | null>(null);
-  
+  // 화면 상태 변경도 세션 변경으로 기록 (콘텐츠 변경은 useSession이 추적)
+  const hasMountedViewRef = useRef(false);
   useEffect(() => {
-    // Don't save during initial load
-    if (!fontLoaded) return;
-    
-    // Clear previous timeout to debounce
-    if (saveTimeoutRef.current) {
-      clearTimeout(saveTimeoutRef.current);
+    if (!hasMountedViewRef.current) {
+      hasMountedViewRef.current = true;
+      return;
     }
-    
-    const saveCurrentSession = () => {
-      // 실시간 LT 월드 좌표 직접 계산 (getTextBoxWidth 의존성 해결)
-      const textBoxWidth = measureTextWidth('A'.repeat(maxCharsPerLine), baseFontSize, canvasRef.current, fontLoaded);
-      const currentLTScreen = {
-        x: typewriterX - textBoxWidth / 2,
-        y: typewriterY - baseFontSize / 2
-      };
-      const currentLTWorld = {
-        x: (currentLTScreen.x - canvasOffset.x) / scale,
-        y: (currentLTScreen.y - canvasOffset.y) / scale
-      };
-      
-      saveSession({
-        canvasObjects,
-        canvasOffset,
-        scale,
-        typewriterPosition: { x: typewriterX, y: typewriterY },
-        typewriterLTWorldPosition: currentLTWorld,
-        currentTypingText,
-        baseFontSize,
-        baseFontSizePt,
-        maxCharsPerLine,
-        showGrid,
-        showTextBox,
-        showInfo,
-        showShortcuts,
-        theme,
-        selectedObjectId: getFirstSelectedObject()?.id ? Number(getFirstSelectedObject()!.id) : undefined
-      });
-      saveTimeoutRef.current = null;
-    };
-
-    // Debounce saving to avoid too frequent saves (객체 수에 따라 저장 빈도 조절)
-    const saveDelay = canvasObjects.length > 100 ? 5000 : canvasObjects.length > 50 ? 3000 : 1000;
-    saveTimeoutRef.current = setTimeout(saveCurrentSession, saveDelay);
-    
-    return () => {
-      if (saveTimeoutRef.current) {
-        clearTimeout(saveTimeoutRef.current);
-        saveTimeoutRef.current = null;
-      }
-    };
-  }, [
-    canvasObjects, // 실제 콘텐츠 변경 시에만 LT 위치 업데이트
-    currentTypingText, // 타이핑 중인 텍스트 변경
-    fontLoaded
-  ]);
-
-  // Save session before page unload
-  useEffect(() => {
-    const handleBeforeUnload = () => {
-      // 실시간 LT 월드 좌표 사용
-      const currentLTWorld = getCurrentLTWorldPosition();
-      
-      saveSession({
-        canvasObjects,
-        canvasOffset,
-        scale,
-        typewriterPosition: { x: typewriterX, y: typewriterY },
-        typewriterLTWorldPosition: currentLTWorld,
-        currentTypingText,
-        baseFontSize,
-        baseFontSizePt,
-        maxCharsPerLine,
-        showGrid,
-        showTextBox,
-        showInfo,
-        showShortcuts,
-        theme,
-        selectedObjectId: getFirstSelectedObject()?.id ? Number(getFirstSelectedObject()!.id) : undefined
-      });
-    };
-
-    window.addEventListener('beforeunload', handleBeforeUnload);
-    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+    markSessionDirty();
   }, [
-    canvasObjects,
-    // canvasOffset,  // 윈도우 리사이즈 시 LT 고정을 위해 제외
-    scale,
-    // typewriterX,   // 윈도우 리사이즈로 변경되는 값이므로 제외
-    // typewriterY,   // 윈도우 리사이즈로 변경되는 값이므로 제외
     currentTypingText,
-    baseFontSize,
-    baseFontSizePt,
-    maxCharsPerLine,
-    showGrid,
-    showTextBox,
-    showInfo,
-    showShortcuts,
-    theme,
-    selectedObjects
-  ]);
-
-  // UI 상태 변경 시 저장 (LT 위치는 유지) - optimized  
-  const uiSaveTimeoutRef = useRef<number | null>(null);
-  
-  useEffect(() => {
-    if (!fontLoaded) return;
-    
-    // Clear previous timeout to prevent accumulation
-    if (uiSaveTimeoutRef.current) {
-      clearTimeout(uiSaveTimeoutRef.current);
-    }
-    
-    const saveUIState = () => {
-      // UI 상태 변경 시에도 현재 실시간 LT 위치 사용 (더 정확한 위치 추적)
-      const currentLTWorld = getCurrentLTWorldPosition();
-      
-      saveSession({
-        canvasObjects,
-        canvasOffset,
-        scale,
-        typewriterPosition: { x: typewriterX, y: typewriterY },
-        typewriterLTWorldPosition: currentLTWorld, // 현재 실시간 LT 위치 사용
-        currentTypingText,
-        baseFontSize,
-        baseFontSizePt,
-        maxCharsPerLine,
-        showGrid,
-        showTextBox,
-        showInfo,
-        showShortcuts,
-        theme,
-        selectedObjectId: getFirstSelectedObject()?.id ? Number(getFirstSelectedObject()!.id) : undefined
-      });
-      uiSaveTimeoutRef.current = null;
-    };
-
-    uiSaveTimeoutRef.current = setTimeout(saveUIState, 1000);
-    
-    return () => {
-      if (uiSaveTimeoutRef.current) {
-        clearTimeout(uiSaveTimeoutRef.current);
-        uiSaveTimeoutRef.current = null;
-      }
-    };
-  }, [
+    canvasOffset,
     scale,
     baseFontSize,
     baseFontSizePt,
@@ -710,7 +684,7 @@ const InfiniteTypewriterCanvas = () => {
     showShortcuts,
     theme,
     selectedObjects,
-    fontLoaded
+    markSessionDirty
   ]);
   
   // 메모리 누수 방지: measureTextWidth 함수를 캐시
@@ -789,6 +763,33 @@ const InfiniteTypewriterCanvas = () => {
     };
   }, [getTextBoxWidth, typewriterX, typewriterY, baseFontSize, canvasOffset, scale]);
 
+  sessionViewStateRef.current = () => ({
+    canvasOffset,
+    scale,
+    typewriterLTWorldPosition: getCurrentLTWorldPosition(),
+    currentTypingText,
+    baseFontSize,
+    baseFontSizePt,
+    maxCharsPerLine,
+    showGrid,
+    showTextBox,
+    showInfo,
+    showShortcuts,
+    theme,
+    selectedObjectId: getFirstSelectedObject()?.id
+  });
+
+  // 내 타자기 위치와 입력 중인 텍스트를 공동 작업자에게 공유
+  const { isActive: isCollaborating, status: collaborationStatus, updatePresence } = collaboration;
+  useEffect(() => {
+    if (!isCollaborating) return;
+    const ltWorld = getCurrentLTWorldPosition();
+    updatePresence({
+      typewriter: { x: ltWorld.x, y: ltWorld.y, width: getTextBoxWidth() / scale, fontSize: baseFontSize / scale },
+      typingText: currentTypingText
+    });
+  }, [isCollaborating, collaborationStatus, updatePresence, getCurrentLTWorldPosition, getTextBoxWidth, baseFontSize, scale, currentTypingText]);
+
   // LT 위치 복구 처리 (모든 상태가 설정된 후)
   useEffect(() => {
     if (needsLTPositionRestore && fontLoaded && getTextBoxWidth) {
@@ -821,6 +822,53 @@ const InfiniteTypewriterCanvas = () => {
     return isPointInObject(obj, screenX, screenY, scale, worldToScreenLocal, measureTextWidthLocal);
   }, [scale, worldToScreenLocal, measureTextWidthLocal]);
 
+  // 히트 테스트/컬링용 공간 인덱스 (폰트 로드 시 측정값이 바뀌므로 새로 생성)
+  const spatialIndex = useMemo(() => new SpatialIndex(obj =>
+    getObjectWorldBounds(obj, (text, fontSize) => measureTextWidth(text, fontSize, canvasRef.current, fontLoaded))
+  ), [fontLoaded]);
+
+  // 링크 중간점/라벨 인덱스 (렌더링 때 계산된 연결점으로 동기화)
+  const junctionIndex = useMemo(() => new SpatialIndex<LinkJunction>(
+    ({ bounds }) => ({ minX: bounds.left, minY: bounds.top, maxX: bounds.right, maxY: bounds.bottom }),
+    junction => junction.link.id
+  ), []);
+
+  // 조회 직전에 바뀐 노드만 다시 넣음 (같은 배열이면 바로 반환)
+  const getSyncedSpatialIndex = useCallback(() => {
+    spatialIndex.sync(canvasObjects);
+    return spatialIndex;
+  }, [spatialIndex, canvasObjects]);
+
+  const findObjectAtScreenPoint = useCallback((screenX: number, screenY: number) => {
+    const world = screenToWorldLocal(screenX, screenY);
+    return getSyncedSpatialIndex().searchPoint(world.x, world.y, 4 / scale)
+      .find(obj => isPointInObjectLocal(obj, screenX, screenY));
+  }, [getSyncedSpatialIndex, screenToWorldLocal, scale, isPointInObjectLocal]);
+
+  const findObjectAtPinLocal = useCallback((pin: PinPosition) => {
+    // 링크 모드에서는 다른 링크의 중간점에도 연결할 수 있음
+    const junctions = currentMode === CanvasMode.LINK ? junctionIndex.searchPoint(pin.worldX, pin.worldY, 20) : [];
+    return findObjectAtPin(getSyncedSpatialIndex().searchPoint(pin.worldX, pin.worldY, 20), pin, 20, measureTextWidthLocal, junctions);
+  }, [getSyncedSpatialIndex, junctionIndex, measureTextWidthLocal, currentMode]);
+
+  // SELECT 모드에서 핸들이 붙는 선택 상자 (크기/회전을 바꿀 수 있는 텍스트와 미디어만)
+  const getTransformBounds = useCallback((): FrameBounds | null => {
+    if (currentMode !== CanvasMode.SELECT) return null;
+    const ids = new Set(selectedObjects.filter(isTransformableObject).map(obj => obj.id.toString()));
+    if (ids.size === 0) return null;
+    return getSelectionBounds(canvasObjects, ids, canvasRef.current, fontLoaded);
+  }, [currentMode, selectedObjects, canvasObjects, fontLoaded]);
+
+  const getObjectsInSelectionRectLocal = useCallback((rect: SelectionRectangle) => {
+    const candidates = getSyncedSpatialIndex().search({
+      minX: (rect.x - canvasOffset.x) / scale,
+      minY: (rect.y - canvasOffset.y) / scale,
+      maxX: (rect.x + rect.width - canvasOffset.x) / scale,
+      maxY: (rect.y + rect.height - canvasOffset.y) / scale
+    });
+    return getObjectsInSelectionRect(candidates, rect, scale, canvasOffset, measureTextWidthLocal);
+  }, [getSyncedSpatialIndex, scale, canvasOffset, measureTextWidthLocal]);
+
   const centerTypewriter = useCallback(() => {
     setCanvasOffset({
       x: typewriterX,
@@ -828,6 +876,44 @@ const InfiniteTypewriterCanvas = () => {
     });
   }, [typewriterX, typewriterY]);
 
+  // 워크스페이스에서 다른 캔버스로 전환: 내용과 함께 그 캔버스의 화면 상태로 돌아감
+  const applySwitchedCanvas = useCallback((sessionData: SessionData) => {
+    setCanvasObjects(sessionData.canvasObjects);
+    setLinks(sessionData.links);
+    loadSessionData(sessionData.channels, sessionData.messages, sessionData.activeChannelId);
+    setSelectedObjects([]);
+    setSelectedLinks(new Set());
+    // 실행 취소 기록은 이전 캔버스의 것이므로 비움
+    clearHistory();
+
+    const view = sessionData.view;
+    setCurrentTypingText(view?.currentTypingText || '');
+    if (!view) {
+      setScale(1);
+      setTimeout(centerTypewriter, 0);
+      return;
+    }
+    setScale(view.scale);
+    setBaseFontSize(view.baseFontSize);
+    setBaseFontSizePt(view.baseFontSizePt);
+    setMaxCharsPerLine(view.maxCharsPerLine);
+    if (view.typewriterLTWorldPosition) {
+      setNeedsLTPositionRestore(view.typewriterLTWorldPosition);
+    } else {
+      setCanvasOffset(view.canvasOffset);
+    }
+  }, [loadSessionData, clearHistory, centerTypewriter]);
+
+  const handleSwitchCanvas = useCallback(async (sessionId: string) => {
+    const sessionData = await switchCanvas(sessionId);
+    if (sessionData) applySwitchedCanvas(sessionData);
+  }, [switchCanvas, applySwitchedCanvas]);
+
+  const handleCreateCanvas = useCallback(async () => {
+    const sessionData = await createCanvas();
+    if (sessionData) applySwitchedCanvas(sessionData);
+  }, [createCanvas, applySwitchedCanvas]);
+
   useEffect(() => {
     const handleResize = () => {
       // 1. 실시간 LT World 좌표 사용 (세션 데이터 지연 문제 해결)
@@ -883,9 +969,17 @@ const InfiniteTypewriterCanvas = () => {
 
 
   const drawCanvasObjectsLocal = useCallback((ctx: CanvasRenderingContext2D) => {
+    // 화면 밖 노드는 그리지 않음 (여백은 하이라이트/핸들용)
+    const margin = 200 / scale;
+    const visibleObjects = getSyncedSpatialIndex().search({
+      minX: -canvasOffset.x / scale - margin,
+      minY: -canvasOffset.y / scale - margin,
+      maxX: (canvasWidth - canvasOffset.x) / scale + margin,
+      maxY: (canvasHeight - canvasOffset.y) / scale + margin
+    });
     drawCanvasObjects(
       ctx,
-      canvasObjects,
+      visibleObjects,
       scale,
       getFirstSelectedObject(),
       canvasWidth,
@@ -896,7 +990,7 @@ const InfiniteTypewriterCanvas = () => {
       THEME_COLORS,
       selectedObjects
     );
-  }, [canvasObjects, scale, canvasWidth, canvasHeight, worldToScreenLocal, measureTextWidthLocal, theme, selectedObjects]);
+  }, [getSyncedSpatialIndex, canvasOffset, scale, canvasWidth, canvasHeight, worldToScreenLocal, measureTextWidthLocal, theme, selectedObjects]);
 
   // 드래그 프리뷰 객체 렌더링 함수 (호버 스타일과 동일한 보더박스)
   const drawDragPreviewObjects = useCallback((ctx: CanvasRenderingContext2D) => {
@@ -947,6 +1041,11 @@ const InfiniteTypewriterCanvas = () => {
       }
     }
     
+    // 검색 결과 하이라이트
+    if (searchHighlights.length > 0) {
+      drawSearchHighlights(ctx, searchHighlights, scale, canvasOffset, measureTextWidthLocal, theme);
+    }
+
     // 단일 선택된 오브젝트 하이라이트는 나중에 그림 (X버튼이 가려지지 않도록)
     
     // 드래그 프리뷰 표시 (드래그 중일 때만)
@@ -961,17 +1060,15 @@ const InfiniteTypewriterCanvas = () => {
     
     // Multi-mode system rendering
     
-    // Render links
-    links.forEach(link => {
-      const fromObject = canvasObjects.find(obj => obj.id.toString() === link.from);
-      const toObject = canvasObjects.find(obj => obj.id.toString() === link.to);
-      
-      if (fromObject && toObject) {
-        const isSelected = selectedLinks.has(link.id);
-        const isHovered = hoveredLink?.id === link.id;
-        renderLink(ctx, link, fromObject, toObject, scale, canvasOffset, isSelected, isHovered, measureTextWidthLocal);
-      }
+    // Render links (직교 경로는 다른 노드를 피함)
+    const linkObstacles = getLinkObstacles(canvasObjects, measureTextWidthLocal);
+    resolveLinkEnds(links, canvasObjects, measureTextWidthLocal, linkObstacles).forEach(({ link, fromObject, toObject }) => {
+      const isSelected = selectedLinks.has(link.id);
+      const isHovered = hoveredLink?.id === link.id;
+      renderLink(ctx, link, fromObject, toObject, scale, canvasOffset, isSelected, isHovered, measureTextWidthLocal, linkObstacles, THEME_COLORS[theme].background);
     });
+    // 방금 계산된 연결점으로 링크 대상 인덱스 갱신 (바뀐 연결점만 다시 넣음)
+    junctionIndex.sync(getLinkJunctions(links));
     
     // Render link preview (Link mode)
     if (currentMode === CanvasMode.LINK && linkState.previewPath) {
@@ -1065,6 +1162,12 @@ const InfiniteTypewriterCanvas = () => {
       ctx.restore();
     }
     
+    // 크기/회전 핸들 (X버튼보다 먼저 그려서 버튼이 위에 오도록)
+    const transformBounds = getTransformBounds();
+    if (transformBounds && !isDraggingText) {
+      drawTransformHandles(ctx, transformBounds, scale, canvasOffset, theme);
+    }
+    
     // ========== 맨 마지막에 X버튼들 렌더링 (가려지지 않도록) ==========
     
     // 선택된 오브젝트들에 대한 X버튼 렌더링 (모든 개수에서)
@@ -1079,6 +1182,7 @@ const InfiniteTypewriterCanvas = () => {
         .forEach((obj) => {
           drawSingleSelectHighlight(ctx, obj, scale, canvasOffset, measureTextWidthLocal, theme, () => {
             // 개별 오브젝트 삭제
+            pushUndo('Delete');
             setCanvasObjects(prev => prev.filter(item => item.id !== obj.id));
             // 선택된 오브젝트 목록에서도 제거
             setSelectedObjects(prev => prev.filter(item => item.id !== obj.id));
@@ -1086,7 +1190,7 @@ const InfiniteTypewriterCanvas = () => {
         });
     }
     
-    }, [canvasWidth, canvasHeight, theme, showGrid, drawGridLocal, drawCanvasObjectsLocal, hoveredObject, selectedObjects, selectionRect, isSelecting, scale, worldToScreenLocal, canvasOffset, measureTextWidthLocal, currentMode, links, linkState, selectionState, pinPosition, pinHoveredObject]);
+    }, [canvasWidth, canvasHeight, theme, showGrid, drawGridLocal, drawCanvasObjectsLocal, hoveredObject, selectedObjects, selectionRect, isSelecting, scale, worldToScreenLocal, canvasOffset, measureTextWidthLocal, currentMode, links, linkState, selectionState, pinPosition, pinHoveredObject, mediaLoadTick, searchHighlights, getTransformBounds, junctionIndex]);
 
   const animationRef = useRef<number | null>(null);
   const renderTriggeredRef = useRef(false);
@@ -1145,13 +1249,14 @@ const InfiniteTypewriterCanvas = () => {
   const exportAsPNG = useMemo(() => 
     createPNGExporter(
       canvasObjects,
+      links,
       currentTypingText,
       baseFontSize,
       getCurrentWorldPosition,
       theme,
       THEME_COLORS
     ),
-    [canvasObjects, currentTypingText, baseFontSize, getCurrentWorldPosition, theme]
+    [canvasObjects, links, currentTypingText, baseFontSize, getCurrentWorldPosition, theme]
   );
 
   const exportAsJSON = useMemo(() =>
@@ -1171,12 +1276,33 @@ const InfiniteTypewriterCanvas = () => {
   const exportAsSVG = useMemo(() =>
     createSVGExporter(
       canvasObjects,
+      links,
       currentTypingText,
       baseFontSize,
       getCurrentWorldPosition,
       theme
     ),
-    [canvasObjects, currentTypingText, baseFontSize, getCurrentWorldPosition, theme]
+    [canvasObjects, links, currentTypingText, baseFontSize, getCurrentWorldPosition, theme]
+  );
+
+  const exportForFigma = useMemo(() =>
+    createFigmaExporter(
+      canvasObjects,
+      links,
+      theme,
+      THEME_COLORS
+    ),
+    [canvasObjects, links, theme]
+  );
+
+  const exportAsMarkdown = useMemo(() =>
+    createMarkdownExporter(canvasObjects, links),
+    [canvasObjects, links]
+  );
+
+  const exportAsPDF = useMemo(() =>
+    createPDFExporter(canvasObjects),
+    [canvasObjects]
   );
 
   // const handleAddA4Guide = useCallback(() => {
@@ -1203,8 +1329,9 @@ const InfiniteTypewriterCanvas = () => {
   //   setCanvasObjects(prev => [
   //     ...prev,
   //     {
-  //       id: Date.now(),
-  //       type: 'a4guide',
+  //       id: generateNodeId(),
+  //       type: 'guide',
+  //       guideType: 'a4',
   //       x: a4Guide.x,
   //       y: a4Guide.y,
   //       width: a4Guide.width,
@@ -1223,22 +1350,61 @@ const InfiniteTypewriterCanvas = () => {
       try {
         const result = e.target?.result;
         if (!result || typeof result !== 'string') throw new Error('Invalid file');
+
+        // Markdown은 타이프라이터 위치부터 줄 단위로 배치하고 그 아래로 타이프라이터를 옮김
+        if (/\.(md|markdown)$/i.test(file.name)) {
+          const worldFontSize = baseFontSize / scale;
+          const imported = importMarkdownToCanvas(result, {
+            origin: getCurrentWorldPosition(),
+            fontSize: worldFontSize,
+            maxCharsPerLine
+          });
+          if (imported.canvasObjects.length === 0) return;
+          pushUndo('Import Markdown');
+          setCanvasObjects(prev => [...prev, ...imported.canvasObjects]);
+          setLinks(prev => [...prev, ...imported.links]);
+          setCanvasOffset(prev => ({
+            x: prev.x,
+            y: prev.y - imported.lineCount * worldFontSize * 1.6 * scale
+          }));
+          return;
+        }
+
         const data = JSON.parse(result);
         
+        // Figma export 문서 라운드트립
+        if (isFigmaExportDocument(data)) {
+          const imported = importFigmaExportDocument(data, THEME_COLORS[theme]);
+          setCurrentTypingText('');
+          clearSelection();
+          setCanvasObjects(imported.canvasObjects);
+          setLinks(imported.links);
+          return;
+        }
+
         if (data.type === "infinite-typewriter-canvas" && data.elements) {
           setCanvasObjects([]);
           setCurrentTypingText('');
           clearSelection();
           
-          const importedObjects = data.elements.map((elem: any) => ({
-            id: elem.id || Date.now() + Math.random(),
-            type: 'text' as const,
-            content: elem.content || '',
-            x: elem.x || 0,
-            y: elem.y || 0,
-            scale: elem.scale || 1,
-            fontSize: elem.fontSize || 20, // 저장된 폰트 크기 로드 (20px = 10pt)
-          }));
+          const importedObjects = data.elements.map((elem: any) => {
+            // 이미지/비디오/가이드는 저장된 속성 그대로 복원
+            if ((elem.type === 'image' || elem.type === 'video') && elem.src) {
+              return { ...elem, id: elem.id || generateNodeId() } as MediaNode;
+            }
+            if (elem.type === 'guide') {
+              return { ...elem, id: elem.id || generateNodeId() } as GuideObject;
+            }
+            return {
+              id: elem.id || generateNodeId(),
+              type: 'text' as const,
+              content: elem.content || '',
+              x: elem.x || 0,
+              y: elem.y || 0,
+              scale: elem.scale || 1,
+              fontSize: elem.fontSize || 20, // 저장된 폰트 크기 로드 (20px = 10pt)
+            };
+          });
           
           setCanvasObjects(importedObjects);
           
@@ -1297,12 +1463,12 @@ const InfiniteTypewriterCanvas = () => {
             );
             setPinPosition(newPinPosition);
             
-            const hoveredObjectAtPin = findObjectAtPin(canvasObjects, newPinPosition, 20, measureTextWidthLocal);
+            const hoveredObjectAtPin = findObjectAtPinLocal(newPinPosition);
             setPinHoveredObject(hoveredObjectAtPin);
             setHoveredObject(hoveredObjectAtPin);
           } else {
             // When switching between link and select modes, just update hover detection
-            const hoveredObjectAtPin = findObjectAtPin(canvasObjects, pinPosition, 20, measureTextWidthLocal);
+            const hoveredObjectAtPin = findObjectAtPinLocal(pinPosition);
             setPinHoveredObject(hoveredObjectAtPin);
             setHoveredObject(hoveredObjectAtPin);
           }
@@ -1378,8 +1544,8 @@ const InfiniteTypewriterCanvas = () => {
           e.preventDefault();
         } else if (currentMode === CanvasMode.LINK) {
           // Link mode: Space key to select source/target objects
-          const objectAtPin = findObjectAtPin(canvasObjects, pinPosition, 20, measureTextWidthLocal);
-          if (objectAtPin && objectAtPin.type === 'text') {
+          const objectAtPin = findObjectAtPinLocal(pinPosition);
+          if (objectAtPin && isLinkableObject(objectAtPin)) {
             if (!linkState.sourceObjectId) {
               // Select source object and start preview
               // Calculate optimal connection point based on pin position
@@ -1433,13 +1599,7 @@ const InfiniteTypewriterCanvas = () => {
         } else if (currentMode === CanvasMode.SELECT) {
           // Select mode: Space key to select objects in current area
           if (isSelecting && selectionRect) {
-            const objectsInArea = getObjectsInSelectionRect(
-              canvasObjects,
-              selectionRect,
-              scale,
-              canvasOffset,
-              measureTextWidthLocal
-            );
+            const objectsInArea = getObjectsInSelectionRectLocal(selectionRect);
             
             const newSelection = { ...selectionState };
             objectsInArea.forEach(obj => {
@@ -1453,7 +1613,7 @@ const InfiniteTypewriterCanvas = () => {
             clearSelection();
           } else {
             // Select object at pin position
-            const objectAtPin = findObjectAtPin(canvasObjects, pinPosition, 20, measureTextWidthLocal);
+            const objectAtPin = findObjectAtPinLocal(pinPosition);
             if (objectAtPin && objectAtPin.type && objectAtPin.id !== undefined) {
               console.log('Found object at pin:', objectAtPin.id, objectAtPin.type);
               console.log('Current selected objects:', selectedObjects.filter(obj => obj).map(obj => obj.id));
@@ -1547,7 +1707,7 @@ const InfiniteTypewriterCanvas = () => {
             setPinPosition(newPin);
             
             // Check for object at pin position after canvas move
-            const hoveredObjectAtPin = findObjectAtPin(canvasObjects, newPin, 20, measureTextWidthLocal);
+            const hoveredObjectAtPin = findObjectAtPinLocal(newPin);
             setPinHoveredObject(hoveredObjectAtPin);
             setHoveredObject(hoveredObjectAtPin);
             
@@ -1577,6 +1737,7 @@ const InfiniteTypewriterCanvas = () => {
                 // Convert to Set for moveSelectedObjects function
                 const selectedIds = new Set(objectsToMove.map(obj => obj.id.toString()));
                 const newObjects = moveSelectedObjects(canvasObjects, selectedIds, worldDeltaX, worldDeltaY);
+                pushUndo('Move'); // 연속 이동은 히스토리에서 하나로 병합됨
                 setCanvasObjects(newObjects);
                 console.log('✅ Movement completed');
                 
@@ -1605,14 +1766,15 @@ const InfiniteTypewriterCanvas = () => {
             setPinPosition(newPin);
             
             // Check for object at new pin position for hover effect
-            const hoveredObjectAtPin = findObjectAtPin(canvasObjects, newPin, 20, measureTextWidthLocal);
+            const hoveredObjectAtPin = findObjectAtPinLocal(newPin);
             setPinHoveredObject(hoveredObjectAtPin);
             setHoveredObject(hoveredObjectAtPin);
             
             // Update link preview if in link mode
             if (currentMode === CanvasMode.LINK && linkState.sourceObjectId) {
-              const sourceObject = canvasObjects.find(obj => obj.id.toString() === linkState.sourceObjectId);
-              if (sourceObject && sourceObject.type === 'text') {
+              const sourceObject = canvasObjects.find(obj => obj.id.toString() === linkState.sourceObjectId)
+                ?? links.find(link => link.id === linkState.sourceObjectId);
+              if (sourceObject && isLinkableObject(sourceObject)) {
                 // Calculate optimal connection point based on pin position
                 const connectionPoint = calculatePreviewConnectionPoint(
                   sourceObject,
@@ -1663,7 +1825,7 @@ const InfiniteTypewriterCanvas = () => {
       window.removeEventListener('keydown', handleGlobalKeyDown);
       window.removeEventListener('keyup', handleGlobalKeyUp);
     };
-  }, [currentMode, pinPosition, linkState, selectionState, canvasObjects, links, canvasOffset, scale]);
+  }, [currentMode, pinPosition, linkState, selectionState, canvasObjects, links, canvasOffset, scale, findObjectAtPinLocal, getObjectsInSelectionRectLocal]);
 
   // Focus canvas when switching to Link or Select mode
   useEffect(() => {
@@ -1815,7 +1977,11 @@ const InfiniteTypewriterCanvas = () => {
       if (isComposing) return;
       const input = document.getElementById('typewriter-input') as HTMLInputElement;
       const isInputFocused = document.activeElement === input;
-      if (e.key === 'Escape') {
+      // AI 스트리밍 중 Escape → 요청 취소 (받은 부분까지는 캔버스에 남김)
+      if (e.key === 'Escape' && aiAbortControllerRef.current) {
+        e.preventDefault();
+        aiAbortControllerRef.current.abort();
+        return;
       }
       const currentZoomIndex = findZoomLevel(scale, CANVAS_ZOOM_LEVELS);
       // Display Font Size: Ctrl/Cmd + +/- (화면에 표시되는 폰트 크기 조정)
@@ -1838,6 +2004,10 @@ const InfiniteTypewriterCanvas = () => {
           resetBaseFont(); // Alt+0 액션 (Logical Font Size 리셋)
           resetUIZoom();   // Cmd+0 액션 (Display Font Size 리셋)
           return;
+        } else if (e.key === 'f' || e.key === 'F') {
+          e.preventDefault();
+          if (!showSearch) toggleSearch();
+          return;
         } else if (e.key === 'c' || e.key === 'C') {
           e.preventDefault();
           // Copy functionality for multi-selected objects
@@ -1911,6 +2081,7 @@ const InfiniteTypewriterCanvas = () => {
         if (currentMode === CanvasMode.SELECT && selectionState.selectedObjects.size > 0) {
           // Delete objects selected in Select mode
           const selectedIds = Array.from(selectionState.selectedObjects);
+          pushUndo('Delete');
           setCanvasObjects(prev => prev.filter(obj => !selectedIds.includes(obj.id.toString())));
           
           // Clear selection state
@@ -1920,11 +2091,13 @@ const InfiniteTypewriterCanvas = () => {
         } else if (selectedObjects.length > 0) {
           // Delete selected objects
           const selectedIds = selectedObjects.map(obj => obj.id);
+          pushUndo('Delete');
           setCanvasObjects(prev => prev.filter(obj => !selectedIds.includes(obj.id)));
           clearSelection();
         } else if (selectedLinks.size > 0) {
           // Delete selected links
           const selectedLinkIds = Array.from(selectedLinks);
+          pushUndo('Delete link');
           setLinks(prev => prev.filter(link => !selectedLinkIds.includes(link.id)));
           setSelectedLinks(new Set());
         }
@@ -1949,30 +2122,6 @@ const InfiniteTypewriterCanvas = () => {
             }
           })();
 
-          // 방향키 이동 후 세션 데이터 업데이트 (비동기)
-          setTimeout(() => {
-            const currentLTWorldPosition = getCurrentLTWorldPosition();
-            if (currentLTWorldPosition) {
-              saveSession({
-                canvasObjects,
-                canvasOffset: newOffset,
-                scale,
-                typewriterPosition: { x: typewriterX, y: typewriterY },
-                typewriterLTWorldPosition: currentLTWorldPosition,
-                currentTypingText,
-                baseFontSize,
-                baseFontSizePt,
-                maxCharsPerLine,
-                showGrid,
-                showTextBox,
-                showInfo,
-                showShortcuts,
-                theme,
-                selectedObjectId: getFirstSelectedObject()?.id ? Number(getFirstSelectedObject()!.id) : undefined
-              });
-            }
-          }, 0);
-
           return newOffset;
         });
         return;
@@ -1980,7 +2129,7 @@ const InfiniteTypewriterCanvas = () => {
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [scale, selectedObjects, getCurrentLineHeight, zoomToLevel, setCanvasObjects, setSelectedObjects, setCanvasOffset, handleUISizeChange, handleBaseFontSizeChange, resetUIZoom, resetBaseFont, resetCanvas, clearAllChannelsAndMessages]);
+  }, [scale, selectedObjects, getCurrentLineHeight, zoomToLevel, setCanvasObjects, setSelectedObjects, setCanvasOffset, handleUISizeChange, handleBaseFontSizeChange, resetUIZoom, resetBaseFont, resetCanvas, clearAllChannelsAndMessages, showSearch, toggleSearch]);
 
   // Mouse events
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
@@ -2008,7 +2157,26 @@ const InfiniteTypewriterCanvas = () => {
       }
     }
     
-    const clickedObject = canvasObjects.find(obj => isPointInObjectLocal(obj, mouseX, mouseY));
+    // 선택 상자의 핸들을 잡으면 크기 조절/회전 시작 (객체 클릭보다 우선)
+    const transformBounds = getTransformBounds();
+    const transformHandle = transformBounds && !isSpacePressed
+      ? findTransformHandle(transformBounds, mouseX, mouseY, scale, canvasOffset)
+      : null;
+    if (transformBounds && transformHandle) {
+      const selectedIds = new Set(selectedObjects.map(obj => obj.id));
+      pushUndo(transformHandle === 'rotate' ? 'Rotate' : transformHandle.length === 2 ? 'Scale' : 'Resize');
+      setTransformDrag({
+        handle: transformHandle,
+        bounds: transformBounds,
+        startObjects: canvasObjects.filter(obj => selectedIds.has(obj.id) && isTransformableObject(obj)),
+        startPointer: screenToWorldLocal(mouseX, mouseY)
+      });
+      if (canvasRef.current) canvasRef.current.style.cursor = TRANSFORM_HANDLE_CURSORS[transformHandle];
+      e.preventDefault();
+      return;
+    }
+    
+    const clickedObject = findObjectAtScreenPoint(mouseX, mouseY);
     
     if (currentMode === CanvasMode.SELECT) {
       console.log('🔍 SELECT mode mouse down:', { 
@@ -2032,15 +2200,15 @@ const InfiniteTypewriterCanvas = () => {
     if (currentMode === CanvasMode.LINK) {
       // Link mode: Handle object selection for link creation - PRIORITY OVER NORMAL SELECTION
       console.log('🔗 LINK mode click detected', { mouseX, mouseY, currentMode, linkState });
-      const objectAtClick = findObjectAtPin(canvasObjects, {
+      const objectAtClick = findObjectAtPinLocal({
         x: mouseX,
         y: mouseY,
         worldX: (mouseX - canvasOffset.x) / scale,
         worldY: (mouseY - canvasOffset.y) / scale
-      }, 20, measureTextWidthLocal);
+      });
       console.log('🎯 Object at click:', objectAtClick);
       
-      if (objectAtClick && objectAtClick.type === 'text') {
+      if (objectAtClick && isLinkableObject(objectAtClick)) {
         if (!linkState.sourceObjectId) {
           // First click: Select source object
           console.log('🟢 First click - selecting source object:', objectAtClick.id);
@@ -2082,6 +2250,7 @@ const InfiniteTypewriterCanvas = () => {
             linkState.sourceObjectId,
             objectAtClick.id.toString()
           );
+          pushUndo('Link');
           setLinks(prev => [...prev, newLink]);
           
           // Reset link state
@@ -2129,6 +2298,7 @@ const InfiniteTypewriterCanvas = () => {
           }
           
           // Enable dragging for all selected objects
+          pushUndo('Move'); // 클릭만 하고 놓으면 바뀐 게 없어 기록되지 않음
           setIsDraggingText(true);
           setDragStart({ x: mouseX, y: mouseY });
           if (canvasRef.current) canvasRef.current.style.cursor = 'grabbing';
@@ -2193,6 +2363,7 @@ const InfiniteTypewriterCanvas = () => {
         
         if (isClickedObjectSelected && selectedObjects.length > 1) {
           // If clicked object is part of multi-selection, drag all selected objects
+          pushUndo('Move');
           setIsDraggingText(true);
           setDragStart({ x: mouseX, y: mouseY });
           if (canvasRef.current) canvasRef.current.style.cursor = 'grabbing';
@@ -2200,6 +2371,7 @@ const InfiniteTypewriterCanvas = () => {
         } else {
           // Single object selection and drag
           setSelectedObjects([clickedObject]);
+          pushUndo('Move');
           setIsDraggingText(true);
           setDragStart({ x: mouseX, y: mouseY });
           if (canvasRef.current) canvasRef.current.style.cursor = 'grabbing';
@@ -2283,6 +2455,31 @@ const InfiniteTypewriterCanvas = () => {
     // 마우스 위치 업데이트 및 텍스트박스 영역 확인
     setMousePosition({ x: mouseX, y: mouseY });
     setIsMouseInTextBox(isPointInTextBox(mouseX, mouseY));
+    collaboration.updateCursor(screenToWorldLocal(mouseX, mouseY));
+    
+    // 핸들 드래그: 시작 시점의 객체에서 매번 다시 계산 (오차가 쌓이지 않도록)
+    if (transformDrag) {
+      const { handle, bounds, startObjects, startPointer } = transformDrag;
+      const pointer = screenToWorldLocal(mouseX, mouseY);
+      let transformed: CanvasObject[];
+      if (handle === 'rotate') {
+        const center = { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 };
+        const angle = (point: { x: number; y: number }) => Math.atan2(point.y - center.y, point.x - center.x) * 180 / Math.PI;
+        let degrees = angle(pointer) - angle(startPointer);
+        if (e.shiftKey) {
+          // 객체 하나면 최종 각도를, 여럿이면 회전량을 단위에 맞춤
+          const base = startObjects.length === 1 ? (startObjects[0] as TextObject | MediaNode).rotation ?? 0 : 0;
+          degrees = Math.round((base + degrees) / ROTATION_SNAP_DEGREES) * ROTATION_SNAP_DEGREES - base;
+        }
+        transformed = rotateObjects(startObjects, center, degrees, measureTextWidthLocal);
+      } else {
+        transformed = resizeObjects(startObjects, handle, bounds, pointer, measureTextWidthLocal);
+      }
+      const transformedById = new Map(transformed.map(obj => [obj.id, obj]));
+      setCanvasObjects(prev => prev.map(obj => transformedById.get(obj.id) ?? obj));
+      setSelectedObjects(prev => prev.map(obj => transformedById.get(obj.id) ?? obj));
+      return;
+    }
     
     // Check for link hovering (only if not dragging)
     if (!isDragging && !isDraggingText) {
@@ -2310,12 +2507,16 @@ const InfiniteTypewriterCanvas = () => {
     
     // 마우스가 오브젝트 위에 있는지 확인 (드래그 중이 아닐 때만)
     if (!isDraggingText) {
-      const objectUnderMouse = canvasObjects.find(obj => isPointInObjectLocal(obj, mouseX, mouseY));
+      const objectUnderMouse = findObjectAtScreenPoint(mouseX, mouseY);
       setHoveredObject(objectUnderMouse || null);
       
       // Set cursor based on what we're hovering over
       if (!isHoveringDeleteButton) {
-        if (objectUnderMouse) {
+        const transformBounds = getTransformBounds();
+        const hoveredHandle = transformBounds && findTransformHandle(transformBounds, mouseX, mouseY, scale, canvasOffset);
+        if (hoveredHandle) {
+          if (canvasRef.current) canvasRef.current.style.cursor = TRANSFORM_HANDLE_CURSORS[hoveredHandle];
+        } else if (objectUnderMouse) {
           if (canvasRef.current) canvasRef.current.style.cursor = 'grab';
         } else {
           if (canvasRef.current) canvasRef.current.style.cursor = 'default';
@@ -2447,13 +2648,7 @@ const InfiniteTypewriterCanvas = () => {
       setSelectionRect(currentRect);
       
       // Find objects in selection area
-      const selectedObjs = getObjectsInSelectionRect(
-        canvasObjects,
-        currentRect,
-        scale,
-        canvasOffset,
-        measureTextWidthLocal
-      );
+      const selectedObjs = getObjectsInSelectionRectLocal(currentRect);
       setSelectedObjects(selectedObjs);
       
       if (currentMode === CanvasMode.SELECT) {
@@ -2542,6 +2737,7 @@ const InfiniteTypewriterCanvas = () => {
     
     setIsDragging(false);
     setIsDraggingText(false);
+    setTransformDrag(null);
     
     // Reset cursor after dragging
     if (canvasRef.current) canvasRef.current.style.cursor = 'default';
@@ -2615,6 +2811,7 @@ const InfiniteTypewriterCanvas = () => {
 
   const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setCurrentTypingText(e.target.value);
+    setCommandOutput(null);
     setIsTyping(true);
     setTimeout(() => setIsTyping(false), 100);
   };
@@ -2652,130 +2849,212 @@ const InfiniteTypewriterCanvas = () => {
     }
   }, [currentMode, showTextBox]);
 
-  // [UNDO/REDO] 상태 스냅샷 타입 정의
-  interface CanvasSnapshot {
-    canvasObjects: CanvasObject[];
-    canvasOffset: { x: number; y: number };
-    scale: number;
-    currentTypingText: string;
-    baseFontSize: number;
-  }
-
-  const [undoStack, setUndoStack] = useState<CanvasSnapshot[]>([]);
-  const [redoStack, setRedoStack] = useState<CanvasSnapshot[]>([]);
-
-  // [UNDO/REDO] 현재 상태를 스냅샷으로 반환하는 함수
-  const getSnapshot = useCallback((): CanvasSnapshot => ({
-    canvasObjects: JSON.parse(JSON.stringify(canvasObjects)),
-    canvasOffset: { ...canvasOffset },
-    scale,
-    currentTypingText,
-    baseFontSize,
-  }), [canvasObjects, canvasOffset, scale, currentTypingText, baseFontSize]);
+  // [UNDO/REDO] 현재 상태 참조 (복사하지 않음). 히스토리는 canvasStore에서 연산 단위로 관리
+  const historyStateRef = useRef<HistoryState>({ canvasObjects, links, canvasOffset, scale, currentTypingText });
+  historyStateRef.current = { canvasObjects, links, canvasOffset, scale, currentTypingText };
 
-  // [UNDO/REDO] 스냅샷을 상태에 적용하는 함수
-  const applySnapshot = useCallback((snap: CanvasSnapshot) => {
+  // [UNDO/REDO] 히스토리 상태를 캔버스에 적용하는 함수
+  const applyHistoryState = useCallback((next: HistoryState) => {
     // 핀 위치가 있다면 월드 좌표 업데이트
     if (pinPosition) {
       const updatedPin = {
         ...pinPosition,
-        worldX: (pinPosition.x - snap.canvasOffset.x) / snap.scale,
-        worldY: (pinPosition.y - snap.canvasOffset.y) / snap.scale
+        worldX: (pinPosition.x - next.canvasOffset.x) / next.scale,
+        worldY: (pinPosition.y - next.canvasOffset.y) / next.scale
       };
       setPinPosition(updatedPin);
     }
-    
-    setCanvasObjects(snap.canvasObjects);
-    setCanvasOffset(snap.canvasOffset);
-    setScale(snap.scale);
-    setCurrentTypingText(snap.currentTypingText);
-    setBaseFontSize(snap.baseFontSize);
-  }, [setCanvasObjects, setCanvasOffset, setScale, setCurrentTypingText, setBaseFontSize, pinPosition]);
 
-  // [UNDO/REDO] 상태 변경 시 undoStack에 push
-  const pushUndo = useCallback(() => {
-    setUndoStack(prev => [...prev, getSnapshot()]);
-    setRedoStack([]); // 새로운 작업이 발생하면 redo 스택 초기화
-  }, [getSnapshot]);
+    setCanvasObjects(next.canvasObjects);
+    setLinks(next.links);
+    setCanvasOffset(next.canvasOffset);
+    setScale(next.scale);
+    setCurrentTypingText(next.currentTypingText);
+    // 선택 하이라이트가 되돌린 위치를 따라가도록 갱신
+    const byId = new Map(next.canvasObjects.map(obj => [obj.id, obj]));
+    setSelectedObjects(prev => prev.map(obj => byId.get(obj.id)).filter((obj): obj is CanvasObject => !!obj));
+    // 렌더 전에 연속으로 undo해도 최신 상태에서 이어지도록
+    historyStateRef.current = next;
+  }, [setCanvasObjects, setCanvasOffset, setScale, setCurrentTypingText, pinPosition]);
+
+  // [UNDO/REDO] 상태 변경 직전에 호출. 바뀐 부분은 다음 동작이나 undo 시점에 기록됨
+  const pushUndo = useCallback((label: string) => {
+    beginHistory(label, historyStateRef.current);
+  }, [beginHistory]);
+
+  // 리비전 복원: 복원 전 내용도 리비전으로 남기고, 한 번의 undo로 되돌릴 수 있게 기록
+  const handleRestoreRevision = useCallback(async (revision: SessionRevision, objectIds?: string[]) => {
+    await recordCurrentRevision('Before restore');
+    const current = historyStateRef.current;
+    const next = objectIds
+      ? restoreFromRevision(current, revision, objectIds)
+      : { canvasObjects: revision.canvasObjects, links: revision.links };
+
+    pushUndo(objectIds ? 'Restore from revision' : 'Restore revision');
+    setCanvasObjects(next.canvasObjects);
+    setLinks(next.links);
+    const byId = new Map(next.canvasObjects.map(obj => [obj.id, obj]));
+    setSelectedObjects(prev => prev.map(obj => byId.get(obj.id)).filter((obj): obj is CanvasObject => !!obj));
+  }, [recordCurrentRevision, pushUndo]);
 
   // [UNDO/REDO] undo 함수
   const handleUndo = useCallback(() => {
-    setUndoStack(prev => {
-      if (prev.length === 0) return prev;
-      const last = prev[prev.length - 1];
-      setRedoStack(r => [...r, getSnapshot()]);
-      applySnapshot(last);
-      return prev.slice(0, -1);
-    });
-  }, [applySnapshot, getSnapshot]);
+    cancelObjectAnimation();
+    const entry = undoHistory(historyStateRef.current);
+    if (entry) {
+      applyHistoryState(applyHistoryOperations(historyStateRef.current, entry.operations, 'undo'));
+    }
+  }, [undoHistory, applyHistoryState, cancelObjectAnimation]);
 
   // [UNDO/REDO] redo 함수
   const handleRedo = useCallback(() => {
-    setRedoStack(prev => {
-      if (prev.length === 0) return prev;
-      const last = prev[prev.length - 1];
-      setUndoStack(u => [...u, getSnapshot()]);
-      applySnapshot(last);
-      return prev.slice(0, -1);
-    });
-  }, [applySnapshot, getSnapshot]);
+    cancelObjectAnimation();
+    const entry = redoHistory(historyStateRef.current);
+    if (entry) {
+      applyHistoryState(applyHistoryOperations(historyStateRef.current, entry.operations, 'redo'));
+    }
+  }, [redoHistory, applyHistoryState, cancelObjectAnimation]);
+
+  // [UNDO/REDO] 히스토리 패널에서 선택한 시점으로 이동
+  const handleJumpToHistory = useCallback((rowIndex: number) => {
+    cancelObjectAnimation();
+    const state = jumpToHistory(rowIndex, historyStateRef.current);
+    if (state !== historyStateRef.current) {
+      applyHistoryState(state);
+    }
+  }, [jumpToHistory, applyHistoryState, cancelObjectAnimation]);
 
-  // AI 처리 함수
-  const processAICommand = useCallback(async (command: AICommand) => {
+  // AI 처리 함수 - 스트리밍으로 도착하는 토큰을 타이프라이터 위치에 바로 그림
+  const processAICommand = useCallback(async (command: AICommand, thread: AIThreadTurn) => {
     setAIState(prev => ({ ...prev, isProcessing: true, error: null }));
+
+    const controller = new AbortController();
+    aiAbortControllerRef.current = controller;
+
+    // 응답을 현재 타이프라이터 박스 폭에 맞게 줄바꿈 처리
+    // 월드 좌표계 기준으로 통일해서 UI 픽셀 크기와 무관하게 일관된 결과 보장
+    const worldFontSize = baseFontSize / scale;
+    const textBoxPixelWidth = getTextBoxWidth();
+    const worldBoxWidth = textBoxPixelWidth / scale; // 월드 좌표계 폭으로 변환
+    const worldLineHeight = worldFontSize * 1.6;
+    const worldPos = getCurrentWorldPosition();
+    const baseId = generateNodeId();
+
+    let renderedLineCount = 0;
+    let renderedContent = '';
+    let pendingContent: string | null = null;
+    let frameId: number | null = null;
+
+    // 지금까지 받은 내용을 줄바꿈해서 스트리밍 중인 텍스트 오브젝트들을 교체
+    const renderStreamedContent = (content: string) => {
+      const wrappedLines = wrapTextToLines(
+        content, 
+        maxCharsPerLine, 
+        worldBoxWidth, 
+        worldFontSize, 
+        (text: string, fontSize: number) => measureTextWidthLocal(text, fontSize) / scale
+      );
+
+      if (renderedLineCount === 0 && wrappedLines.length > 0) {
+        pushUndo('AI answer'); // 첫 토큰이 그려지기 전에 시작 (응답 전체가 한 번에 undo됨)
+        // 질문 → 답변 첫 줄을 링크로 연결해 스레드를 캔버스에 표시
+        setLinks(prev => [...prev, createLink(thread.questionId, `${baseId}-0`, 'arrow', AI_THREAD_LINK_COLOR)]);
+      }
+
+      // 각 줄을 별도의 텍스트 오브젝트로 생성 (현재 타이프라이터 위치에서 시작)
+      const streamedIds = new Set(
+        Array.from({ length: Math.max(renderedLineCount, wrappedLines.length) }, (_, index) => `${baseId}-${index}`)
+      );
+      const newObjects = wrappedLines.map((line, index) => ({
+        type: 'text' as const,
+        content: line,
+        x: worldPos.x,
+        y: worldPos.y + ((index + 1) * worldLineHeight),
+        scale: 1,
+        fontSize: worldFontSize,
+        id: `${baseId}-${index}`,
+        isAIResponse: true,
+        color: '#3b82f6',
+        aiThread: { threadId: thread.threadId, turn: thread.turn, role: 'assistant' as const }
+      }));
+
+      setCanvasObjects(prev => [...prev.filter(obj => !streamedIds.has(obj.id)), ...newObjects]);
+
+      // 늘어난 줄 수만큼 타이프라이터를 마지막 텍스트 아래로 이동
+      const addedLines = wrappedLines.length - renderedLineCount;
+      if (addedLines !== 0) {
+        setCanvasOffset(prev => ({
+          x: prev.x,
+          y: prev.y - addedLines * worldLineHeight * scale
+        }));
+      }
+      renderedLineCount = wrappedLines.length;
+      renderedContent = content;
+    };
+
+    const flushPendingContent = () => {
+      if (frameId !== null) {
+        cancelAnimationFrame(frameId);
+        frameId = null;
+      }
+      if (pendingContent !== null) {
+        renderStreamedContent(pendingContent);
+        pendingContent = null;
+      }
+    };
     
+    // 요청한 캔버스 컨텍스트 수집 (@selection / @channel / @viewport)
+    const viewportTopLeft = screenToWorldLocal(0, 0);
+    const viewportBottomRight = screenToWorldLocal(canvasWidth, canvasHeight);
+    // 같은 스레드의 이전 질문/답변을 대화 기록으로 전달
+    const history = getAIThreadHistory(canvasObjects, thread.threadId, thread.turn);
+    const messages = buildAIMessages(command, {
+      selectedObjects,
+      channelMessages: displayMessages,
+      channelName: activeChannelId && activeChannelId !== 'all' ? channels.find(channel => channel.id === activeChannelId)?.name ?? activeChannelId : null,
+      viewportObjects: command.context?.includes('viewport')
+        ? getTextObjectsInBounds(canvasObjects, {
+            minX: viewportTopLeft.x,
+            minY: viewportTopLeft.y,
+            maxX: viewportBottomRight.x,
+            maxY: viewportBottomRight.y
+          })
+        : []
+    }, history);
+
     try {
-      const response = await aiService.askGPT(command.question);
+      const response = await aiService.streamChat(messages, {
+        signal: controller.signal,
+        onToken: (_delta, content) => {
+          // 토큰마다 다시 그리지 않고 프레임당 한 번만 반영
+          pendingContent = content;
+          if (frameId === null) {
+            frameId = requestAnimationFrame(() => {
+              frameId = null;
+              flushPendingContent();
+            });
+          }
+        }
+      });
+
+      flushPendingContent();
+      // 마지막으로 그린 내용과 다를 때만 최종 답변을 다시 그림
+      if (response.content && response.content !== renderedContent) {
+        renderStreamedContent(response.content);
+      }
       
       if (response.success && response.content) {
         setAIState(prev => ({ ...prev, lastResponse: response.content }));
-        
-        // 응답을 현재 타이프라이터 박스 폭에 맞게 줄바꿈 처리
-        // 월드 좌표계 기준으로 통일해서 UI 픽셀 크기와 무관하게 일관된 결과 보장
-        const worldFontSize = baseFontSize / scale;
-        const textBoxPixelWidth = getTextBoxWidth();
-        const worldBoxWidth = textBoxPixelWidth / scale; // 월드 좌표계 폭으로 변환
-        
-        const wrappedLines = wrapTextToLines(
-          response.content, 
-          maxCharsPerLine, 
-          worldBoxWidth, 
-          worldFontSize, 
-          (text: string, fontSize: number) => measureTextWidthLocal(text, fontSize) / scale
-        );
-        const worldPos = getCurrentWorldPosition();
-        
-        pushUndo(); // 상태 변경 전 스냅샷 저장
-        
-        // 각 줄을 별도의 텍스트 오브젝트로 생성 (현재 타이프라이터 위치에서 시작)
-        const worldLineHeight = (baseFontSize / scale) * 1.6;
-        const newObjects = wrappedLines.map((line, index) => ({
-          type: 'text' as const,
-          content: line,
-          x: worldPos.x,
-          y: worldPos.y + ((index + 1) * worldLineHeight),
-          scale: 1,
-          fontSize: baseFontSize / scale,
-          id: Date.now() + index,
-          isAIResponse: true,
-          color: '#3b82f6'
-        }));
-        
-        setCanvasObjects(prev => [...prev, ...newObjects]);
-        
-        // 타이프라이터를 마지막 텍스트 아래로 이동
-        const totalHeight = wrappedLines.length * worldLineHeight * scale;
-        setCanvasOffset(prev => ({
-          x: prev.x,
-          y: prev.y - totalHeight
-        }));
-        
-      } else {
+      } else if (response.error !== 'Cancelled') {
         setAIState(prev => ({ ...prev, error: response.error || 'AI 처리 중 오류가 발생했습니다.' }));
       }
     } catch (error) {
       setAIState(prev => ({ ...prev, error: 'AI 서비스 연결에 실패했습니다.' }));
     } finally {
+      if (frameId !== null) cancelAnimationFrame(frameId);
+      if (aiAbortControllerRef.current === controller) {
+        aiAbortControllerRef.current = null;
+      }
       setAIState(prev => ({ ...prev, isProcessing: false }));
       
       // AI 응답 처리 완료 후 입력창에 포커스를 다시 주고 /gpt 프리픽스 설정
@@ -2790,7 +3069,254 @@ const InfiniteTypewriterCanvas = () => {
         }
       }, 0);
     }
-  }, [baseFontSize, scale, selectedObjects, getCurrentLineHeight, getCurrentWorldPosition, pushUndo, maxCharsPerLine, showTextBox]);
+  }, [baseFontSize, scale, selectedObjects, getCurrentLineHeight, getCurrentWorldPosition, getTextBoxWidth, pushUndo, maxCharsPerLine, showTextBox, screenToWorldLocal, canvasWidth, canvasHeight, canvasObjects, displayMessages, activeChannelId, channels]);
+
+  // /gpt 질문을 캔버스에 적고 스트리밍 답변 시작
+  const submitAIQuestion = (text: string) => {
+    const command = parseAICommand(text);
+    if (!command) {
+      setCommandOutput({ lines: ['Type a question after /gpt (and any @context flags)'], isError: true });
+      setCurrentTypingText(text);
+      return;
+    }
+
+    pushUndo('Ask AI'); // 상태 변경 전 히스토리 시작
+    
+    // 질문을 먼저 텍스트 오브젝트로 추가
+    const worldPos = getCurrentWorldPosition();
+    const textId = generateNodeId();
+
+    // AI 답변 바로 아래에서 입력했다면 그 스레드의 후속 질문으로 이어감
+    const previousAnswer = findAIThreadAbove(canvasObjects, worldPos, (baseFontSize / scale) * 1.6);
+    const thread: AIThreadTurn = previousAnswer?.aiThread
+      ? { threadId: previousAnswer.aiThread.threadId, turn: previousAnswer.aiThread.turn + 1, questionId: textId }
+      : { threadId: generateNodeId(), turn: 0, questionId: textId };
+    
+    // AI 질문도 채널 시스템 적용
+    const channelTagsResult = parseChannelTags(text);
+    const cleanContent = channelTagsResult.cleanContent;
+    // 텍스트에 명시적 채널이 있으면 그것을 사용, 없으면 활성 입력 채널들 사용
+    let channelIds = getEffectiveChannels(channelTagsResult.addChannels);
+    
+    // 기본적으로 default에 추가 (보이지 않는 내부 태그)
+    if (!channelIds.includes('default')) {
+      channelIds = ['default', ...channelIds];
+    }
+    
+    const newTextObject: TextObject = {
+      type: 'text',
+      content: cleanContent,
+      x: worldPos.x,
+      y: worldPos.y,
+      scale: 1,
+      fontSize: baseFontSize / scale,
+      id: textId,
+      aiThread: { threadId: thread.threadId, turn: thread.turn, role: 'user' },
+      _metadata: {
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        channelIds: channelIds
+      }
+    };
+    
+    setCanvasObjects(prev => [...prev, newTextObject]);
+    if (previousAnswer) {
+      setLinks(prev => [...prev, createLink(String(previousAnswer.id), textId, 'arrow', AI_THREAD_LINK_COLOR)]);
+    }
+    
+    // 채널 시스템에 메시지 추가
+    if (cleanContent.trim()) {
+      updateTextObjectMessage(textId, cleanContent, channelIds);
+    }
+    
+    setCurrentTypingText('');
+    
+    // 캔버스 오프셋을 멀티라인 크기만큼 이동
+    const lines = text.split('\n');
+    const moveDistance = (baseFontSize * 1.6) * lines.length;
+    setCanvasOffset(prev => ({
+      x: prev.x,
+      y: prev.y - moveDistance
+    }));
+    
+    // AI 처리 시작
+    processAICommand(command, thread);
+  };
+
+  // 타이프라이터 기준선이 월드 좌표 (x, y)에 오도록 캔버스 이동 (targetScale이 다르면 줌도 변경)
+  const gotoWorldPosition = (x: number, y: number, targetScale: number = scale) => {
+    if (targetScale !== scale) zoomToLevel(targetScale);
+    const textBoxLeft = typewriterX - getTextBoxWidth() / 2;
+    const textBoxBaseline = typewriterY - baseFontSize / 2 + baseFontSize * 1.2;
+    setCanvasOffset({
+      x: textBoxLeft - x * targetScale,
+      y: textBoxBaseline - y * targetScale
+    });
+  };
+
+  revealSearchResultRef.current = (result) => {
+    const target = canvasObjects.find(obj => obj.id === result.document.objectId);
+    if (target?.type === 'text') {
+      // 그 줄을 쓸 때의 배율로 돌아가 타이프라이터 바로 위에 둠 (find 명령과 같은 위치)
+      const targetScale = CANVAS_ZOOM_LEVELS[findZoomLevel(baseFontSize / target.fontSize, CANVAS_ZOOM_LEVELS)];
+      gotoWorldPosition(target.x, target.y + target.fontSize * 1.6 * target.content.split('\n').length, targetScale);
+      return;
+    }
+    // 노드가 지워진 메시지는 채널 패널에서 보여줌
+    const channelId = result.document.channelIds[0];
+    if (channelId) {
+      setActiveChannel(channelId);
+      if (!isPanelOpen) togglePanel();
+    }
+  };
+
+  const applyTheme = (newTheme: Theme) => {
+    setTheme(newTheme);
+    // Apply dark class to HTML element for Tailwind CSS
+    if (newTheme === 'dark') {
+      document.documentElement.classList.add('dark');
+    } else {
+      document.documentElement.classList.remove('dark');
+    }
+  };
+
+  // 선택한 링크를 바꿈 (선택한 링크가 없으면 선택한 오브젝트에 붙은 링크). 바꾼 개수 반환
+  const updateTargetLinks = (undoLabel: string, update: (link: LinkObject) => LinkObject) => {
+    const selectedIds = new Set(selectedObjects.map(obj => obj.id.toString()));
+    const targets = selectedLinks.size > 0
+      ? links.filter(link => selectedLinks.has(link.id))
+      : links.filter(link => selectedIds.has(link.from) || selectedIds.has(link.to));
+    if (targets.length === 0) return 0;
+    const targetIds = new Set(targets.map(link => link.id));
+    pushUndo(undoLabel);
+    setLinks(prev => prev.map(link => targetIds.has(link.id) ? update(link) : link));
+    return targets.length;
+  };
+
+  // 슬래시 명령어가 호출하는 캔버스 동작들
+  const commandContext: CommandContext = {
+    goto: gotoWorldPosition,
+    setZoom: (newScale = 1) => {
+      const minScale = CANVAS_ZOOM_LEVELS[0];
+      const maxScale = CANVAS_ZOOM_LEVELS[CANVAS_ZOOM_LEVELS.length - 1];
+      zoomToLevel(Math.min(maxScale, Math.max(minScale, newScale)));
+    },
+    setTheme: (newTheme) => applyTheme(newTheme ?? (theme === 'dark' ? 'light' : 'dark')),
+    exportAs: (format) => {
+      if (format === 'png') exportAsPNG();
+      else if (format === 'svg') exportAsSVG();
+      else if (format === 'json') exportAsJSON();
+      else if (format === 'markdown') exportAsMarkdown();
+      else if (format === 'pdf') exportAsPDF();
+      else exportForFigma();
+    },
+    print: () => {
+      if (!showPrintPreview) togglePrintPreview();
+    },
+    addGuide: () => {
+      pushUndo('Add guide');
+      const textBoxWorldCenter = screenToWorldLocal(typewriterX, typewriterY);
+      const textBoxWorldTopLeft = screenToWorldLocal(
+        typewriterX - getTextBoxWidth() / 2,
+        typewriterY - baseFontSize / 2
+      );
+      // 입력창 폭(월드 단위)을 본문 폭 160mm에 대응시킴
+      const a4Guide = calculateA4GuidePosition(
+        textBoxWorldCenter,
+        textBoxWorldTopLeft,
+        getTextBoxWidth() / scale,
+        TEXT_BOX_WIDTH_MM,
+        A4_MARGIN_LR_MM,
+        A4_MARGIN_TOP_MM,
+        A4_WIDTH_MM,
+        A4_HEIGHT_MM
+      );
+      const guide: GuideObject = {
+        id: generateNodeId(),
+        type: 'guide',
+        guideType: 'a4',
+        x: a4Guide.x,
+        y: a4Guide.y,
+        width: a4Guide.width,
+        height: a4Guide.height
+      };
+      setCanvasObjects(prev => [...prev, guide]);
+    },
+    find: (query) => {
+      const needle = query.toLowerCase();
+      const matches = canvasObjects
+        .filter((obj): obj is TextObject => obj.type === 'text' && obj.content.toLowerCase().includes(needle))
+        .sort((a, b) => (a.y - b.y) || (a.x - b.x));
+      setSelectedObjects(matches);
+      if (matches.length > 0) {
+        // 첫 번째 결과 바로 아래 줄로 이동
+        const first = matches[0];
+        gotoWorldPosition(first.x, first.y + first.fontSize * 1.6 * first.content.split('\n').length);
+      }
+      return matches.length;
+    },
+    linkSelection: (style) => {
+      const linkable = selectedObjects.filter(isLinkableObject);
+      if (linkable.length < 2) return 0;
+      // 선택한 순서대로 체인 연결
+      const newLinks = linkable.slice(1).map((obj, index) =>
+        createLink(linkable[index].id.toString(), obj.id.toString(), style)
+      );
+      pushUndo('Link');
+      setLinks(prev => [...prev, ...newLinks]);
+      return newLinks.length;
+    },
+    setLinkRouting: (routing) => updateTargetLinks('Link routing', link => ({ ...link, routing })),
+    labelLinks: (label) => {
+      // 라벨은 한 줄로
+      const text = label.replace(/\s*\n\s*/g, ' ').trim();
+      return updateTargetLinks('Link label', link => ({ ...link, label: text || undefined }));
+    },
+    setLinkMarkers: (start, end) => updateTargetLinks('Link markers', link =>
+      updateLinkEndpoint(updateLinkEndpoint(link, 'start', { marker: start }), 'end', { marker: end })
+    ),
+    setLinkAnchors: (start, end) => updateTargetLinks('Link anchors', link =>
+      updateLinkEndpoint(updateLinkEndpoint(link, 'start', { position: start }), 'end', { position: end })
+    ),
+    layoutSelection: (kind) => {
+      const selectedIds = new Set(selectedObjects.map(obj => obj.id.toString()));
+      // 가이드는 틀이라 배치하지 않고, 최신 위치는 canvasObjects에서 읽음
+      const targets = canvasObjects.filter(obj =>
+        selectedIds.has(obj.id.toString()) && obj.type !== 'guide' && obj.type !== 'link'
+      );
+      if (targets.length < 2) return 0;
+      const nodes: LayoutNode[] = targets.map(obj => {
+        const bounds = getLinkableObjectBounds(obj, measureTextWidthLocal);
+        return { id: obj.id.toString(), x: bounds.left, y: bounds.top, width: bounds.width, height: bounds.height };
+      });
+      const nodeIds = new Set(nodes.map(node => node.id));
+      const edges = links
+        .filter(link => nodeIds.has(link.from) && nodeIds.has(link.to))
+        .map(link => ({ from: link.from, to: link.to }));
+      // 선택하지 않은 내용과 겹치지 않게 배치 전체를 옮김
+      const obstacles = canvasObjects
+        .filter(obj => !nodeIds.has(obj.id.toString()) && obj.type !== 'guide' && obj.type !== 'link')
+        .map(obj => {
+          const bounds = getLinkableObjectBounds(obj, measureTextWidthLocal);
+          return { x: bounds.left, y: bounds.top, width: bounds.width, height: bounds.height };
+        });
+      const positions = avoidObstacles(
+        computeGraphLayout(kind, nodes, edges, LAYOUT_NODE_GAP),
+        nodes,
+        obstacles,
+        LAYOUT_NODE_GAP
+      );
+      const moves = new Map(nodes.map(node => {
+        const position = positions.get(node.id)!;
+        return [node.id, { x: position.x - node.x, y: position.y - node.y }];
+      }));
+      pushUndo('Layout');
+      animateObjectMoves(moves);
+      return nodes.length;
+    },
+    askAI: submitAIQuestion,
+    showOutput: (lines, isError = false) => setCommandOutput({ lines, isError })
+  };
 
   // [UNDO/REDO] 상태 변경이 일어나는 주요 지점에 pushUndo() 호출
   // 예시: 텍스트 추가, 오브젝트 이동/삭제, 패닝, 줌, 전체 삭제 등
@@ -2878,67 +3404,27 @@ const InfiniteTypewriterCanvas = () => {
       // Regular Enter behavior - add text to canvas
       if (!isComposing) {
         if (currentTypingText.trim() !== '') {
-          // AI 명령어 감지
-          const command = parseCommand(currentTypingText);
-          
-          if (command && command.type === 'gpt') {
-            // AI 명령어 처리
-            pushUndo(); // 상태 변경 전 스냅샷 저장
-            
-            // 질문을 먼저 텍스트 오브젝트로 추가
-            const worldPos = getCurrentWorldPosition();
-            const textId = Date.now();
-            
-            // AI 질문도 채널 시스템 적용
-            const channelTagsResult = parseChannelTags(currentTypingText);
-            const cleanContent = channelTagsResult.cleanContent;
-            // 텍스트에 명시적 채널이 있으면 그것을 사용, 없으면 활성 입력 채널들 사용
-            let channelIds = getEffectiveChannels(channelTagsResult.addChannels);
-            
-            // 기본적으로 default에 추가 (보이지 않는 내부 태그)
-            if (!channelIds.includes('default')) {
-              channelIds = ['default', ...channelIds];
-            }
-            
-            const newTextObject: TextObject = {
-              type: 'text',
-              content: cleanContent,
-              x: worldPos.x,
-              y: worldPos.y,
-              scale: 1,
-              fontSize: baseFontSize / scale,
-              id: textId,
-              _metadata: {
-                createdAt: new Date().toISOString(),
-                updatedAt: new Date().toISOString(),
-                channelIds: channelIds
-              }
-            };
-            
-            setCanvasObjects(prev => [...prev, newTextObject]);
-            
-            // 채널 시스템에 메시지 추가
-            if (cleanContent.trim()) {
-              updateTextObjectMessage(textId, cleanContent, channelIds);
+          // 슬래시 명령어 (/gpt, /goto, /help ...)
+          const commandResult = parseSlashCommand(currentTypingText);
+
+          if (commandResult) {
+            if (commandResult.ok) {
+              setCurrentTypingText('');
+              setCommandOutput(null);
+              commandResult.command.run(commandResult.args, commandContext, currentTypingText.trim());
+            } else {
+              // 입력은 그대로 두고 고칠 수 있게 오류만 표시
+              setCommandOutput({ lines: [commandResult.error], isError: true });
             }
-            
+          } else if (selectedLinks.size > 0) {
+            // 링크가 선택되어 있으면 입력한 텍스트는 링크 라벨이 됨
+            commandContext.labelLinks(currentTypingText);
             setCurrentTypingText('');
-            
-            // 캔버스 오프셋을 멀티라인 크기만큼 이동
-            const lines = currentTypingText.split('\n');
-            const moveDistance = (baseFontSize * 1.6) * lines.length;
-            setCanvasOffset(prev => ({
-              x: prev.x,
-              y: prev.y - moveDistance
-            }));
-            
-            // AI 처리 시작
-            processAICommand(command);
           } else {
             // 일반 텍스트 처리 (채널 시스템 통합)
-            pushUndo(); // 상태 변경 전 스냅샷 저장
+            pushUndo('Type text'); // 상태 변경 전 히스토리 시작
             const worldPos = getCurrentWorldPosition();
-            const textId = Date.now();
+            const textId = generateNodeId();
             
             // 채널 태그 파싱
             const channelTagsResult = parseChannelTags(currentTypingText);
@@ -3007,7 +3493,7 @@ const InfiniteTypewriterCanvas = () => {
   // 예시: 오브젝트 삭제
   const handleDeleteSelected = () => {
     if (selectedObjects.length > 0) {
-      pushUndo();
+      pushUndo('Delete');
       const selectedIds = selectedObjects.map(obj => obj.id);
       setCanvasObjects(prev => prev.filter(obj => !selectedIds.includes(obj.id)));
       clearSelection();
@@ -3016,6 +3502,7 @@ const InfiniteTypewriterCanvas = () => {
 
   // 전체 삭제
   const clearAll = () => {
+    pushUndo('Clear canvas');
     setCanvasObjects([]);
     setLinks([]);
     setCurrentTypingText('');
@@ -3046,6 +3533,100 @@ const InfiniteTypewriterCanvas = () => {
     return () => window.removeEventListener('keydown', handleUndoRedoKey);
   }, [handleUndo, handleRedo]);
 
+  // 이미지/비디오 노드 삽입: 붙여넣기는 타이프라이터 위치, 드롭은 드롭 위치에 배치
+  const insertMediaNode = useCallback((node: MediaNode, advanceTypewriter: boolean) => {
+    pushUndo('Insert media'); // 상태 변경 전 히스토리 시작
+    setCanvasObjects(prev => [...prev, node]);
+
+    if (advanceTypewriter) {
+      // 타이프라이터를 미디어 아래로 이동 (텍스트 입력과 동일하게 캔버스 오프셋 이동)
+      const { height } = getMediaNodeSize(node);
+      setCanvasOffset(prev => ({
+        x: prev.x,
+        y: prev.y - (height * scale + baseFontSize * 1.6)
+      }));
+    }
+  }, [pushUndo, scale, baseFontSize]);
+
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files || []).filter(file =>
+        file.type.startsWith('image/') || file.type.startsWith('video/')
+      );
+      if (files.length === 0) return;
+
+      e.preventDefault();
+      const maxWidth = getTextBoxWidth() / scale;
+      const position = getCurrentLTWorldPosition();
+      createMediaNodeFromFile(files[0], position, maxWidth)
+        .then(node => {
+          if (node) insertMediaNode(node, true);
+        })
+        .catch(error => console.error('Failed to paste media:', error));
+    };
+
+    const handleDragOver = (e: DragEvent) => {
+      if (e.dataTransfer?.types.some(type => type === 'Files' || type === 'text/uri-list')) {
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+      }
+    };
+
+    const handleDrop = async (e: DragEvent) => {
+      const canvas = canvasRef.current;
+      if (!canvas || !e.dataTransfer) return;
+      e.preventDefault();
+
+      const rect = canvas.getBoundingClientRect();
+      let position = screenToWorldLocal(e.clientX - rect.left, e.clientY - rect.top);
+      const maxWidth = getTextBoxWidth() / scale;
+
+      try {
+        const files = Array.from(e.dataTransfer.files);
+        if (files.length > 0) {
+          for (const file of files) {
+            const node = await createMediaNodeFromFile(file, position, maxWidth);
+            if (!node) continue;
+            insertMediaNode(node, false);
+            // 여러 파일은 아래로 쌓아서 배치
+            position = { x: position.x, y: position.y + getMediaNodeSize(node).height + 16 };
+          }
+          return;
+        }
+
+        const url = e.dataTransfer.getData('text/uri-list') || e.dataTransfer.getData('text/plain');
+        if (url) {
+          const node = await createMediaNodeFromUrl(url.split('\n')[0], position, maxWidth);
+          if (node) insertMediaNode(node, false);
+        }
+      } catch (error) {
+        console.error('Failed to drop media:', error);
+      }
+    };
+
+    const canvas = canvasRef.current;
+    window.addEventListener('paste', handlePaste);
+    canvas?.addEventListener('dragover', handleDragOver);
+    canvas?.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('paste', handlePaste);
+      canvas?.removeEventListener('dragover', handleDragOver);
+      canvas?.removeEventListener('drop', handleDrop);
+    };
+  }, [insertMediaNode, getTextBoxWidth, getCurrentLTWorldPosition, screenToWorldLocal, scale]);
+
+  // 이미지 로드가 끝나면 다시 그리기
+  useEffect(() => onMediaImageLoad(() => setMediaLoadTick(tick => tick + 1)), []);
+
+  // 삭제 후 undo로도 돌아올 수 없는 드롭 비디오의 blob: URL 해제
+  useEffect(() => {
+    releaseVideoObjectUrls([
+      ...canvasObjects,
+      ...getHistoryRetainedNodes([...historyPast, ...historyFuture]),
+      ...(pendingHistory?.before.canvasObjects ?? [])
+    ]);
+  }, [canvasObjects, historyPast, historyFuture, pendingHistory]);
+
   // ... existing code ...
   // [UNDO/REDO] UI 버튼 추가 (헤더 또는 우측 하단 등)
   // 예시: 헤더에 Undo/Redo 버튼 추가
@@ -3074,12 +3655,15 @@ const InfiniteTypewriterCanvas = () => {
         : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
     }`} title="Import">
       <Import className="w-4 h-4" />
-      <input type="file" accept=".json" onChange={importFile} className="hidden" />
+      <input type="file" accept=".json,.md,.markdown" onChange={importFile} className="hidden" />
     </label>
     <ExportMenu
       onExportPNG={exportAsPNG}
       onExportSVG={exportAsSVG}
       onExportJSON={exportAsJSON}
+      onExportFigma={exportForFigma}
+      onExportMarkdown={exportAsMarkdown}
+      onExportPDF={exportAsPDF}
       theme={theme}
     />
     <button
@@ -3211,8 +3795,9 @@ const InfiniteTypewriterCanvas = () => {
         setCanvasObjects(prev => [
           ...prev,
           {
-            id: Date.now(),
-            type: 'a4guide',
+            id: generateNodeId(),
+            type: 'guide',
+            guideType: 'a4',
             x: a4Guide.x,
             y: a4Guide.y,
             width: a4Guide.width,
@@ -3286,11 +3871,26 @@ const InfiniteTypewriterCanvas = () => {
         onExportPNG={exportAsPNG}
         onExportSVG={exportAsSVG}
         onExportJSON={exportAsJSON}
+        onExportFigma={exportForFigma}
+        onExportMarkdown={exportAsMarkdown}
+        onExportPDF={exportAsPDF}
         onClearAll={clearAll}
         onApiKeyClick={() => setShowApiKeyInput(true)}
         onChannelPanelToggle={togglePanel}
         isPanelOpen={isPanelOpen}
         panelWidth={panelWidth}
+        collaborationMenu={
+          <CollaborationMenu
+            status={collaboration.status}
+            room={collaboration.room}
+            identity={collaboration.identity}
+            collaborators={collaboration.collaborators}
+            theme={theme}
+            onJoin={collaboration.join}
+            onLeave={collaboration.leave}
+            onRename={collaboration.rename}
+          />
+        }
       />
 
       <CanvasContainer
@@ -3310,10 +3910,12 @@ const InfiniteTypewriterCanvas = () => {
         allMessages={allMessages}
         activeChannelId={activeChannelId}
         links={links}
+        collaborators={collaboration.collaborators}
         onMouseLeave={() => {
           handleMouseUp();
           setHoveredObject(null);
           setIsMouseInTextBox(false);
+          collaboration.updateCursor(null);
         }}
         showTextBox={showTextBox}
         currentTypingText={currentTypingText}
@@ -3325,8 +3927,8 @@ const InfiniteTypewriterCanvas = () => {
         maxCharsPerLine={maxCharsPerLine}
         selectedObject={getFirstSelectedObject()}
         selectedObjects={selectedObjects}
-        undoStack={undoStack}
-        redoStack={redoStack}
+        canUndo={historyPast.length > 0 || pendingHistory !== null}
+        canRedo={historyFuture.length > 0}
         aiState={aiState}
         getTextBoxWidth={getTextBoxWidth}
         getCurrentLineHeight={getCurrentLineHeight}
@@ -3338,17 +3940,11 @@ const InfiniteTypewriterCanvas = () => {
         selectionState={selectionState}
         activeInputChannels={activeInputChannels}
         onRemoveInputChannel={removeInputChannels}
-        onThemeToggle={() => {
-          setTheme(prev => {
-            const newTheme = prev === 'dark' ? 'light' : 'dark';
-            // Apply dark class to HTML element for Tailwind CSS
-            if (newTheme === 'dark') {
-              document.documentElement.classList.add('dark');
-            } else {
-              document.documentElement.classList.remove('dark');
-            }
-            return newTheme;
-          });
+        onThemeToggle={() => applyTheme(theme === 'dark' ? 'light' : 'dark')}
+        commandOutput={commandOutput}
+        onCommandComplete={(text) => {
+          setCurrentTypingText(text);
+          setCommandOutput(null);
         }}
         handleCompositionStart={handleCompositionStart}
         handleCompositionEnd={handleCompositionEnd}
@@ -3404,6 +4000,78 @@ const InfiniteTypewriterCanvas = () => {
         />
       )}
 
+      {/* Undo History Panel */}
+      {showHistory && (
+        <HistoryPanel
+          past={historyPast}
+          future={historyFuture}
+          pending={pendingHistory}
+          theme={theme}
+          onJump={handleJumpToHistory}
+          onClose={toggleHistory}
+        />
+      )}
+
+      {/* Revision Timeline */}
+      {showRevisions && (
+        <RevisionPanel
+          revisions={revisions}
+          current={revisionCompareContent}
+          error={revisionError}
+          theme={theme}
+          onLoadRevision={loadRevision}
+          onRestore={handleRestoreRevision}
+          onClose={toggleRevisions}
+        />
+      )}
+
+      {/* Workspace Sidebar */}
+      {showWorkspace && (
+        <WorkspaceSidebar
+          canvases={workspace.canvases}
+          currentSessionId={currentSessionId}
+          query={workspace.query}
+          storageInfo={workspace.storageInfo}
+          error={workspace.error}
+          theme={theme}
+          onQueryChange={workspace.setQuery}
+          onSwitch={handleSwitchCanvas}
+          onCreate={handleCreateCanvas}
+          onRename={workspace.renameCanvas}
+          onDuplicate={workspace.duplicateCanvas}
+          onSetArchived={workspace.setCanvasArchived}
+          onClose={toggleWorkspace}
+        />
+      )}
+
+      {/* Search Palette */}
+      {showSearch && (
+        <SearchPalette
+          query={search.query}
+          isRegex={search.isRegex}
+          results={search.results}
+          activeIndex={search.activeIndex}
+          error={search.error}
+          theme={theme}
+          onQueryChange={search.setQuery}
+          onToggleRegex={search.toggleRegex}
+          onSelect={search.goTo}
+          onNext={search.next}
+          onPrevious={search.previous}
+          onClose={toggleSearch}
+        />
+      )}
+
+      {/* Print Preview */}
+      {showPrintPreview && (
+        <PrintPreview
+          canvasObjects={canvasObjects}
+          pxPerMm={pxPerMm}
+          theme={theme}
+          onClose={togglePrintPreview}
+        />
+      )}
+
       {/* Session Management Panel */}
       {showSessionPanel && (
         <SessionPanel
@@ -3421,6 +4089,22 @@ const InfiniteTypewriterCanvas = () => {
         />
       )}
 
+      {/* 시작할 때 복구하지 못한 저장 데이터 안내 */}
+      <RecoveryIssueNotice
+        issues={recoveryIssues}
+        theme={theme}
+        onDownloadBackup={issue => {
+          const raw = localStorage.getItem(issue.backupKey);
+          if (raw) downloadFile(raw, `${issue.backupKey}-${new Date().toISOString().slice(0, 10)}.json`, 'application/json');
+        }}
+        onDismiss={dismissRecoveryIssues}
+      />
+
+      {/* 읽기 전용 공유 스냅샷을 열었을 때 */}
+      {sessionState.metadata?.readOnly && (
+        <ReadOnlySnapshotNotice theme={theme} onSaveCopy={() => saveCurrentSession()} />
+      )}
+
       {/* Session Recovery Notification */}
       <SessionRecoveryNotification
         isVisible={showSessionRecovery}
@@ -0,0 +1,169 @@
+import React, { useEffect, useMemo } from 'react'
+import { createPortal } from 'react-dom'
+import { X, Printer } from 'lucide-react'
+import { CanvasObject, GuideObject, Theme } from '../types'
+import { getMediaNodeSize } from '../utils/mediaUtils'
+import { getGuidePages, getGuidePageSizeMm, GuidePage, PageItem } from '../utils/pageUtils'
+import { mmToPoints } from '../utils/units'
+import { getFrameCenter, getObjectFrame, getTextLayout } from '../utils/transformUtils'
+
+// 화면 미리보기에서 페이지 양옆에 남길 여백 (px)
+const PREVIEW_PADDING_PX = 64
+
+interface PrintPreviewProps {
+  canvasObjects: CanvasObject[]
+  /** 화면의 CSS px/mm (미리보기를 창 폭에 맞출 때만 사용, 인쇄는 항상 1:1) */
+  pxPerMm: number
+  theme: Theme
+  onClose: () => void
+}
+
+// 회전은 CSS transform으로 (속성 transform은 mm 단위를 받지 않음)
+const getRotationStyle = (item: PageItem, guide: GuideObject, mmPerWorld: number): React.CSSProperties | undefined => {
+  if (!item.rotation) return undefined
+  const center = getFrameCenter(getObjectFrame(item)!)
+  return {
+    transform: `rotate(${item.rotation}deg)`,
+    transformOrigin: `${(center.x - guide.x) * mmPerWorld}mm ${(center.y - guide.y) * mmPerWorld}mm`
+  }
+}
+
+const renderPageItem = (item: PageItem, guide: GuideObject, mmPerWorld: number) => {
+  const toMm = (value: number) => `${value * mmPerWorld}mm`
+  if (item.visible === false) return null
+  const rotationStyle = getRotationStyle(item, guide, mmPerWorld)
+
+  if (item.type === 'text') {
+    const lineHeight = item.fontSize * 1.6
+    return (
+      <text
+        key={item.id}
+        fontFamily='"JetBrains Mono", monospace'
+        fontSize={`${mmToPoints(item.fontSize * mmPerWorld)}pt`}
+        fill={item.color || '#000000'}
+        opacity={item.opacity}
+        style={{ whiteSpace: 'pre', ...rotationStyle }}
+      >
+        {getTextLayout(item).lines.map((line, index) => (
+          // 텍스트 y는 기준선 (캔버스의 alphabetic 기준선과 동일)
+          <tspan key={index} x={toMm(item.x - guide.x)} y={toMm(item.y + index * lineHeight - guide.y)}>
+            {line}
+          </tspan>
+        ))}
+      </text>
+    )
+  }
+
+  if (item.type === 'image') {
+    const { width, height } = getMediaNodeSize(item)
+    return (
+      <image
+        key={item.id}
+        href={item.src}
+        x={toMm(item.x - guide.x)}
+        y={toMm(item.y - guide.y)}
+        width={toMm(width)}
+        height={toMm(height)}
+        opacity={item.opacity}
+        preserveAspectRatio="none"
+        style={rotationStyle}
+      />
+    )
+  }
+
+  // 비디오는 포스터가 있으면 그 이미지로 인쇄
+  if (!item.poster) return null
+  const { width, height } = getMediaNodeSize(item)
+  return (
+    <image
+      key={item.id}
+      href={item.poster}
+      x={toMm(item.x - guide.x)}
+      y={toMm(item.y - guide.y)}
+      width={toMm(width)}
+      height={toMm(height)}
+      preserveAspectRatio="xMidYMid slice"
+      style={rotationStyle}
+    />
+  )
+}
+
+/**
+ * Print mode: every guide becomes a physical page at its real paper size.
+ * Rendered outside the app root so the print stylesheet can hide the canvas,
+ * typewriter, panels and overlays and print only the pages.
+ */
+export const PrintPreview: React.FC<PrintPreviewProps> = ({ canvasObjects, pxPerMm, theme, onClose }) => {
+  const pages = useMemo(() => getGuidePages(canvasObjects).pages, [canvasObjects])
+  const sizes = useMemo(() => pages.map(page => getGuidePageSizeMm(page.guide)), [pages])
+
+  // 가장 넓은 페이지가 창에 들어가도록 화면에서만 축소
+  const widestPx = Math.max(0, ...sizes.map(size => size.width * pxPerMm))
+  const previewZoom = widestPx > 0 ? Math.min(1, (window.innerWidth - PREVIEW_PADDING_PX) / widestPx) : 1
+
+  useEffect(() => {
+    document.body.classList.add('print-mode')
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => {
+      document.body.classList.remove('print-mode')
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [onClose])
+
+  // 페이지마다 용지 크기가 다를 수 있어 이름 있는 @page 규칙을 만듦
+  const pageRules = sizes
+    .map((size, index) => `@page guide-page-${index} { size: ${size.width}mm ${size.height}mm; margin: 0; }`)
+    .join('\n')
+
+  const renderPage = ({ guide, items }: GuidePage, index: number) => {
+    const size = sizes[index]
+    const mmPerWorld = size.width / guide.width
+    return (
+      <section
+        key={guide.id}
+        className="print-page relative mx-auto mb-6 bg-white shadow-lg overflow-hidden"
+        style={{ width: `${size.width}mm`, height: `${size.height}mm`, page: `guide-page-${index}`, zoom: previewZoom }}
+      >
+        <svg width="100%" height="100%" className="block">
+          {items.map(item => renderPageItem(item, guide, mmPerWorld))}
+        </svg>
+      </section>
+    )
+  }
+
+  return createPortal(
+    <div
+      className={`print-preview fixed inset-0 z-[100] overflow-y-auto ${
+        theme === 'dark' ? 'bg-gray-900 text-gray-100' : 'bg-gray-200 text-gray-800'
+      }`}
+    >
+      <style>{pageRules}</style>
+      <div className="print-hidden sticky top-0 z-10 flex items-center justify-between px-4 py-2 mb-6 text-xs backdrop-blur-sm bg-black/10">
+        <span>
+          Print preview · {pages.length} {pages.length === 1 ? 'page' : 'pages'}
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => window.print()}
+            disabled={pages.length === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded text-white bg-blue-500 hover:bg-blue-600 disabled:opacity-50"
+          >
+            <Printer className="w-3.5 h-3.5" />
+            Print
+          </button>
+          <button onClick={onClose} className="p-1 rounded hover:bg-gray-500/20" title="Close (Esc)">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+      {pages.length === 0 && (
+        <div className="print-hidden text-center text-sm opacity-70">Add a page guide to print its content.</div>
+      )}
+      {pages.map(renderPage)}
+    </div>,
+    document.body
+  )
+}
@@ -0,0 +1,40 @@
+import React from 'react'
+import { Eye, Save } from 'lucide-react'
+import { Theme } from '../types'
+
+interface ReadOnlySnapshotNoticeProps {
+  theme: Theme
+  /** 편집 가능한 사본으로 저장 */
+  onSaveCopy: () => void
+}
+
+/**
+ * Shown while a read-only share snapshot is open. Edits stay on screen but
+ * are not autosaved until the user keeps the snapshot as their own copy.
+ */
+export const ReadOnlySnapshotNotice: React.FC<ReadOnlySnapshotNoticeProps> = ({
+  theme,
+  onSaveCopy
+}) => {
+  return (
+    <div
+      role="status"
+      className={`fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-2 px-3 py-1.5 rounded-lg border shadow-lg text-xs ${
+        theme === 'dark'
+          ? 'bg-blue-950/90 border-blue-800 text-blue-100'
+          : 'bg-blue-50 border-blue-200 text-blue-800'
+      }`}
+    >
+      <Eye className="w-3.5 h-3.5 shrink-0" />
+      <span>Read-only snapshot. Changes are not saved.</span>
+      <button
+        onClick={onSaveCopy}
+        className="flex items-center gap-1 underline opacity-80 hover:opacity-100"
+        title="Save this snapshot as an editable canvas"
+      >
+        <Save className="w-3 h-3" />
+        Save a copy
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+import React from 'react'
+import { AlertCircle, Download } from 'lucide-react'
+import { SessionRecoveryIssue, Theme } from '../types'
+
+interface RecoveryIssueNoticeProps {
+  issues: SessionRecoveryIssue[]
+  theme: Theme
+  /** 옮겨 둔 원본 데이터를 파일로 저장 */
+  onDownloadBackup: (issue: SessionRecoveryIssue) => void
+  onDismiss: () => void
+}
+
+/**
+ * Shown on startup when saved data could not be restored, so nothing is lost
+ * silently. The raw data stays in localStorage and can be downloaded from here.
+ */
+export const RecoveryIssueNotice: React.FC<RecoveryIssueNoticeProps> = ({
+  issues,
+  theme,
+  onDownloadBackup,
+  onDismiss
+}) => {
+  if (issues.length === 0) return null
+
+  return (
+    <div
+      role="alert"
+      className={`fixed top-16 left-1/2 -translate-x-1/2 z-50 w-[28rem] max-w-[calc(100vw-2rem)] p-3 rounded-lg border shadow-lg text-sm ${
+        theme === 'dark'
+          ? 'bg-red-950/90 border-red-800 text-red-100'
+          : 'bg-red-50 border-red-200 text-red-800'
+      }`}
+    >
+      {issues.map(issue => (
+        <div key={issue.backupKey} className="flex items-start gap-2 mb-2 last:mb-0">
+          <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+          <div className="flex-1 min-w-0">
+            <div className="font-medium">{issue.message}</div>
+            {issue.details.length > 0 && (
+              <ul className="mt-1 max-h-32 overflow-y-auto font-mono text-xs space-y-0.5 opacity-80">
+                {issue.details.map((line, index) => (
+                  <li key={index} className="break-all">{line}</li>
+                ))}
+              </ul>
+            )}
+            <div className="mt-1 text-xs opacity-70">
+              The original data was kept in browser storage ({issue.backupKey}).
+            </div>
+          </div>
+          <button
+            onClick={() => onDownloadBackup(issue)}
+            className="flex items-center gap-1 text-xs underline opacity-80 hover:opacity-100 shrink-0"
+            title="Download the data that could not be restored"
+          >
+            <Download className="w-3 h-3" />
+            Download
+          </button>
+        </div>
+      ))}
+      <div className="flex justify-end">
+        <button
+          onClick={onDismiss}
+          className="text-xs underline opacity-70 hover:opacity-100"
+        >
+          Dismiss
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,211 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { X, RotateCcw } from 'lucide-react'
+import { CanvasObject, LinkObject, RevisionContent, SessionRevision, SessionRevisionInfo, Theme } from '../types'
+import { diffRevisions, isEmptyRevisionDiff } from '../utils/revisionUtils'
+import { formatByteSize } from '../utils/shareLinkUtils'
+
+const CURRENT = 'current'
+
+interface RevisionPanelProps {
+  revisions: SessionRevisionInfo[]
+  /** 지금 캔버스 내용 (타임라인의 맨 위) */
+  current: RevisionContent
+  error: string | null
+  theme: Theme
+  onLoadRevision: (revisionId: string) => Promise<SessionRevision | null>
+  /** objectIds가 없으면 리비전 전체를 복원 */
+  onRestore: (revision: SessionRevision, objectIds?: string[]) => void
+  onClose: () => void
+}
+
+const describeObject = (obj: CanvasObject) => {
+  if (obj.type === 'text') return obj.content.split('\n')[0].slice(0, 40) || '(empty text)'
+  return obj.type
+}
+
+const describeLink = (link: LinkObject) => `${link.from} → ${link.to}`
+
+const formatRevisionTime = (timestamp: number) => {
+  return new Date(timestamp).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+}
+
+export const RevisionPanel: React.FC<RevisionPanelProps> = ({
+  revisions,
+  current,
+  error,
+  theme,
+  onLoadRevision,
+  onRestore,
+  onClose
+}) => {
+  // from: 복원할 수 있는 쪽 (과거), to: 비교 대상 (기본은 현재 캔버스)
+  const [fromId, setFromId] = useState<string | null>(null)
+  const [toId, setToId] = useState<string>(CURRENT)
+  const [loaded, setLoaded] = useState<Map<string, SessionRevision>>(new Map())
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    if (!fromId && revisions.length > 0) setFromId(revisions[0].id)
+  }, [revisions, fromId])
+
+  useEffect(() => {
+    const missing = [fromId, toId].filter((id): id is string => !!id && id !== CURRENT && !loaded.has(id))
+    missing.forEach(id => {
+      onLoadRevision(id).then(revision => {
+        if (revision) setLoaded(prev => new Map(prev).set(id, revision))
+      })
+    })
+  }, [fromId, toId, loaded, onLoadRevision])
+
+  useEffect(() => {
+    setSelectedIds(new Set())
+  }, [fromId, toId])
+
+  const fromRevision = fromId ? loaded.get(fromId) ?? null : null
+  const toContent = toId === CURRENT ? current : loaded.get(toId) ?? null
+  const diff = useMemo(
+    () => (fromRevision && toContent ? diffRevisions(fromRevision, toContent) : null),
+    [fromRevision, toContent]
+  )
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const rowClass = (isActive: boolean) => `w-full flex items-center gap-2 px-3 py-1 text-left text-xs transition-colors ${
+    isActive
+      ? 'text-blue-500 bg-blue-500/10'
+      : theme === 'dark'
+        ? 'hover:bg-gray-800'
+        : 'hover:bg-gray-100'
+  }`
+
+  const selectClass = `flex-1 min-w-0 px-1 py-0.5 rounded border text-xs bg-transparent focus:outline-none ${
+    theme === 'dark' ? 'border-gray-700' : 'border-gray-300'
+  }`
+
+  // 복원 가능한 항목 (from 쪽에 있는 노드)은 체크박스로 고름
+  const renderObjects = (title: string, objects: CanvasObject[], restorable: boolean) => {
+    if (objects.length === 0) return null
+    return (
+      <div className="px-3 py-1">
+        <div className="font-medium opacity-70">{title} ({objects.length})</div>
+        {objects.map(obj => (
+          <label key={obj.id} className="flex items-center gap-1.5 truncate">
+            {restorable && (
+              <input type="checkbox" checked={selectedIds.has(obj.id)} onChange={() => toggleSelected(obj.id)} />
+            )}
+            <span className="truncate">{describeObject(obj)}</span>
+          </label>
+        ))}
+      </div>
+    )
+  }
+
+  const renderLinks = (title: string, links: LinkObject[]) => {
+    if (links.length === 0) return null
+    return (
+      <div className="px-3 py-1">
+        <div className="font-medium opacity-70">{title} ({links.length})</div>
+        {links.map(link => <div key={link.id} className="truncate">{describeLink(link)}</div>)}
+      </div>
+    )
+  }
+
+  const revisionOptions = revisions.map(revision => (
+    <option key={revision.id} value={revision.id}>{formatRevisionTime(revision.createdAt)}</option>
+  ))
+
+  return (
+    <div
+      className={`absolute top-14 right-72 z-50 w-72 max-h-[75vh] flex flex-col rounded-lg shadow-xs backdrop-blur-sm border text-xs ${
+        theme === 'dark'
+          ? 'bg-black/40 border-gray-700/30 text-gray-100'
+          : 'bg-white/70 border-gray-200/50 text-gray-800'
+      }`}
+    >
+      <div className="flex items-center justify-between px-3 py-2 font-medium">
+        <span>Revisions</span>
+        <button
+          onClick={onClose}
+          className={theme === 'dark' ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-900'}
+          title="Close"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto max-h-48 pb-1">
+        {revisions.length === 0 && (
+          <div className="px-3 py-1 opacity-60">No revisions yet. One is kept every few minutes while you edit.</div>
+        )}
+        {revisions.map(revision => (
+          <button key={revision.id} onClick={() => setFromId(revision.id)} className={rowClass(revision.id === fromId)}>
+            <span className="flex-1 min-w-0 truncate">
+              {formatRevisionTime(revision.createdAt)}
+              {revision.label && <span className="opacity-60"> · {revision.label}</span>}
+            </span>
+            <span className="opacity-50 tabular-nums">{revision.objectCount} obj · {formatByteSize(revision.size)}</span>
+          </button>
+        ))}
+      </div>
+
+      {fromId && (
+        <>
+          <div className="flex items-center gap-1 px-3 py-1 border-t border-gray-500/20">
+            <select value={fromId} onChange={e => setFromId(e.target.value)} className={selectClass}>
+              {revisionOptions}
+            </select>
+            <span className="opacity-60">→</span>
+            <select value={toId} onChange={e => setToId(e.target.value)} className={selectClass}>
+              <option value={CURRENT}>Current canvas</option>
+              {revisionOptions}
+            </select>
+          </div>
+
+          <div className="overflow-y-auto flex-1 pb-1">
+            {!diff && <div className="px-3 py-1 opacity-60">Loading…</div>}
+            {diff && isEmptyRevisionDiff(diff) && <div className="px-3 py-1 opacity-60">No differences</div>}
+            {diff && (
+              <>
+                {renderObjects('Removed', diff.removed, true)}
+                {renderObjects('Added', diff.added, false)}
+                {renderObjects('Moved', diff.moved.map(change => change.before), true)}
+                {renderObjects('Edited', diff.edited.map(change => change.before), true)}
+                {renderLinks('Links removed', diff.linksRemoved)}
+                {renderLinks('Links added', diff.linksAdded)}
+                {renderLinks('Links changed', diff.linksChanged.map(change => change.after))}
+              </>
+            )}
+          </div>
+
+          {fromRevision && (
+            <div className="flex items-center justify-end gap-2 px-3 py-2 border-t border-gray-500/20">
+              <button
+                onClick={() => onRestore(fromRevision, Array.from(selectedIds))}
+                disabled={selectedIds.size === 0}
+                className="px-2 py-1 rounded text-white bg-blue-500 hover:bg-blue-600 disabled:opacity-50"
+              >
+                Restore selected ({selectedIds.size})
+              </button>
+              <button
+                onClick={() => onRestore(fromRevision)}
+                className="flex items-center gap-1 px-2 py-1 rounded border border-gray-500/30 hover:bg-gray-500/10"
+                title="Replace the canvas with this revision"
+              >
+                <RotateCcw className="w-3 h-3" />
+                Whole
+              </button>
+            </div>
+          )}
+        </>
+      )}
+      {error && <div className="px-3 pb-2 text-red-500">{error}</div>}
+    </div>
+  )
+}
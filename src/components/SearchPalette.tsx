@@ -0,0 +1,174 @@
+import React, { useEffect, useRef } from 'react'
+import { X, ChevronUp, ChevronDown, Type, MessageSquare, Regex } from 'lucide-react'
+import { Theme } from '../types'
+import { SearchRange, SearchResult } from '../utils/searchUtils'
+
+// 스니펫에서 첫 매치 앞에 보여줄 글자 수
+const SNIPPET_LEAD = 24
+const SNIPPET_LENGTH = 90
+
+interface SearchPaletteProps {
+  query: string
+  isRegex: boolean
+  results: SearchResult[]
+  activeIndex: number
+  error: string | null
+  theme: Theme
+  onQueryChange: (query: string) => void
+  onToggleRegex: () => void
+  onSelect: (index: number) => void
+  onNext: () => void
+  onPrevious: () => void
+  onClose: () => void
+}
+
+// 줄바꿈은 공백으로 바꿔 오프셋을 그대로 유지
+const renderSnippet = (content: string, ranges: SearchRange[]) => {
+  const flat = content.replace(/\n/g, ' ')
+  const start = ranges.length > 0 ? Math.max(0, ranges[0][0] - SNIPPET_LEAD) : 0
+  const end = Math.min(flat.length, start + SNIPPET_LENGTH)
+  const parts: React.ReactNode[] = []
+  let cursor = start
+  ranges.forEach(([from, to], index) => {
+    if (to <= start || from >= end) return
+    if (from > cursor) parts.push(flat.slice(cursor, from))
+    parts.push(
+      <mark key={index} className="bg-yellow-300/60 text-inherit rounded-sm">
+        {flat.slice(Math.max(from, cursor), Math.min(to, end))}
+      </mark>
+    )
+    cursor = Math.min(to, end)
+  })
+  if (cursor < end) parts.push(flat.slice(cursor, end))
+  return (
+    <>
+      {start > 0 && '…'}
+      {parts}
+      {end < flat.length && '…'}
+    </>
+  )
+}
+
+export const SearchPalette: React.FC<SearchPaletteProps> = ({
+  query,
+  isRegex,
+  results,
+  activeIndex,
+  error,
+  theme,
+  onQueryChange,
+  onToggleRegex,
+  onSelect,
+  onNext,
+  onPrevious,
+  onClose
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    inputRef.current?.focus()
+    inputRef.current?.select()
+  }, [])
+
+  useEffect(() => {
+    const row = listRef.current?.querySelector<HTMLElement>(`[data-index="${activeIndex}"]`)
+    row?.scrollIntoView({ block: 'nearest' })
+  }, [activeIndex])
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // 캔버스 단축키로 전달되지 않도록
+    e.stopPropagation()
+    if (e.nativeEvent.isComposing) return
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      onClose()
+    } else if (e.key === 'Enter' || e.key === 'ArrowDown') {
+      e.preventDefault()
+      if (e.shiftKey) onPrevious()
+      else onNext()
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      onPrevious()
+    } else if ((e.ctrlKey || e.metaKey) && (e.key === 'f' || e.key === 'F')) {
+      e.preventDefault()
+      inputRef.current?.select()
+    }
+  }
+
+  const iconButtonClass = `p-1 rounded transition-colors ${
+    theme === 'dark' ? 'text-gray-400 hover:text-white hover:bg-gray-800' : 'text-gray-500 hover:text-gray-900 hover:bg-gray-100'
+  }`
+
+  return (
+    <div
+      className={`absolute top-14 left-1/2 -translate-x-1/2 z-50 w-[28rem] max-w-[90vw] flex flex-col rounded-lg shadow-xs backdrop-blur-sm border text-xs ${
+        theme === 'dark'
+          ? 'bg-black/60 border-gray-700/30 text-gray-100'
+          : 'bg-white/90 border-gray-200/50 text-gray-800'
+      }`}
+    >
+      <div className="flex items-center gap-1 px-2 py-1.5">
+        <input
+          ref={inputRef}
+          value={query}
+          onChange={e => onQueryChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search text and messages  (#channel to filter)"
+          className="flex-1 min-w-0 px-1 py-0.5 bg-transparent focus:outline-none"
+          style={{ fontFamily: '"JetBrains Mono", monospace' }}
+        />
+        <span className="opacity-60 tabular-nums whitespace-nowrap">
+          {results.length > 0 ? `${activeIndex + 1}/${results.length}` : query.trim() ? 'No results' : ''}
+        </span>
+        <button
+          onClick={onToggleRegex}
+          className={`${iconButtonClass} ${isRegex ? 'text-blue-500 bg-blue-500/10' : ''}`}
+          title="Regular expression"
+        >
+          <Regex className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={onPrevious} disabled={results.length === 0} className={iconButtonClass} title="Previous (Shift+Enter)">
+          <ChevronUp className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={onNext} disabled={results.length === 0} className={iconButtonClass} title="Next (Enter)">
+          <ChevronDown className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={onClose} className={iconButtonClass} title="Close (Esc)">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {error && <div className="px-3 pb-1.5 text-red-500">{error}</div>}
+
+      {results.length > 0 && (
+        <div ref={listRef} className="max-h-72 overflow-y-auto border-t border-gray-500/20 py-1">
+          {results.map((result, index) => (
+            <button
+              key={result.document.key}
+              data-index={index}
+              onClick={() => onSelect(index)}
+              className={`w-full flex items-start gap-2 px-3 py-1 text-left transition-colors ${
+                index === activeIndex
+                  ? 'bg-blue-500/10'
+                  : theme === 'dark' ? 'hover:bg-gray-800' : 'hover:bg-gray-100'
+              }`}
+            >
+              {result.document.kind === 'text'
+                ? <Type className="w-3 h-3 mt-0.5 shrink-0 opacity-60" />
+                : <MessageSquare className="w-3 h-3 mt-0.5 shrink-0 opacity-60" />}
+              <span className="flex-1 min-w-0 break-words">
+                {renderSnippet(result.document.content, result.ranges)}
+              </span>
+              {result.document.channelIds.length > 0 && (
+                <span className="shrink-0 opacity-50">
+                  {result.document.channelIds.map(channelId => `#${channelId}`).join(' ')}
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, within } from '@testing-library/react';
+import { TYPE_SYSTEM_VERSION } from '../types';
+import { createSessionMetadata, importSessionData } from '../utils/sessionUtils';
+import { SessionPanel } from './SessionPanel';
+
+const renderPanel = () => {
+  const onImportSession = vi.fn(async (json: string) => importSessionData(json));
+  const { container } = render(
+    <SessionPanel
+      sessionState={{
+        isLoaded: true,
+        isLoading: false,
+        error: null,
+        metadata: createSessionMetadata('Current'),
+        hasUnsavedChanges: false,
+        autoSaveEnabled: true,
+        lastSaved: null
+      }}
+      onSaveSession={async () => true}
+      onLoadSession={async () => true}
+      onCreateNewSession={async () => true}
+      onClearSession={() => {}}
+      onExportSession={() => ''}
+      onImportSession={onImportSession}
+      onGenerateShareLink={async () => ({ kind: 'error', message: 'unused' })}
+      onToggleAutoSave={() => {}}
+      isOpen
+      onClose={() => {}}
+    />
+  );
+  const upload = (name: string, content: string) => {
+    const input = container.querySelector('input[type="file"]') as HTMLInputElement;
+    fireEvent.change(input, { target: { files: [new File([content], name, { type: 'application/json' })] } });
+  };
+  return { onImportSession, upload };
+};
+
+describe('SessionPanel import report', () => {
+  it('lists every validation problem of a rejected file', async () => {
+    const { upload } = renderPanel();
+    upload('broken.json', JSON.stringify({
+      schemaVersion: TYPE_SYSTEM_VERSION,
+      metadata: createSessionMetadata('Broken'),
+      canvasObjects: [
+        { id: 'text-1', type: 'text', content: 'hi', x: 0, y: 0, fontSize: -1, scale: 1 },
+        { id: 'shape-1', type: 'shape', x: 0, y: 0 }
+      ],
+      links: [{ id: 'link-1', type: 'link', from: 'text-1', to: 'shape-1', style: 'arrow' }]
+    }));
+
+    const report = (await screen.findByText('Could not import broken.json')).closest('div.mt-4') as HTMLElement;
+    expect(within(report).getByText('Session data has 3 problems')).toBeInTheDocument();
+    expect(within(report).getAllByRole('listitem').map(item => item.textContent)).toEqual([
+      'canvasObjects[0].fontSize: expected a positive font size',
+      'canvasObjects[1].type: unknown node type "shape" (expected text, image, video, guide, link)',
+      'links[0].color: expected string, got undefined'
+    ]);
+  });
+
+  it('reports a file that is not JSON', async () => {
+    const { upload } = renderPanel();
+    upload('notes.txt.json', 'not json');
+
+    expect(await screen.findByText('File could not be read as a session')).toBeInTheDocument();
+  });
+});
@@ -15,6 +15,12 @@ import {
   Copy
 } from 'lucide-react';
 import { SessionState } from '../types';
+import { ShareLinkResult, formatByteSize } from '../utils/shareLinkUtils';
+import { SessionImportResult } from '../utils/sessionUtils';
+import { formatValidationIssues } from '../utils/schemaValidation';
+
+// 오류 보고서에 표시할 최대 항목 수
+const MAX_REPORTED_ISSUES = 50;
 
 interface SessionPanelProps {
   sessionState: SessionState;
@@ -23,8 +29,8 @@ interface SessionPanelProps {
   onCreateNewSession: (title?: string, description?: string) => Promise<boolean>;
   onClearSession: () => void;
   onExportSession: () => string;
-  onImportSession: (jsonString: string) => Promise<boolean>;
-  onGenerateShareLink: () => string;
+  onImportSession: (jsonString: string) => Promise<SessionImportResult>;
+  onGenerateShareLink: () => Promise<ShareLinkResult>;
   onToggleAutoSave: (enabled?: boolean) => void;
   isOpen: boolean;
   onClose: () => void;
@@ -48,7 +54,9 @@ export const SessionPanel: React.FC<SessionPanelProps> = ({
   const [newSessionTitle, setNewSessionTitle] = useState('');
   const [newSessionDescription, setNewSessionDescription] = useState('');
   const [shareLink, setShareLink] = useState('');
+  const [shareSizeReport, setShareSizeReport] = useState('');
   const [showMessage, setShowMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [importReport, setImportReport] = useState<{ fileName: string; title: string; lines: string[] } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const showTemporaryMessage = (type: 'success' | 'error', text: string) => {
@@ -110,10 +118,25 @@ export const SessionPanel: React.FC<SessionPanelProps> = ({
     reader.onload = async (e) => {
       try {
         const content = e.target?.result as string;
-        const success = await onImportSession(content);
+        const result = await onImportSession(content);
+        if (!result.ok) {
+          setImportReport({
+            fileName: file.name,
+            title: result.message,
+            lines: formatValidationIssues(result.errors, MAX_REPORTED_ISSUES)
+          });
+          return;
+        }
+
+        setImportReport(null);
+        const notes = [
+          result.sessionData.metadata.readOnly ? 'read-only snapshot' : '',
+          result.migrations.length > 0 ? `upgraded from schema ${result.schemaVersion}` : '',
+          result.warnings.length > 0 ? `${result.warnings.length} warning${result.warnings.length === 1 ? '' : 's'}` : ''
+        ].filter(Boolean);
         showTemporaryMessage(
-          success ? 'success' : 'error',
-          success ? 'Session imported successfully!' : 'Failed to import session'
+          'success',
+          notes.length > 0 ? `Session imported (${notes.join(', ')})` : 'Session imported successfully!'
         );
       } catch (error) {
         showTemporaryMessage('error', 'Invalid session file');
@@ -127,14 +150,17 @@ export const SessionPanel: React.FC<SessionPanelProps> = ({
     }
   };
 
-  const handleGenerateShareLink = () => {
+  const handleGenerateShareLink = async () => {
     try {
-      const link = onGenerateShareLink();
-      if (link) {
-        setShareLink(link);
+      const result = await onGenerateShareLink();
+      if (result.kind === 'link') {
+        setShareLink(result.url);
+        setShareSizeReport(`${result.urlLength.toLocaleString()} / ${result.maxUrlLength.toLocaleString()} characters · ${formatByteSize(result.jsonBytes)} of session data`);
         setShowShareDialog(true);
+      } else if (result.kind === 'snapshot') {
+        showTemporaryMessage('error', `Link would be ${result.urlLength.toLocaleString()} characters (limit ${result.maxUrlLength.toLocaleString()}); saved ${result.fileName} instead`);
       } else {
-        showTemporaryMessage('error', 'Session too large to share via URL');
+        showTemporaryMessage('error', result.message);
       }
     } catch (error) {
       showTemporaryMessage('error', 'Failed to generate share link');
@@ -178,6 +204,9 @@ export const SessionPanel: React.FC<SessionPanelProps> = ({
           {sessionState.metadata && (
             <div className="text-sm text-gray-600 dark:text-gray-300 space-y-1">
               <div>Title: {sessionState.metadata.title}</div>
+              {sessionState.metadata.readOnly && (
+                <div className="text-blue-600">Read-only snapshot: changes are not saved until you save a copy</div>
+              )}
               <div>Last saved: {sessionState.lastSaved?.toLocaleString() || 'Never'}</div>
               {sessionState.hasUnsavedChanges && (
                 <div className="text-orange-600">Unsaved changes</div>
@@ -291,6 +320,32 @@ export const SessionPanel: React.FC<SessionPanelProps> = ({
             {showMessage.text}
           </div>
         )}
+
+        {/* Import error report */}
+        {importReport && (
+          <div className="mt-4 p-3 rounded-lg bg-red-100 text-red-800 dark:bg-red-800 dark:text-red-100 text-sm">
+            <div className="flex items-start gap-2">
+              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="font-medium">Could not import {importReport.fileName}</div>
+                <div>{importReport.title}</div>
+              </div>
+              <button
+                onClick={() => setImportReport(null)}
+                className="text-xs underline opacity-70 hover:opacity-100"
+              >
+                Dismiss
+              </button>
+            </div>
+            {importReport.lines.length > 0 && (
+              <ul className="mt-2 max-h-40 overflow-y-auto font-mono text-xs space-y-0.5">
+                {importReport.lines.map((line, index) => (
+                  <li key={index} className="break-all">{line}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
       </div>
 
       {/* New Session Dialog */}
@@ -361,6 +416,9 @@ export const SessionPanel: React.FC<SessionPanelProps> = ({
                   <Copy className="w-4 h-4" />
                 </button>
               </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {shareSizeReport}
+              </p>
               <div className="flex gap-2 pt-3">
                 <button
                   onClick={() => setShowShareDialog(false)}
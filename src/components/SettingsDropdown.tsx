@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react'
 import { ChevronDown, Grid, Info, Layers, Key, Sun, Moon, Settings, Heart } from 'lucide-react'
 import { Button } from './ui/Button'
+import { aiService } from '../services/aiService'
 
 interface SettingsDropdownProps {
   theme: 'light' | 'dark'
@@ -165,7 +166,10 @@ export const SettingsDropdown: React.FC<SettingsDropdownProps> = ({
               }`}
             >
               <Key className="w-4 h-4" />
-              <span>OpenAI API Key</span>
+              <span>AI Provider</span>
+              <span className={`ml-auto text-xs ${theme === 'dark' ? 'text-gray-500' : 'text-gray-400'}`}>
+                {aiService.getProvider().id === 'local' ? 'Local' : aiService.getProvider().label}
+              </span>
             </button>
           </div>
         </div>
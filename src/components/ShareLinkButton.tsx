@@ -1,8 +1,9 @@
 import React, { useState, useCallback } from 'react';
-import { Share, Copy, CheckCircle, AlertCircle, ExternalLink } from 'lucide-react';
+import { Share, Copy, CheckCircle, AlertCircle, ExternalLink, FileDown } from 'lucide-react';
+import { ShareLinkResult, formatByteSize } from '../utils/shareLinkUtils';
 
 interface ShareLinkButtonProps {
-  onGenerateLink: () => string;
+  onGenerateLink: () => Promise<ShareLinkResult>;
   theme?: 'light' | 'dark';
   className?: string;
   showLabel?: boolean;
@@ -17,8 +18,9 @@ export const ShareLinkButton: React.FC<ShareLinkButtonProps> = ({
   compact = false
 }) => {
   const [isSharing, setIsSharing] = useState(false);
-  const [shareStatus, setShareStatus] = useState<'idle' | 'copying' | 'success' | 'error'>('idle');
+  const [shareStatus, setShareStatus] = useState<'idle' | 'copying' | 'success' | 'snapshot' | 'error'>('idle');
   const [shareLink, setShareLink] = useState('');
+  const [result, setResult] = useState<ShareLinkResult | null>(null);
 
   const handleShare = useCallback(async () => {
     if (isSharing) return;
@@ -27,14 +29,21 @@ export const ShareLinkButton: React.FC<ShareLinkButtonProps> = ({
     setShareStatus('copying');
 
     try {
-      const link = onGenerateLink();
-      
-      if (!link) {
+      const generated = await onGenerateLink();
+      setResult(generated);
+
+      if (generated.kind === 'error') {
         setShareStatus('error');
-        setTimeout(() => setShareStatus('idle'), 3000);
+        return;
+      }
+      if (generated.kind === 'snapshot') {
+        // 링크 대신 스냅샷 파일이 내려받아짐
+        setShareLink('');
+        setShareStatus('snapshot');
         return;
       }
 
+      const link = generated.url;
       setShareLink(link);
 
       // Try to use native share API first (mobile devices)
@@ -59,7 +68,7 @@ export const ShareLinkButton: React.FC<ShareLinkButtonProps> = ({
       setShareStatus('error');
     } finally {
       setIsSharing(false);
-      setTimeout(() => setShareStatus('idle'), 3000);
+      setTimeout(() => setShareStatus('idle'), 5000);
     }
   }, [isSharing, onGenerateLink]);
 
@@ -99,6 +108,8 @@ export const ShareLinkButton: React.FC<ShareLinkButtonProps> = ({
     switch (shareStatus) {
       case 'success':
         return <CheckCircle className="w-4 h-4" />;
+      case 'snapshot':
+        return <FileDown className="w-4 h-4" />;
       case 'error':
         return <AlertCircle className="w-4 h-4" />;
       case 'copying':
@@ -112,6 +123,8 @@ export const ShareLinkButton: React.FC<ShareLinkButtonProps> = ({
     switch (shareStatus) {
       case 'success':
         return 'text-green-500';
+      case 'snapshot':
+        return 'text-amber-500';
       case 'error':
         return 'text-red-500';
       case 'copying':
@@ -133,10 +146,19 @@ export const ShareLinkButton: React.FC<ShareLinkButtonProps> = ({
     return `${baseClass} ${statusColor} ${hoverClass}`;
   };
 
+  // 링크 길이/원본 크기를 정확한 숫자로 안내
+  const getSizeReport = () => {
+    if (!result || result.kind === 'error') return '';
+    const size = `${result.urlLength.toLocaleString()} / ${result.maxUrlLength.toLocaleString()} characters`;
+    return `${size} · ${formatByteSize(result.jsonBytes)} of session data`;
+  };
+
   const getTooltipText = () => {
     switch (shareStatus) {
       case 'success':
-        return 'Link copied to clipboard!';
+        return `Link copied to clipboard! (${getSizeReport()})`;
+      case 'snapshot':
+        return `Too large for a link — saved a snapshot file (${getSizeReport()})`;
       case 'error':
         return 'Failed to generate share link';
       case 'copying':
@@ -146,29 +168,16 @@ export const ShareLinkButton: React.FC<ShareLinkButtonProps> = ({
     }
   };
 
-  if (compact) {
-    return (
-      <button
-        onClick={handleShare}
-        disabled={isSharing}
-        className={getButtonClass()}
-        title={getTooltipText()}
-      >
-        {getStatusIcon()}
-      </button>
-    );
-  }
-
   return (
     <div className="relative">
       <button
         onClick={handleShare}
         disabled={isSharing}
-        className={`flex items-center gap-2 ${getButtonClass()}`}
+        className={compact ? getButtonClass() : `flex items-center gap-2 ${getButtonClass()}`}
         title={getTooltipText()}
       >
         {getStatusIcon()}
-        {showLabel && (
+        {showLabel && !compact && (
           <span className="text-sm">
             {shareStatus === 'success' ? 'Copied!' : 
              shareStatus === 'error' ? 'Error' :
@@ -184,6 +193,7 @@ export const ShareLinkButton: React.FC<ShareLinkButtonProps> = ({
             <CheckCircle className="w-4 h-4 text-green-500" />
             <span className="text-sm font-medium">Link ready to share!</span>
           </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">{getSizeReport()}</p>
           <div className="flex gap-2">
             <button
               onClick={() => handleCopyToClipboard(shareLink)}
@@ -203,18 +213,36 @@ export const ShareLinkButton: React.FC<ShareLinkButtonProps> = ({
         </div>
       )}
 
+      {/* Snapshot fallback */}
+      {shareStatus === 'snapshot' && result?.kind === 'snapshot' && (
+        <div className="absolute top-full left-0 mt-2 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg shadow-lg z-50 min-w-64">
+          <div className="flex items-center gap-2">
+            <FileDown className="w-4 h-4 text-amber-500" />
+            <span className="text-sm text-amber-800 dark:text-amber-200">
+              Session too large for a link
+            </span>
+          </div>
+          <p className="text-xs text-amber-700 dark:text-amber-300 mt-1">
+            The link would be {result.urlLength.toLocaleString()} characters (limit {result.maxUrlLength.toLocaleString()}).
+            Saved {result.fileName} instead — share the file and open it with Import.
+          </p>
+        </div>
+      )}
+
       {/* Error message */}
       {shareStatus === 'error' && (
         <div className="absolute top-full left-0 mt-2 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg shadow-lg z-50">
           <div className="flex items-center gap-2">
             <AlertCircle className="w-4 h-4 text-red-500" />
             <span className="text-sm text-red-800 dark:text-red-200">
-              Session too large for URL sharing
+              Failed to generate share link
             </span>
           </div>
-          <p className="text-xs text-red-600 dark:text-red-300 mt-1">
-            Try exporting as a file instead
-          </p>
+          {result?.kind === 'error' && (
+            <p className="text-xs text-red-600 dark:text-red-300 mt-1">
+              {result.message}
+            </p>
+          )}
         </div>
       )}
     </div>
@@ -143,6 +143,8 @@ export const ShortcutsOverlay = ({ theme, typewriterY, baseFontSize, typewriterX
               { label: 'Previous Mode', key: 'Shift + Tab' },
               { label: 'Undo', key: 'Ctrl+Z' },
               { label: 'Redo', key: 'Ctrl+Shift+Z' },
+              { label: 'Search', key: 'Ctrl+F' },
+              { label: 'Commands', key: '/help' },
             ]
           }
         };
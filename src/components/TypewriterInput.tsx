@@ -1,9 +1,11 @@
-import React from 'react'
+import React, { useState } from 'react'
 import { CornerUpLeft, CornerUpRight, Loader2, AlertCircle } from 'lucide-react'
 import { pxToPoints } from '../utils/units'
 import { AIState, CanvasMode, PinPosition, LinkState, SelectionState } from '../types'
 import { getModeDisplayProperties } from '../utils/modeUtils'
 import { ActiveChannelIndicator } from './ActiveChannelIndicator'
+import { CommandSuggestions } from './CommandSuggestions'
+import { getCommandSuggestions, CommandSuggestion } from '../utils/commandUtils'
 
 // Add CSS for placeholder styling
 const placeholderStyle = document.createElement('style')
@@ -43,8 +45,8 @@ interface TypewriterInputProps {
   theme: 'light' | 'dark'
   maxCharsPerLine: number
   selectedObject: any
-  undoStack: any[]
-  redoStack: any[]
+  canUndo: boolean
+  canRedo: boolean
   aiState: AIState
   getTextBoxWidth: () => number
   getCurrentLineHeight: (selectedObject: any, baseFontSize: number, scale: number) => number
@@ -66,6 +68,10 @@ interface TypewriterInputProps {
   // Channel props
   activeInputChannels: string[]
   onRemoveInputChannel: (channelIds: string[]) => void
+  
+  // Slash command props
+  commandOutput: { lines: string[]; isError: boolean } | null
+  onCommandComplete: (text: string) => void
 }
 
 export const TypewriterInput: React.FC<TypewriterInputProps> = ({
@@ -79,8 +85,8 @@ export const TypewriterInput: React.FC<TypewriterInputProps> = ({
   theme,
   maxCharsPerLine,
   selectedObject,
-  undoStack,
-  redoStack,
+  canUndo,
+  canRedo,
   aiState,
   getTextBoxWidth,
   getCurrentLineHeight,
@@ -97,8 +103,12 @@ export const TypewriterInput: React.FC<TypewriterInputProps> = ({
   linkState,
   selectionState,
   activeInputChannels,
-  onRemoveInputChannel
+  onRemoveInputChannel,
+  commandOutput,
+  onCommandComplete
 }) => {
+  const [activeSuggestion, setActiveSuggestion] = useState(0)
+
   if (!showTextBox) return null
 
   const modeProps = getModeDisplayProperties(currentMode, theme);
@@ -106,6 +116,34 @@ export const TypewriterInput: React.FC<TypewriterInputProps> = ({
   // In Link and Select modes, hide the textarea to prevent conflicts
   const showTextArea = currentMode === CanvasMode.TYPOGRAPHY;
 
+  // 슬래시 명령어 자동완성
+  const suggestions = showTextArea && !aiState.isProcessing ? getCommandSuggestions(currentTypingText) : []
+  const activeIndex = Math.min(activeSuggestion, Math.max(suggestions.length - 1, 0))
+
+  const completeSuggestion = (suggestion: CommandSuggestion) => {
+    onCommandComplete(suggestion.completion)
+    setActiveSuggestion(0)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0 && !e.nativeEvent.isComposing) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        const step = e.key === 'ArrowDown' ? 1 : -1
+        setActiveSuggestion((activeIndex + step + suggestions.length) % suggestions.length)
+        return
+      }
+      // Tab은 원래 모드 전환이지만 자동완성 중에는 완성에 사용
+      if (e.key === 'Tab' && !e.shiftKey && suggestions[activeIndex].completion !== currentTypingText) {
+        e.preventDefault()
+        e.stopPropagation()
+        completeSuggestion(suggestions[activeIndex])
+        return
+      }
+    }
+    handleInputKeyDown(e)
+  }
+
   return (
     <>
       {/* Main Typewriter Container */}
@@ -130,7 +168,7 @@ export const TypewriterInput: React.FC<TypewriterInputProps> = ({
           value={currentTypingText}
           placeholder={modeProps?.placeholder || ''}
           onChange={handleInputChange}
-          onKeyDown={handleInputKeyDown}
+          onKeyDown={handleKeyDown}
           onCompositionStart={handleCompositionStart}
           onCompositionEnd={handleCompositionEnd}
           onClick={(e) => {
@@ -196,6 +234,17 @@ export const TypewriterInput: React.FC<TypewriterInputProps> = ({
           </div>
         )}
 
+        {/* Slash command suggestions and output */}
+        {showTextArea && (
+          <CommandSuggestions
+            suggestions={suggestions}
+            activeIndex={activeIndex}
+            output={commandOutput}
+            theme={theme}
+            onSelect={completeSuggestion}
+          />
+        )}
+
         {/* AI Status Indicator - Loading ring overlay without background */}
         {showTextArea && aiState.isProcessing && (
           <div
@@ -349,7 +398,7 @@ export const TypewriterInput: React.FC<TypewriterInputProps> = ({
           >
             <button
               onClick={handleUndo}
-              disabled={undoStack.length === 0}
+              disabled={!canUndo}
               style={{
                 background: 'transparent',
                 border: 'none',
@@ -359,22 +408,22 @@ export const TypewriterInput: React.FC<TypewriterInputProps> = ({
                 display: 'flex',
                 alignItems: 'center',
                 justifyContent: 'center',
-                color: undoStack.length === 0 
+                color: !canUndo 
                   ? (theme === 'dark' ? '#4a5568' : '#d1d5db') 
                   : (theme === 'dark' ? '#bfc9d1' : '#6b7280'),
-                cursor: undoStack.length === 0 ? 'not-allowed' : 'pointer',
+                cursor: !canUndo ? 'not-allowed' : 'pointer',
                 transition: 'all 0.2s ease',
-                opacity: undoStack.length === 0 ? 0.4 : 0.8,
+                opacity: !canUndo ? 0.4 : 0.8,
               }}
               title="실행 취소 (Undo)"
               onMouseOver={e => {
-                if (undoStack.length > 0) {
+                if (canUndo) {
                   e.currentTarget.style.opacity = '1';
                   e.currentTarget.style.color = theme === 'dark' ? '#ffffff' : '#374151';
                 }
               }}
               onMouseOut={e => {
-                if (undoStack.length > 0) {
+                if (canUndo) {
                   e.currentTarget.style.opacity = '0.8';
                   e.currentTarget.style.color = theme === 'dark' ? '#bfc9d1' : '#6b7280';
                 }
@@ -384,7 +433,7 @@ export const TypewriterInput: React.FC<TypewriterInputProps> = ({
             </button>
             <button
               onClick={handleRedo}
-              disabled={redoStack.length === 0}
+              disabled={!canRedo}
               style={{
                 background: 'transparent',
                 border: 'none',
@@ -394,22 +443,22 @@ export const TypewriterInput: React.FC<TypewriterInputProps> = ({
                 display: 'flex',
                 alignItems: 'center',
                 justifyContent: 'center',
-                color: redoStack.length === 0 
+                color: !canRedo 
                   ? (theme === 'dark' ? '#4a5568' : '#d1d5db') 
                   : (theme === 'dark' ? '#bfc9d1' : '#6b7280'),
-                cursor: redoStack.length === 0 ? 'not-allowed' : 'pointer',
+                cursor: !canRedo ? 'not-allowed' : 'pointer',
                 transition: 'all 0.2s ease',
-                opacity: redoStack.length === 0 ? 0.4 : 0.8,
+                opacity: !canRedo ? 0.4 : 0.8,
               }}
               title="다시 실행 (Redo)"
               onMouseOver={e => {
-                if (redoStack.length > 0) {
+                if (canRedo) {
                   e.currentTarget.style.opacity = '1';
                   e.currentTarget.style.color = theme === 'dark' ? '#ffffff' : '#374151';
                 }
               }}
               onMouseOut={e => {
-                if (redoStack.length > 0) {
+                if (canRedo) {
                   e.currentTarget.style.opacity = '0.8';
                   e.currentTarget.style.color = theme === 'dark' ? '#bfc9d1' : '#6b7280';
                 }
@@ -0,0 +1,205 @@
+import React, { useState } from 'react'
+import { X, Plus, Copy, Archive, ArchiveRestore, Search } from 'lucide-react'
+import { CanvasSummary, Theme } from '../types'
+import { WorkspaceStorageInfo } from '../hooks/useWorkspace'
+import { formatByteSize } from '../utils/shareLinkUtils'
+
+interface WorkspaceSidebarProps {
+  canvases: CanvasSummary[]
+  currentSessionId: string
+  query: string
+  storageInfo: WorkspaceStorageInfo | null
+  error: string | null
+  theme: Theme
+  onQueryChange: (query: string) => void
+  onSwitch: (sessionId: string) => void
+  onCreate: () => void
+  onRename: (sessionId: string, title: string) => void
+  onDuplicate: (sessionId: string) => void
+  onSetArchived: (sessionId: string, archived: boolean) => void
+  onClose: () => void
+}
+
+const formatLastEdited = (date: Date) => {
+  const minutes = Math.floor((Date.now() - date.getTime()) / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes}m ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ago`
+  return date.toLocaleDateString()
+}
+
+export const WorkspaceSidebar: React.FC<WorkspaceSidebarProps> = ({
+  canvases,
+  currentSessionId,
+  query,
+  storageInfo,
+  error,
+  theme,
+  onQueryChange,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onSetArchived,
+  onClose
+}) => {
+  const [showArchived, setShowArchived] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [titleInput, setTitleInput] = useState('')
+
+  // 보관한 캔버스는 숨기되, 지금 열려 있으면 계속 보여줌
+  const visible = canvases.filter(canvas => showArchived || !canvas.archived || canvas.id === currentSessionId)
+  const archivedCount = canvases.filter(canvas => canvas.archived).length
+
+  const inputClass = `w-full px-2 py-1 rounded border text-xs bg-transparent focus:outline-none ${
+    theme === 'dark' ? 'border-gray-700 focus:border-blue-500' : 'border-gray-300 focus:border-blue-500'
+  }`
+  const iconButtonClass = theme === 'dark' ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-900'
+
+  const startRename = (canvas: CanvasSummary) => {
+    setEditingId(canvas.id)
+    setTitleInput(canvas.title)
+  }
+
+  const commitRename = () => {
+    if (editingId) onRename(editingId, titleInput)
+    setEditingId(null)
+  }
+
+  return (
+    <div
+      className={`absolute top-14 left-4 z-50 w-72 max-h-[75vh] flex flex-col rounded-lg shadow-xs backdrop-blur-sm border ${
+        theme === 'dark'
+          ? 'bg-black/40 border-gray-700/30 text-gray-100'
+          : 'bg-white/70 border-gray-200/50 text-gray-800'
+      }`}
+    >
+      <div className="flex items-center justify-between px-3 py-2 text-xs font-medium">
+        <span>Canvases</span>
+        <div className="flex items-center gap-2">
+          <button onClick={onCreate} className={iconButtonClass} title="New canvas">
+            <Plus className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={onClose} className={iconButtonClass} title="Close">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="px-3 pb-2 relative">
+        <Search className="w-3 h-3 absolute left-5 top-1.5 opacity-50" />
+        <input
+          value={query}
+          onChange={e => onQueryChange(e.target.value)}
+          onKeyDown={e => {
+            e.stopPropagation()
+            if (e.key === 'Escape') onQueryChange('')
+          }}
+          placeholder="Search titles and text"
+          className={`${inputClass} pl-6`}
+        />
+      </div>
+
+      <div className="overflow-y-auto pb-1">
+        {visible.length === 0 && (
+          <div className="px-3 py-2 text-xs opacity-60">{query ? 'No matching canvases' : 'No saved canvases yet'}</div>
+        )}
+        {visible.map(canvas => {
+          const isCurrent = canvas.id === currentSessionId
+          return (
+            <div
+              key={canvas.id}
+              onClick={() => !isCurrent && editingId !== canvas.id && onSwitch(canvas.id)}
+              className={`group flex gap-2 px-3 py-1.5 text-xs cursor-pointer transition-colors ${
+                isCurrent
+                  ? 'bg-blue-500/10'
+                  : theme === 'dark'
+                    ? 'hover:bg-gray-800'
+                    : 'hover:bg-gray-100'
+              } ${canvas.archived ? 'opacity-60' : ''}`}
+            >
+              <div
+                className={`w-16 h-10 shrink-0 rounded border overflow-hidden ${
+                  theme === 'dark' ? 'border-gray-700 bg-gray-900' : 'border-gray-200 bg-white'
+                }`}
+              >
+                {canvas.thumbnail && <img src={canvas.thumbnail} alt="" className="w-full h-full object-cover" />}
+              </div>
+              <div className="flex-1 min-w-0">
+                {editingId === canvas.id ? (
+                  <input
+                    autoFocus
+                    value={titleInput}
+                    onChange={e => setTitleInput(e.target.value)}
+                    onClick={e => e.stopPropagation()}
+                    onBlur={commitRename}
+                    onKeyDown={e => {
+                      e.stopPropagation()
+                      if (e.key === 'Enter') commitRename()
+                      if (e.key === 'Escape') setEditingId(null)
+                    }}
+                    className={inputClass}
+                  />
+                ) : (
+                  <span
+                    className={`block truncate font-medium ${isCurrent ? 'text-blue-500' : ''}`}
+                    onDoubleClick={e => {
+                      e.stopPropagation()
+                      startRename(canvas)
+                    }}
+                    title="Double-click to rename"
+                  >
+                    {canvas.title}
+                  </span>
+                )}
+                <span className="block truncate opacity-60">
+                  {formatLastEdited(canvas.lastEdited)} · {formatByteSize(canvas.size)} · {canvas.objectCount} objects
+                </span>
+                {canvas.matchSnippet && <span className="block truncate opacity-80 italic">{canvas.matchSnippet}</span>}
+              </div>
+              <div className="flex flex-col gap-1 opacity-0 group-hover:opacity-100">
+                <button
+                  onClick={e => {
+                    e.stopPropagation()
+                    onDuplicate(canvas.id)
+                  }}
+                  className={iconButtonClass}
+                  title="Duplicate"
+                >
+                  <Copy className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={e => {
+                    e.stopPropagation()
+                    onSetArchived(canvas.id, !canvas.archived)
+                  }}
+                  className={iconButtonClass}
+                  title={canvas.archived ? 'Unarchive' : 'Archive'}
+                >
+                  {canvas.archived ? <ArchiveRestore className="w-3 h-3" /> : <Archive className="w-3 h-3" />}
+                </button>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex items-center justify-between px-3 py-2 text-xs opacity-70 border-t border-gray-500/20">
+        <span>
+          {storageInfo
+            ? `${storageInfo.sessionsCount} canvases · ${formatByteSize(storageInfo.totalSize)}${
+                storageInfo.quota ? ` of ${formatByteSize(storageInfo.quota)}` : ''
+              }`
+            : ''}
+        </span>
+        {archivedCount > 0 && (
+          <button onClick={() => setShowArchived(prev => !prev)} className="hover:underline">
+            {showArchived ? 'Hide archived' : `Show archived (${archivedCount})`}
+          </button>
+        )}
+      </div>
+      {error && <div className="px-3 pb-2 text-xs text-red-500">{error}</div>}
+    </div>
+  )
+}
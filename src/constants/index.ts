@@ -1,4 +1,4 @@
-import { ThemeColors } from '../types';
+import { ThemeColors, GuideFormat } from '../types';
 
 /**
  * UI 관련 상수 정의
@@ -66,3 +66,44 @@ export const THEME_COLORS: Record<'dark' | 'light', ThemeColors> = {
     inputBorder: 'rgba(59, 130, 246, 0.5)',
   }
 };
+
+// Undo 히스토리 한도: 동작 개수와 히스토리가 붙잡고 있는 노드 수 (메모리 상한)
+export const HISTORY_MAX_ENTRIES = 200;
+export const HISTORY_MAX_RETAINED_NODES = 20000;
+// 이 시간 안에 같은 노드들을 다시 옮기면 한 번의 이동으로 병합 (ms)
+export const HISTORY_MOVE_MERGE_WINDOW_MS = 1000;
+
+// 공동 편집 서버 주소 (`npm run collab:server`로 로컬 실행, VITE_COLLAB_SERVER_URL로 변경 가능)
+export const COLLAB_DEFAULT_SERVER_URL = 'ws://localhost:1234';
+// 공동 작업자 presence 색상 (클라이언트 번호 순으로 순환)
+export const COLLAB_PRESENCE_COLORS = [
+  '#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899'
+];
+// 커서 위치 전송 간격 (ms)
+export const COLLAB_CURSOR_THROTTLE_MS = 50;
+
+// 공유 링크 형식 버전 (#share=v<버전>.<crc32>.<payload>)과 URL 최대 길이
+export const SHARE_LINK_VERSION = 1;
+export const SHARE_LINK_MAX_URL_LENGTH = 8000;
+
+// 자동 저장: 마지막 변경 후 대기 시간, 계속 편집 중이어도 이 시간 안에는 반드시 저장 (ms)
+export const SESSION_AUTOSAVE_DEBOUNCE_MS = 1000;
+export const SESSION_AUTOSAVE_MAX_WAIT_MS = 10000;
+
+// 리비전: 내용이 바뀐 저장 중 이 간격마다 하나를 남기고, 세션별 총 크기가 한도를 넘으면 오래된 것부터 삭제
+export const SESSION_REVISION_INTERVAL_MS = 5 * 60 * 1000;
+export const SESSION_REVISION_MAX_BYTES = 5 * 1024 * 1024;
+
+// PDF 내보내기: 가이드 포맷별 실제 용지 크기 (mm). 없는 포맷은 화면 크기 (96dpi) 그대로 사용
+export const GUIDE_PAGE_SIZES_MM: Partial<Record<GuideFormat, { width: number; height: number }>> = {
+  a4: { width: 210, height: 297 },
+  a3: { width: 297, height: 420 },
+  letter: { width: 215.9, height: 279.4 },
+  legal: { width: 215.9, height: 355.6 }
+};
+// PDF에 포함할 글꼴 (public/fonts, SIL Open Font License)
+export const PDF_FONT_URL = `${import.meta.env.BASE_URL}fonts/JetBrainsMono-Regular.ttf`;
+
+// 자동 배치: 객체 사이 간격 (월드 단위)과 새 위치로 움직이는 시간 (ms)
+export const LAYOUT_NODE_GAP = 40;
+export const LAYOUT_ANIMATION_MS = 400;
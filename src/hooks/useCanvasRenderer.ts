@@ -6,7 +6,7 @@ import {
   drawSelectionRectangle,
   worldToScreen
 } from '../utils';
-import { renderLink, renderLinkPreview } from '../utils/linkUtils';
+import { renderLink, renderLinkPreview, getLinkObstacles, resolveLinkEnds } from '../utils/linkUtils';
 import { renderSelectionRect } from '../utils/selectionUtils';
 import { CanvasMode } from '../types';
 import useCanvasStore from '../store/canvasStore';
@@ -219,15 +219,11 @@ export const useCanvasRenderer = (selectedObject?: any, dragPreviewObjects?: any
     }
     
     // Draw links
-    links.forEach(link => {
-      const fromObject = canvasObjects.find(obj => obj.id.toString() === link.from);
-      const toObject = canvasObjects.find(obj => obj.id.toString() === link.to);
-      
-      if (fromObject && toObject) {
-        const isSelected = selectedLinks.has(link.id);
-        const isHovered = hoveredLink?.id === link.id;
-        renderLink(ctx, link, fromObject, toObject, scale, canvasOffset, isSelected, isHovered, measureTextWidthLocal);
-      }
+    const linkObstacles = getLinkObstacles(canvasObjects, measureTextWidthLocal);
+    resolveLinkEnds(links, canvasObjects, measureTextWidthLocal, linkObstacles).forEach(({ link, fromObject, toObject }) => {
+      const isSelected = selectedLinks.has(link.id);
+      const isHovered = hoveredLink?.id === link.id;
+      renderLink(ctx, link, fromObject, toObject, scale, canvasOffset, isSelected, isHovered, measureTextWidthLocal, linkObstacles, theme === 'dark' ? '#0f172a' : '#ffffff');
     });
     
     // Draw link preview
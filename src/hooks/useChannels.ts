@@ -1,5 +1,5 @@
 import { useState, useCallback, useEffect } from 'react';
-import { Channel, ChannelMessage } from '../types';
+import { Channel, ChannelMessage, NodeId } from '../types';
 import { 
   createDefaultChannels, 
   getChannelDisplayName, 
@@ -87,7 +87,7 @@ export function useChannels() {
    * 채널에 메시지를 추가합니다
    */
   const addMessage = useCallback((
-    textObjectId: number,
+    textObjectId: NodeId,
     content: string,
     channelIds: string[]
   ): ChannelMessage => {
@@ -170,7 +170,7 @@ export function useChannels() {
    * 특정 텍스트 객체의 메시지를 업데이트합니다
    */
   const updateTextObjectMessage = useCallback((
-    textObjectId: number,
+    textObjectId: NodeId,
     newContent: string,
     newChannelIds: string[],
     oldChannelIds: string[] = []
@@ -217,7 +217,7 @@ export function useChannels() {
    * (자동태깅이나 수동 태깅에 사용)
    */
   const addChannelsToTextObject = useCallback((
-    textObjectId: number,
+    textObjectId: NodeId,
     content: string,
     channelIdsToAdd: string[]
   ) => {
@@ -245,7 +245,7 @@ export function useChannels() {
    * 텍스트 객체에서 특정 채널들을 제거합니다
    */
   const removeChannelsFromTextObject = useCallback((
-    textObjectId: number,
+    textObjectId: NodeId,
     content: string,
     channelIdsToRemove: string[]
   ) => {
@@ -374,6 +374,7 @@ export function useChannels() {
   return {
     // 상태
     channels: channelList,
+    channelMap: channels,         // 공동 편집 동기화용 원본 맵
     activeChannelId,
     activeChannelMessages,
     allMessages,
@@ -403,7 +404,7 @@ export function useChannels() {
     // 헬퍼
     getChannelById: (id: string) => channels.get(id),
     getMessagesForChannel: (channelId: string) => channelMessages.get(channelId) || [],
-    getTextObjectChannels: (textObjectId: number) => {
+    getTextObjectChannels: (textObjectId: NodeId) => {
       const currentAllMessages = Array.from(channelMessages.values()).flat();
       const message = currentAllMessages.find(msg => msg.textObjectId === textObjectId);
       return message ? message.channelIds : [];
@@ -0,0 +1,176 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  CanvasObject,
+  LinkObject,
+  Channel,
+  ChannelMessage,
+  CollaborationStatus,
+  CollaboratorIdentity,
+  CollaboratorPresence,
+  RemoteCollaborator,
+  Vector2D
+} from '../types';
+import { CollaborationSession, CollaborationSnapshot } from '../services/collaboration';
+import { COLLAB_DEFAULT_SERVER_URL, COLLAB_PRESENCE_COLORS, COLLAB_CURSOR_THROTTLE_MS } from '../constants';
+
+const USER_STORAGE_KEY = 'nntype_collab_user';
+const ROOM_QUERY_PARAM = 'room';
+
+interface UseCollaborationOptions {
+  canvasObjects: CanvasObject[];
+  links: LinkObject[];
+  channels: Map<string, Channel>;
+  channelMessages: Map<string, ChannelMessage[]>;
+  onRemoteChange: (snapshot: CollaborationSnapshot) => void;
+}
+
+// 이름/색은 브라우저별로 유지해 다시 접속해도 같은 사람으로 보이게 함
+const loadIdentity = (): CollaboratorIdentity => {
+  try {
+    const saved = localStorage.getItem(USER_STORAGE_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (error) {
+    console.warn('Failed to load collaborator identity:', error);
+  }
+  const suffix = Math.floor(Math.random() * 1000);
+  const identity = {
+    id: `user-${Date.now().toString(36)}-${suffix}`,
+    name: `Guest ${suffix}`,
+    color: COLLAB_PRESENCE_COLORS[suffix % COLLAB_PRESENCE_COLORS.length]
+  };
+  localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(identity));
+  return identity;
+};
+
+const getRoomFromUrl = (): string | null => {
+  return new URLSearchParams(window.location.search).get(ROOM_QUERY_PARAM);
+};
+
+const setRoomInUrl = (room: string | null) => {
+  const url = new URL(window.location.href);
+  if (room) {
+    url.searchParams.set(ROOM_QUERY_PARAM, room);
+  } else {
+    url.searchParams.delete(ROOM_QUERY_PARAM);
+  }
+  window.history.replaceState(null, '', url.toString());
+};
+
+/**
+ * 캔버스 상태를 공동 편집 세션과 양방향으로 연결하는 훅.
+ * 로컬 상태가 바뀌면 문서에 반영하고, 원격 변경은 onRemoteChange로 전달.
+ * URL에 ?room=이 있으면 자동으로 접속.
+ */
+export function useCollaboration({
+  canvasObjects,
+  links,
+  channels,
+  channelMessages,
+  onRemoteChange
+}: UseCollaborationOptions) {
+  const [status, setStatus] = useState<CollaborationStatus>('disconnected');
+  const [room, setRoom] = useState<string | null>(getRoomFromUrl);
+  const [collaborators, setCollaborators] = useState<RemoteCollaborator[]>([]);
+  const [identity, setIdentity] = useState<CollaboratorIdentity>(loadIdentity);
+
+  const sessionRef = useRef<CollaborationSession | null>(null);
+  const lastCursorSentRef = useRef(0);
+
+  // 세션 콜백이 항상 최신 상태/핸들러를 보도록 ref로 보관
+  const latestRef = useRef({ canvasObjects, links, channels, channelMessages, identity, onRemoteChange });
+  latestRef.current = { canvasObjects, links, channels, channelMessages, identity, onRemoteChange };
+
+  useEffect(() => {
+    if (!room) return;
+
+    const serverUrl = import.meta.env.VITE_COLLAB_SERVER_URL || COLLAB_DEFAULT_SERVER_URL;
+    setStatus('connecting');
+    const session = new CollaborationSession({
+      serverUrl,
+      room,
+      user: latestRef.current.identity,
+      onRemoteChange: snapshot => latestRef.current.onRemoteChange(snapshot),
+      onPresenceChange: setCollaborators,
+      onStatusChange: setStatus,
+      getInitialSnapshot: () => ({
+        canvasObjects: latestRef.current.canvasObjects,
+        links: latestRef.current.links,
+        channels: latestRef.current.channels,
+        channelMessages: latestRef.current.channelMessages
+      })
+    });
+    sessionRef.current = session;
+
+    return () => {
+      sessionRef.current = null;
+      session.destroy();
+    };
+  }, [room]);
+
+  useEffect(() => {
+    sessionRef.current?.setUser(identity);
+  }, [identity]);
+
+  useEffect(() => {
+    sessionRef.current?.pushObjects(canvasObjects);
+  }, [canvasObjects, status]);
+
+  useEffect(() => {
+    sessionRef.current?.pushLinks(links);
+  }, [links, status]);
+
+  useEffect(() => {
+    sessionRef.current?.pushChannels(channels, channelMessages);
+  }, [channels, channelMessages, status]);
+
+  const join = useCallback((roomName: string) => {
+    const trimmed = roomName.trim();
+    if (!trimmed) return;
+    setRoomInUrl(trimmed);
+    setRoom(trimmed);
+  }, []);
+
+  const leave = useCallback(() => {
+    setRoomInUrl(null);
+    setRoom(null);
+  }, []);
+
+  const rename = useCallback((name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setIdentity(prev => {
+      const next = { ...prev, name: trimmed };
+      localStorage.setItem(USER_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  /**
+   * 커서 위치 (월드 좌표) 전송. 마우스 이동마다 호출해도 일정 간격으로만 보냄.
+   */
+  const updateCursor = useCallback((cursor: Vector2D | null) => {
+    const session = sessionRef.current;
+    if (!session) return;
+    const now = Date.now();
+    if (cursor && now - lastCursorSentRef.current < COLLAB_CURSOR_THROTTLE_MS) return;
+    lastCursorSentRef.current = now;
+    session.updatePresence({ cursor });
+  }, []);
+
+  const updatePresence = useCallback((update: Partial<Omit<CollaboratorPresence, 'user' | 'cursor'>>) => {
+    sessionRef.current?.updatePresence(update);
+  }, []);
+
+  return {
+    status,
+    room,
+    identity,
+    collaborators,
+    isActive: room !== null,
+    join,
+    leave,
+    rename,
+    updateCursor,
+    updatePresence
+  };
+}
@@ -1,10 +1,11 @@
 import { useMemo } from 'react';
-import { CanvasObject, Theme } from '../types';
+import { CanvasObject, LinkObject, Theme } from '../types';
 import { createPNGExporter, createJSONExporter, createSVGExporter } from '../utils/exportHandlers';
 import { calculateContentBoundingBox } from '../utils';
 
 interface UseExportLogicProps {
   canvasObjects: CanvasObject[];
+  links: LinkObject[];
   currentTypingText: string;
   baseFontSize: number;
   getCurrentWorldPosition: () => { x: number; y: number };
@@ -20,6 +21,7 @@ interface UseExportLogicProps {
 
 export const useExportLogic = ({
   canvasObjects,
+  links,
   currentTypingText,
   baseFontSize,
   getCurrentWorldPosition,
@@ -60,13 +62,14 @@ export const useExportLogic = ({
   const exportAsPNG = useMemo(() => 
     createPNGExporter(
       canvasObjects,
+      links,
       currentTypingText,
       baseFontSize,
       getCurrentWorldPosition,
       theme,
       THEME_COLORS
     ),
-    [canvasObjects, currentTypingText, baseFontSize, getCurrentWorldPosition, theme, THEME_COLORS]
+    [canvasObjects, links, currentTypingText, baseFontSize, getCurrentWorldPosition, theme, THEME_COLORS]
   );
 
   const exportAsJSON = useMemo(() =>
@@ -86,12 +89,13 @@ export const useExportLogic = ({
   const exportAsSVG = useMemo(() =>
     createSVGExporter(
       canvasObjects,
+      links,
       currentTypingText,
       baseFontSize,
       getCurrentWorldPosition,
       theme
     ),
-    [canvasObjects, currentTypingText, baseFontSize, getCurrentWorldPosition, theme]
+    [canvasObjects, links, currentTypingText, baseFontSize, getCurrentWorldPosition, theme]
   );
 
   return {
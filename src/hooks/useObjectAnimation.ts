@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { CanvasObject, Vector2D } from '../types';
+import { moveSelectedObjects } from '../utils/selectionUtils';
+import { LAYOUT_ANIMATION_MS } from '../constants';
+
+type ObjectsSetter = (update: (prev: CanvasObject[]) => CanvasObject[]) => void;
+
+export interface UseObjectAnimationProps {
+  setCanvasObjects: ObjectsSetter;
+  /** 선택 하이라이트가 따라오도록 선택 사본도 함께 이동 */
+  setSelectedObjects: ObjectsSetter;
+}
+
+const easeInOutCubic = (t: number) => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+/**
+ * Animate objects by world-space offsets. Each frame moves every object by
+ * the eased share of its offset not yet applied, so the last frame lands
+ * exactly on the target. Callers record undo before starting; the frames
+ * in between end up in the same history entry, and an undo while running
+ * should `cancel()` first.
+ */
+export function useObjectAnimation({ setCanvasObjects, setSelectedObjects }: UseObjectAnimationProps) {
+  const frameRef = useRef<number | null>(null);
+
+  // 진행 중인 애니메이션을 지금 위치에서 멈춤 (undo가 중간 상태를 되돌림)
+  const cancel = useCallback(() => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+  }, []);
+
+  const animateMoves = useCallback((moves: Map<string, Vector2D>) => {
+    cancel();
+    const applied = new Map(Array.from(moves.keys(), id => [id, { x: 0, y: 0 }]));
+
+    const stepTo = (progress: number) => {
+      const steps = new Map<string, Vector2D>();
+      moves.forEach((move, id) => {
+        const done = applied.get(id)!;
+        const step = { x: move.x * progress - done.x, y: move.y * progress - done.y };
+        if (step.x === 0 && step.y === 0) return;
+        done.x += step.x;
+        done.y += step.y;
+        steps.set(id, step);
+      });
+      if (steps.size === 0) return;
+      const apply = (objects: CanvasObject[]) => {
+        let next = objects;
+        steps.forEach((step, id) => {
+          next = moveSelectedObjects(next, new Set([id]), step.x, step.y);
+        });
+        return next;
+      };
+      setCanvasObjects(apply);
+      setSelectedObjects(apply);
+    };
+
+    // 움직임 줄이기 설정이면 바로 이동
+    if (window.matchMedia?.('(prefers-reduced-motion: reduce)').matches) {
+      stepTo(1);
+      return;
+    }
+
+    const start = performance.now();
+    const tick = (now: number) => {
+      const t = Math.min(1, (now - start) / LAYOUT_ANIMATION_MS);
+      stepTo(easeInOutCubic(t));
+      frameRef.current = t < 1 ? requestAnimationFrame(tick) : null;
+    };
+    frameRef.current = requestAnimationFrame(tick);
+  }, [cancel, setCanvasObjects, setSelectedObjects]);
+
+  useEffect(() => cancel, [cancel]);
+
+  return { animateMoves, cancel };
+}
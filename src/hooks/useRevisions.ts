@@ -0,0 +1,62 @@
+import { useState, useCallback, useEffect } from 'react';
+import { SessionData, SessionRevision, SessionRevisionInfo } from '../types';
+import { sessionRepository } from '../services/sessionRepository';
+
+export interface UseRevisionsProps {
+  /** 패널이 열려 있을 때만 목록을 읽음 */
+  enabled: boolean;
+  sessionId: string;
+  getCurrentSessionData: () => SessionData;
+}
+
+/**
+ * Revision timeline of the open session. Revisions are recorded by
+ * `sessionRepository` as it saves; this hook lists and loads them.
+ */
+export function useRevisions({ enabled, sessionId, getCurrentSessionData }: UseRevisionsProps) {
+  const [revisions, setRevisions] = useState<SessionRevisionInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setRevisions(await sessionRepository.listRevisions(sessionId));
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to list revisions');
+    }
+  }, [sessionId]);
+
+  // 열려 있는 동안 저장될 때마다 새 리비전이 생겼는지 다시 읽음
+  useEffect(() => {
+    if (!enabled) return;
+    refresh();
+    let lastSaved = sessionRepository.getStatus().lastSaved;
+    return sessionRepository.subscribe(status => {
+      if (status.lastSaved !== lastSaved) {
+        lastSaved = status.lastSaved;
+        refresh();
+      }
+    });
+  }, [enabled, refresh]);
+
+  const loadRevision = useCallback((revisionId: string): Promise<SessionRevision | null> => {
+    return sessionRepository.loadRevision(revisionId);
+  }, []);
+
+  /**
+   * Keep the current canvas as a revision (before a restore replaces it)
+   */
+  const recordCurrentRevision = useCallback(async (label: string) => {
+    const info = await sessionRepository.recordRevision(getCurrentSessionData(), label);
+    await refresh();
+    return info;
+  }, [getCurrentSessionData, refresh]);
+
+  return {
+    revisions,
+    error,
+    refresh,
+    loadRevision,
+    recordCurrentRevision
+  };
+}
@@ -0,0 +1,76 @@
+import { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import { CanvasObject, ChannelMessage } from '../types';
+import { SearchIndex, SearchResult, compileSearchRegex, parseSearchQuery } from '../utils/searchUtils';
+
+export interface UseSearchProps {
+  /** 팔레트가 열려 있을 때만 색인/검색 */
+  enabled: boolean;
+  canvasObjects: CanvasObject[];
+  channelMessages: Map<string, ChannelMessage[]>;
+  /** 현재 결과가 바뀔 때 (이동/하이라이트) */
+  onActiveResultChange: (result: SearchResult) => void;
+}
+
+/**
+ * Search palette state: query, matching mode, results and the active result.
+ * The index is synced with the canvas on every change, so results follow
+ * edits while the palette is open.
+ */
+export function useSearch({ enabled, canvasObjects, channelMessages, onActiveResultChange }: UseSearchProps) {
+  const [query, setQuery] = useState('');
+  const [isRegex, setIsRegex] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const searchIndex = useMemo(() => new SearchIndex(), []);
+
+  const parsedQuery = useMemo(() => parseSearchQuery(query, isRegex), [query, isRegex]);
+
+  const results = useMemo(() => {
+    if (!enabled) return [];
+    searchIndex.sync(canvasObjects, channelMessages);
+    return searchIndex.search(parsedQuery);
+  }, [enabled, searchIndex, canvasObjects, channelMessages, parsedQuery]);
+
+  const error = useMemo(() => {
+    if (!isRegex || !parsedQuery.text) return null;
+    const pattern = compileSearchRegex(parsedQuery.text);
+    return typeof pattern === 'string' ? pattern : null;
+  }, [isRegex, parsedQuery]);
+
+  // 검색어가 바뀌면 첫 결과부터 (입력하는 동안 바로 이동)
+  const lastQueryRef = useRef(parsedQuery);
+  useEffect(() => {
+    if (lastQueryRef.current === parsedQuery) return;
+    lastQueryRef.current = parsedQuery;
+    setActiveIndex(0);
+    if (results.length > 0) onActiveResultChange(results[0]);
+  }, [parsedQuery, results, onActiveResultChange]);
+
+  const activeResult = results.length > 0 ? results[Math.min(activeIndex, results.length - 1)] : null;
+
+  const goTo = useCallback((index: number) => {
+    if (results.length === 0) return;
+    const wrapped = (index + results.length) % results.length;
+    setActiveIndex(wrapped);
+    onActiveResultChange(results[wrapped]);
+  }, [results, onActiveResultChange]);
+
+  const next = useCallback(() => goTo(activeIndex + 1), [goTo, activeIndex]);
+  const previous = useCallback(() => goTo(activeIndex - 1), [goTo, activeIndex]);
+
+  const toggleRegex = useCallback(() => setIsRegex(prev => !prev), []);
+
+  return {
+    query,
+    setQuery,
+    isRegex,
+    toggleRegex,
+    results,
+    activeIndex: activeResult ? Math.min(activeIndex, results.length - 1) : -1,
+    activeResult,
+    error,
+    goTo,
+    next,
+    previous
+  };
+}
@@ -1,42 +1,36 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
-import { CanvasObject, LinkObject } from '../types';
+import { CanvasObject, LinkObject, Channel, ChannelMessage, SessionMetadata, SessionRecoveryIssue, SessionState, SessionViewState } from '../types';
 import {
   SessionData,
-  SessionMetadata,
   createSessionMetadata,
-  saveSessionToStorage,
-  loadSessionFromStorage,
-  hasStoredSession,
-  clearSessionStorage,
   exportSessionData,
   importSessionData,
   generateShareableLink,
   parseSessionFromUrl,
-  createAutoSave,
-  mergeSessionData
+  SessionImportResult
 } from '../utils/sessionUtils';
+import { ShareLinkResult } from '../utils/shareLinkUtils';
+import { sessionRepository } from '../services/sessionRepository';
 
 export interface UseSessionProps {
-  channels: Map<string, any>;
-  messages: Map<string, any[]>;
+  channels: Map<string, Channel>;
+  messages: Map<string, ChannelMessage[]>;
   canvasObjects: CanvasObject[];
   links: LinkObject[];
   activeChannelId: string | null;
+  /** 시작할 때 저장소에서 복구한 세션 (이미 캔버스 초기 상태로 사용됨) */
+  initialSession?: SessionData | null;
+  /** 저장 시점의 화면 상태 */
+  getViewState?: () => SessionViewState | undefined;
   onSessionLoad?: (sessionData: SessionData) => void;
 }
 
-export interface SessionState {
-  isLoaded: boolean;
-  isLoading: boolean;
-  error: string | null;
-  metadata: SessionMetadata | null;
-  hasUnsavedChanges: boolean;
-  autoSaveEnabled: boolean;
-  lastSaved: Date | null;
-}
+export type { SessionState };
 
 /**
- * Session management hook for persisting and sharing canvas and channel state
+ * Session management hook for persisting and sharing canvas and channel state.
+ * Persistence, autosave and dirty tracking are owned by `sessionRepository`;
+ * this hook feeds it the live session and mirrors its status into React state.
  */
 export function useSession({
   channels,
@@ -44,124 +38,140 @@ export function useSession({
   canvasObjects,
   links,
   activeChannelId,
+  initialSession,
+  getViewState,
   onSessionLoad
 }: UseSessionProps) {
-  // Session state
-  const [sessionState, setSessionState] = useState<SessionState>({
-    isLoaded: false,
-    isLoading: false,
-    error: null,
-    metadata: null,
-    hasUnsavedChanges: false,
-    autoSaveEnabled: true,
-    lastSaved: null
+  const [metadata, setMetadata] = useState(() => initialSession?.metadata ?? createSessionMetadata());
+  const [sessionState, setSessionState] = useState<SessionState>(() => {
+    const status = sessionRepository.getStatus();
+    return {
+      isLoaded: !!initialSession,
+      isLoading: false,
+      error: status.error,
+      metadata: initialSession?.metadata ?? null,
+      hasUnsavedChanges: status.isDirty,
+      autoSaveEnabled: status.autoSaveEnabled,
+      lastSaved: status.lastSaved
+    };
   });
 
-  // Auto-save cleanup function
-  const autoSaveCleanup = useRef<(() => void) | null>(null);
+  // 시작할 때 복구하지 못한 데이터 (사용자가 닫을 때까지 표시)
+  const [recoveryIssues, setRecoveryIssues] = useState<SessionRecoveryIssue[]>(() => sessionRepository.getRecoveryIssues());
+
+  const dismissRecoveryIssues = useCallback(() => {
+    sessionRepository.dismissRecoveryIssues();
+    setRecoveryIssues([]);
+  }, []);
 
   /**
    * Get current session data
    */
   const getCurrentSessionData = useCallback((): SessionData => {
-    const metadata = sessionState.metadata || createSessionMetadata();
-    
     return {
       metadata,
       channels,
       messages,
       canvasObjects,
       links,
-      activeChannelId
+      activeChannelId,
+      view: getViewState?.()
     };
-  }, [channels, messages, canvasObjects, links, activeChannelId, sessionState.metadata]);
-
-  /**
-   * Save current state to storage
-   */
-  const saveSession = useCallback(async (title?: string, description?: string): Promise<boolean> => {
-    try {
-      setSessionState(prev => ({ ...prev, isLoading: true, error: null }));
+  }, [metadata, channels, messages, canvasObjects, links, activeChannelId, getViewState]);
 
-      let metadata = sessionState.metadata;
-      if (!metadata) {
-        metadata = createSessionMetadata(title, description);
-      } else {
-        metadata = {
-          ...metadata,
-          lastUpdated: new Date().toISOString(),
-          title: title || metadata.title,
-          description: description || metadata.description
-        };
-      }
-
-      const sessionData: SessionData = {
-        metadata,
-        channels,
-        messages,
-        canvasObjects,
-        links,
-        activeChannelId
-      };
-
-      const success = await saveSessionToStorage(sessionData);
-      
-      if (success) {
-        setSessionState(prev => ({
-          ...prev,
-          isLoaded: true,
-          isLoading: false,
-          metadata,
-          hasUnsavedChanges: false,
-          lastSaved: new Date()
-        }));
-      } else {
-        throw new Error('Failed to save session');
-      }
+  // 저장소는 항상 최신 렌더의 세션을 읽도록 ref를 통해 연결
+  const currentSessionRef = useRef(getCurrentSessionData);
+  currentSessionRef.current = getCurrentSessionData;
 
-      return success;
-    } catch (error) {
+  useEffect(() => {
+    const unsubscribe = sessionRepository.subscribe(status => {
       setSessionState(prev => ({
         ...prev,
-        isLoading: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        hasUnsavedChanges: status.isDirty,
+        autoSaveEnabled: status.autoSaveEnabled,
+        lastSaved: status.lastSaved,
+        error: status.error ?? prev.error
       }));
-      return false;
+    });
+    const detach = sessionRepository.attach(() => currentSessionRef.current());
+    return () => {
+      unsubscribe();
+      detach();
+    };
+  }, []);
+
+  /**
+   * Mark the session as edited. Content changes are tracked here; the canvas
+   * calls this for view changes (pan, zoom, display options).
+   * Edits to a read-only snapshot are not autosaved.
+   */
+  const isReadOnly = !!metadata.readOnly;
+  const markDirty = useCallback(() => {
+    if (isReadOnly) return;
+    sessionRepository.markDirty();
+  }, [isReadOnly]);
+
+  // 첫 렌더의 값은 복구된 세션 그대로이므로 건너뜀
+  const hasMountedRef = useRef(false);
+  useEffect(() => {
+    if (!hasMountedRef.current) {
+      hasMountedRef.current = true;
+      return;
     }
-  }, [sessionState.metadata, channels, messages, canvasObjects, links, activeChannelId]);
+    markDirty();
+  }, [channels, messages, canvasObjects, links, activeChannelId, markDirty]);
+
+  const applyLoadedSession = useCallback((sessionData: SessionData) => {
+    setMetadata(sessionData.metadata);
+    onSessionLoad?.(sessionData);
+    setSessionState(prev => ({
+      ...prev,
+      isLoaded: true,
+      isLoading: false,
+      error: null,
+      metadata: sessionData.metadata
+    }));
+  }, [onSessionLoad]);
+
+  /**
+   * Save current state to storage. Saving a read-only snapshot keeps it as an editable copy.
+   */
+  const saveSession = useCallback(async (title?: string, description?: string): Promise<boolean> => {
+    setSessionState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    const nextMetadata = {
+      ...metadata,
+      title: title || metadata.title,
+      description: description || metadata.description,
+      readOnly: undefined
+    };
+    setMetadata(nextMetadata);
+
+    const success = await sessionRepository.saveSession({ ...getCurrentSessionData(), metadata: nextMetadata });
+    setSessionState(prev => ({
+      ...prev,
+      isLoaded: prev.isLoaded || success,
+      isLoading: false,
+      metadata: success ? nextMetadata : prev.metadata,
+      error: success ? null : 'Failed to save session'
+    }));
+    return success;
+  }, [metadata, getCurrentSessionData]);
 
   /**
    * Load session from storage
    */
   const loadSession = useCallback(async (): Promise<boolean> => {
+    setSessionState(prev => ({ ...prev, isLoading: true, error: null }));
     try {
-      setSessionState(prev => ({ ...prev, isLoading: true, error: null }));
-
-      const sessionData = await loadSessionFromStorage();
-      
+      // 저장되지 않은 편집이 있으면 먼저 기록한 뒤 불러옴
+      await sessionRepository.flush();
+      const sessionData = await sessionRepository.loadSession();
       if (!sessionData) {
-        setSessionState(prev => ({ 
-          ...prev, 
-          isLoading: false,
-          error: 'No stored session found' 
-        }));
+        setSessionState(prev => ({ ...prev, isLoading: false, error: 'No stored session found' }));
         return false;
       }
-
-      // Call the callback to update the application state
-      if (onSessionLoad) {
-        onSessionLoad(sessionData);
-      }
-
-      setSessionState(prev => ({
-        ...prev,
-        isLoaded: true,
-        isLoading: false,
-        metadata: sessionData.metadata,
-        hasUnsavedChanges: false,
-        lastSaved: new Date(sessionData.metadata.lastUpdated)
-      }));
-
+      applyLoadedSession(sessionData);
       return true;
     } catch (error) {
       setSessionState(prev => ({
@@ -171,88 +181,123 @@ export function useSession({
       }));
       return false;
     }
-  }, [onSessionLoad]);
+  }, [applyLoadedSession]);
 
   /**
-   * Create a new session
+   * Create a new session from the current canvas
    */
   const createNewSession = useCallback(async (title?: string, description?: string): Promise<boolean> => {
-    try {
-      // Clear existing session
-      clearSessionStorage();
+    const nextMetadata = createSessionMetadata(title, description);
+    setMetadata(nextMetadata);
 
-      const metadata = createSessionMetadata(title, description);
-      
-      setSessionState(prev => ({
-        ...prev,
-        metadata,
-        hasUnsavedChanges: true,
-        isLoaded: false
-      }));
+    const success = await sessionRepository.saveSession({ ...getCurrentSessionData(), metadata: nextMetadata });
+    setSessionState(prev => ({
+      ...prev,
+      isLoaded: success,
+      metadata: nextMetadata,
+      error: success ? null : 'Failed to create session'
+    }));
+    return success;
+  }, [getCurrentSessionData]);
 
-      // Save the new session
-      return await saveSession(title, description);
-    } catch (error) {
-      setSessionState(prev => ({
-        ...prev,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      }));
-      return false;
+  /**
+   * Switch the workspace to another stored canvas.
+   * Resolves with the loaded session for the caller to apply (content and view), or null.
+   */
+  const switchCanvas = useCallback(async (sessionId: string): Promise<SessionData | null> => {
+    if (sessionId === metadata.id) return null;
+    setSessionState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    const sessionData = await sessionRepository.switchTo(sessionId);
+    if (!sessionData) {
+      setSessionState(prev => ({ ...prev, isLoading: false, error: 'Canvas not found' }));
+      return null;
     }
-  }, [saveSession]);
+
+    setMetadata(sessionData.metadata);
+    setSessionState(prev => ({
+      ...prev,
+      isLoaded: true,
+      isLoading: false,
+      metadata: sessionData.metadata
+    }));
+    return sessionData;
+  }, [metadata.id]);
+
+  /**
+   * Create an empty canvas and switch to it
+   */
+  const createCanvas = useCallback(async (title?: string): Promise<SessionData | null> => {
+    const sessionData: SessionData = {
+      metadata: createSessionMetadata(title || 'Untitled canvas', ''),
+      channels: new Map(),
+      messages: new Map(),
+      canvasObjects: [],
+      links: [],
+      activeChannelId: null
+    };
+
+    // 현재 캔버스의 편집을 먼저 저장
+    await sessionRepository.flush();
+    if (!await sessionRepository.saveSession(sessionData)) {
+      setSessionState(prev => ({ ...prev, error: 'Failed to create canvas' }));
+      return null;
+    }
+    return switchCanvas(sessionData.metadata.id);
+  }, [switchCanvas]);
+
+  /**
+   * Apply a metadata change (rename, archive) made in the workspace to the open canvas
+   */
+  const updateCurrentMetadata = useCallback((patch: Partial<SessionMetadata>) => {
+    setMetadata(prev => ({ ...prev, ...patch, id: prev.id }));
+    setSessionState(prev => ({
+      ...prev,
+      metadata: prev.metadata ? { ...prev.metadata, ...patch, id: prev.metadata.id } : prev.metadata
+    }));
+  }, []);
 
   /**
    * Export session as JSON string
    */
   const exportSession = useCallback((): string => {
-    const sessionData = getCurrentSessionData();
-    return exportSessionData(sessionData);
+    return exportSessionData(getCurrentSessionData());
   }, [getCurrentSessionData]);
 
   /**
-   * Import session from JSON string
+   * Import session from JSON string.
+   * Resolves with the full validation report so the caller can show what was wrong.
    */
-  const importSession = useCallback(async (jsonString: string): Promise<boolean> => {
-    try {
-      setSessionState(prev => ({ ...prev, isLoading: true, error: null }));
+  const importSession = useCallback(async (jsonString: string): Promise<SessionImportResult> => {
+    setSessionState(prev => ({ ...prev, isLoading: true, error: null }));
 
-      const sessionData = importSessionData(jsonString);
-      
-      if (!sessionData) {
-        throw new Error('Invalid session data format');
-      }
+    const result = importSessionData(jsonString);
+    if (!result.ok) {
+      setSessionState(prev => ({ ...prev, isLoading: false, error: result.message }));
+      return result;
+    }
 
-      // Save to storage
-      const success = saveSessionToStorage(sessionData);
-      
-      if (success && onSessionLoad) {
-        onSessionLoad(sessionData);
-        
-        setSessionState(prev => ({
-          ...prev,
-          isLoaded: true,
-          isLoading: false,
-          metadata: sessionData.metadata,
-          hasUnsavedChanges: false,
-          lastSaved: new Date()
-        }));
-      }
+    const { sessionData } = result;
+    if (result.warnings.length > 0) {
+      console.warn('Imported session with warnings:', result.warnings);
+    }
 
-      return success;
-    } catch (error) {
-      setSessionState(prev => ({
-        ...prev,
-        isLoading: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
-      }));
-      return false;
+    // Save to storage
+    const success = await sessionRepository.saveSession(sessionData);
+    if (!success) {
+      const message = 'Session is valid but could not be saved to storage';
+      setSessionState(prev => ({ ...prev, isLoading: false, error: message }));
+      return { ok: false, message, errors: [] };
     }
-  }, [onSessionLoad]);
+
+    applyLoadedSession(sessionData);
+    return result;
+  }, [applyLoadedSession]);
 
   /**
    * Generate shareable link for current session
    */
-  const generateShareLink = useCallback((): string => {
+  const generateShareLink = useCallback((): Promise<ShareLinkResult> => {
     const sessionData = getCurrentSessionData();
     return generateShareableLink(sessionData);
   }, [getCurrentSessionData]);
@@ -264,29 +309,19 @@ export function useSession({
     try {
       setSessionState(prev => ({ ...prev, isLoading: true, error: null }));
 
-      const sessionData = parseSessionFromUrl();
-      
+      const sessionData = await parseSessionFromUrl();
+
       if (!sessionData) {
         setSessionState(prev => ({ ...prev, isLoading: false }));
         return false;
       }
 
-      if (onSessionLoad) {
-        onSessionLoad(sessionData);
-      }
-
-      setSessionState(prev => ({
-        ...prev,
-        isLoaded: true,
-        isLoading: false,
-        metadata: sessionData.metadata,
-        hasUnsavedChanges: false,
-        lastSaved: new Date(sessionData.metadata.lastUpdated)
-      }));
+      applyLoadedSession(sessionData);
 
-      // Clear the URL parameter
+      // Clear the share fragment and legacy URL parameter
       const url = new URL(window.location.href);
       url.searchParams.delete('session');
+      url.hash = '';
       window.history.replaceState({}, '', url.toString());
 
       return true;
@@ -298,106 +333,40 @@ export function useSession({
       }));
       return false;
     }
-  }, [onSessionLoad]);
+  }, [applyLoadedSession]);
 
   /**
    * Clear current session
    */
   const clearSession = useCallback(async () => {
-    await clearSessionStorage();
-    setSessionState({
+    await sessionRepository.clear();
+    setMetadata(createSessionMetadata());
+    setSessionState(prev => ({
+      ...prev,
       isLoaded: false,
       isLoading: false,
       error: null,
-      metadata: null,
-      hasUnsavedChanges: false,
-      autoSaveEnabled: true,
-      lastSaved: null
-    });
+      metadata: null
+    }));
   }, []);
 
   /**
    * Toggle auto-save functionality
    */
   const toggleAutoSave = useCallback((enabled?: boolean) => {
-    const newState = enabled !== undefined ? enabled : !sessionState.autoSaveEnabled;
-    
-    if (newState && !autoSaveCleanup.current) {
-      // Start auto-save
-      autoSaveCleanup.current = createAutoSave(getCurrentSessionData, 30000);
-    } else if (!newState && autoSaveCleanup.current) {
-      // Stop auto-save
-      autoSaveCleanup.current();
-      autoSaveCleanup.current = null;
-    }
-
-    setSessionState(prev => ({
-      ...prev,
-      autoSaveEnabled: newState
-    }));
-  }, [sessionState.autoSaveEnabled, getCurrentSessionData]);
-
-  /**
-   * Check for unsaved changes
-   */
-  const checkUnsavedChanges = useCallback(() => {
-    if (!sessionState.isLoaded) return;
-
-    // Mark as having unsaved changes if data has changed since last save
-    setSessionState(prev => ({
-      ...prev,
-      hasUnsavedChanges: true
-    }));
-  }, [sessionState.isLoaded]);
-
-  // Initialize session on mount
-  useEffect(() => {
-    const initializeSession = async () => {
-      // First try to load from URL
-      const loadedFromUrl = await loadSessionFromUrl();
-      
-      if (!loadedFromUrl && await hasStoredSession()) {
-        // Try to load from storage if no URL session
-        await loadSession();
-      }
-    };
-
-    initializeSession();
-  }, [loadSessionFromUrl, loadSession]);
-
-  // Set up auto-save
-  useEffect(() => {
-    if (sessionState.autoSaveEnabled && sessionState.isLoaded) {
-      autoSaveCleanup.current = createAutoSave(getCurrentSessionData, 30000);
-    }
-
-    return () => {
-      if (autoSaveCleanup.current) {
-        autoSaveCleanup.current();
-      }
-    };
-  }, [sessionState.autoSaveEnabled, sessionState.isLoaded, getCurrentSessionData]);
-
-  // Track changes for unsaved state
-  useEffect(() => {
-    if (sessionState.isLoaded) {
-      checkUnsavedChanges();
-    }
-  }, [channels, messages, canvasObjects, links, activeChannelId, checkUnsavedChanges]);
+    sessionRepository.setAutoSave(enabled ?? !sessionRepository.getStatus().autoSaveEnabled);
+  }, []);
 
-  // Cleanup on unmount
+  // 저장된 세션은 시작 전에 이미 복구되었으므로 공유 링크만 확인
   useEffect(() => {
-    return () => {
-      if (autoSaveCleanup.current) {
-        autoSaveCleanup.current();
-      }
-    };
+    loadSessionFromUrl();
   }, []);
 
   return {
     // State
     sessionState,
-    
+    recoveryIssues,
+
     // Actions
     saveSession,
     loadSession,
@@ -408,9 +377,15 @@ export function useSession({
     generateShareLink,
     loadSessionFromUrl,
     toggleAutoSave,
+    markDirty,
+    switchCanvas,
+    createCanvas,
+    updateCurrentMetadata,
+    dismissRecoveryIssues,
 
     // Utilities
-    hasStoredSession,
+    currentSessionId: metadata.id,
+    hasStoredSession: () => sessionRepository.hasStoredSession(),
     getCurrentSessionData
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,93 @@
+import { useState, useCallback, useEffect } from 'react';
+import { CanvasSummary, SessionMetadata } from '../types';
+import { getStorageInfo } from '../utils/indexedDBUtils';
+import { sessionRepository } from '../services/sessionRepository';
+
+export interface WorkspaceStorageInfo {
+  usage: number;
+  quota: number;
+  sessionsCount: number;
+  totalSize: number;
+}
+
+export interface UseWorkspaceProps {
+  /** 사이드바가 열려 있을 때만 목록을 읽음 */
+  enabled: boolean;
+  currentSessionId: string;
+  /** 열려 있는 캔버스의 이름/보관 상태가 바뀌었을 때 */
+  onCurrentMetadataChange: (patch: Partial<SessionMetadata>) => void;
+}
+
+/**
+ * Workspace list state: the stored canvases, search, and per-canvas actions
+ * that do not change which canvas is open. Switching and creating canvases
+ * go through `useSession`, which owns the open session.
+ */
+export function useWorkspace({ enabled, currentSessionId, onCurrentMetadataChange }: UseWorkspaceProps) {
+  const [canvases, setCanvases] = useState<CanvasSummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [storageInfo, setStorageInfo] = useState<WorkspaceStorageInfo | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [list, info] = await Promise.all([sessionRepository.listCanvases(query), getStorageInfo()]);
+      setCanvases(list);
+      setStorageInfo(info);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to list canvases');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [query]);
+
+  // 열려 있는 동안 저장될 때마다 (썸네일, 크기, 시각) 다시 읽음
+  useEffect(() => {
+    if (!enabled) return;
+    refresh();
+    let lastSaved = sessionRepository.getStatus().lastSaved;
+    return sessionRepository.subscribe(status => {
+      if (status.lastSaved !== lastSaved) {
+        lastSaved = status.lastSaved;
+        refresh();
+      }
+    });
+  }, [enabled, refresh, currentSessionId]);
+
+  const renameCanvas = useCallback(async (sessionId: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    const metadata = await sessionRepository.updateMetadata(sessionId, { title: trimmed });
+    if (metadata && sessionId === currentSessionId) onCurrentMetadataChange({ title: trimmed });
+    await refresh();
+  }, [currentSessionId, onCurrentMetadataChange, refresh]);
+
+  const setCanvasArchived = useCallback(async (sessionId: string, archived: boolean) => {
+    const metadata = await sessionRepository.updateMetadata(sessionId, { archived });
+    if (metadata && sessionId === currentSessionId) onCurrentMetadataChange({ archived });
+    await refresh();
+  }, [currentSessionId, onCurrentMetadataChange, refresh]);
+
+  const duplicateCanvas = useCallback(async (sessionId: string): Promise<string | null> => {
+    const copyId = await sessionRepository.duplicateSession(sessionId);
+    if (!copyId) setError('Canvas not found');
+    await refresh();
+    return copyId;
+  }, [refresh]);
+
+  return {
+    canvases,
+    query,
+    setQuery,
+    storageInfo,
+    isLoading,
+    error,
+    refresh,
+    renameCanvas,
+    setCanvasArchived,
+    duplicateCanvas
+  };
+}
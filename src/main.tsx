@@ -3,27 +3,21 @@ import ReactDOM from 'react-dom/client';
 import { Analytics } from '@vercel/analytics/react';
 import { SpeedInsights } from '@vercel/speed-insights/react';
 import InfiniteTypewriterCanvas from './components/InfiniteTypewriterCanvas';
+import { sessionRepository } from './services/sessionRepository';
 import './index.css';
 
-// Apply initial theme based on saved theme (default to light mode)
-const savedTheme = localStorage.getItem('nntype_session');
-if (savedTheme) {
-  try {
-    const session = JSON.parse(savedTheme);
-    if (session.theme === 'dark') {
-      document.documentElement.classList.add('dark');
-    }
-    // Light mode is default, no need to add class
-  } catch (e) {
-    // If parsing fails, default to light mode (no class added)
+// 저장된 세션을 먼저 복구해서 첫 렌더부터 같은 화면으로 시작
+sessionRepository.open().then(initialSession => {
+  // Apply initial theme based on saved theme (default to light mode)
+  if (initialSession?.view?.theme === 'dark') {
+    document.documentElement.classList.add('dark');
   }
-}
-// Default to light mode if no saved theme (no class added)
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <InfiniteTypewriterCanvas />
-    <Analytics />
-    <SpeedInsights />
-  </React.StrictMode>
-); 
+  ReactDOM.createRoot(document.getElementById('root')!).render(
+    <React.StrictMode>
+      <InfiniteTypewriterCanvas initialSession={initialSession} />
+      <Analytics />
+      <SpeedInsights />
+    </React.StrictMode>
+  );
+});
@@ -0,0 +1,190 @@
+export type AIProviderId = 'openai' | 'anthropic' | 'local';
+
+export interface AIMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+export interface AIProviderSettings {
+  apiKey: string;
+  baseURL: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface AIProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * One backend that can answer chat messages.
+ * Every provider streams over SSE; only the request shape and
+ * the event payloads differ.
+ */
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  /** 로컬 서버는 키 없이도 동작 */
+  requiresApiKey: boolean;
+  apiKeyPlaceholder: string;
+  apiKeyHelpUrl?: string;
+  defaults: AIProviderSettings;
+  buildRequest: (messages: AIMessage[], settings: AIProviderSettings, stream: boolean) => AIProviderRequest;
+  /** 스트리밍이 아닌 응답 본문에서 텍스트 추출 */
+  parseResponse: (data: any) => string | null;
+  /** SSE data 한 건에서 텍스트 조각 추출. 스트림 종료면 'done' */
+  parseStreamEvent: (data: string) => string | 'done' | null;
+  /** 연결/키 확인용 엔드포인트 */
+  buildValidationRequest: (settings: AIProviderSettings) => { url: string; headers: Record<string, string> };
+}
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+const bearerHeaders = (apiKey: string): Record<string, string> => {
+  return apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+};
+
+const openAICompatible = (
+  id: AIProviderId,
+  label: string,
+  defaults: AIProviderSettings,
+  options: Pick<AIProvider, 'requiresApiKey' | 'apiKeyPlaceholder' | 'apiKeyHelpUrl'>
+): AIProvider => ({
+  id,
+  label,
+  defaults,
+  ...options,
+  buildRequest: (messages, settings, stream) => ({
+    url: `${trimSlash(settings.baseURL)}/chat/completions`,
+    headers: {
+      'Content-Type': 'application/json',
+      ...bearerHeaders(settings.apiKey)
+    },
+    body: {
+      model: settings.model,
+      messages,
+      max_tokens: settings.maxTokens,
+      temperature: settings.temperature,
+      ...(stream ? { stream: true } : {})
+    }
+  }),
+  parseResponse: (data) => data?.choices?.[0]?.message?.content ?? null,
+  parseStreamEvent: (data) => {
+    if (data === '[DONE]') return 'done';
+    const chunk = JSON.parse(data);
+    return chunk.choices?.[0]?.delta?.content ?? null;
+  },
+  buildValidationRequest: (settings) => ({
+    url: `${trimSlash(settings.baseURL)}/models`,
+    headers: bearerHeaders(settings.apiKey)
+  })
+});
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+const anthropicHeaders = (apiKey: string) => ({
+  'x-api-key': apiKey,
+  'anthropic-version': ANTHROPIC_VERSION,
+  // 브라우저에서 직접 호출 허용 (키는 사용자 브라우저에만 저장됨)
+  'anthropic-dangerous-direct-browser-access': 'true'
+});
+
+const anthropicProvider: AIProvider = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  requiresApiKey: true,
+  apiKeyPlaceholder: 'sk-ant-...',
+  apiKeyHelpUrl: 'https://console.anthropic.com/settings/keys',
+  defaults: {
+    apiKey: '',
+    baseURL: 'https://api.anthropic.com/v1',
+    model: 'claude-3-5-haiku-latest',
+    temperature: 0.7,
+    maxTokens: 1000
+  },
+  buildRequest: (messages, settings, stream) => {
+    // Messages API는 system 프롬프트를 별도 필드로 받음
+    const system = messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n');
+    return {
+      url: `${trimSlash(settings.baseURL)}/messages`,
+      headers: {
+        'Content-Type': 'application/json',
+        ...anthropicHeaders(settings.apiKey)
+      },
+      body: {
+        model: settings.model,
+        max_tokens: settings.maxTokens,
+        temperature: settings.temperature,
+        messages: messages.filter(message => message.role !== 'system'),
+        ...(system ? { system } : {}),
+        ...(stream ? { stream: true } : {})
+      }
+    };
+  },
+  parseResponse: (data) => {
+    const blocks: Array<{ type: string; text?: string }> = data?.content ?? [];
+    const text = blocks.filter(block => block.type === 'text').map(block => block.text ?? '').join('');
+    return text || null;
+  },
+  parseStreamEvent: (data) => {
+    const event = JSON.parse(data);
+    if (event.type === 'message_stop') return 'done';
+    if (event.type === 'error') throw new Error(event.error?.message ?? 'Stream error');
+    if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+      return event.delta.text ?? null;
+    }
+    return null;
+  },
+  buildValidationRequest: (settings) => ({
+    url: `${trimSlash(settings.baseURL)}/models`,
+    headers: anthropicHeaders(settings.apiKey)
+  })
+};
+
+/**
+ * Registered providers. "local" targets the OpenAI-compatible endpoint that
+ * Ollama (/v1) and llama.cpp's server both expose, so notes never leave the machine.
+ */
+export const AI_PROVIDERS: Record<AIProviderId, AIProvider> = {
+  openai: openAICompatible(
+    'openai',
+    'OpenAI',
+    {
+      apiKey: '',
+      baseURL: 'https://api.openai.com/v1',
+      model: 'gpt-4o-mini',
+      temperature: 0.7,
+      maxTokens: 1000
+    },
+    {
+      requiresApiKey: true,
+      apiKeyPlaceholder: 'sk-...',
+      apiKeyHelpUrl: 'https://platform.openai.com/api-keys'
+    }
+  ),
+  anthropic: anthropicProvider,
+  local: openAICompatible(
+    'local',
+    'Local (Ollama / llama.cpp)',
+    {
+      apiKey: '',
+      baseURL: 'http://localhost:11434/v1',
+      model: 'llama3.2',
+      temperature: 0.7,
+      maxTokens: 1000
+    },
+    {
+      requiresApiKey: false,
+      apiKeyPlaceholder: 'Optional'
+    }
+  )
+};
+
+export const AI_PROVIDER_IDS = Object.keys(AI_PROVIDERS) as AIProviderId[];
+
+export const isAIProviderId = (value: unknown): value is AIProviderId => {
+  return typeof value === 'string' && value in AI_PROVIDERS;
+};
@@ -0,0 +1,181 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { aiService, readSSEData } from './aiService';
+
+const encoder = new TextEncoder();
+
+interface SSEExchange {
+  /** 요청 본문 (JSON) */
+  body: unknown;
+  path: string;
+  send: (chunk: string) => void;
+  end: () => void;
+  /** 클라이언트가 연결을 끊으면 resolve (응답을 끝내기 전에 끊긴 경우 true) */
+  closed: Promise<boolean>;
+}
+
+/**
+ * Local mock SSE server on an ephemeral port. Each request waits in a queue
+ * until the test picks it up with `nextRequest()` and writes events to it.
+ */
+const startSSEServer = async () => {
+  const queued: SSEExchange[] = [];
+  const waiting: Array<(exchange: SSEExchange) => void> = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+      res.flushHeaders();
+      // 조각마다 바로 보내 네트워크에서 나뉘어 도착하게 함
+      res.socket?.setNoDelay(true);
+
+      const exchange: SSEExchange = {
+        body: JSON.parse(raw),
+        path: req.url ?? '',
+        send: chunk => { res.write(chunk); },
+        end: () => { res.end(); },
+        closed: new Promise(resolve => res.on('close', () => resolve(!res.writableFinished)))
+      };
+      const waiter = waiting.shift();
+      if (waiter) waiter(exchange);
+      else queued.push(exchange);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseURL: `http://127.0.0.1:${port}/v1`,
+    nextRequest: () => new Promise<SSEExchange>(resolve => {
+      const exchange = queued.shift();
+      if (exchange) resolve(exchange);
+      else waiting.push(resolve);
+    }),
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+};
+
+const openAIChunk = (text: string) => `data: ${JSON.stringify({ choices: [{ delta: { content: text } }] })}\n\n`;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('aiService.streamChat', () => {
+  let server: Awaited<ReturnType<typeof startSSEServer>>;
+
+  beforeAll(async () => {
+    server = await startSSEServer();
+    aiService.setActiveProvider('openai');
+    aiService.updateProviderSettings('openai', { apiKey: 'sk-test', baseURL: server.baseURL, model: 'test-model' });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('delivers tokens as they arrive and resolves with the full content', async () => {
+    const tokens: Array<[string, string]> = [];
+    const pending = aiService.streamChat([{ role: 'user', content: 'hi' }], {
+      onToken: (delta, content) => tokens.push([delta, content])
+    });
+
+    const exchange = await server.nextRequest();
+    expect(exchange.path).toBe('/v1/chat/completions');
+    expect(exchange.body).toMatchObject({ model: 'test-model', stream: true });
+
+    exchange.send(openAIChunk('Hel'));
+    await vi.waitFor(() => expect(tokens).toEqual([['Hel', 'Hel']]));
+    exchange.send(openAIChunk('lo'));
+    exchange.send('data: [DONE]\n\n');
+    exchange.end();
+
+    await expect(pending).resolves.toEqual({ content: 'Hello', success: true });
+    expect(tokens).toEqual([['Hel', 'Hel'], ['lo', 'Hello']]);
+  });
+
+  it('closes the connection when the stream signals done early', async () => {
+    const pending = aiService.streamChat([{ role: 'user', content: 'hi' }], { onToken: () => {} });
+
+    const exchange = await server.nextRequest();
+    exchange.send(openAIChunk('Hi'));
+    exchange.send('data: [DONE]\n\n');
+
+    await expect(pending).resolves.toEqual({ content: 'Hi', success: true });
+    // 서버는 응답을 끝내지 않았으므로 끊은 쪽은 클라이언트
+    await expect(exchange.closed).resolves.toBe(true);
+  });
+
+  it('stops on abort, closes the socket and keeps what arrived so far', async () => {
+    const controller = new AbortController();
+    const onToken = vi.fn();
+    const pending = aiService.streamChat([{ role: 'user', content: 'hi' }], { onToken, signal: controller.signal });
+
+    const exchange = await server.nextRequest();
+    exchange.send(openAIChunk('Par'));
+    await vi.waitFor(() => expect(onToken).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    await expect(pending).resolves.toEqual({ content: 'Par', success: false, error: 'Cancelled' });
+    await expect(exchange.closed).resolves.toBe(true);
+    expect(onToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('joins data lines split across network packets and skips malformed events', async () => {
+    const tokens: string[] = [];
+    const pending = aiService.streamChat([{ role: 'user', content: 'hi' }], {
+      onToken: delta => tokens.push(delta)
+    });
+
+    const exchange = await server.nextRequest();
+    const chunk = openAIChunk('split');
+    exchange.send(chunk.slice(0, 12));
+    await delay(20);
+    exchange.send(chunk.slice(12));
+    exchange.send('data: {not json\n\n');
+    exchange.send(': keep-alive\n\n');
+    await delay(20);
+    exchange.send(openAIChunk(' ok'));
+    exchange.end();
+
+    await expect(pending).resolves.toEqual({ content: 'split ok', success: true });
+    expect(tokens).toEqual(['split', ' ok']);
+  });
+
+  it('reports an empty stream as no response', async () => {
+    const pending = aiService.streamChat([{ role: 'user', content: 'hi' }], { onToken: () => {} });
+
+    const exchange = await server.nextRequest();
+    exchange.send('data: [DONE]\n\n');
+
+    await expect(pending).resolves.toEqual({ content: '', success: false, error: 'No response from model' });
+  });
+});
+
+describe('readSSEData', () => {
+  const streamOf = (...chunks: string[]) => new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  });
+
+  const collect = async (body: ReadableStream<Uint8Array>) => {
+    const events: string[] = [];
+    for await (const data of readSSEData(body)) events.push(data);
+    return events;
+  };
+
+  it('joins multi-line data fields and handles CRLF', async () => {
+    await expect(collect(streamOf('data: a\r\ndata: b\r\n\r\ndata:c\n\n'))).resolves.toEqual(['a\nb', 'c']);
+  });
+
+  it('yields a trailing event without a closing blank line', async () => {
+    await expect(collect(streamOf('event: x\ndata: last'))).resolves.toEqual(['last']);
+  });
+});
@@ -1,4 +1,15 @@
 import axios from 'axios';
+import {
+  AIMessage,
+  AIProvider,
+  AIProviderId,
+  AIProviderSettings,
+  AI_PROVIDERS,
+  AI_PROVIDER_IDS,
+  isAIProviderId
+} from './aiProviders';
+
+export type { AIMessage, AIProviderId, AIProviderSettings } from './aiProviders';
 
 export interface AIResponse {
   content: string;
@@ -6,103 +17,207 @@ export interface AIResponse {
   error?: string;
 }
 
-export interface GPTMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
+export interface StreamOptions {
+  /** 토큰이 도착할 때마다 호출 (delta, 지금까지 누적된 전체 텍스트) */
+  onToken: (delta: string, content: string) => void;
+  /** 요청 취소용 시그널 */
+  signal?: AbortSignal;
 }
 
-export interface GPTRequest {
-  model: string;
-  messages: GPTMessage[];
-  max_tokens?: number;
-  temperature?: number;
+/**
+ * Read a server-sent events body and yield the payload of every `data:` field.
+ * Events may be split across network chunks, so partial lines are buffered.
+ */
+export async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let dataLines: string[] = [];
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      finished = done;
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r?\n/);
+      // 마지막 줄은 아직 끝나지 않았을 수 있음
+      buffer = done ? '' : lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line === '') {
+          // 빈 줄 = 이벤트 종료
+          if (dataLines.length > 0) {
+            yield dataLines.join('\n');
+            dataLines = [];
+          }
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+
+      if (done) {
+        if (dataLines.length > 0) yield dataLines.join('\n');
+        return;
+      }
+    }
+  } finally {
+    // 호출자가 중간에 break하면 연결을 닫아 남은 응답을 더 받지 않음
+    if (!finished) reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
 }
 
-export interface GPTResponse {
-  choices: Array<{
-    message: {
-      content: string;
-      role: string;
-    };
-  }>;
+const SETTINGS_STORAGE_KEY = 'ai_provider_settings';
+// 이전 버전에서 OpenAI 키만 저장하던 키
+const LEGACY_API_KEY_STORAGE_KEY = 'openai_api_key';
+
+export interface AIServiceSettings {
+  activeProvider: AIProviderId;
+  providers: Record<AIProviderId, AIProviderSettings>;
 }
 
+const createDefaultSettings = (): AIServiceSettings => ({
+  activeProvider: 'openai',
+  providers: AI_PROVIDER_IDS.reduce((acc, id) => {
+    acc[id] = { ...AI_PROVIDERS[id].defaults };
+    return acc;
+  }, {} as Record<AIProviderId, AIProviderSettings>)
+});
+
 class AIService {
-  private apiKey: string;
-  private baseURL: string = 'https://api.openai.com/v1';
+  private settings: AIServiceSettings;
 
   constructor() {
     // 기본 API 키는 사용하지 않음 - 사용자가 직접 입력해야 함
-    // this.apiKey = import.meta.env.VITE_OPENAI_API_KEY || '';
-    this.apiKey = '';
-    
-    // 로컬 스토리지에서 사용자 API 키 확인
-    const userApiKey = localStorage.getItem('openai_api_key');
-    if (userApiKey) {
-      this.apiKey = userApiKey;
+    this.settings = this.loadSettings();
+
+    if (!this.isConfigured()) {
+      console.warn(`${this.getProvider().label} is not configured. Please open the AI settings from the key button in the header.`);
+    }
+  }
+
+  private loadSettings(): AIServiceSettings {
+    const settings = createDefaultSettings();
+
+    try {
+      const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+      if (saved) {
+        const parsed = JSON.parse(saved) as Partial<AIServiceSettings>;
+        if (isAIProviderId(parsed.activeProvider)) {
+          settings.activeProvider = parsed.activeProvider;
+        }
+        AI_PROVIDER_IDS.forEach(id => {
+          settings.providers[id] = { ...settings.providers[id], ...parsed.providers?.[id] };
+        });
+        return settings;
+      }
+    } catch (error) {
+      console.error('Failed to load AI provider settings:', error);
     }
-    
-    if (!this.apiKey) {
-      console.warn('OpenAI API key not found. Please provide your own API key using the key button in the header.');
+
+    // 기존 OpenAI 키 마이그레이션
+    const legacyApiKey = localStorage.getItem(LEGACY_API_KEY_STORAGE_KEY);
+    if (legacyApiKey) {
+      settings.providers.openai.apiKey = legacyApiKey;
+      localStorage.removeItem(LEGACY_API_KEY_STORAGE_KEY);
+      this.persist(settings);
     }
+    return settings;
+  }
+
+  private persist(settings: AIServiceSettings) {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }
+
+  getSettings(): AIServiceSettings {
+    return {
+      activeProvider: this.settings.activeProvider,
+      providers: { ...this.settings.providers }
+    };
+  }
+
+  getProvider(id: AIProviderId = this.settings.activeProvider): AIProvider {
+    return AI_PROVIDERS[id];
+  }
+
+  getProviderSettings(id: AIProviderId = this.settings.activeProvider): AIProviderSettings {
+    return { ...this.settings.providers[id] };
+  }
+
+  setActiveProvider(id: AIProviderId) {
+    this.settings = { ...this.settings, activeProvider: id };
+    this.persist(this.settings);
+  }
+
+  updateProviderSettings(id: AIProviderId, updates: Partial<AIProviderSettings>) {
+    this.settings = {
+      ...this.settings,
+      providers: {
+        ...this.settings.providers,
+        [id]: { ...this.settings.providers[id], ...updates }
+      }
+    };
+    this.persist(this.settings);
   }
 
   setApiKey(apiKey: string) {
-    this.apiKey = apiKey;
-    if (apiKey) {
-      localStorage.setItem('openai_api_key', apiKey);
-    } else {
-      localStorage.removeItem('openai_api_key');
-    }
+    this.updateProviderSettings(this.settings.activeProvider, { apiKey });
   }
 
   getApiKey(): string {
-    return this.apiKey;
+    return this.settings.providers[this.settings.activeProvider].apiKey;
+  }
+
+  /**
+   * Check that a provider is reachable with the given settings
+   * (lists models, which needs a valid key for hosted providers).
+   */
+  async validateSettings(id: AIProviderId, settings: AIProviderSettings): Promise<boolean> {
+    const { url, headers } = AI_PROVIDERS[id].buildValidationRequest(settings);
+    try {
+      const response = await fetch(url, { headers });
+      return response.ok;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private getNotConfiguredError(): string {
+    const provider = this.getProvider();
+    return provider.requiresApiKey
+      ? `${provider.label} API key not configured. Please click the key button in the header to add your API key.`
+      : `${provider.label} server URL not configured. Please click the key button in the header to set it.`;
   }
 
   async askGPT(question: string): Promise<AIResponse> {
-    if (!this.apiKey) {
+    if (!this.isConfigured()) {
       return {
         content: '',
         success: false,
-        error: 'OpenAI API key not configured. Please click the key button in the header to add your API key.'
+        error: this.getNotConfiguredError()
       };
     }
 
-    try {
-      const request: GPTRequest = {
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'user',
-            content: question
-          }
-        ],
-        max_tokens: 1000,
-        temperature: 0.7
-      };
+    const provider = this.getProvider();
+    const messages: AIMessage[] = [{ role: 'user', content: question }];
 
-      const response = await axios.post<GPTResponse>(
-        `${this.baseURL}/chat/completions`,
-        request,
-        {
-          headers: {
-            'Authorization': `Bearer ${this.apiKey}`,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
+    try {
+      const { url, headers, body } = provider.buildRequest(messages, this.getProviderSettings(), false);
+      const response = await axios.post(url, body, { headers });
+      const content = provider.parseResponse(response.data);
 
-      if (response.data.choices && response.data.choices.length > 0) {
+      if (content) {
         return {
-          content: response.data.choices[0].message.content,
+          content,
           success: true
         };
       } else {
         return {
           content: '',
           success: false,
-          error: 'No response from GPT'
+          error: 'No response from model'
         };
       }
     } catch (error) {
@@ -128,8 +243,90 @@ class AIService {
     }
   }
 
+  async streamGPT(question: string, options: StreamOptions): Promise<AIResponse> {
+    return this.streamChat([{ role: 'user', content: question }], options);
+  }
+
+  /**
+   * Stream an answer token by token over SSE from the active provider.
+   * Resolves with the full content once the stream ends. An aborted request
+   * resolves with whatever arrived so far and `error: 'Cancelled'`.
+   */
+  async streamChat(messages: AIMessage[], { onToken, signal }: StreamOptions): Promise<AIResponse> {
+    if (!this.isConfigured()) {
+      return {
+        content: '',
+        success: false,
+        error: this.getNotConfiguredError()
+      };
+    }
+
+    const provider = this.getProvider();
+    let content = '';
+
+    try {
+      const { url, headers, body } = provider.buildRequest(messages, this.getProviderSettings(), true);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal
+      });
+
+      if (!response.ok || !response.body) {
+        let errorMessage = `Request failed with status ${response.status}`;
+        if (response.status === 401) {
+          errorMessage = 'Invalid API key';
+        } else if (response.status === 429) {
+          errorMessage = 'Rate limit exceeded';
+        } else {
+          const data = await response.json().catch(() => null);
+          if (data?.error?.message) {
+            errorMessage = data.error.message;
+          }
+        }
+        return { content: '', success: false, error: errorMessage };
+      }
+
+      for await (const data of readSSEData(response.body)) {
+        let delta: string | 'done' | null;
+        try {
+          delta = provider.parseStreamEvent(data);
+        } catch (error) {
+          // JSON이 아닌 이벤트(keep-alive 등)는 건너뜀. 제공자 오류 이벤트는 그대로 전달
+          if (error instanceof SyntaxError) continue;
+          throw error;
+        }
+        if (delta === 'done') break;
+        if (delta) {
+          content += delta;
+          onToken(delta, content);
+        }
+      }
+
+      if (!content) {
+        return { content: '', success: false, error: 'No response from model' };
+      }
+
+      return { content, success: true };
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return { content, success: false, error: 'Cancelled' };
+      }
+
+      return {
+        content,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
   isConfigured(): boolean {
-    return !!this.apiKey;
+    const provider = this.getProvider();
+    const settings = this.settings.providers[provider.id];
+    if (!settings.baseURL || !settings.model) return false;
+    return provider.requiresApiKey ? !!settings.apiKey : true;
   }
 }
 
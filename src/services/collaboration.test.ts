@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from 'vitest';
+import * as Y from 'yjs';
+import { Channel, ChannelMessage, LinkObject, TextObject } from '../types';
+import { CollaborationSession, CollaborationSnapshot } from './collaboration';
+
+// 서버 없이 문서만 다룸. 'sync' 이벤트는 테스트에서 직접 발생시킴
+vi.mock('y-websocket', () => ({
+  WebsocketProvider: class {
+    private handlers = new Map<string, (...args: unknown[]) => void>();
+    awareness = {
+      on: () => undefined,
+      off: () => undefined,
+      setLocalStateField: () => undefined,
+      getStates: () => new Map()
+    };
+    on(event: string, handler: (...args: unknown[]) => void) {
+      this.handlers.set(event, handler);
+    }
+    emit(event: string, ...args: unknown[]) {
+      this.handlers.get(event)?.(...args);
+    }
+    destroy() {}
+  }
+}));
+
+const emptySnapshot = (): CollaborationSnapshot => ({
+  canvasObjects: [],
+  links: [],
+  channels: new Map(),
+  channelMessages: new Map()
+});
+
+const openSession = () => {
+  const remoteChanges: CollaborationSnapshot[] = [];
+  const session = new CollaborationSession({
+    serverUrl: 'ws://localhost:1234',
+    room: 'test',
+    user: { id: 'tester', name: 'Tester', color: '#000000' },
+    onRemoteChange: snapshot => remoteChanges.push(snapshot),
+    onPresenceChange: () => undefined,
+    onStatusChange: () => undefined,
+    getInitialSnapshot: emptySnapshot
+  });
+  (session.provider as unknown as { emit: (event: string, ...args: unknown[]) => void }).emit('sync', true);
+  return { session, remoteChanges };
+};
+
+// 두 문서가 서로의 변경을 주고받음 (네트워크가 다시 연결된 순간)
+const exchange = (a: CollaborationSession, b: CollaborationSession) => {
+  const fromA = Y.encodeStateAsUpdate(a.doc, Y.encodeStateVector(b.doc));
+  const fromB = Y.encodeStateAsUpdate(b.doc, Y.encodeStateVector(a.doc));
+  Y.applyUpdate(b.doc, fromA, 'remote');
+  Y.applyUpdate(a.doc, fromB, 'remote');
+};
+
+const text = (id: string): TextObject => ({ type: 'text', id, content: id, x: 0, y: 0, scale: 1, fontSize: 16 });
+
+const link = (id: string, from: string, to: string): LinkObject => ({ type: 'link', id, from, to } as LinkObject);
+
+const idsOf = (snapshot: CollaborationSnapshot) => snapshot.canvasObjects.map(obj => obj.id).sort();
+
+describe('CollaborationSession', () => {
+  it('keeps concurrent adds when a push runs before the remote add reaches local state', () => {
+    const { session: alice } = openSession();
+    const { session: bob } = openSession();
+
+    alice.pushObjects([text('a1')]);
+    alice.pushLinks([link('la', 'a1', 'a1')]);
+    bob.pushObjects([text('b1')]);
+    bob.pushLinks([link('lb', 'b1', 'b1')]);
+    exchange(alice, bob);
+
+    // 아직 상대의 노드가 반영되지 않은 로컬 상태에서 한 번 더 편집
+    bob.pushObjects([text('b1'), text('b2')]);
+    bob.pushLinks([link('lb', 'b1', 'b1'), link('lb2', 'b1', 'b2')]);
+    exchange(alice, bob);
+
+    [alice, bob].forEach(session => {
+      const snapshot = session.readSnapshot();
+      expect(idsOf(snapshot)).toEqual(['a1', 'b1', 'b2']);
+      expect(snapshot.links.map(l => l.id).sort()).toEqual(['la', 'lb', 'lb2']);
+    });
+  });
+
+  it('keeps concurrent channels and messages', () => {
+    const { session: alice } = openSession();
+    const { session: bob } = openSession();
+    const channel = (id: string) => ({ id, name: id } as Channel);
+    const message = (id: string): ChannelMessage => ({
+      id,
+      textObjectId: id,
+      channelIds: ['default'],
+      content: id,
+      timestamp: '2026-10-19T09:00:00.000Z',
+      isFromCanvas: true
+    });
+
+    alice.pushChannels(new Map([['a', channel('a')]]), new Map([['a', [message('m1')]]]));
+    bob.pushChannels(new Map([['b', channel('b')]]), new Map([['b', [message('m2')]]]));
+    exchange(alice, bob);
+    bob.pushChannels(new Map([['b', channel('b')]]), new Map([['b', [message('m2'), message('m3')]]]));
+    exchange(alice, bob);
+
+    const snapshot = alice.readSnapshot();
+    expect(Array.from(snapshot.channels.keys()).sort()).toEqual(['a', 'b']);
+    expect(snapshot.channelMessages.get('a')?.map(m => m.id)).toEqual(['m1']);
+    expect(snapshot.channelMessages.get('b')?.map(m => m.id)).toEqual(['m2', 'm3']);
+  });
+
+  it('still deletes what local state removed', () => {
+    const { session: alice, remoteChanges } = openSession();
+    const { session: bob } = openSession();
+
+    bob.pushObjects([text('b1'), text('b2')]);
+    exchange(alice, bob);
+    const [received] = remoteChanges;
+    alice.pushObjects(received.canvasObjects);
+
+    // alice가 b1을 지움
+    alice.pushObjects(received.canvasObjects.filter(obj => obj.id !== 'b1'));
+    exchange(alice, bob);
+
+    expect(idsOf(bob.readSnapshot())).toEqual(['b2']);
+  });
+});
@@ -0,0 +1,327 @@
+import * as Y from 'yjs';
+import { WebsocketProvider } from 'y-websocket';
+import {
+  CanvasObject,
+  LinkObject,
+  Channel,
+  ChannelMessage,
+  CollaborationStatus,
+  CollaboratorIdentity,
+  CollaboratorPresence,
+  RemoteCollaborator
+} from '../types';
+
+/**
+ * Shared canvas content as plain values, in the shape the canvas keeps in state.
+ */
+export interface CollaborationSnapshot {
+  canvasObjects: CanvasObject[];
+  links: LinkObject[];
+  channels: Map<string, Channel>;
+  channelMessages: Map<string, ChannelMessage[]>;
+}
+
+export interface CollaborationSessionOptions {
+  serverUrl: string;
+  room: string;
+  user: CollaboratorIdentity;
+  onRemoteChange: (snapshot: CollaborationSnapshot) => void;
+  onPresenceChange: (collaborators: RemoteCollaborator[]) => void;
+  onStatusChange: (status: CollaborationStatus) => void;
+  /** 첫 동기화 때 방이 비어 있으면 이 내용으로 채움 */
+  getInitialSnapshot: () => CollaborationSnapshot;
+}
+
+const PRESENCE_FIELD = 'presence';
+
+// 채널 메시지는 메시지 하나가 한 항목 (채널 전체 배열을 통째로 덮어쓰지 않도록)
+interface SharedChannelMessage {
+  channelId: string;
+  message: ChannelMessage;
+}
+
+const messageKey = (channelId: string, messageId: string) => JSON.stringify([channelId, messageId]);
+
+// 지난 push에는 있었는데 이번 로컬 상태에는 없는 키. 원격에서 막 추가되어
+// 아직 로컬 상태에 들어오지 않은 키는 지난 push에도 없었으므로 여기 걸리지 않음
+const removedKeys = (pushed: Set<string>, keys: Set<string>) => Array.from(pushed).filter(key => !keys.has(key));
+
+// 키별로 참조가 바뀐 값만 Y.Map에 반영 (값 하나가 한 번에 교체되는 last-writer-wins 단위)
+const syncMap = <T>(target: Y.Map<T>, entries: [string, T][], lastSynced: Map<string, T>, removed: string[]) => {
+  entries.forEach(([key, value]) => {
+    if (lastSynced.get(key) !== value) target.set(key, value);
+  });
+  removed.forEach(key => target.delete(key));
+};
+
+// 다음 비교 기준: 지운 키를 빼고 로컬 값으로 갱신 (로컬에 아직 없는 원격 값은 유지)
+const nextSynced = <T>(lastSynced: Map<string, T>, entries: [string, T][], removed: string[]) => {
+  const next = new Map(lastSynced);
+  removed.forEach(key => next.delete(key));
+  entries.forEach(([key, value]) => next.set(key, value));
+  return next;
+};
+
+/**
+ * One canvas shared over Yjs.
+ *
+ * The document holds four top-level types:
+ * - `objects`: node id → node, plus `order` (node ids, back to front)
+ * - `links`: link id → link
+ * - `channels`: channel id → channel
+ * - `messages`: (channel id, message id) → message
+ *
+ * Each node and message is stored as a single value, so concurrent edits to
+ * the same one resolve last-writer-wins while different ones always merge
+ * (two people posting to a channel at once both keep their message).
+ * Local state is pushed with the `push*` methods, which only write values
+ * whose reference changed since the last push or remote update, and only
+ * delete what the previous push still had. A remote add that local state has
+ * not picked up yet is therefore never deleted by a push.
+ */
+export class CollaborationSession {
+  readonly doc = new Y.Doc();
+  readonly provider: WebsocketProvider;
+  readonly room: string;
+
+  private objects = this.doc.getMap<CanvasObject>('objects');
+  private order = this.doc.getArray<string>('order');
+  private links = this.doc.getMap<LinkObject>('links');
+  private channels = this.doc.getMap<Channel>('channels');
+  private messages = this.doc.getMap<SharedChannelMessage>('messages');
+
+  private lastObjects = new Map<string, CanvasObject>();
+  private lastOrder: string[] = [];
+  private lastLinks = new Map<string, LinkObject>();
+  private lastChannels = new Map<string, Channel>();
+  private lastChannelMessages = new Map<string, ChannelMessage[]>();
+
+  // 지난 push 때 로컬 상태에 있던 키 (지우기는 이 키들만 대상)
+  private pushedObjectIds = new Set<string>();
+  private pushedLinkIds = new Set<string>();
+  private pushedChannelIds = new Set<string>();
+  private pushedMessageKeys = new Set<string>();
+
+  private hasSynced = false;
+  private presence: CollaboratorPresence;
+
+  constructor(private readonly options: CollaborationSessionOptions) {
+    this.room = options.room;
+    this.presence = { user: options.user, cursor: null, typewriter: null, typingText: '' };
+    this.provider = new WebsocketProvider(options.serverUrl, options.room, this.doc);
+
+    this.provider.on('status', ({ status }: { status: 'connected' | 'connecting' | 'disconnected' }) => {
+      options.onStatusChange(status === 'connected' && this.hasSynced ? 'synced' : status);
+    });
+    this.provider.on('sync', (isSynced: boolean) => {
+      if (!isSynced) return;
+      if (!this.hasSynced) this.handleFirstSync();
+      this.hasSynced = true;
+      options.onStatusChange('synced');
+    });
+
+    this.doc.on('afterTransaction', this.handleTransaction);
+    this.provider.awareness.on('change', this.handleAwarenessChange);
+    this.provider.awareness.setLocalStateField(PRESENCE_FIELD, this.presence);
+  }
+
+  get clientId(): number {
+    return this.doc.clientID;
+  }
+
+  /**
+   * Nothing is pushed before the first sync, so joining a room never
+   * merges the local canvas into someone else's.
+   */
+  get isSynced(): boolean {
+    return this.hasSynced;
+  }
+
+  pushObjects(canvasObjects: CanvasObject[]): void {
+    if (!this.hasSynced) return;
+    const ids = canvasObjects.map(obj => String(obj.id));
+    const removed = removedKeys(this.pushedObjectIds, new Set(ids));
+    this.pushedObjectIds = new Set(ids);
+    const objectsChanged = removed.length > 0 || canvasObjects.some(obj => this.lastObjects.get(String(obj.id)) !== obj);
+    const orderChanged = ids.length !== this.lastOrder.length || ids.some((id, index) => this.lastOrder[index] !== id);
+    if (!objectsChanged && !orderChanged) return;
+
+    const entries = canvasObjects.map(obj => [String(obj.id), obj] as [string, CanvasObject]);
+    this.doc.transact(() => {
+      syncMap(this.objects, entries, this.lastObjects, removed);
+      if (orderChanged) this.syncOrder(ids, removed);
+    }, this);
+
+    this.lastObjects = nextSynced(this.lastObjects, entries, removed);
+    this.lastOrder = ids;
+  }
+
+  pushLinks(links: LinkObject[]): void {
+    if (!this.hasSynced) return;
+    const removed = removedKeys(this.pushedLinkIds, new Set(links.map(link => link.id)));
+    this.pushedLinkIds = new Set(links.map(link => link.id));
+    if (removed.length === 0 && links.every(link => this.lastLinks.get(link.id) === link)) return;
+
+    const entries = links.map(link => [link.id, link] as [string, LinkObject]);
+    this.doc.transact(() => {
+      syncMap(this.links, entries, this.lastLinks, removed);
+    }, this);
+    this.lastLinks = nextSynced(this.lastLinks, entries, removed);
+  }
+
+  pushChannels(channels: Map<string, Channel>, channelMessages: Map<string, ChannelMessage[]>): void {
+    if (!this.hasSynced) return;
+    const entries = Array.from(channels.entries());
+    const removed = removedKeys(this.pushedChannelIds, new Set(channels.keys()));
+    this.pushedChannelIds = new Set(channels.keys());
+    this.doc.transact(() => {
+      syncMap(this.channels, entries, this.lastChannels, removed);
+      this.syncMessages(channelMessages);
+    }, this);
+    this.lastChannels = nextSynced(this.lastChannels, entries, removed);
+    this.lastChannelMessages = new Map(channelMessages);
+  }
+
+  setUser(user: CollaboratorIdentity): void {
+    this.updatePresence({ user });
+  }
+
+  updatePresence(update: Partial<CollaboratorPresence>): void {
+    this.presence = { ...this.presence, ...update };
+    this.provider.awareness.setLocalStateField(PRESENCE_FIELD, this.presence);
+  }
+
+  destroy(): void {
+    this.doc.off('afterTransaction', this.handleTransaction);
+    this.provider.awareness.off('change', this.handleAwarenessChange);
+    this.provider.destroy();
+    this.doc.destroy();
+    this.options.onPresenceChange([]);
+    this.options.onStatusChange('disconnected');
+  }
+
+  /**
+   * Current document content. Ids listed in `order` come first; nodes a
+   * concurrent edit left out of `order` are appended, duplicates dropped.
+   */
+  readSnapshot(): CollaborationSnapshot {
+    const seen = new Set<string>();
+    const canvasObjects: CanvasObject[] = [];
+    this.order.forEach(id => {
+      const obj = this.objects.get(id);
+      if (!obj || seen.has(id)) return;
+      seen.add(id);
+      canvasObjects.push(obj);
+    });
+    this.objects.forEach((obj, id) => {
+      if (!seen.has(id)) canvasObjects.push(obj);
+    });
+
+    return {
+      canvasObjects,
+      links: Array.from(this.links.values()),
+      channels: new Map(this.channels.entries()),
+      channelMessages: this.readChannelMessages()
+    };
+  }
+
+  // 채널별 목록은 시간순으로 다시 만듦 (Y.Map은 순서를 보장하지 않음)
+  private readChannelMessages(): Map<string, ChannelMessage[]> {
+    const channelMessages = new Map<string, ChannelMessage[]>(
+      Array.from(this.channels.keys()).map(channelId => [channelId, []])
+    );
+    this.messages.forEach(({ channelId, message }) => {
+      const list = channelMessages.get(channelId) ?? [];
+      list.push(message);
+      channelMessages.set(channelId, list);
+    });
+    channelMessages.forEach(list => list.sort((a, b) =>
+      a.timestamp.localeCompare(b.timestamp) || a.id.localeCompare(b.id)
+    ));
+    return channelMessages;
+  }
+
+  // 바뀐 메시지만 쓰고, 지난 push 이후 로컬에서 사라진 메시지만 지움 (채널째 사라진 경우 포함)
+  private syncMessages(channelMessages: Map<string, ChannelMessage[]>) {
+    const keys = new Set<string>();
+    channelMessages.forEach((messages, channelId) => {
+      messages.forEach(message => keys.add(messageKey(channelId, message.id)));
+      const previous = this.lastChannelMessages.get(channelId);
+      if (previous === messages) return;
+
+      const previousById = new Map((previous ?? []).map(message => [message.id, message]));
+      messages.forEach(message => {
+        if (previousById.get(message.id) !== message) {
+          this.messages.set(messageKey(channelId, message.id), { channelId, message });
+        }
+      });
+    });
+
+    removedKeys(this.pushedMessageKeys, keys).forEach(key => this.messages.delete(key));
+    this.pushedMessageKeys = keys;
+  }
+
+  // 추가는 끝에 붙이고 삭제는 해당 위치만 지워 동시 편집과 충돌을 줄임. 순서 변경만 전체 재작성
+  // (로컬에 아직 없는 원격 노드는 그 뒤에 유지)
+  private syncOrder(ids: string[], removed: string[]) {
+    const drop = new Set(removed);
+    const current = this.order.toArray();
+    for (let index = current.length - 1; index >= 0; index--) {
+      if (drop.has(current[index])) this.order.delete(index, 1);
+    }
+
+    const local = new Set(ids);
+    const remaining = this.order.toArray();
+    const remainingLocal = remaining.filter(id => local.has(id));
+    const isPrefix = remainingLocal.every((id, index) => ids[index] === id);
+    if (isPrefix) {
+      const ordered = new Set(remaining);
+      const added = ids.filter(id => !ordered.has(id));
+      if (added.length > 0) this.order.push(added);
+      return;
+    }
+    this.order.delete(0, this.order.length);
+    this.order.push([...ids, ...remaining.filter(id => !local.has(id))]);
+  }
+
+  private handleFirstSync() {
+    const isEmptyRoom = this.objects.size === 0 && this.links.size === 0 &&
+      this.channels.size === 0 && this.messages.size === 0;
+    if (isEmptyRoom) {
+      // 방을 처음 연 사람의 캔버스가 공유 문서의 시작점
+      this.hasSynced = true;
+      const initial = this.options.getInitialSnapshot();
+      this.pushObjects(initial.canvasObjects);
+      this.pushLinks(initial.links);
+      this.pushChannels(initial.channels, initial.channelMessages);
+      return;
+    }
+    this.emitRemoteChange();
+  }
+
+  private handleTransaction = (transaction: Y.Transaction) => {
+    if (transaction.origin === this || !this.hasSynced) return;
+    if (transaction.changed.size === 0) return;
+    this.emitRemoteChange();
+  };
+
+  private emitRemoteChange() {
+    const snapshot = this.readSnapshot();
+    this.lastObjects = new Map(snapshot.canvasObjects.map(obj => [String(obj.id), obj]));
+    this.lastOrder = snapshot.canvasObjects.map(obj => String(obj.id));
+    this.lastLinks = new Map(snapshot.links.map(link => [link.id, link]));
+    this.lastChannels = new Map(snapshot.channels);
+    this.lastChannelMessages = new Map(snapshot.channelMessages);
+    this.options.onRemoteChange(snapshot);
+  }
+
+  private handleAwarenessChange = () => {
+    const collaborators: RemoteCollaborator[] = [];
+    this.provider.awareness.getStates().forEach((state, clientId) => {
+      const presence = state[PRESENCE_FIELD] as CollaboratorPresence | undefined;
+      if (clientId === this.doc.clientID || !presence) return;
+      collaborators.push({ ...presence, clientId });
+    });
+    this.options.onPresenceChange(collaborators);
+  };
+}
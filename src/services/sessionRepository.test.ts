@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SessionData, TextObject, generateNodeId } from '../types';
+import { createSessionMetadata } from '../utils/sessionUtils';
+import { SessionRepository } from './sessionRepository';
+
+// IndexedDB 대신 메모리에 저장. savesHang이면 저장이 끝나지 않은 채 페이지를 떠난 상황
+const db = vi.hoisted(() => ({
+  sessions: new Map<string, unknown>(),
+  metadata: new Map<string, unknown>(),
+  currentId: null as string | null,
+  savesHang: false
+}));
+
+vi.mock('../utils/indexedDBUtils', () => ({
+  isIndexedDBAvailable: () => true,
+  saveSessionToDB: async (sessionData: SessionData) => {
+    if (db.savesHang) return new Promise<string>(() => undefined);
+    db.sessions.set(sessionData.metadata.id, sessionData);
+    return sessionData.metadata.id;
+  },
+  loadSessionFromDB: async (id: string) => db.sessions.get(id) ?? null,
+  getCurrentSessionId: async () => db.currentId,
+  setCurrentSessionId: async (id: string) => {
+    db.currentId = id;
+  },
+  getMetadataValue: async (key: string) => db.metadata.get(key),
+  setMetadataValue: async (key: string, value: unknown) => {
+    db.metadata.set(key, value);
+  },
+  getRevisionsForSession: async () => [],
+  saveRevisionToDB: async () => undefined,
+  deleteRevisionsFromDB: async () => undefined
+}));
+
+vi.mock('../utils/thumbnailUtils', () => ({
+  renderCanvasThumbnail: () => null
+}));
+
+const typedSession = (): SessionData => {
+  const id = generateNodeId();
+  const createdAt = new Date().toISOString();
+  const node: TextObject = {
+    type: 'text',
+    content: 'typed before closing the tab',
+    x: 0,
+    y: 0,
+    scale: 1,
+    fontSize: 16,
+    id,
+    _metadata: { createdAt, updatedAt: createdAt, channelIds: ['default'] }
+  };
+  return {
+    metadata: createSessionMetadata('Journal'),
+    channels: new Map(),
+    messages: new Map([['default', [{
+      id: `msg_${id}_1`,
+      textObjectId: id,
+      channelIds: ['default'],
+      content: node.content,
+      timestamp: createdAt,
+      isFromCanvas: true
+    }]]]),
+    canvasObjects: [node],
+    links: [],
+    activeChannelId: null
+  };
+};
+
+describe('SessionRepository recovery journal', () => {
+  beforeEach(() => {
+    db.sessions.clear();
+    db.metadata.clear();
+    db.currentId = null;
+    db.savesHang = false;
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('restores a journal written from a canvas with typed text', async () => {
+    const session = typedSession();
+
+    // 첫 방문: 입력 직후 저장이 끝나기 전에 탭을 닫음
+    vi.useFakeTimers();
+    db.savesHang = true;
+    const closing = new SessionRepository();
+    closing.attach(() => session);
+    closing.markDirty();
+    window.dispatchEvent(new Event('pagehide'));
+    vi.useRealTimers();
+    expect(localStorage.getItem('nntype-recovery')).not.toBeNull();
+
+    // 다음 방문
+    db.savesHang = false;
+    const reopened = new SessionRepository();
+    const restored = await reopened.open();
+
+    expect(reopened.getRecoveryIssues()).toEqual([]);
+    expect(localStorage.getItem('nntype-recovery.unrecovered')).toBeNull();
+    expect(restored?.canvasObjects).toEqual(session.canvasObjects);
+    expect(restored?.messages).toEqual(session.messages);
+    expect(db.sessions.get(session.metadata.id)).toMatchObject({ canvasObjects: session.canvasObjects });
+  });
+
+  it('keeps a journal that fails validation and reports it', async () => {
+    localStorage.setItem('nntype-recovery', JSON.stringify({ savedAt: '', session: '{"canvasObjects": 1}' }));
+
+    const repository = new SessionRepository();
+    expect(await repository.open()).toBeNull();
+
+    expect(localStorage.getItem('nntype-recovery.unrecovered')).not.toBeNull();
+    expect(repository.getRecoveryIssues()).toMatchObject([{ source: 'journal', backupKey: 'nntype-recovery.unrecovered' }]);
+  });
+});
@@ -0,0 +1,695 @@
+import {
+  SessionData,
+  SessionMetadata,
+  SessionPersistenceStatus,
+  SessionRecoveryIssue,
+  SessionRevision,
+  SessionRevisionInfo,
+  CanvasSummary,
+  Theme,
+  Vector2D,
+  CanvasObject
+} from '../types';
+import {
+  saveSessionToDB,
+  loadSessionFromDB,
+  getAllSessionsMetadata,
+  deleteSessionFromDB,
+  clearAllSessions,
+  getCurrentSessionId,
+  setCurrentSessionId,
+  getMetadataValue,
+  setMetadataValue,
+  updateSessionMetadataInDB,
+  saveRevisionToDB,
+  getRevisionsForSession,
+  loadRevisionFromDB,
+  deleteRevisionsFromDB,
+  isIndexedDBAvailable,
+  DBSession
+} from '../utils/indexedDBUtils';
+import { createSessionMetadata, exportSessionData, importSessionData } from '../utils/sessionUtils';
+import { formatValidationIssues } from '../utils/schemaValidation';
+import { renderCanvasThumbnail } from '../utils/thumbnailUtils';
+import {
+  SESSION_AUTOSAVE_DEBOUNCE_MS,
+  SESSION_AUTOSAVE_MAX_WAIT_MS,
+  SESSION_REVISION_INTERVAL_MS,
+  SESSION_REVISION_MAX_BYTES,
+  INITIAL_BASE_FONT_SIZE_PT
+} from '../constants';
+
+// 예전 localStorage 자동 저장 키 (utils/sessionStorage.ts 시절)
+const LEGACY_LOCAL_SESSION_KEY = 'nntype-session';
+const LEGACY_MIGRATED_FLAG = 'legacyLocalStorageMigrated';
+// 페이지를 떠날 때 IndexedDB 저장이 끝나지 못한 경우를 위한 동기 기록
+const RECOVERY_JOURNAL_KEY = 'nntype-recovery';
+// 복구하지 못한 데이터를 지우지 않고 옮겨 두는 키
+const UNRECOVERED_JOURNAL_KEY = `${RECOVERY_JOURNAL_KEY}.unrecovered`;
+const UNMIGRATED_LOCAL_SESSION_KEY = `${LEGACY_LOCAL_SESSION_KEY}.unmigrated`;
+// 오류 안내에 보여줄 검증 문제 수
+const RECOVERY_ISSUE_DETAIL_LIMIT = 5;
+// 검색 결과에 보여줄 일치 부분 앞뒤 글자 수
+const MATCH_SNIPPET_CONTEXT = 30;
+
+/**
+ * Shape written to localStorage by the old autosave.
+ */
+interface LegacyLocalSession {
+  timestamp: number;
+  canvasObjects: CanvasObject[];
+  canvasOffset: Vector2D;
+  scale: number;
+  typewriterLTWorldPosition?: Vector2D;
+  currentTypingText: string;
+  baseFontSize: number;
+  baseFontSizePt?: number;
+  maxCharsPerLine: number;
+  showGrid: boolean;
+  showTextBox: boolean;
+  showInfo: boolean;
+  showShortcuts: boolean;
+  theme: Theme;
+  selectedObjectId?: number;
+}
+
+interface RecoveryJournal {
+  savedAt: string;
+  /** exportSessionData 형식의 세션 JSON */
+  session: string;
+}
+
+/**
+ * Content of the last session written or loaded, so saves that only change
+ * the view keep the canvas's last-edited time and thumbnail.
+ */
+interface WrittenContent {
+  id: string;
+  fingerprint: string;
+  lastUpdated: string;
+  thumbnail: string | null;
+}
+
+type StatusListener = (status: SessionPersistenceStatus) => void;
+
+// 복구 시도 결과. 실패하면 사용자에게 보여줄 검증 문제를 담음
+type RecoveryReadResult =
+  | { ok: true; sessionData: SessionData }
+  | { ok: false; details: string[] };
+
+/**
+ * The single place sessions are persisted.
+ *
+ * IndexedDB holds every session; the app-level `currentSessionId` names the
+ * one restored on startup. Policy:
+ * - autosave: edits call `markDirty()`; the session is written
+ *   `SESSION_AUTOSAVE_DEBOUNCE_MS` after the last edit, and at least every
+ *   `SESSION_AUTOSAVE_MAX_WAIT_MS` while edits keep coming.
+ * - dirty tracking: a revision counter is bumped per edit; a save only clears
+ *   the dirty flag for the revision it wrote, so edits made during a save are kept.
+ * - recovery: when the page is hidden or closed with unsaved edits, a
+ *   synchronous journal is written to localStorage. On startup the newer of
+ *   the journal and the stored current session wins, and the journal is cleared.
+ * - revisions: when a content change is about to overwrite a session and no
+ *   revision was recorded for it in the last `SESSION_REVISION_INTERVAL_MS`,
+ *   the stored content is kept as a revision first. Each session keeps its
+ *   newest revisions up to `SESSION_REVISION_MAX_BYTES`.
+ * - workspace: every stored session is a canvas. `lastUpdated` only moves
+ *   when content changes, so panning around a canvas does not reorder the list.
+ */
+export class SessionRepository {
+  private source: (() => SessionData) | null = null;
+  private revision = 0;
+  private savedRevision = 0;
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  private maxWaitTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingSave: Promise<boolean> | null = null;
+  private lastWritten: WrittenContent | null = null;
+  // 세션별 마지막 리비전 기록 시각 (처음 쓸 때 DB에서 읽음)
+  private lastRevisionAt = new Map<string, number>();
+  private listeners = new Set<StatusListener>();
+  private recoveryIssues: SessionRecoveryIssue[] = [];
+  private status: SessionPersistenceStatus = {
+    isDirty: false,
+    isSaving: false,
+    autoSaveEnabled: true,
+    lastSaved: null,
+    error: null
+  };
+
+  /**
+   * Run the one-time localStorage migration and return the session to restore, if any.
+   */
+  async open(): Promise<SessionData | null> {
+    if (!isIndexedDBAvailable()) {
+      console.warn('IndexedDB not available; sessions will not be persisted');
+      return null;
+    }
+
+    try {
+      await this.migrateLegacyLocalStorage();
+
+      const currentId = await getCurrentSessionId();
+      let session = currentId ? await loadSessionFromDB(currentId) : null;
+
+      const recovered = this.readRecoveryJournal();
+      if (recovered && (!session || recovered.metadata.lastUpdated > session.metadata.lastUpdated)) {
+        session = recovered;
+        await this.write(recovered);
+      }
+      this.clearRecoveryJournal();
+
+      if (session) {
+        this.rememberContent(session);
+        this.updateStatus({ lastSaved: new Date(session.metadata.lastUpdated) });
+      }
+      return session;
+    } catch (error) {
+      console.error('Failed to open session storage:', error);
+      this.updateStatus({ error: error instanceof Error ? error.message : 'Failed to open session storage' });
+      return null;
+    }
+  }
+
+  /**
+   * Connect the live session. Autosave and the unload journal read from `source`.
+   * Returns a function that flushes and disconnects.
+   */
+  attach(source: () => SessionData): () => void {
+    this.source = source;
+
+    const handlePageHide = () => {
+      if (!this.status.isDirty) return;
+      this.writeRecoveryJournal();
+      this.flush();
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') handlePageHide();
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    window.addEventListener('beforeunload', handlePageHide);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      window.removeEventListener('beforeunload', handlePageHide);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      this.flush();
+      if (this.source === source) this.source = null;
+    };
+  }
+
+  /**
+   * Record an edit and schedule an autosave.
+   */
+  markDirty(): void {
+    this.revision++;
+    if (!this.status.isDirty) this.updateStatus({ isDirty: true });
+    if (!this.status.autoSaveEnabled) return;
+
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => this.flush(), SESSION_AUTOSAVE_DEBOUNCE_MS);
+    if (!this.maxWaitTimer) {
+      this.maxWaitTimer = setTimeout(() => this.flush(), SESSION_AUTOSAVE_MAX_WAIT_MS);
+    }
+  }
+
+  /**
+   * Write the attached session now if it has unsaved edits.
+   */
+  async flush(): Promise<boolean> {
+    this.clearTimers();
+    // 저장 중이면 끝난 뒤 그 사이의 변경까지 다시 저장
+    if (this.pendingSave) await this.pendingSave;
+    if (!this.source || this.revision === this.savedRevision) return true;
+
+    const revision = this.revision;
+    return this.track(this.write(this.source()), revision);
+  }
+
+  /**
+   * Write a specific session (explicit save, import, new session) and make it current.
+   */
+  async saveSession(sessionData: SessionData): Promise<boolean> {
+    this.clearTimers();
+    if (this.pendingSave) await this.pendingSave;
+    return this.track(this.write(sessionData), this.revision);
+  }
+
+  async loadSession(sessionId?: string): Promise<SessionData | null> {
+    const id = sessionId ?? await getCurrentSessionId();
+    return id ? loadSessionFromDB(id) : null;
+  }
+
+  async hasStoredSession(): Promise<boolean> {
+    if (!isIndexedDBAvailable()) return false;
+    return (await getCurrentSessionId()) !== null;
+  }
+
+  listSessions(): Promise<DBSession[]> {
+    return getAllSessionsMetadata();
+  }
+
+  /**
+   * Summaries of the stored canvases, most recently edited first.
+   * With a query, only canvases whose title, description or text contains it are returned.
+   */
+  async listCanvases(query = ''): Promise<CanvasSummary[]> {
+    const needle = query.trim().toLowerCase();
+    const records = await getAllSessionsMetadata();
+    return records
+      .map(record => toCanvasSummary(record, needle))
+      .filter((summary): summary is CanvasSummary => summary !== null)
+      .sort((a, b) => b.lastEdited.getTime() - a.lastEdited.getTime());
+  }
+
+  /**
+   * Save pending edits to the open canvas, then load another one and make it current.
+   */
+  async switchTo(sessionId: string): Promise<SessionData | null> {
+    await this.flush();
+    const sessionData = await loadSessionFromDB(sessionId);
+    if (!sessionData) return null;
+
+    await setCurrentSessionId(sessionId);
+    // 불러온 내용은 저장된 그대로이므로 편집으로 치지 않음
+    this.clearTimers();
+    this.savedRevision = this.revision;
+    this.rememberContent(sessionData);
+    this.updateStatus({ isDirty: false, lastSaved: new Date(sessionData.metadata.lastUpdated), error: null });
+    return sessionData;
+  }
+
+  /**
+   * Store a copy of a canvas under a new id. The current canvas does not change.
+   */
+  async duplicateSession(sessionId: string): Promise<string | null> {
+    await this.flush();
+    const original = await loadSessionFromDB(sessionId);
+    if (!original) return null;
+
+    const copy: SessionData = {
+      ...original,
+      metadata: createSessionMetadata(`${original.metadata.title || 'Untitled'} (copy)`, original.metadata.description)
+    };
+    return saveSessionToDB(copy, renderCanvasThumbnail(copy.canvasObjects, copy.view?.theme));
+  }
+
+  /**
+   * Change a stored canvas's metadata without touching its content or last-edited time.
+   * The live session must apply the same patch if `sessionId` is the open canvas.
+   */
+  async updateMetadata(sessionId: string, patch: Partial<Pick<SessionMetadata, 'title' | 'description' | 'archived'>>): Promise<SessionMetadata | null> {
+    await this.flush();
+    return updateSessionMetadataInDB(sessionId, patch);
+  }
+
+  listRevisions(sessionId: string): Promise<SessionRevisionInfo[]> {
+    return getRevisionsForSession(sessionId);
+  }
+
+  loadRevision(revisionId: string): Promise<SessionRevision | null> {
+    return loadRevisionFromDB(revisionId);
+  }
+
+  /**
+   * Keep the given content as a revision now, e.g. before restoring an older one.
+   */
+  async recordRevision(sessionData: SessionData, label?: string): Promise<SessionRevisionInfo | null> {
+    const sessionId = sessionData.metadata.id;
+    const content = { canvasObjects: sessionData.canvasObjects, links: sessionData.links };
+    const revision: SessionRevision = {
+      id: `revision_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      sessionId,
+      createdAt: label ? Date.now() : new Date(sessionData.metadata.lastUpdated).getTime(),
+      size: new TextEncoder().encode(JSON.stringify(content)).length,
+      objectCount: content.canvasObjects.length,
+      linkCount: content.links.length,
+      label,
+      ...content
+    };
+
+    try {
+      await saveRevisionToDB(revision);
+      this.lastRevisionAt.set(sessionId, Date.now());
+      await this.pruneRevisions(sessionId);
+      const { canvasObjects, links, ...info } = revision;
+      return info;
+    } catch (error) {
+      console.warn('Failed to record session revision:', error);
+      return null;
+    }
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await deleteSessionFromDB(sessionId);
+    await deleteRevisionsFromDB((await getRevisionsForSession(sessionId)).map(revision => revision.id));
+    this.lastRevisionAt.delete(sessionId);
+    if ((await getCurrentSessionId()) === sessionId) {
+      await setCurrentSessionId(null);
+    }
+  }
+
+  /**
+   * Remove every stored session and forget pending edits.
+   */
+  async clear(): Promise<void> {
+    this.clearTimers();
+    this.savedRevision = this.revision;
+    this.lastWritten = null;
+    this.lastRevisionAt.clear();
+    this.clearRecoveryJournal();
+    await clearAllSessions();
+    await setCurrentSessionId(null);
+    this.updateStatus({ isDirty: false, lastSaved: null, error: null });
+  }
+
+  setAutoSave(enabled: boolean): void {
+    this.updateStatus({ autoSaveEnabled: enabled });
+    if (!enabled) {
+      this.clearTimers();
+    } else if (this.status.isDirty) {
+      this.flush();
+    }
+  }
+
+  getStatus(): SessionPersistenceStatus {
+    return this.status;
+  }
+
+  /**
+   * Saved data `open()` found but could not restore. The raw data stays in
+   * localStorage under each issue's `backupKey` until the user deals with it.
+   */
+  getRecoveryIssues(): SessionRecoveryIssue[] {
+    return this.recoveryIssues;
+  }
+
+  dismissRecoveryIssues(): void {
+    this.recoveryIssues = [];
+  }
+
+  subscribe(listener: StatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async track(save: Promise<boolean>, revision: number): Promise<boolean> {
+    this.pendingSave = save;
+    this.updateStatus({ isSaving: true });
+    const success = await save;
+    this.pendingSave = null;
+
+    if (success) {
+      this.savedRevision = Math.max(this.savedRevision, revision);
+      this.clearRecoveryJournal();
+    }
+    this.updateStatus({
+      isSaving: false,
+      isDirty: this.revision !== this.savedRevision,
+      lastSaved: success ? new Date() : this.status.lastSaved,
+      error: success ? null : 'Failed to save session'
+    });
+    return success;
+  }
+
+  private async write(sessionData: SessionData): Promise<boolean> {
+    try {
+      const fingerprint = contentFingerprint(sessionData);
+      const previous = this.lastWritten;
+      const unchanged = previous?.id === sessionData.metadata.id && previous.fingerprint === fingerprint;
+      const lastUpdated = unchanged ? previous.lastUpdated : new Date().toISOString();
+      const thumbnail = unchanged
+        ? previous.thumbnail
+        : renderCanvasThumbnail(sessionData.canvasObjects, sessionData.view?.theme);
+      if (!unchanged) await this.keepRevisionBeforeOverwrite(sessionData.metadata.id);
+
+      const sessionId = await saveSessionToDB(
+        { ...sessionData, metadata: { ...sessionData.metadata, lastUpdated } },
+        thumbnail
+      );
+      await setCurrentSessionId(sessionId);
+      this.lastWritten = { id: sessionId, fingerprint, lastUpdated, thumbnail };
+      return true;
+    } catch (error) {
+      console.error('Failed to save session to IndexedDB:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record the stored content of a session as a revision if none was recorded recently.
+   * The revision is dated when that content was last edited.
+   */
+  private async keepRevisionBeforeOverwrite(sessionId: string) {
+    try {
+      let lastRecorded = this.lastRevisionAt.get(sessionId);
+      if (lastRecorded === undefined) {
+        const [latest] = await getRevisionsForSession(sessionId);
+        lastRecorded = latest?.createdAt ?? 0;
+        this.lastRevisionAt.set(sessionId, lastRecorded);
+      }
+      if (Date.now() - lastRecorded < SESSION_REVISION_INTERVAL_MS) return;
+
+      const stored = await loadSessionFromDB(sessionId);
+      if (stored) await this.recordRevision(stored);
+    } catch (error) {
+      // 리비전을 못 남겨도 저장은 계속함
+      console.warn('Failed to keep session revision:', error);
+    }
+  }
+
+  /**
+   * Drop the oldest revisions of a session once their total size exceeds the limit.
+   */
+  private async pruneRevisions(sessionId: string) {
+    const revisions = await getRevisionsForSession(sessionId);
+    let total = 0;
+    const expired = revisions.filter((revision, index) => {
+      total += revision.size;
+      // 가장 최근 리비전은 한도를 넘어도 남김
+      return index > 0 && total > SESSION_REVISION_MAX_BYTES;
+    });
+    await deleteRevisionsFromDB(expired.map(revision => revision.id));
+  }
+
+  private rememberContent(sessionData: SessionData) {
+    this.lastWritten = {
+      id: sessionData.metadata.id,
+      fingerprint: contentFingerprint(sessionData),
+      lastUpdated: sessionData.metadata.lastUpdated,
+      thumbnail: renderCanvasThumbnail(sessionData.canvasObjects, sessionData.view?.theme)
+    };
+  }
+
+  private clearTimers() {
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    if (this.maxWaitTimer) clearTimeout(this.maxWaitTimer);
+    this.debounceTimer = null;
+    this.maxWaitTimer = null;
+  }
+
+  private updateStatus(patch: Partial<SessionPersistenceStatus>) {
+    this.status = { ...this.status, ...patch };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+
+  private writeRecoveryJournal() {
+    if (!this.source) return;
+    try {
+      const sessionData = this.source();
+      const savedAt = new Date().toISOString();
+      const journal: RecoveryJournal = {
+        savedAt,
+        session: exportSessionData({ ...sessionData, metadata: { ...sessionData.metadata, lastUpdated: savedAt } })
+      };
+      localStorage.setItem(RECOVERY_JOURNAL_KEY, JSON.stringify(journal));
+    } catch (error) {
+      // 용량 초과 등: IndexedDB 저장이 끝나기만 기대할 수밖에 없음
+      console.warn('Failed to write session recovery journal:', error);
+    }
+  }
+
+  /**
+   * Read the unload journal. A journal that fails validation is moved aside
+   * and reported through `getRecoveryIssues()` instead of being dropped.
+   */
+  private readRecoveryJournal(): SessionData | null {
+    const raw = localStorage.getItem(RECOVERY_JOURNAL_KEY);
+    if (!raw) return null;
+
+    const result = readJournal(raw);
+    if (result.ok) return result.sessionData;
+
+    console.error('Session recovery journal failed validation:', result.details);
+    localStorage.setItem(UNRECOVERED_JOURNAL_KEY, raw);
+    this.recoveryIssues.push({
+      source: 'journal',
+      message: 'Unsaved changes from your last visit could not be restored',
+      details: result.details,
+      backupKey: UNRECOVERED_JOURNAL_KEY
+    });
+    return null;
+  }
+
+  private clearRecoveryJournal() {
+    localStorage.removeItem(RECOVERY_JOURNAL_KEY);
+  }
+
+  /**
+   * Move the old localStorage autosave into IndexedDB once.
+   * It becomes the current session only if it is newer than the stored one.
+   */
+  private async migrateLegacyLocalStorage(): Promise<void> {
+    if (await getMetadataValue<boolean>(LEGACY_MIGRATED_FLAG)) return;
+
+    const raw = localStorage.getItem(LEGACY_LOCAL_SESSION_KEY);
+    if (raw) {
+      const result = fromLegacyLocalSession(raw);
+      if (result.ok) {
+        const { sessionData } = result;
+        const currentId = await getCurrentSessionId();
+        const current = currentId ? await loadSessionFromDB(currentId) : null;
+        await saveSessionToDB(sessionData);
+        if (!current || sessionData.metadata.lastUpdated > current.metadata.lastUpdated) {
+          await setCurrentSessionId(sessionData.metadata.id);
+        }
+        localStorage.removeItem(LEGACY_LOCAL_SESSION_KEY);
+      } else {
+        // 읽을 수 없는 데이터는 지우지 않고 옆으로 옮겨 둠
+        localStorage.setItem(UNMIGRATED_LOCAL_SESSION_KEY, raw);
+        localStorage.removeItem(LEGACY_LOCAL_SESSION_KEY);
+        this.recoveryIssues.push({
+          source: 'legacy',
+          message: 'Your previous local session could not be moved to the new storage',
+          details: result.details,
+          backupKey: UNMIGRATED_LOCAL_SESSION_KEY
+        });
+      }
+    }
+
+    await setMetadataValue(LEGACY_MIGRATED_FLAG, true);
+  }
+}
+
+/**
+ * Everything that counts as an edit: nodes, links, channels, and the title.
+ */
+function contentFingerprint(sessionData: SessionData): string {
+  return JSON.stringify([
+    sessionData.metadata.title,
+    sessionData.metadata.description,
+    sessionData.canvasObjects,
+    sessionData.links,
+    Array.from(sessionData.channels.entries()),
+    Array.from(sessionData.messages.entries()),
+    sessionData.activeChannelId
+  ]);
+}
+
+/**
+ * Build a workspace list entry, or null when `needle` is given and nothing matches.
+ */
+function toCanvasSummary(record: DBSession, needle: string): CanvasSummary | null {
+  const { metadata, data } = record;
+  const summary: CanvasSummary = {
+    id: record.id,
+    title: metadata.title || 'Untitled',
+    description: metadata.description,
+    lastEdited: new Date(metadata.lastUpdated || record.updatedAt),
+    size: record.size,
+    thumbnail: record.thumbnail ?? null,
+    archived: !!metadata.archived,
+    objectCount: data.canvasObjects.length
+  };
+  if (!needle) return summary;
+
+  if (summary.title.toLowerCase().includes(needle) || summary.description?.toLowerCase().includes(needle)) {
+    return summary;
+  }
+
+  // 텍스트 노드 내용에서 찾으면 앞뒤 문맥과 함께 보여줌
+  for (const obj of data.canvasObjects) {
+    if (obj.type !== 'text') continue;
+    const index = obj.content.toLowerCase().indexOf(needle);
+    if (index === -1) continue;
+
+    const start = Math.max(0, index - MATCH_SNIPPET_CONTEXT);
+    const end = Math.min(obj.content.length, index + needle.length + MATCH_SNIPPET_CONTEXT);
+    const snippet = obj.content.slice(start, end).replace(/\s+/g, ' ');
+    return {
+      ...summary,
+      matchSnippet: `${start > 0 ? '…' : ''}${snippet}${end < obj.content.length ? '…' : ''}`
+    };
+  }
+  return null;
+}
+
+function readJournal(raw: string): RecoveryReadResult {
+  try {
+    const journal = JSON.parse(raw) as RecoveryJournal;
+    const result = importSessionData(journal.session);
+    if (!result.ok) {
+      return { ok: false, details: formatValidationIssues(result.errors, RECOVERY_ISSUE_DETAIL_LIMIT) };
+    }
+    return { ok: true, sessionData: result.sessionData };
+  } catch (error) {
+    return { ok: false, details: [error instanceof Error ? error.message : 'Journal is not valid JSON'] };
+  }
+}
+
+/**
+ * Convert the old localStorage autosave into a session, running it through
+ * the same migrations and validation as an imported file.
+ */
+function fromLegacyLocalSession(raw: string): RecoveryReadResult {
+  try {
+    const legacy = JSON.parse(raw) as LegacyLocalSession;
+    const savedAt = new Date(legacy.timestamp || Date.now()).toISOString();
+    const metadata = {
+      ...createSessionMetadata('Local session', 'Migrated from browser local storage'),
+      createdAt: savedAt,
+      lastUpdated: savedAt
+    };
+
+    const result = importSessionData(JSON.stringify({
+      metadata,
+      channels: [],
+      messages: [],
+      canvasObjects: legacy.canvasObjects || [],
+      links: [],
+      activeChannelId: null
+    }));
+    if (!result.ok) {
+      console.error('Local session failed validation during migration:', result.errors);
+      return { ok: false, details: formatValidationIssues(result.errors, RECOVERY_ISSUE_DETAIL_LIMIT) };
+    }
+
+    const sessionData: SessionData = {
+      ...result.sessionData,
+      view: {
+        canvasOffset: legacy.canvasOffset,
+        scale: legacy.scale,
+        typewriterLTWorldPosition: legacy.typewriterLTWorldPosition ?? null,
+        currentTypingText: legacy.currentTypingText || '',
+        baseFontSize: legacy.baseFontSize,
+        baseFontSizePt: legacy.baseFontSizePt ?? INITIAL_BASE_FONT_SIZE_PT,
+        maxCharsPerLine: legacy.maxCharsPerLine,
+        showGrid: legacy.showGrid,
+        showTextBox: legacy.showTextBox,
+        showInfo: legacy.showInfo,
+        showShortcuts: legacy.showShortcuts,
+        theme: legacy.theme,
+        selectedObjectId: legacy.selectedObjectId !== undefined ? String(legacy.selectedObjectId) : undefined
+      }
+    };
+    return { ok: true, sessionData };
+  } catch (error) {
+    console.error('Failed to read local session during migration:', error);
+    return { ok: false, details: [error instanceof Error ? error.message : 'Local session is not valid JSON'] };
+  }
+}
+
+export const sessionRepository = new SessionRepository();
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HistoryState, TextObject } from '../types';
+import { HISTORY_MAX_ENTRIES, HISTORY_MOVE_MERGE_WINDOW_MS } from '../constants';
+import { applyHistoryOperations } from '../utils/historyUtils';
+import useCanvasStore from './canvasStore';
+
+const store = () => useCanvasStore.getState();
+
+const text = (id: string, x = 0): TextObject => ({ id, type: 'text', content: id, x, y: 0, scale: 1, fontSize: 16 });
+
+const historyState = (overrides: Partial<HistoryState> = {}): HistoryState => ({
+  canvasObjects: [],
+  links: [],
+  canvasOffset: { x: 0, y: 0 },
+  scale: 1,
+  currentTypingText: '',
+  ...overrides
+});
+
+const typed = (value: string) => historyState({ currentTypingText: value });
+
+// 캔버스처럼 동작 직전에 beginHistory를 부르고 다음 동작에서 확정
+const record = (label: string, from: HistoryState, to: HistoryState) => {
+  store().beginHistory(label, from);
+  store().commitHistory(to);
+  return to;
+};
+
+const undo = (current: HistoryState) => {
+  const entry = store().undoHistory(current);
+  return entry ? applyHistoryOperations(current, entry.operations, 'undo') : current;
+};
+
+describe('canvasStore history', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store().clearHistory();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('undoes and redoes committed actions', () => {
+    const start = historyState();
+    const added = record('Add', start, historyState({ canvasObjects: [text('a')] }));
+    const typedState = record('Type', added, { ...added, currentTypingText: 'hi' });
+
+    const afterUndo = undo(typedState);
+    expect(afterUndo).toEqual(added);
+    expect(undo(afterUndo)).toEqual(start);
+
+    const entry = store().redoHistory(start);
+    expect(entry?.label).toBe('Add');
+    expect(store().historyPast).toHaveLength(1);
+    expect(store().historyFuture).toHaveLength(1);
+  });
+
+  it('drops an action that changed nothing and keeps the redo stack', () => {
+    const after = record('Type', typed(''), typed('a'));
+    const before = undo(after);
+
+    record('Pan', before, before);
+    expect(store().pendingHistory).toBeNull();
+    expect(store().historyPast).toHaveLength(0);
+    expect(store().historyFuture).toHaveLength(1);
+  });
+
+  it('merges consecutive moves of the same node within the window', () => {
+    let state = record('Move', historyState({ canvasObjects: [text('a', 0)] }), historyState({ canvasObjects: [text('a', 10)] }));
+    vi.advanceTimersByTime(HISTORY_MOVE_MERGE_WINDOW_MS - 1);
+    state = record('Move', state, historyState({ canvasObjects: [text('a', 20)] }));
+
+    expect(store().historyPast).toHaveLength(1);
+    expect(store().historyPast[0].operations).toEqual([
+      { type: 'move', moves: [{ id: 'a', from: { x: 0, y: 0 }, to: { x: 20, y: 0 } }] }
+    ]);
+
+    vi.advanceTimersByTime(HISTORY_MOVE_MERGE_WINDOW_MS + 1);
+    record('Move', state, historyState({ canvasObjects: [text('a', 30)] }));
+    expect(store().historyPast).toHaveLength(2);
+  });
+
+  it(`keeps at most ${HISTORY_MAX_ENTRIES} entries`, () => {
+    let state = typed('');
+    for (let i = 0; i < HISTORY_MAX_ENTRIES + 5; i++) {
+      state = record('Type', state, typed(`step-${i}`));
+    }
+
+    const past = store().historyPast;
+    expect(past).toHaveLength(HISTORY_MAX_ENTRIES);
+    expect(past[0].operations).toEqual([{ type: 'input', before: 'step-4', after: 'step-5' }]);
+  });
+
+  it('keeps rebased remote changes out of the pending action', () => {
+    const remote = text('remote');
+    const local = text('local');
+    const start = historyState();
+
+    store().beginHistory('Add', start);
+    // 진행 중에 원격 노드가 들어옴: 기록하지 않고 시작 상태에만 반영
+    const withRemote = historyState({ canvasObjects: [remote] });
+    store().rebaseHistory([{ type: 'add', objects: [remote], indices: [0] }]);
+    const current = historyState({ canvasObjects: [remote, local] });
+
+    expect(undo(current)).toEqual(withRemote);
+  });
+});
+
+describe('canvasStore jumpToHistory', () => {
+  beforeEach(() => {
+    store().clearHistory();
+  });
+
+  // 'a', 'ab', 'abc' 세 동작을 기록하고 두 번 되돌림 → past [a], future [abc, ab]
+  const typeThreeAndUndoTwo = () => {
+    let state = record('Type', typed(''), typed('a'));
+    state = record('Type', state, typed('ab'));
+    state = record('Type', state, typed('abc'));
+    return undo(undo(state));
+  };
+
+  it('jumps back to the initial state and forward to a future row', () => {
+    const current = typeThreeAndUndoTwo();
+
+    // 행: 0 처음, 1 a, 2 ab, 3 abc
+    expect(store().jumpToHistory(3, current)).toEqual(typed('abc'));
+    expect(store().historyPast).toHaveLength(3);
+    expect(store().jumpToHistory(0, typed('abc'))).toEqual(typed(''));
+    expect(store().historyFuture).toHaveLength(3);
+  });
+
+  it('returns the same state when jumping to the current row', () => {
+    const current = typeThreeAndUndoTwo();
+    expect(store().jumpToHistory(1, current)).toBe(current);
+  });
+
+  it('counts the pending row but lands right when it is dropped', () => {
+    const current = typeThreeAndUndoTwo();
+    store().beginHistory('Pan', current);
+
+    // 행: 0 처음, 1 a, 2 진행 중, 3 ab, 4 abc. 진행 중인 동작은 바뀐 게 없어 버려짐
+    expect(store().jumpToHistory(4, current)).toEqual(typed('abc'));
+    expect(store().historyPast).toHaveLength(3);
+  });
+
+  it('stays put when committing the pending action clears the clicked future row', () => {
+    const current = typeThreeAndUndoTwo();
+    store().beginHistory('Type', current);
+    const edited = typed('a!');
+
+    expect(store().jumpToHistory(4, edited)).toBe(edited);
+    expect(store().historyPast).toHaveLength(2);
+    expect(store().historyFuture).toHaveLength(0);
+  });
+
+  it('lands on the row before a pending move that merges into the last move', () => {
+    vi.useFakeTimers();
+    try {
+      let state = record('Type', historyState({ canvasObjects: [text('a', 0)] }), historyState({ canvasObjects: [text('a', 0)], currentTypingText: 'x' }));
+      state = record('Move', state, { ...state, canvasObjects: [text('a', 10)] });
+      store().beginHistory('Move', state);
+      const moved = { ...state, canvasObjects: [text('a', 20)] };
+
+      // 행: 0 처음, 1 Type, 2 Move, 3 진행 중인 Move → 확정되며 2에 합쳐짐
+      expect(store().jumpToHistory(1, moved)).toEqual(historyState({ canvasObjects: [text('a', 0)], currentTypingText: 'x' }));
+      expect(store().historyPast).toHaveLength(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('finds the clicked row after committing the pending action trims the oldest entry', () => {
+    let state = typed('');
+    for (let i = 0; i < HISTORY_MAX_ENTRIES; i++) {
+      state = record('Type', state, typed(`step-${i}`));
+    }
+    store().beginHistory('Type', state);
+
+    // 행 5는 step-4를 입력한 entry. 확정하면 step-0 entry가 잘려 한 칸씩 당겨짐
+    expect(store().jumpToHistory(5, typed('last'))).toEqual(typed('step-4'));
+    expect(store().historyPast).toHaveLength(4);
+  });
+});
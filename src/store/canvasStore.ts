@@ -10,8 +10,22 @@ import {
   PinPosition,
   SelectionState,
   LinkState,
-  SelectionRectangle
+  SelectionRectangle,
+  HistoryState,
+  HistoryEntry,
+  HistoryOperation,
+  PendingHistory
 } from '../types';
+import {
+  diffHistoryStates,
+  createHistoryEntry,
+  mergeHistoryEntries,
+  trimHistory,
+  applyHistoryOperations,
+  getHistoryRowTarget,
+  getHistoryTargetLength
+} from '../utils/historyUtils';
+import { HISTORY_MAX_ENTRIES, HISTORY_MAX_RETAINED_NODES, HISTORY_MOVE_MERGE_WINDOW_MS } from '../constants';
 
 interface CanvasStore {
   // === Canvas Objects ===
@@ -40,6 +54,11 @@ interface CanvasStore {
   showInfo: boolean;
   showShortcuts: boolean;
   showTextBox: boolean;
+  showHistory: boolean;
+  showWorkspace: boolean;
+  showRevisions: boolean;
+  showPrintPreview: boolean;
+  showSearch: boolean;
   isDarkMode: boolean;
   
   // === Typography State ===
@@ -80,8 +99,10 @@ interface CanvasStore {
   selectedLinks: Set<string>;
   
   // === Undo/Redo State ===
-  undoStack: any[];
-  redoStack: any[];
+  // past: 오래된 것 → 최근, future: redo할 순서의 역순 (마지막이 바로 다음 redo)
+  historyPast: HistoryEntry[];
+  historyFuture: HistoryEntry[];
+  pendingHistory: PendingHistory | null;
   
   // === Actions ===
   // Canvas Object Actions
@@ -117,6 +138,11 @@ interface CanvasStore {
   toggleGrid: () => void;
   toggleInfo: () => void;
   toggleShortcuts: () => void;
+  toggleHistory: () => void;
+  toggleWorkspace: () => void;
+  toggleRevisions: () => void;
+  togglePrintPreview: () => void;
+  toggleSearch: () => void;
   toggleTextBox: () => void;
   setShowTextBox: (show: boolean) => void;
   
@@ -159,10 +185,17 @@ interface CanvasStore {
   setSelectedLinks: (links: Set<string>) => void;
   
   // Undo/Redo Actions
-  pushToUndoStack: (snapshot: any) => void;
-  pushToRedoStack: (snapshot: any) => void;
-  clearUndoStack: () => void;
-  clearRedoStack: () => void;
+  /** 새 동작 시작. 진행 중이던 동작은 current 기준으로 확정 */
+  beginHistory: (label: string, current: HistoryState) => void;
+  commitHistory: (current: HistoryState) => void;
+  /** 되돌릴 entry를 future로 옮기고 반환. 호출자가 undo 방향으로 적용 */
+  undoHistory: (current: HistoryState) => HistoryEntry | null;
+  redoHistory: (current: HistoryState) => HistoryEntry | null;
+  /** 히스토리 패널의 행(0 = 처음 상태, 진행 중인 행 포함)으로 이동하고 그 시점의 상태를 반환 */
+  jumpToHistory: (rowIndex: number, current: HistoryState) => HistoryState;
+  /** 기록하지 않을 변경(원격 편집 등)을 진행 중인 동작의 시작 상태에도 반영해 그 동작에 섞이지 않게 함 */
+  rebaseHistory: (operations: HistoryOperation[]) => void;
+  clearHistory: () => void;
   
   // Utility Actions
   resetCanvas: () => void;
@@ -194,6 +227,11 @@ const useCanvasStore = create<CanvasStore>()(
       showInfo: true,
       showShortcuts: false,
       showTextBox: true,
+      showHistory: false,
+      showWorkspace: false,
+      showRevisions: false,
+      showPrintPreview: false,
+      showSearch: false,
       isDarkMode: false,
       
       currentTypingText: '',
@@ -236,8 +274,9 @@ const useCanvasStore = create<CanvasStore>()(
       selectedLinks: new Set<string>(),
       
       // Undo/Redo State
-      undoStack: [],
-      redoStack: [],
+      historyPast: [],
+      historyFuture: [],
+      pendingHistory: null,
       
       // === Actions Implementation ===
       
@@ -329,6 +368,11 @@ const useCanvasStore = create<CanvasStore>()(
       toggleGrid: () => set((state) => ({ showGrid: !state.showGrid })),
       toggleInfo: () => set((state) => ({ showInfo: !state.showInfo })),
       toggleShortcuts: () => set((state) => ({ showShortcuts: !state.showShortcuts })),
+      toggleHistory: () => set((state) => ({ showHistory: !state.showHistory })),
+      toggleWorkspace: () => set((state) => ({ showWorkspace: !state.showWorkspace })),
+      toggleRevisions: () => set((state) => ({ showRevisions: !state.showRevisions })),
+      togglePrintPreview: () => set((state) => ({ showPrintPreview: !state.showPrintPreview })),
+      toggleSearch: () => set((state) => ({ showSearch: !state.showSearch })),
       toggleTextBox: () => set((state) => ({ showTextBox: !state.showTextBox })),
       setShowTextBox: (show) => set({ showTextBox: show }),
       
@@ -382,14 +426,95 @@ const useCanvasStore = create<CanvasStore>()(
       setSelectedLinks: (links) => set({ selectedLinks: links }),
       
       // Undo/Redo Actions
-      pushToUndoStack: (snapshot) => set((state) => ({
-        undoStack: [...state.undoStack, snapshot]
-      })),
-      pushToRedoStack: (snapshot) => set((state) => ({
-        redoStack: [...state.redoStack, snapshot]
-      })),
-      clearUndoStack: () => set({ undoStack: [] }),
-      clearRedoStack: () => set({ redoStack: [] }),
+      beginHistory: (label, current) => {
+        get().commitHistory(current);
+        set({ pendingHistory: { label, before: current, timestamp: Date.now() } });
+      },
+      
+      commitHistory: (current) => {
+        const { pendingHistory, historyPast } = get();
+        if (!pendingHistory) return;
+        
+        const operations = diffHistoryStates(pendingHistory.before, current);
+        if (operations.length === 0) {
+          // 아무것도 바뀌지 않은 동작은 버림 (redo 스택 유지)
+          set({ pendingHistory: null });
+          return;
+        }
+        
+        const entry = createHistoryEntry(pendingHistory.label, operations);
+        const last = historyPast[historyPast.length - 1];
+        const merged = last ? mergeHistoryEntries(last, entry, HISTORY_MOVE_MERGE_WINDOW_MS) : null;
+        const past = merged ? [...historyPast.slice(0, -1), merged] : [...historyPast, entry];
+        
+        set({
+          historyPast: trimHistory(past, HISTORY_MAX_ENTRIES, HISTORY_MAX_RETAINED_NODES),
+          historyFuture: [],
+          pendingHistory: null
+        });
+      },
+      
+      undoHistory: (current) => {
+        get().commitHistory(current);
+        const { historyPast, historyFuture } = get();
+        const entry = historyPast[historyPast.length - 1];
+        if (!entry) return null;
+        set({
+          historyPast: historyPast.slice(0, -1),
+          historyFuture: [...historyFuture, entry]
+        });
+        return entry;
+      },
+      
+      redoHistory: (current) => {
+        get().commitHistory(current);
+        const { historyPast, historyFuture } = get();
+        const entry = historyFuture[historyFuture.length - 1];
+        if (!entry) return null;
+        set({
+          historyPast: [...historyPast, entry],
+          historyFuture: historyFuture.slice(0, -1)
+        });
+        return entry;
+      },
+      
+      jumpToHistory: (rowIndex, current) => {
+        const { historyPast, historyFuture, pendingHistory } = get();
+        // 행 번호는 확정 전 기준이므로 먼저 대상을 정하고, 확정(병합·trim 포함) 후 위치를 다시 찾음
+        const target = getHistoryRowTarget(historyPast, historyFuture, !!pendingHistory, rowIndex);
+        get().commitHistory(current);
+        if (!target) return current;
+        
+        const { historyPast: past, historyFuture: future } = get();
+        const targetLength = getHistoryTargetLength(past, future, target);
+        if (targetLength === null) return current;
+        
+        let state = current;
+        while (get().historyPast.length > targetLength) {
+          const entry = get().undoHistory(state);
+          if (!entry) break;
+          state = applyHistoryOperations(state, entry.operations, 'undo');
+        }
+        while (get().historyPast.length < targetLength) {
+          const entry = get().redoHistory(state);
+          if (!entry) break;
+          state = applyHistoryOperations(state, entry.operations, 'redo');
+        }
+        return state;
+      },
+      
+      rebaseHistory: (operations) => {
+        const { pendingHistory } = get();
+        if (!pendingHistory || operations.length === 0) return;
+        set({
+          pendingHistory: {
+            ...pendingHistory,
+            before: applyHistoryOperations(pendingHistory.before, operations, 'redo')
+          }
+        });
+      },
+      
+      clearHistory: () => set({ historyPast: [], historyFuture: [], pendingHistory: null }),
       
       // Utility Actions
       resetCanvas: () => set({
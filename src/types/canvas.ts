@@ -2,7 +2,7 @@
 // 캔버스 애플리케이션 상태 타입.
 // 기존 types/index.ts의 모든 인터페이스를 보존.
 
-import type { NodeId } from './base.js';
+import type { NodeId, Vector2D } from './base.js';
 import type { CanvasNode, LinkNode } from './nodes.js';
 
 // --- 테마 ---
@@ -121,9 +121,13 @@ export interface AIState {
   lastResponse: string | null;
 }
 
+// /gpt 프롬프트에 함께 보낼 캔버스 컨텍스트
+export type AIContextSource = 'selection' | 'channel' | 'viewport';
+
 export interface AICommand {
   type: 'gpt';
   question: string;
+  context?: AIContextSource[];
 }
 
 // --- 채널 시스템 ---
@@ -164,8 +168,37 @@ export interface SessionMetadata {
   title?: string;
   description?: string;
   userAgent?: string;
+  /** 워크스페이스 목록에서 숨김 (삭제하지 않음) */
+  archived?: boolean;
+  /** 읽기 전용 공유 스냅샷에서 연 세션. 편집은 자동 저장되지 않고, 직접 저장하면 편집 가능한 사본이 됨 */
+  readOnly?: boolean;
+}
+
+/**
+ * 화면 상태 (뷰포트, 타자기, 표시 옵션).
+ * 콘텐츠와 같은 레코드에 저장되어 복구 시 같은 화면으로 돌아옴.
+ */
+export interface SessionViewState {
+  canvasOffset: Vector2D;
+  scale: number;
+  /** 타자기 입력 박스 좌상단의 월드 좌표. 창 크기가 달라도 같은 위치로 복구하는 기준. */
+  typewriterLTWorldPosition: Vector2D | null;
+  currentTypingText: string;
+  baseFontSize: number;
+  baseFontSizePt: number;
+  maxCharsPerLine: number;
+  showGrid: boolean;
+  showTextBox: boolean;
+  showInfo: boolean;
+  showShortcuts: boolean;
+  theme: Theme;
+  selectedObjectId?: NodeId;
 }
 
+/**
+ * 저장/공유/가져오기에 공통으로 쓰는 세션 형태.
+ * view는 공유 링크나 예전 파일에는 없을 수 있음.
+ */
 export interface SessionData {
   metadata: SessionMetadata;
   channels: Map<string, Channel>;
@@ -173,6 +206,45 @@ export interface SessionData {
   canvasObjects: CanvasNode[];
   links: LinkNode[];
   activeChannelId: string | null;
+  view?: SessionViewState;
+}
+
+/** 워크스페이스 목록의 캔버스 한 개. */
+export interface CanvasSummary {
+  id: string;
+  title: string;
+  description?: string;
+  lastEdited: Date;
+  /** 저장된 크기 (bytes) */
+  size: number;
+  thumbnail: string | null;
+  archived: boolean;
+  objectCount: number;
+  /** 검색 시 내용에서 찾은 부분 */
+  matchSnippet?: string;
+}
+
+/** 저장소 자동 저장 상태. */
+export interface SessionPersistenceStatus {
+  /** 마지막 저장 이후 변경이 있는지 */
+  isDirty: boolean;
+  isSaving: boolean;
+  autoSaveEnabled: boolean;
+  lastSaved: Date | null;
+  error: string | null;
+}
+
+/**
+ * 시작할 때 복구하지 못한 저장 데이터.
+ * 원본은 `backupKey`의 localStorage에 그대로 남겨 둠.
+ */
+export interface SessionRecoveryIssue {
+  /** journal: 저장 전 종료 시 남긴 기록, legacy: 예전 localStorage 자동 저장 */
+  source: 'journal' | 'legacy';
+  message: string;
+  /** 검증 실패 내용 (한 줄에 하나) */
+  details: string[];
+  backupKey: string;
 }
 
 export interface SessionState {
@@ -0,0 +1,33 @@
+// src/types/collaboration.ts
+// 실시간 공동 편집 (CRDT 문서 + WebSocket 동기화 + presence) 타입.
+
+import type { Vector2D } from './base.js';
+
+/** 연결 상태. 'synced'는 서버와 첫 동기화까지 끝난 상태. */
+export type CollaborationStatus = 'disconnected' | 'connecting' | 'connected' | 'synced';
+
+/** 공동 작업자 한 명의 신원. 색상은 커서/타자기 박스 표시에 사용. */
+export interface CollaboratorIdentity {
+  id: string;
+  name: string;
+  color: string;
+}
+
+/**
+ * awareness로 주고받는 presence 상태.
+ * 좌표는 모두 월드 좌표 (각자의 줌/팬과 무관하게 같은 위치를 가리키도록).
+ */
+export interface CollaboratorPresence {
+  user: CollaboratorIdentity;
+  /** 마우스 커서 위치. 캔버스 밖이면 null. */
+  cursor: Vector2D | null;
+  /** 타자기 입력 박스의 좌상단 위치, 너비, 글자 크기 (월드 단위). */
+  typewriter: { x: number; y: number; width: number; fontSize: number } | null;
+  /** 입력 중인 (아직 배치 전) 텍스트. */
+  typingText: string;
+}
+
+/** 다른 클라이언트의 presence. clientId는 Yjs awareness의 클라이언트 번호. */
+export interface RemoteCollaborator extends CollaboratorPresence {
+  clientId: number;
+}
@@ -111,6 +111,15 @@ export interface FigmaBaseNode {
   opacity?: number;
   visible?: boolean;
   locked?: boolean;
+  /**
+   * NNType 전용 데이터 (Figma pluginData에 저장). 라운드트립 import에 사용.
+   * 텍스트: { scale, isAIResponse, channelIds }
+   * 이미지: { src, alt, scaleMode }
+   * 비디오: { src, poster, autoplay, loop, sourceType }
+   * 가이드: { guideType, label }
+   * 링크: { style }
+   */
+  pluginData?: Record<string, string>;
 }
 
 /**
@@ -126,6 +135,8 @@ export interface FigmaTextNode extends FigmaBaseNode {
   fontName: { family: string; style: string };
   textAlignHorizontal: string;
   textAlignVertical: string;
+  /** 텍스트 자동 리사이즈. 고정 폭/높이 텍스트는 width/height가 상자 크기. */
+  textAutoResize?: string;
   lineHeight?: { value: number; unit: string };
   letterSpacing?: { value: number; unit: string };
   textDecoration?: string;
@@ -144,14 +155,9 @@ export interface FigmaRectangleNode extends FigmaBaseNode {
   strokes?: FigmaPaint[];
   strokeWeight?: number;
   strokeAlign?: string;
+  /** Stroke 대시 패턴. 가이드의 점선 표현. Figma GeometryMixin.dashPattern 매핑. */
+  dashPattern?: number[];
   effects?: FigmaEffect[];
-  /**
-   * NNType 전용 데이터 (Figma pluginData에 저장).
-   * 이미지: { src, alt, scaleMode }
-   * 비디오: { src, poster, autoplay, loop, sourceType }
-   * 가이드: { guideType }
-   */
-  pluginData?: Record<string, string>;
 }
 
 /**
@@ -166,16 +172,43 @@ export interface FigmaConnectorNode extends FigmaBaseNode {
   connectorStart: {
     endpointNodeId: string;
     position: { x: number; y: number };
+    /** 노드 부착 위치. Figma ConnectorEndpoint.magnet 매핑. */
+    magnet?: FigmaConnectorMagnet;
   };
   connectorEnd: {
     endpointNodeId: string;
     position: { x: number; y: number };
+    /** 노드 부착 위치. Figma ConnectorEndpoint.magnet 매핑. */
+    magnet?: FigmaConnectorMagnet;
   };
+  /** 링크 라벨. Figma ConnectorNode.text 매핑. */
+  text?: { characters: string };
   strokes: FigmaPaint[];
   strokeWeight?: number;
-  connectorLineType?: 'STRAIGHT' | 'ELBOWED';
+  /** Stroke 대시 패턴. dashed 링크 표현. */
+  dashPattern?: number[];
+  connectorLineType?: 'STRAIGHT' | 'ELBOWED' | 'CURVED';
+  /** 시작점 화살표 모양. Figma ConnectorNode.connectorStartStrokeCap 매핑. */
+  connectorStartStrokeCap?: FigmaConnectorStrokeCap;
+  /** 끝점 화살표 모양. Figma ConnectorNode.connectorEndStrokeCap 매핑. */
+  connectorEndStrokeCap?: FigmaConnectorStrokeCap;
 }
 
+/**
+ * Figma ConnectorMagnet.
+ */
+export type FigmaConnectorMagnet = 'AUTO' | 'TOP' | 'RIGHT' | 'BOTTOM' | 'LEFT' | 'CENTER';
+
+/**
+ * Figma ConnectorStrokeCap 서브셋.
+ */
+export type FigmaConnectorStrokeCap =
+  | 'NONE'
+  | 'ARROW_LINES'
+  | 'ARROW_EQUILATERAL'
+  | 'CIRCLE_FILLED'
+  | 'DIAMOND_FILLED';
+
 export type FigmaNode =
   | FigmaTextNode
   | FigmaRectangleNode
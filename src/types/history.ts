@@ -0,0 +1,81 @@
+// src/types/history.ts
+// 명령 기반 undo/redo 히스토리 타입.
+// 스냅샷 전체를 복사하지 않고 바뀐 노드만 연산 단위로 기록.
+
+import type { NodeId, Vector2D } from './base.js';
+import type { CanvasNode, LinkNode } from './nodes.js';
+
+/**
+ * 히스토리가 추적하는 캔버스 상태.
+ * 배열은 복사하지 않고 React state 참조를 그대로 담음 (불변 업데이트 전제).
+ */
+export interface HistoryState {
+  canvasObjects: CanvasNode[];
+  links: LinkNode[];
+  canvasOffset: Vector2D;
+  scale: number;
+  currentTypingText: string;
+}
+
+/** 뷰포트 (팬/줌) 상태. */
+export interface HistoryViewport {
+  canvasOffset: Vector2D;
+  scale: number;
+}
+
+/** 노드 한 개의 이동 기록. 연속 이동 병합 시 from은 유지, to만 갱신. */
+export interface HistoryMove {
+  id: NodeId;
+  from: Vector2D;
+  to: Vector2D;
+}
+
+/**
+ * 되돌릴 수 있는 단일 연산.
+ * - add / delete: 배열 내 위치(indices)를 함께 저장해 z-순서 복원
+ * - edit: 내용(content) 변경, restyle: 그 외 속성 변경
+ */
+export type HistoryOperation =
+  | { type: 'add'; objects: CanvasNode[]; indices: number[] }
+  | { type: 'delete'; objects: CanvasNode[]; indices: number[] }
+  | { type: 'move'; moves: HistoryMove[] }
+  | { type: 'edit'; before: CanvasNode[]; after: CanvasNode[] }
+  | { type: 'restyle'; before: CanvasNode[]; after: CanvasNode[] }
+  | { type: 'link'; added: LinkNode[]; removed: LinkNode[] }
+  | { type: 'viewport'; before: HistoryViewport; after: HistoryViewport }
+  | { type: 'input'; before: string; after: string };
+
+export type HistoryOperationType = HistoryOperation['type'];
+
+/**
+ * 사용자 동작 하나 (undo 한 번 단위).
+ */
+export interface HistoryEntry {
+  id: string;
+  /** 히스토리 패널에 표시할 이름. 예: 'Type text', 'Move'. */
+  label: string;
+  /** 마지막으로 갱신된 시각 (ms). */
+  timestamp: number;
+  operations: HistoryOperation[];
+}
+
+/**
+ * 아직 확정되지 않은 동작.
+ * 다음 동작 시작, undo/redo 시점에 before와 현재 상태를 비교해 확정.
+ */
+export interface PendingHistory {
+  label: string;
+  before: HistoryState;
+  timestamp: number;
+}
+
+export type HistoryDirection = 'undo' | 'redo';
+
+/**
+ * 히스토리 패널 행이 가리키는 시점.
+ * 진행 중인 동작이 확정·병합되거나 오래된 entry가 잘려도 찾을 수 있게 entry는 id로 지정.
+ */
+export type HistoryRowTarget =
+  | { type: 'initial' }
+  | { type: 'current' }
+  | { type: 'entry'; id: string };
@@ -24,11 +24,11 @@ export type {
 export type {
   TextAlignHorizontal, TextAlignVertical, TextAutoResize,
   TextDecoration, FontWeight, LineHeight, LetterSpacing,
-  TextNode,
+  AIThreadInfo, TextNode,
   ImageScaleMode, ImageNode,
   VideoSourceType, VideoNode,
   GuideFormat, GuideNode,
-  LinkStyle, LinkEndpoint, LinkNode,
+  LinkStyle, LinkRouting, LinkAnchor, LinkMarker, LinkEndpoint, LinkNode,
   CanvasNode, CanvasNodeType,
 } from './nodes.js';
 
@@ -36,18 +36,37 @@ export type {
 export type {
   Theme, ThemeColors, SelectionRectangle,
   PinPosition, SelectionState, LinkState, CanvasState,
-  ExportData, AIState, AICommand,
+  ExportData, AIState, AICommand, AIContextSource,
   Channel, ChannelMessage, ChannelState,
-  SessionMetadata, SessionData, SessionState,
+  SessionMetadata, SessionData, SessionViewState, SessionPersistenceStatus, SessionRecoveryIssue, SessionState, CanvasSummary,
 } from './canvas.js';
 export { CanvasMode } from './canvas.js';
 
+// --- 히스토리 (undo/redo) ---
+export type {
+  HistoryState, HistoryViewport, HistoryMove,
+  HistoryOperation, HistoryOperationType, HistoryEntry,
+  PendingHistory, HistoryDirection, HistoryRowTarget,
+} from './history.js';
+
+// --- 세션 리비전 ---
+export type {
+  SessionRevisionInfo, SessionRevision, RevisionContent,
+  RevisionChange, RevisionDiff,
+} from './revision.js';
+
+// --- 실시간 공동 편집 ---
+export type {
+  CollaborationStatus, CollaboratorIdentity,
+  CollaboratorPresence, RemoteCollaborator,
+} from './collaboration.js';
+
 // --- Figma export ---
 export type {
   FigmaColor, FigmaRGBA,
   FigmaSolidPaint, FigmaGradientPaint, FigmaImagePaint, FigmaPaint,
   FigmaDropShadowEffect, FigmaInnerShadowEffect, FigmaBlurEffect, FigmaEffect,
-  FigmaBaseNode, FigmaTextNode, FigmaRectangleNode, FigmaConnectorNode,
+  FigmaBaseNode, FigmaTextNode, FigmaRectangleNode, FigmaConnectorNode, FigmaConnectorMagnet, FigmaConnectorStrokeCap,
   FigmaNode, FigmaExportDocument, NodeTypeMapping,
 } from './figma-export.js';
 
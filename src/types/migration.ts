@@ -43,9 +43,9 @@ export type LinkObject = LinkNode;
 
 /**
  * @deprecated CanvasNode을 사용하세요.
- * 기존 3타입 유니온 보존. CanvasNode은 ImageNode, VideoNode도 포함.
+ * 이미지/비디오 렌더링 지원 이후 CanvasNode과 동일 (ImageNode, VideoNode 포함).
  */
-export type CanvasObject = TextNode | GuideNode | LinkNode;
+export type CanvasObject = CanvasNode;
 
 // ============================================================
 // 레거시 ID 처리
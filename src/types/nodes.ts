@@ -64,6 +64,19 @@ export type LetterSpacing =
   | { unit: 'PIXELS'; value: number }
   | { unit: 'PERCENT'; value: number };
 
+/**
+ * AI 대화 스레드 정보.
+ * 같은 threadId의 질문/답변이 turn 순서대로 이전 대화 기록이 됨.
+ */
+export interface AIThreadInfo {
+  /** 스레드 ID. 첫 질문에서 생성. */
+  threadId: string;
+  /** 스레드 내 순서 (0부터). 질문과 답변이 같은 turn을 공유. */
+  turn: number;
+  /** 질문(user) 또는 답변(assistant). */
+  role: 'user' | 'assistant';
+}
+
 /**
  * 텍스트 노드 -- 캔버스 위의 텍스트 콘텐츠.
  *
@@ -91,6 +104,9 @@ export interface TextNode extends BaseNodeMixin, LayoutMixin, BlendMixin {
   /** AI 생성 텍스트 여부. NNType 전용. */
   isAIResponse?: boolean;
 
+  /** AI 대화 스레드 소속 정보. NNType 전용. */
+  aiThread?: AIThreadInfo;
+
   /**
    * 텍스트 색상 (CSS 문자열). Figma 호환을 위해 fills 사용 권장.
    * @deprecated fills에 SolidPaint를 사용하세요.
@@ -323,13 +339,34 @@ export interface GuideNode extends BaseNodeMixin, BlendMixin {
 export type LinkStyle = 'arrow' | 'line' | 'dashed';
 
 /**
- * 링크 끝점 사양 (향후 확장용).
+ * 링크 경로 방식. straight: 직선, curved: 베지어 곡선,
+ * orthogonal: 다른 노드를 피해 가로/세로로만 꺾이는 경로.
+ */
+export type LinkRouting = 'straight' | 'curved' | 'orthogonal';
+
+/**
+ * 링크가 노드에 붙는 위치. auto: 두 노드 사이 가장 가까운 가장자리.
+ */
+export type LinkAnchor = 'top' | 'right' | 'bottom' | 'left' | 'center' | 'auto';
+
+/**
+ * 링크 끝 모양.
+ */
+export type LinkMarker = 'none' | 'arrow' | 'dot' | 'diamond';
+
+/**
+ * 링크 끝점 사양.
  */
 export interface LinkEndpoint {
   /** 연결된 노드 ID. */
   nodeId: NodeId;
-  /** 노드 가장자리의 부착 위치. */
-  position?: 'top' | 'right' | 'bottom' | 'left' | 'center' | 'auto';
+  /** 노드 가장자리의 부착 위치. 기본값: 'auto'. */
+  position?: LinkAnchor;
+  /**
+   * 끝 모양. 기본값: 시작점 'none', 끝점은 style이 'arrow'면 'arrow', 아니면 'none'.
+   * 양쪽 모두 'arrow'면 양방향 링크.
+   */
+  marker?: LinkMarker;
 }
 
 /**
@@ -351,6 +388,12 @@ export interface LinkNode extends BaseNodeMixin, BlendMixin {
   /** 링크 시각 스타일. 기본값: 'arrow'. */
   style: LinkStyle;
 
+  /** 경로 방식. 기본값: 'straight'. */
+  routing?: LinkRouting;
+
+  /** 경로 중간에 표시할 라벨. */
+  label?: string;
+
   /**
    * 링크 색상 (CSS 문자열). Figma 호환을 위해 strokes 사용 권장.
    * @deprecated strokes에 SolidPaint를 사용하세요.
@@ -363,10 +406,10 @@ export interface LinkNode extends BaseNodeMixin, BlendMixin {
   /** Stroke 두께. 기본값: 2. */
   strokeWeight?: number;
 
-  /** 시작 끝점 상세 (향후 확장). */
+  /** 시작 끝점 상세 (부착 위치, 끝 모양). */
   startEndpoint?: LinkEndpoint;
 
-  /** 종료 끝점 상세 (향후 확장). */
+  /** 종료 끝점 상세 (부착 위치, 끝 모양). */
   endEndpoint?: LinkEndpoint;
 
   /** 시각 효과. */
@@ -384,7 +427,7 @@ export interface LinkNode extends BaseNodeMixin, BlendMixin {
  * 모든 캔버스 노드 타입의 유니온.
  * `type` 필드로 판별.
  *
- * Image, Video 포함. 기존 3타입 유니온은 migration.ts의 CanvasObject 별칭 사용.
+ * Image, Video 포함. migration.ts의 CanvasObject 별칭도 이 유니온을 가리킴.
  */
 export type CanvasNode =
   | TextNode
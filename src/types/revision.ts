@@ -0,0 +1,53 @@
+// src/types/revision.ts
+// 세션 리비전 (저장 시점별 캔버스 내용) 과 리비전 간 비교 결과 타입.
+
+import type { CanvasNode, LinkNode } from './nodes.js';
+
+/** 리비전 목록 항목. 내용 없이 타임라인 표시에 필요한 값만. */
+export interface SessionRevisionInfo {
+  id: string;
+  sessionId: string;
+  /** 기록 시각 (ms). */
+  createdAt: number;
+  /** 보관 용량 계산에 쓰는 크기 (bytes). */
+  size: number;
+  objectCount: number;
+  linkCount: number;
+  /** 자동 기록이 아닌 경우의 이유. 예: 'Before restore'. */
+  label?: string;
+}
+
+/**
+ * 리비전 한 개.
+ * 캔버스 노드와 링크만 보관 (채널/화면 상태는 복원 대상이 아님).
+ */
+export interface SessionRevision extends SessionRevisionInfo {
+  canvasObjects: CanvasNode[];
+  links: LinkNode[];
+}
+
+/** 비교할 캔버스 내용. 리비전이나 현재 캔버스. */
+export interface RevisionContent {
+  canvasObjects: CanvasNode[];
+  links: LinkNode[];
+}
+
+/** 같은 ID의 노드/링크가 두 시점에서 달라진 경우. */
+export interface RevisionChange<T> {
+  before: T;
+  after: T;
+}
+
+/**
+ * 두 시점 사이의 변경 내용.
+ * moved는 위치만, edited는 위치 외의 내용/스타일이 바뀐 노드 (둘 다면 양쪽에 포함).
+ */
+export interface RevisionDiff {
+  added: CanvasNode[];
+  removed: CanvasNode[];
+  moved: RevisionChange<CanvasNode>[];
+  edited: RevisionChange<CanvasNode>[];
+  linksAdded: LinkNode[];
+  linksRemoved: LinkNode[];
+  linksChanged: RevisionChange<LinkNode>[];
+}
@@ -0,0 +1,190 @@
+import { AICommand, AIContextSource, CanvasObject, ChannelMessage, TextObject } from '../types';
+import type { AIMessage } from '../services/aiService';
+
+// /gpt 뒤에 붙는 컨텍스트 플래그 (예: "/gpt @selection summarize this")
+export const AI_CONTEXT_FLAGS: Record<string, AIContextSource> = {
+  '@selection': 'selection',
+  '@sel': 'selection',
+  '@channel': 'channel',
+  '@viewport': 'viewport',
+  '@view': 'viewport'
+};
+
+export const DEFAULT_AI_SYSTEM_PROMPT =
+  'You are a writing assistant inside an infinite-canvas typewriter. ' +
+  'Answers are typed onto the canvas as plain text, so do not use Markdown formatting. ' +
+  'When canvas context is provided, ground your answer in it and say so when it does not contain what is needed.';
+
+// 컨텍스트가 너무 길어지지 않도록 제한 (대략 3k 토큰)
+export const MAX_AI_CONTEXT_CHARS = 12000;
+
+/**
+ * Parse "/gpt [@selection|@channel|@viewport ...] question".
+ * Context flags are only recognized before the question text.
+ */
+export const parseAICommand = (text: string): AICommand | null => {
+  const trimmedText = text.trim();
+  if (!trimmedText.startsWith('/gpt ')) return null;
+
+  const words = trimmedText.substring(5).trim().split(/\s+/);
+  const context: AIContextSource[] = [];
+  while (words.length > 0 && AI_CONTEXT_FLAGS[words[0].toLowerCase()]) {
+    const source = AI_CONTEXT_FLAGS[words.shift()!.toLowerCase()];
+    if (!context.includes(source)) context.push(source);
+  }
+
+  const question = words.join(' ').trim();
+  if (!question) return null;
+  return { type: 'gpt', question, context };
+};
+
+/**
+ * Text objects sorted in reading order (top to bottom, then left to right).
+ */
+export const sortTextObjectsForReading = (objects: CanvasObject[]): TextObject[] => {
+  return objects
+    .filter((obj): obj is TextObject => obj.type === 'text' && obj.content.trim() !== '')
+    .sort((a, b) => (a.y - b.y) || (a.x - b.x));
+};
+
+/**
+ * Text objects whose baseline falls inside the given world-space rectangle.
+ */
+export const getTextObjectsInBounds = (
+  objects: CanvasObject[],
+  bounds: { minX: number; minY: number; maxX: number; maxY: number }
+): TextObject[] => {
+  return sortTextObjectsForReading(objects).filter(obj =>
+    obj.x <= bounds.maxX && obj.y >= bounds.minY && obj.y - obj.fontSize <= bounds.maxY &&
+    obj.x + obj.content.length * obj.fontSize * 0.6 >= bounds.minX
+  );
+};
+
+// 앞부분(오래된 내용)부터 잘라서 최근 내용 유지
+const truncateFromStart = (text: string, maxChars: number) => {
+  if (text.length <= maxChars) return text;
+  return '…' + text.slice(text.length - maxChars + 1);
+};
+
+export interface AIContextInput {
+  selectedObjects: CanvasObject[];
+  channelMessages: ChannelMessage[];
+  channelName: string | null;
+  viewportObjects: CanvasObject[];
+}
+
+/**
+ * Render the requested context sources as labelled plain-text sections.
+ * Returns an empty string when none of the sources have content.
+ */
+export const buildAIContextText = (
+  sources: AIContextSource[],
+  input: AIContextInput,
+  maxChars: number = MAX_AI_CONTEXT_CHARS
+): string => {
+  const sections: string[] = [];
+  const budget = Math.floor(maxChars / Math.max(sources.length, 1));
+
+  sources.forEach(source => {
+    if (source === 'selection') {
+      const lines = sortTextObjectsForReading(input.selectedObjects).map(obj => obj.content);
+      if (lines.length > 0) {
+        sections.push(`Selected notes:\n${truncateFromStart(lines.join('\n'), budget)}`);
+      }
+    } else if (source === 'channel') {
+      const lines = [...input.channelMessages]
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+        .map(message => message.content.trim())
+        .filter(Boolean);
+      if (lines.length > 0) {
+        const label = input.channelName ? `Channel #${input.channelName}` : 'Channel history';
+        sections.push(`${label} (oldest first):\n${truncateFromStart(lines.join('\n'), budget)}`);
+      }
+    } else if (source === 'viewport') {
+      const lines = sortTextObjectsForReading(input.viewportObjects).map(obj => obj.content);
+      if (lines.length > 0) {
+        sections.push(`Notes visible on screen:\n${truncateFromStart(lines.join('\n'), budget)}`);
+      }
+    }
+  });
+
+  return sections.join('\n\n');
+};
+
+/**
+ * Find the AI answer line a follow-up question is being typed under:
+ * the nearest answer line just above the typewriter baseline at the same x.
+ */
+export const findAIThreadAbove = (
+  objects: CanvasObject[],
+  worldPos: { x: number; y: number },
+  lineHeight: number
+): TextObject | null => {
+  let nearest: TextObject | null = null;
+
+  objects.forEach(obj => {
+    if (obj.type !== 'text' || !obj.isAIResponse || obj.aiThread?.role !== 'assistant') return;
+    const distance = worldPos.y - obj.y;
+    // 바로 위 두 줄 정도까지만 이어지는 질문으로 간주
+    if (distance <= 0 || distance > lineHeight * 2.5) return;
+    if (Math.abs(obj.x - worldPos.x) > lineHeight) return;
+    if (!nearest || obj.y > nearest.y) nearest = obj;
+  });
+
+  return nearest;
+};
+
+/**
+ * Rebuild the prior turns of a thread as chat messages.
+ * Answers were wrapped into one text object per line, so lines of the same
+ * turn are joined back in reading order.
+ */
+export const getAIThreadHistory = (
+  objects: CanvasObject[],
+  threadId: string,
+  beforeTurn: number = Infinity
+): AIMessage[] => {
+  const turns = new Map<string, { turn: number; role: 'user' | 'assistant'; lines: TextObject[] }>();
+
+  objects.forEach(obj => {
+    if (obj.type !== 'text' || obj.aiThread?.threadId !== threadId || obj.aiThread.turn >= beforeTurn) return;
+    const key = `${obj.aiThread.turn}:${obj.aiThread.role}`;
+    const entry = turns.get(key) ?? { turn: obj.aiThread.turn, role: obj.aiThread.role, lines: [] };
+    entry.lines.push(obj);
+    turns.set(key, entry);
+  });
+
+  return Array.from(turns.values())
+    // 같은 turn에서는 질문이 답변보다 먼저
+    .sort((a, b) => (a.turn - b.turn) || (a.role === 'user' ? -1 : 1))
+    .map(entry => {
+      const content = sortTextObjectsForReading(entry.lines).map(line => line.content).join('\n');
+      return {
+        role: entry.role,
+        // 질문은 "/gpt @flags" 접두사를 떼고 보냄
+        content: entry.role === 'user' ? parseAICommand(content)?.question ?? content : content
+      };
+    });
+};
+
+/**
+ * Build the chat messages for a /gpt command: system prompt, prior thread
+ * turns, then the canvas context (if any) folded into the user turn with the question.
+ */
+export const buildAIMessages = (
+  command: AICommand,
+  input: AIContextInput,
+  history: AIMessage[] = [],
+  systemPrompt: string = DEFAULT_AI_SYSTEM_PROMPT
+): AIMessage[] => {
+  const contextText = buildAIContextText(command.context ?? [], input);
+  const userContent = contextText
+    ? `Canvas context:\n"""\n${contextText}\n"""\n\n${command.question}`
+    : command.question;
+
+  return [
+    { role: 'system', content: systemPrompt },
+    ...history,
+    { role: 'user', content: userContent }
+  ];
+};
@@ -1,4 +1,6 @@
 import { CanvasObject, TextObject, GuideObject } from '../types';
+import { isMediaNode, getMediaNodeBounds } from './mediaUtils';
+import { isLinkableObject, getLinkableObjectBounds } from './linkUtils';
 
 // Calculate smart edge attachment points for an object
 export const getAttachmentPoints = (
@@ -49,8 +51,8 @@ export const getAttachmentPoints = (
         screenPos
       });
     });
-  } else if (obj.type === 'guide') {
-    const guideObj = obj as GuideObject;
+  } else if (obj.type === 'guide' || isMediaNode(obj)) {
+    const guideObj = obj.type === 'guide' ? obj as GuideObject : getMediaNodeBounds(obj);
     const centerX = guideObj.x + guideObj.width / 2;
     const centerY = guideObj.y + guideObj.height / 2;
     
@@ -70,6 +72,15 @@ export const getAttachmentPoints = (
         screenPos
       });
     });
+  } else if (obj.type === 'link' && isLinkableObject(obj)) {
+    // 링크에는 중간점(라벨)에만 붙음
+    const bounds = getLinkableObjectBounds(obj);
+    const worldPos = { x: bounds.centerX, y: bounds.centerY };
+    attachmentPoints.push({
+      position: 'center',
+      worldPos,
+      screenPos: worldToScreen(worldPos.x, worldPos.y)
+    });
   }
   
   return attachmentPoints;
@@ -157,6 +168,11 @@ export const drawAttachmentPoints = (
         width: guideObj.width,
         height: guideObj.height
       };
+    } else if (isMediaNode(obj)) {
+      bounds = getMediaNodeBounds(obj);
+    } else if (obj.type === 'link' && isLinkableObject(obj)) {
+      const linkBounds = getLinkableObjectBounds(obj);
+      bounds = { x: linkBounds.left, y: linkBounds.top, width: linkBounds.width, height: linkBounds.height };
     }
     
     if (bounds) {
@@ -1,4 +1,8 @@
 import { CanvasObject, TextObject, GuideObject, Theme, SelectionRectangle } from '../types';
+import { isMediaNode, getMediaNodeSize, drawMediaNode } from './mediaUtils';
+import { drawStyledText, hasTextStyling } from './paintUtils';
+import { isLinkableObject, getLinkableObjectBounds } from './linkUtils';
+import { getObjectFrame, getTextLayout, rotateContextAround, rotatePoint, getFrameBounds, ObjectFrame } from './transformUtils';
 
 export const worldToScreen = (
   worldX: number, 
@@ -89,6 +93,26 @@ export const drawCanvasObjects = (
     ctx.fillText('A4', screenPos.x + 10 * scale, screenPos.y + 20 * scale);
   });
   
+  // 이미지/비디오는 가이드 위, 텍스트 아래에 배치
+  canvasObjects.filter(isMediaNode).forEach(mediaObj => {
+    const screenPos = worldToScreenFn(mediaObj.x, mediaObj.y);
+    const { width, height } = getMediaNodeSize(mediaObj);
+    const screenWidth = width * scale;
+    const screenHeight = height * scale;
+
+    // 회전한 노드는 돌아간 모양을 감싸는 상자로 화면 안에 있는지 판단
+    const bounds = getFrameBounds({ x: screenPos.x, y: screenPos.y, width: screenWidth, height: screenHeight, rotation: mediaObj.rotation ?? 0 });
+
+    if (mediaObj.visible !== false &&
+        bounds.maxX > 0 && bounds.minX < canvasWidth &&
+        bounds.maxY > 0 && bounds.minY < canvasHeight) {
+      ctx.save();
+      rotateContextAround(ctx, { x: screenPos.x + screenWidth / 2, y: screenPos.y + screenHeight / 2 }, mediaObj.rotation ?? 0);
+      drawMediaNode(ctx, mediaObj, screenPos.x, screenPos.y, screenWidth, screenHeight, colors[theme].a4Guide);
+      ctx.restore();
+    }
+  });
+
   // 텍스트 오브젝트들을 나중에 그려서 전경에 배치
   canvasObjects.filter(obj => obj.type === 'text').forEach(obj => {
     const textObj = obj as TextObject;
@@ -101,19 +125,41 @@ export const drawCanvasObjects = (
       
       // Selection highlighting is now handled separately in useCanvasRenderer
       
-      ctx.fillStyle = textObj.color || colors[theme].text;
-      
-      // Handle multi-line text
-      const lines = textObj.content.split('\n');
-      const lineHeight = fontSize * 1.6;
-      
-      lines.forEach((line, index) => {
-        ctx.fillText(line, screenPos.x, screenPos.y + (index * lineHeight));
-      });
+      if (textObj.visible === false) return;
+
+      // 고정 폭 텍스트는 줄바꿈된 줄로 그림
+      const layout = getTextLayout(textObj, measureTextWidth);
+      ctx.save();
+      rotateContextAround(ctx, worldToScreenFn(textObj.x + layout.width / 2, textObj.y - textObj.fontSize + layout.height / 2), textObj.rotation ?? 0);
+
+      // fills/strokes/effects가 있으면 페인트 파이프라인으로 렌더링
+      if (hasTextStyling(textObj)) {
+        drawStyledText(ctx, textObj, layout.lines, screenPos.x, screenPos.y, fontSize, scale, colors[theme].text);
+      } else {
+        ctx.fillStyle = textObj.color || colors[theme].text;
+        const lineHeight = fontSize * 1.6;
+        layout.lines.forEach((line, index) => {
+          ctx.fillText(line, screenPos.x, screenPos.y + (index * lineHeight));
+        });
+      }
+      ctx.restore();
     }
   });
 };
 
+// 노드 프레임을 화면 좌표로 (회전은 그릴 때 적용)
+const getScreenFrame = (
+  obj: CanvasObject,
+  scale: number,
+  worldToScreenFn: (x: number, y: number) => { x: number; y: number },
+  measureText: (text: string, fontSize: number) => number
+): ObjectFrame | null => {
+  const frame = getObjectFrame(obj, measureText);
+  if (!frame) return null;
+  const topLeft = worldToScreenFn(frame.x, frame.y);
+  return { x: topLeft.x, y: topLeft.y, width: frame.width * scale, height: frame.height * scale, rotation: frame.rotation };
+};
+
 export const drawHoverHighlight = (
   ctx: CanvasRenderingContext2D,
   hoveredObject: CanvasObject,
@@ -128,52 +174,38 @@ export const drawHoverHighlight = (
   ctx.lineCap = 'round';
   ctx.setLineDash([]);
   
-  if (hoveredObject.type === 'text') {
-    const textObj = hoveredObject as TextObject;
-    const screenPos = worldToScreenFn(textObj.x, textObj.y);
-    const fontSize = textObj.fontSize * scale;
-    
-    // Handle multi-line text for hover highlight
-    const lines = textObj.content.split('\n');
-    const lineHeight = fontSize * 1.6;
-    let maxWidth = 0;
-    
-    // Calculate the maximum width among all lines
-    lines.forEach(line => {
-      const lineWidth = measureTextWidth(line, fontSize);
-      maxWidth = Math.max(maxWidth, lineWidth);
-    });
-    
-    // 마지막 줄은 fontSize만, 나머지 줄들은 lineHeight 적용
-    const totalHeight = lines.length > 1 
-      ? (lines.length - 1) * lineHeight + fontSize 
-      : fontSize;
-    
-    const rectX = screenPos.x;
-    const rectY = screenPos.y - fontSize;
-    const rectWidth = maxWidth;
-    const rectHeight = totalHeight;
-    
+  if (hoveredObject.type === 'text' || hoveredObject.type === 'guide' || isMediaNode(hoveredObject)) {
+    const frame = getScreenFrame(hoveredObject, scale, worldToScreenFn, measureTextWidth);
+    if (!frame) return;
+
+    ctx.save();
+    rotateContextAround(ctx, { x: frame.x + frame.width / 2, y: frame.y + frame.height / 2 }, frame.rotation);
     // Draw background fill first
     ctx.fillStyle = colors[theme].hover;
-    ctx.fillRect(rectX, rectY, rectWidth, rectHeight);
-    
+    ctx.fillRect(frame.x, frame.y, frame.width, frame.height);
+
     // Draw border on top
     ctx.strokeStyle = colors[theme].hoverBorder;
-    ctx.strokeRect(rectX, rectY, rectWidth, rectHeight);
-  } else if (hoveredObject.type === 'guide') {
-    const a4Obj = hoveredObject as GuideObject;
-    const screenPos = worldToScreenFn(a4Obj.x, a4Obj.y);
-    const screenWidth = a4Obj.width * scale;
-    const screenHeight = a4Obj.height * scale;
-    
-    // Draw background fill first
+    ctx.strokeRect(frame.x, frame.y, frame.width, frame.height);
+    ctx.restore();
+  } else if (hoveredObject.type === 'link' && isLinkableObject(hoveredObject)) {
+    // 링크 모드에서 다른 링크의 중간점(라벨)을 가리킬 때
+    const bounds = getLinkableObjectBounds(hoveredObject);
+    const screenPos = worldToScreenFn(bounds.left, bounds.top);
+    const padding = 4;
+
     ctx.fillStyle = colors[theme].hover;
-    ctx.fillRect(screenPos.x, screenPos.y, screenWidth, screenHeight);
-    
-    // Draw border on top
     ctx.strokeStyle = colors[theme].hoverBorder;
-    ctx.strokeRect(screenPos.x, screenPos.y, screenWidth, screenHeight);
+    if (bounds.width === 0) {
+      ctx.beginPath();
+      ctx.arc(screenPos.x, screenPos.y, padding * 2, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+    } else {
+      const rect = [screenPos.x - padding, screenPos.y - padding, bounds.width * scale + padding * 2, bounds.height * scale + padding * 2] as const;
+      ctx.fillRect(...rect);
+      ctx.strokeRect(...rect);
+    }
   }
 };
 
@@ -210,62 +242,23 @@ export const isObjectInSelectionRect = (
   canvasOffset: { x: number; y: number },
   measureText: (text: string, fontSize: number) => number
 ): boolean => {
-  if (object.type === 'text') {
-    const textObj = object as TextObject;
-    const screenPos = worldToScreen(textObj.x, textObj.y, scale, canvasOffset);
-    const fontSize = textObj.fontSize * scale;
-    
-    // Handle multi-line text for selection rectangle intersection
-    const lines = textObj.content.split('\n');
-    const lineHeight = fontSize * 1.6;
-    let maxWidth = 0;
-    
-    // Calculate the maximum width among all lines
-    lines.forEach(line => {
-      const lineWidth = measureText(line, fontSize);
-      maxWidth = Math.max(maxWidth, lineWidth);
-    });
-    
-    // 마지막 줄은 fontSize만, 나머지 줄들은 lineHeight 적용
-    const totalHeight = lines.length > 1 
-      ? (lines.length - 1) * lineHeight + fontSize 
-      : fontSize;
-    
-    // Check if text object intersects with selection rectangle
-    const textLeft = screenPos.x;
-    const textTop = screenPos.y - fontSize;
-    const textRight = screenPos.x + maxWidth;
-    const textBottom = screenPos.y + totalHeight - fontSize;
-    
-    const rectLeft = selectionRect.x;
-    const rectTop = selectionRect.y;
-    const rectRight = selectionRect.x + selectionRect.width;
-    const rectBottom = selectionRect.y + selectionRect.height;
-    
-    return !(textRight < rectLeft || textLeft > rectRight || textBottom < rectTop || textTop > rectBottom);
-  }
-  
-  if (object.type === 'guide') {
-    const guideObj = object as GuideObject;
-    const screenPos = worldToScreen(guideObj.x, guideObj.y, scale, canvasOffset);
-    const guideWidth = guideObj.width * scale;
-    const guideHeight = guideObj.height * scale;
-    
-    // Check if A4 guide intersects with selection rectangle
-    const guideLeft = screenPos.x;
-    const guideTop = screenPos.y;
-    const guideRight = screenPos.x + guideWidth;
-    const guideBottom = screenPos.y + guideHeight;
-    
-    const rectLeft = selectionRect.x;
-    const rectTop = selectionRect.y;
-    const rectRight = selectionRect.x + selectionRect.width;
-    const rectBottom = selectionRect.y + selectionRect.height;
-    
-    return !(guideRight < rectLeft || guideLeft > rectRight || guideBottom < rectTop || guideTop > rectBottom);
-  }
-  
-  return false;
+  if (object.type !== 'text' && object.type !== 'guide' && !isMediaNode(object)) return false;
+  const frame = getObjectFrame(object, measureText);
+  if (!frame) return false;
+
+  // 회전한 노드는 그려진 모양을 감싸는 상자로 비교
+  const bounds = getFrameBounds(frame);
+  const left = bounds.minX * scale + canvasOffset.x;
+  const top = bounds.minY * scale + canvasOffset.y;
+  const right = bounds.maxX * scale + canvasOffset.x;
+  const bottom = bounds.maxY * scale + canvasOffset.y;
+
+  const rectLeft = selectionRect.x;
+  const rectTop = selectionRect.y;
+  const rectRight = selectionRect.x + selectionRect.width;
+  const rectBottom = selectionRect.y + selectionRect.height;
+
+  return !(right < rectLeft || left > rectRight || bottom < rectTop || top > rectBottom);
 };
 
 export const getObjectsInSelectionRect = (
@@ -319,54 +312,21 @@ export const drawMultiSelectHighlight = (
   
   // Draw individual highlights for each selected object (like hover)
   objects.forEach(obj => {
-    if (obj.type === 'text') {
-      const textObj = obj as TextObject;
-      const screenPos = worldToScreen(textObj.x, textObj.y, scale, canvasOffset);
-      const fontSize = textObj.fontSize * scale;
-      
-      // Handle multi-line text
-      const lines = textObj.content.split('\n');
-      const lineHeight = fontSize * 1.6;
-      let maxWidth = 0;
-      
-      // Calculate the maximum width among all lines
-      lines.forEach(line => {
-        const lineWidth = measureText(line, fontSize);
-        maxWidth = Math.max(maxWidth, lineWidth);
-      });
-      
-      const totalHeight = lines.length > 1 
-        ? (lines.length - 1) * lineHeight + fontSize 
-        : fontSize;
-      
-      const rectX = screenPos.x;
-      const rectY = screenPos.y - fontSize;
-      const rectWidth = maxWidth;
-      const rectHeight = totalHeight;
-      
-      // Draw background fill
-      ctx.fillStyle = highlightColor;
-      ctx.fillRect(rectX, rectY, rectWidth, rectHeight);
-      
-      // Draw simple border
-      ctx.strokeStyle = borderColor;
-      ctx.lineWidth = 1;
-      ctx.strokeRect(rectX, rectY, rectWidth, rectHeight);
-    } else if (obj.type === 'guide') {
-      const guideObj = obj as GuideObject;
-      const screenPos = worldToScreen(guideObj.x, guideObj.y, scale, canvasOffset);
-      const guideWidth = guideObj.width * scale;
-      const guideHeight = guideObj.height * scale;
-      
-      // Draw background fill
-      ctx.fillStyle = highlightColor;
-      ctx.fillRect(screenPos.x, screenPos.y, guideWidth, guideHeight);
-      
-      // Draw simple border
-      ctx.strokeStyle = borderColor;
-      ctx.lineWidth = 1;
-      ctx.strokeRect(screenPos.x, screenPos.y, guideWidth, guideHeight);
-    }
+    if (obj.type !== 'text' && obj.type !== 'guide' && !isMediaNode(obj)) return;
+    const frame = getScreenFrame(obj, scale, (x, y) => worldToScreen(x, y, scale, canvasOffset), measureText);
+    if (!frame) return;
+
+    ctx.save();
+    rotateContextAround(ctx, { x: frame.x + frame.width / 2, y: frame.y + frame.height / 2 }, frame.rotation);
+    // Draw background fill
+    ctx.fillStyle = highlightColor;
+    ctx.fillRect(frame.x, frame.y, frame.width, frame.height);
+
+    // Draw simple border
+    ctx.strokeStyle = borderColor;
+    ctx.lineWidth = 1;
+    ctx.strokeRect(frame.x, frame.y, frame.width, frame.height);
+    ctx.restore();
   });
 };
 
@@ -382,81 +342,123 @@ export const drawSingleSelectHighlight = (
   const highlightColor = theme === 'dark' ? 'rgba(59, 130, 246, 0.08)' : 'rgba(59, 130, 246, 0.06)';
   const borderColor = theme === 'dark' ? 'rgba(147, 197, 253, 0.4)' : 'rgba(96, 165, 250, 0.3)';
 
-  if (object.type === 'text') {
-    const textObj = object as TextObject;
-    const screenPos = worldToScreen(textObj.x, textObj.y, scale, canvasOffset);
-    const fontSize = textObj.fontSize * scale;
-    
-    // Handle multi-line text
-    const lines = textObj.content.split('\n');
+  if (object.type !== 'text' && !isMediaNode(object)) return;
+  const frame = getScreenFrame(object, scale, (x, y) => worldToScreen(x, y, scale, canvasOffset), measureText);
+  if (!frame) return;
+  const frameCenter = { x: frame.x + frame.width / 2, y: frame.y + frame.height / 2 };
+
+  // Draw highlight background
+  ctx.save();
+  ctx.save();
+  rotateContextAround(ctx, frameCenter, frame.rotation);
+  ctx.fillStyle = highlightColor;
+  ctx.fillRect(frame.x, frame.y, frame.width, frame.height);
+  
+  // Draw border
+  ctx.strokeStyle = borderColor;
+  ctx.lineWidth = 2;
+  ctx.setLineDash([5, 5]);
+  ctx.strokeRect(frame.x, frame.y, frame.width, frame.height);
+  ctx.setLineDash([]);
+  ctx.restore();
+
+  // 회전한 노드는 돌아간 오른쪽 위 모서리에 버튼을 붙임
+  const { x: right, y: top } = rotatePoint({ x: frame.x + frame.width, y: frame.y }, frameCenter, frame.rotation);
+  
+  // Draw X button at top-right corner of bounding box - modern minimal design
+  const buttonSize = 16;
+  const buttonRadius = buttonSize / 2;
+  const buttonX = right + 3;
+  const buttonY = top - 3;
+  const centerX = buttonX + buttonRadius;
+  const centerY = buttonY + buttonRadius;
+  
+  // X button background - subtle circular design
+  ctx.fillStyle = theme === 'dark' ? 'rgba(0, 0, 0, 0.7)' : 'rgba(255, 255, 255, 0.9)';
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, buttonRadius, 0, Math.PI * 2);
+  ctx.fill();
+  
+  // X symbol - minimal and clean (no border)
+  ctx.strokeStyle = theme === 'dark' ? 'rgba(255, 255, 255, 0.8)' : 'rgba(0, 0, 0, 0.6)';
+  ctx.lineWidth = 1.2;
+  ctx.lineCap = 'round';
+  const crossSize = 4;
+  ctx.beginPath();
+  ctx.moveTo(centerX - crossSize, centerY - crossSize);
+  ctx.lineTo(centerX + crossSize, centerY + crossSize);
+  ctx.moveTo(centerX + crossSize, centerY - crossSize);
+  ctx.lineTo(centerX - crossSize, centerY + crossSize);
+  ctx.stroke();
+  
+  ctx.restore();
+  
+  // Store button bounds for click detection (circular)
+  // Support multiple delete buttons by using an array
+  if (!(ctx as any)._deleteButtonBounds) {
+    (ctx as any)._deleteButtonBounds = [];
+  }
+  (ctx as any)._deleteButtonBounds.push({
+    centerX: centerX,
+    centerY: centerY,
+    radius: buttonRadius,
+    onDelete
+  });
+};
+
+/**
+ * Mark search matches inside text nodes. `ranges` are [start, end) offsets
+ * into the node content; the active result gets a stronger mark and outline.
+ */
+export const drawSearchHighlights = (
+  ctx: CanvasRenderingContext2D,
+  matches: Array<{ object: TextObject; ranges: Array<[number, number]>; isActive: boolean }>,
+  scale: number,
+  canvasOffset: { x: number; y: number },
+  measureText: (text: string, fontSize: number) => number,
+  theme: Theme
+) => {
+  const matchColor = theme === 'dark' ? 'rgba(250, 204, 21, 0.3)' : 'rgba(250, 204, 21, 0.4)';
+  const activeColor = theme === 'dark' ? 'rgba(249, 115, 22, 0.45)' : 'rgba(249, 115, 22, 0.4)';
+  const activeBorderColor = 'rgba(249, 115, 22, 0.8)';
+
+  matches.forEach(({ object, ranges, isActive }) => {
+    const screenPos = worldToScreen(object.x, object.y, scale, canvasOffset);
+    const fontSize = object.fontSize * scale;
     const lineHeight = fontSize * 1.6;
-    let maxWidth = 0;
-    
-    // Calculate the maximum width among all lines
-    lines.forEach(line => {
-      const lineWidth = measureText(line, fontSize);
-      maxWidth = Math.max(maxWidth, lineWidth);
-    });
-    
-    const totalHeight = lines.length > 1 
-      ? (lines.length - 1) * lineHeight + fontSize 
-      : fontSize;
-    
-    const left = screenPos.x;
-    const top = screenPos.y - fontSize;
-    const right = screenPos.x + maxWidth;
-    const bottom = screenPos.y + totalHeight - fontSize;
-    
-    // Draw highlight background
+    const layout = getTextLayout(object, measureText);
+
     ctx.save();
-    ctx.fillStyle = highlightColor;
-    ctx.fillRect(left, top, maxWidth, bottom - top);
-    
-    // Draw border
-    ctx.strokeStyle = borderColor;
-    ctx.lineWidth = 2;
-    ctx.setLineDash([5, 5]);
-    ctx.strokeRect(left, top, maxWidth, bottom - top);
-    ctx.setLineDash([]);
-    
-    // Draw X button at top-right corner of bounding box - modern minimal design
-    const buttonSize = 16;
-    const buttonRadius = buttonSize / 2;
-    const buttonX = right + 3;
-    const buttonY = top - 3;
-    const centerX = buttonX + buttonRadius;
-    const centerY = buttonY + buttonRadius;
-    
-    // X button background - subtle circular design
-    ctx.fillStyle = theme === 'dark' ? 'rgba(0, 0, 0, 0.7)' : 'rgba(255, 255, 255, 0.9)';
-    ctx.beginPath();
-    ctx.arc(centerX, centerY, buttonRadius, 0, Math.PI * 2);
-    ctx.fill();
-    
-    // X symbol - minimal and clean (no border)
-    ctx.strokeStyle = theme === 'dark' ? 'rgba(255, 255, 255, 0.8)' : 'rgba(0, 0, 0, 0.6)';
-    ctx.lineWidth = 1.2;
-    ctx.lineCap = 'round';
-    const crossSize = 4;
-    ctx.beginPath();
-    ctx.moveTo(centerX - crossSize, centerY - crossSize);
-    ctx.lineTo(centerX + crossSize, centerY + crossSize);
-    ctx.moveTo(centerX + crossSize, centerY - crossSize);
-    ctx.lineTo(centerX - crossSize, centerY + crossSize);
-    ctx.stroke();
-    
-    ctx.restore();
-    
-    // Store button bounds for click detection (circular)
-    // Support multiple delete buttons by using an array
-    if (!(ctx as any)._deleteButtonBounds) {
-      (ctx as any)._deleteButtonBounds = [];
-    }
-    (ctx as any)._deleteButtonBounds.push({
-      centerX: centerX,
-      centerY: centerY,
-      radius: buttonRadius,
-      onDelete
+    rotateContextAround(
+      ctx,
+      worldToScreen(object.x + layout.width / 2, object.y - object.fontSize + layout.height / 2, scale, canvasOffset),
+      object.rotation ?? 0
+    );
+
+    // 오프셋을 (줄바꿈된) 줄/열로 바꿔 줄마다 매치 구간을 칠함
+    layout.lines.forEach((line, lineIndex) => {
+      const lineStart = layout.lineStarts[lineIndex];
+      const lineEnd = lineStart + line.length;
+      const top = screenPos.y - fontSize + lineIndex * lineHeight;
+      ranges.forEach(([start, end]) => {
+        const from = Math.max(start, lineStart);
+        const to = Math.min(end, lineEnd);
+        if (from >= to) return;
+        const x = screenPos.x + measureText(line.slice(0, from - lineStart), fontSize);
+        const width = measureText(line.slice(from - lineStart, to - lineStart), fontSize);
+        ctx.fillStyle = isActive ? activeColor : matchColor;
+        ctx.fillRect(x, top, width, fontSize * 1.2);
+      });
     });
-  }
-};
+
+    if (isActive) {
+      const width = layout.width * scale;
+      const height = layout.height * scale + fontSize * 0.2;
+      ctx.strokeStyle = activeBorderColor;
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash([]);
+      ctx.strokeRect(screenPos.x - 2, screenPos.y - fontSize - 2, width + 4, height + 4);
+    }
+    ctx.restore();
+  });
+};
\ No newline at end of file
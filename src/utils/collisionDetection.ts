@@ -4,6 +4,7 @@
  */
 
 import { CanvasObject, TextObject, ArrowObjectType, GuideObject } from '../types';
+import { MediaNode, getMediaNodeSize } from './mediaUtils';
 
 export interface CollisionResult {
   isColliding: boolean;
@@ -43,6 +44,9 @@ export class CollisionDetector {
         return this.isPointInArrowObject(object as ArrowObjectType, screenX, screenY, worldToScreen);
       case 'a4guide':
         return this.isPointInA4GuideObject(object as GuideObject, screenX, screenY, worldToScreen);
+      case 'image':
+      case 'video':
+        return this.isPointInMediaObject(object, screenX, screenY, worldToScreen);
       default:
         return { isColliding: false };
     }
@@ -224,6 +228,37 @@ export class CollisionDetector {
     };
   }
 
+  /**
+   * Image / video collision detection (filled rectangle)
+   */
+  private static isPointInMediaObject(
+    mediaObj: MediaNode,
+    screenX: number,
+    screenY: number,
+    worldToScreen: (x: number, y: number) => { x: number; y: number }
+  ): CollisionResult {
+    const bbox = this.getMediaBoundingBox(mediaObj, worldToScreen);
+    const closestPoint = {
+      x: Math.max(bbox.x, Math.min(bbox.x + bbox.width, screenX)),
+      y: Math.max(bbox.y, Math.min(bbox.y + bbox.height, screenY))
+    };
+    const distance = Math.sqrt(
+      Math.pow(screenX - closestPoint.x, 2) + Math.pow(screenY - closestPoint.y, 2)
+    );
+
+    if (distance === 0) {
+      return { isColliding: true, distance: 0, closestPoint, collisionType: 'inside' };
+    }
+
+    return {
+      isColliding: distance <= this.EDGE_TOLERANCE,
+      distance,
+      closestPoint,
+      collisionType: distance <= this.EDGE_TOLERANCE ? 'edge' :
+                     distance <= this.NEAR_TOLERANCE ? 'near' : undefined
+    };
+  }
+
   /**
    * Calculate distance from point to line segment
    */
@@ -276,6 +311,9 @@ export class CollisionDetector {
         return this.getArrowBoundingBox(object as ArrowObjectType, worldToScreen);
       case 'a4guide':
         return this.getA4GuideBoundingBox(object as GuideObject, worldToScreen);
+      case 'image':
+      case 'video':
+        return this.getMediaBoundingBox(object, worldToScreen);
       default:
         const pos = worldToScreen((object as any).x || 0, (object as any).y || 0);
         return { x: pos.x, y: pos.y, width: 0, height: 0 };
@@ -351,6 +389,23 @@ export class CollisionDetector {
     };
   }
 
+  private static getMediaBoundingBox(
+    mediaObj: MediaNode,
+    worldToScreen: (x: number, y: number) => { x: number; y: number }
+  ): BoundingBox {
+    // 월드 크기를 양 끝점 변환으로 화면 크기로 환산 (scale 반영)
+    const { width, height } = getMediaNodeSize(mediaObj);
+    const topLeft = worldToScreen(mediaObj.x, mediaObj.y);
+    const bottomRight = worldToScreen(mediaObj.x + width, mediaObj.y + height);
+
+    return {
+      x: topLeft.x,
+      y: topLeft.y,
+      width: bottomRight.x - topLeft.x,
+      height: bottomRight.y - topLeft.y
+    };
+  }
+
   /**
    * Spatial indexing for performance optimization (future use)
    */
@@ -0,0 +1,60 @@
+import { RGB, RGBA } from '../types';
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+/**
+ * Parse a CSS color string (#rgb, #rgba, #rrggbb, #rrggbbaa, rgb(), rgba())
+ * into Figma-style 0-1 RGBA. Returns null for unsupported formats.
+ */
+export const parseCSSColor = (css: string): RGBA | null => {
+  const value = css.trim().toLowerCase();
+
+  if (value.startsWith('#')) {
+    let hex = value.slice(1);
+    if (hex.length === 3 || hex.length === 4) {
+      hex = hex.split('').map(ch => ch + ch).join('');
+    }
+    if (!/^[0-9a-f]{6}([0-9a-f]{2})?$/.test(hex)) return null;
+    return {
+      r: parseInt(hex.slice(0, 2), 16) / 255,
+      g: parseInt(hex.slice(2, 4), 16) / 255,
+      b: parseInt(hex.slice(4, 6), 16) / 255,
+      a: hex.length === 8 ? parseInt(hex.slice(6, 8), 16) / 255 : 1
+    };
+  }
+
+  const match = value.match(/^rgba?\(([^)]+)\)$/);
+  if (match) {
+    const parts = match[1].split(/[\s,/]+/).filter(Boolean);
+    if (parts.length < 3) return null;
+    const channel = (part: string) => part.endsWith('%')
+      ? parseFloat(part) / 100
+      : parseFloat(part) / 255;
+    const alpha = parts[3] === undefined
+      ? 1
+      : parts[3].endsWith('%') ? parseFloat(parts[3]) / 100 : parseFloat(parts[3]);
+    const color = { r: channel(parts[0]), g: channel(parts[1]), b: channel(parts[2]), a: alpha };
+    return Object.values(color).some(Number.isNaN) ? null : color;
+  }
+
+  return null;
+};
+
+/**
+ * 0-1 RGB(A) → CSS rgba() string. opacity multiplies the alpha channel.
+ */
+export const rgbaToCSS = (color: RGB | RGBA, opacity: number = 1): string => {
+  const alpha = clamp01(('a' in color ? color.a : 1) * opacity);
+  const r = Math.round(clamp01(color.r) * 255);
+  const g = Math.round(clamp01(color.g) * 255);
+  const b = Math.round(clamp01(color.b) * 255);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+};
+
+/**
+ * 0-1 RGB → #rrggbb (alpha is dropped).
+ */
+export const rgbToHex = (color: RGB | RGBA): string => {
+  const toHex = (channel: number) => Math.round(clamp01(channel) * 255).toString(16).padStart(2, '0');
+  return `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`;
+};
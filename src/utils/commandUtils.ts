@@ -0,0 +1,358 @@
+import { LinkAnchor, LinkMarker, LinkRouting, LinkStyle, Theme } from '../types';
+import { GRAPH_LAYOUT_KINDS, GraphLayoutKind } from './graphLayout';
+
+export type CommandArgType = 'number' | 'string' | 'enum' | 'rest';
+
+export interface CommandArgSpec {
+  name: string;
+  type: CommandArgType;
+  /** enum 타입의 허용 값 */
+  options?: string[];
+  optional?: boolean;
+  description?: string;
+}
+
+export type CommandArgs = Record<string, string | number | undefined>;
+
+const LINK_MARKER_OPTIONS = ['none', 'arrow', 'dot', 'diamond'];
+const LINK_ANCHOR_OPTIONS = ['auto', 'top', 'right', 'bottom', 'left', 'center'];
+const NO_LINKS_SELECTED = 'Select links, or objects with links, first';
+
+export type ExportFormat = 'png' | 'svg' | 'json' | 'figma' | 'markdown' | 'pdf';
+
+/**
+ * Canvas operations a command may call. The canvas component supplies
+ * these so commands stay free of React state.
+ */
+export interface CommandContext {
+  goto: (x: number, y: number) => void;
+  /** 배율 (1 = 100%). 생략하면 100%로 리셋 */
+  setZoom: (scale?: number) => void;
+  /** 생략하면 토글 */
+  setTheme: (theme?: Theme) => void;
+  exportAs: (format: ExportFormat) => void;
+  /** 인쇄 미리보기 열기 */
+  print: () => void;
+  addGuide: (format: 'a4') => void;
+  /** 찾은 개수 반환 */
+  find: (query: string) => number;
+  /** 만든 링크 개수 반환 */
+  linkSelection: (style: LinkStyle) => number;
+  /** 바꾼 링크 개수 반환 */
+  setLinkRouting: (routing: LinkRouting) => number;
+  /** 빈 문자열이면 라벨 삭제. 바꾼 링크 개수 반환 */
+  labelLinks: (label: string) => number;
+  setLinkMarkers: (start: LinkMarker, end: LinkMarker) => number;
+  setLinkAnchors: (start: LinkAnchor, end: LinkAnchor) => number;
+  /** 배치한 객체 개수 반환 */
+  layoutSelection: (kind: GraphLayoutKind) => number;
+  askAI: (text: string) => void;
+  showOutput: (lines: string[], isError?: boolean) => void;
+}
+
+export interface SlashCommand {
+  name: string;
+  aliases?: string[];
+  description: string;
+  args: CommandArgSpec[];
+  /** `input` is the full text as typed, for commands that re-parse it (e.g. /gpt flags). */
+  run: (args: CommandArgs, ctx: CommandContext, input: string) => void;
+}
+
+export type SlashCommandResult =
+  | { ok: true; command: SlashCommand; args: CommandArgs }
+  | { ok: false; error: string };
+
+export interface CommandSuggestion {
+  /** 목록에 보여줄 텍스트 */
+  label: string;
+  description: string;
+  /** Tab으로 완성했을 때 입력창에 들어갈 텍스트 */
+  completion: string;
+}
+
+// "/name" 으로 시작하는 입력만 명령어로 취급 ("/usr/bin" 같은 경로는 제외)
+const COMMAND_PATTERN = /^\/([a-zA-Z][\w-]*)(?:\s+([\s\S]*))?$/;
+
+const formatArg = (arg: CommandArgSpec) => {
+  const label = arg.type === 'enum' && arg.options ? arg.options.join('|') : arg.name;
+  const text = arg.type === 'rest' ? `${label}...` : label;
+  return arg.optional ? `[${text}]` : `<${text}>`;
+};
+
+export const formatCommandUsage = (command: SlashCommand) => {
+  return [`/${command.name}`, ...command.args.map(formatArg)].join(' ');
+};
+
+// "150%"처럼 표시된 그대로 입력해도 숫자로 읽음
+const parseNumberArg = (value: string): number | null => {
+  const parsed = Number(value.replace(/%$/, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Parse typed text against the registry.
+ * Returns null when the text is not a slash command at all, so it can be
+ * typed onto the canvas as usual.
+ */
+export const parseSlashCommand = (
+  text: string,
+  commands: SlashCommand[] = SLASH_COMMANDS
+): SlashCommandResult | null => {
+  const match = text.trim().match(COMMAND_PATTERN);
+  if (!match) return null;
+
+  const command = findCommand(match[1], commands);
+  if (!command) {
+    return { ok: false, error: `Unknown command /${match[1]}. Type /help for a list.` };
+  }
+
+  const words = (match[2] ?? '').trim().split(/\s+/).filter(Boolean);
+  const args: CommandArgs = {};
+
+  for (let i = 0; i < command.args.length; i++) {
+    const spec = command.args[i];
+
+    if (spec.type === 'rest') {
+      const rest = words.splice(0).join(' ');
+      if (!rest && !spec.optional) {
+        return { ok: false, error: `Missing ${spec.name}. Usage: ${formatCommandUsage(command)}` };
+      }
+      args[spec.name] = rest || undefined;
+      break;
+    }
+
+    const word = words.shift();
+    if (word === undefined) {
+      if (!spec.optional) {
+        return { ok: false, error: `Missing ${spec.name}. Usage: ${formatCommandUsage(command)}` };
+      }
+      continue;
+    }
+
+    if (spec.type === 'number') {
+      const value = parseNumberArg(word);
+      if (value === null) {
+        return { ok: false, error: `${spec.name} must be a number, got "${word}"` };
+      }
+      args[spec.name] = value;
+    } else if (spec.type === 'enum') {
+      const value = word.toLowerCase();
+      if (!spec.options?.includes(value)) {
+        return { ok: false, error: `${spec.name} must be one of ${spec.options?.join(', ')}` };
+      }
+      args[spec.name] = value;
+    } else {
+      args[spec.name] = word;
+    }
+  }
+
+  if (words.length > 0) {
+    return { ok: false, error: `Too many arguments. Usage: ${formatCommandUsage(command)}` };
+  }
+
+  return { ok: true, command, args };
+};
+
+export const findCommand = (name: string, commands: SlashCommand[] = SLASH_COMMANDS) => {
+  const key = name.toLowerCase();
+  return commands.find(command => command.name === key || command.aliases?.includes(key));
+};
+
+/**
+ * Suggestions for the text being typed: matching command names while the
+ * name is incomplete, then the options of the enum argument under the cursor.
+ */
+export const getCommandSuggestions = (
+  text: string,
+  commands: SlashCommand[] = SLASH_COMMANDS
+): CommandSuggestion[] => {
+  if (!text.startsWith('/') || text.includes('\n')) return [];
+
+  const nameMatch = text.match(/^\/([\w-]*)$/);
+  if (nameMatch) {
+    const prefix = nameMatch[1].toLowerCase();
+    return commands
+      .filter(command => [command.name, ...(command.aliases ?? [])].some(name => name.startsWith(prefix)))
+      .map(command => ({
+        label: formatCommandUsage(command),
+        description: command.description,
+        completion: `/${command.name}${command.args.length > 0 ? ' ' : ''}`
+      }));
+  }
+
+  const argMatch = text.match(/^\/([\w-]+)\s+(.*)$/);
+  if (!argMatch) return [];
+  const command = findCommand(argMatch[1], commands);
+  if (!command) return [];
+
+  const words = argMatch[2].split(/\s+/);
+  const current = words.pop() ?? '';
+  const spec = command.args[words.length];
+  if (!spec) return [];
+
+  if (spec.type === 'enum' && spec.options) {
+    const head = text.slice(0, text.length - current.length);
+    return spec.options
+      .filter(option => option.startsWith(current.toLowerCase()) && option !== current.toLowerCase())
+      .map(option => ({
+        label: option,
+        description: spec.description ?? spec.name,
+        completion: `${head}${option}`
+      }));
+  }
+
+  // 자유 입력 인자는 사용법만 보여줌
+  return [{
+    label: formatCommandUsage(command),
+    description: spec.description ?? command.description,
+    completion: text
+  }];
+};
+
+/**
+ * Lines printed by /help, or the usage of one command for "/help name".
+ */
+export const formatCommandHelp = (name?: string, commands: SlashCommand[] = SLASH_COMMANDS): string[] => {
+  if (name) {
+    const command = findCommand(name.replace(/^\//, ''), commands);
+    if (!command) return [`Unknown command /${name}`];
+    return [
+      formatCommandUsage(command),
+      command.description,
+      ...command.args
+        .filter(arg => arg.description)
+        .map(arg => `  ${arg.name}: ${arg.description}`),
+      ...(command.aliases?.length ? [`Aliases: ${command.aliases.map(alias => `/${alias}`).join(', ')}`] : [])
+    ];
+  }
+
+  return commands.map(command => `${formatCommandUsage(command)} — ${command.description}`);
+};
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  {
+    name: 'gpt',
+    aliases: ['ai'],
+    description: 'Ask the AI; prefix with @selection, @channel or @viewport for context',
+    args: [{ name: 'question', type: 'rest', description: 'Question, optionally after context flags' }],
+    run: (_args, ctx, input) => ctx.askAI(input.replace(/^\/\w+/, '/gpt'))
+  },
+  {
+    name: 'goto',
+    description: 'Move the typewriter to world coordinates',
+    args: [
+      { name: 'x', type: 'number' },
+      { name: 'y', type: 'number' }
+    ],
+    run: (args, ctx) => ctx.goto(args.x as number, args.y as number)
+  },
+  {
+    name: 'zoom',
+    description: 'Set the zoom level (e.g. 150 or 150%), or reset to 100%',
+    args: [{ name: 'percent', type: 'number', optional: true, description: 'Zoom in percent' }],
+    run: (args, ctx) => {
+      const percent = args.percent as number | undefined;
+      ctx.setZoom(percent === undefined ? undefined : percent / 100);
+    }
+  },
+  {
+    name: 'theme',
+    description: 'Switch between light and dark theme',
+    args: [{ name: 'theme', type: 'enum', options: ['light', 'dark'], optional: true }],
+    run: (args, ctx) => ctx.setTheme(args.theme as Theme | undefined)
+  },
+  {
+    name: 'export',
+    description: 'Download the canvas',
+    args: [{ name: 'format', type: 'enum', options: ['png', 'svg', 'json', 'figma', 'markdown', 'pdf'], description: 'File format' }],
+    run: (args, ctx) => ctx.exportAs(args.format as ExportFormat)
+  },
+  {
+    name: 'print',
+    description: 'Preview and print the guide pages',
+    args: [],
+    run: (_args, ctx) => ctx.print()
+  },
+  {
+    name: 'guide',
+    description: 'Add a page guide around the typewriter',
+    args: [{ name: 'format', type: 'enum', options: ['a4'], optional: true, description: 'Page format' }],
+    run: (args, ctx) => ctx.addGuide((args.format as 'a4' | undefined) ?? 'a4')
+  },
+  {
+    name: 'find',
+    description: 'Select text containing the query and jump to the first match',
+    args: [{ name: 'query', type: 'rest' }],
+    run: (args, ctx) => {
+      const count = ctx.find(args.query as string);
+      ctx.showOutput([count > 0 ? `${count} match${count === 1 ? '' : 'es'} for "${args.query}"` : `No matches for "${args.query}"`], count === 0);
+    }
+  },
+  {
+    name: 'link',
+    description: 'Link the selected objects in selection order',
+    args: [{ name: 'style', type: 'enum', options: ['arrow', 'line', 'dashed'], optional: true, description: 'Link style' }],
+    run: (args, ctx) => {
+      const count = ctx.linkSelection((args.style as LinkStyle | undefined) ?? 'arrow');
+      if (count === 0) ctx.showOutput(['Select at least two objects to link'], true);
+    }
+  },
+  {
+    name: 'route',
+    description: 'Set how the selected links are drawn',
+    args: [{ name: 'routing', type: 'enum', options: ['straight', 'curved', 'orthogonal'], description: 'Link routing' }],
+    run: (args, ctx) => {
+      const count = ctx.setLinkRouting(args.routing as LinkRouting);
+      if (count === 0) ctx.showOutput([NO_LINKS_SELECTED], true);
+    }
+  },
+  {
+    name: 'label',
+    description: 'Label the selected links, or clear their labels',
+    args: [{ name: 'text', type: 'rest', optional: true, description: 'Label text' }],
+    run: (args, ctx) => {
+      const count = ctx.labelLinks((args.text as string | undefined) ?? '');
+      if (count === 0) ctx.showOutput([NO_LINKS_SELECTED], true);
+    }
+  },
+  {
+    name: 'marker',
+    description: 'Set the start and end markers of the selected links (arrow arrow for two-way)',
+    args: [
+      { name: 'start', type: 'enum', options: LINK_MARKER_OPTIONS, description: 'Start marker' },
+      { name: 'end', type: 'enum', options: LINK_MARKER_OPTIONS, description: 'End marker' }
+    ],
+    run: (args, ctx) => {
+      const count = ctx.setLinkMarkers(args.start as LinkMarker, args.end as LinkMarker);
+      if (count === 0) ctx.showOutput([NO_LINKS_SELECTED], true);
+    }
+  },
+  {
+    name: 'anchor',
+    description: 'Pin where the selected links attach to their nodes',
+    args: [
+      { name: 'start', type: 'enum', options: LINK_ANCHOR_OPTIONS, description: 'Side of the source node' },
+      { name: 'end', type: 'enum', options: LINK_ANCHOR_OPTIONS, description: 'Side of the target node' }
+    ],
+    run: (args, ctx) => {
+      const count = ctx.setLinkAnchors(args.start as LinkAnchor, args.end as LinkAnchor);
+      if (count === 0) ctx.showOutput([NO_LINKS_SELECTED], true);
+    }
+  },
+  {
+    name: 'layout',
+    description: 'Arrange the selected objects by their links',
+    args: [{ name: 'kind', type: 'enum', options: GRAPH_LAYOUT_KINDS, description: 'Layout algorithm' }],
+    run: (args, ctx) => {
+      const count = ctx.layoutSelection(args.kind as GraphLayoutKind);
+      if (count === 0) ctx.showOutput(['Select at least two objects to lay out'], true);
+    }
+  },
+  {
+    name: 'help',
+    description: 'List commands, or show usage for one',
+    args: [{ name: 'command', type: 'string', optional: true }],
+    run: (args, ctx) => ctx.showOutput(formatCommandHelp(args.command as string | undefined))
+  }
+];
@@ -9,20 +9,32 @@ import {
   addTextObjectToSVG,
   addCurrentTypingTextToSVG,
   addA4GuideToSVG,
+  addMediaNodeToSVG,
+  isMediaNode,
+  preloadMediaImages,
   calculateSVGOutputSize,
-  serializeSVG
+  serializeSVG,
+  addLinkToSVG
 } from './index'
-import { CanvasObject, TextObject, GuideObject, Theme } from '../types'
+import { getLinkObstacles, getLinkPath, renderLink, resolveLinkEnds } from './linkUtils'
+import { createFigmaExportDocument } from './figmaExport'
+import { exportCanvasToMarkdown } from './markdownUtils'
+import { createGuidePagesPDF } from './pdfExport'
+import { CanvasObject, TextObject, GuideObject, LinkObject, Theme } from '../types'
 
 export const createPNGExporter = (
   canvasObjects: CanvasObject[],
+  links: LinkObject[],
   currentTypingText: string,
   baseFontSize: number,
   getCurrentWorldPosition: () => { x: number; y: number },
   theme: Theme,
   THEME_COLORS: any
 ) => {
-  return () => {
+  return async () => {
+    // 이미지가 아직 로드되지 않았다면 export 전에 기다림
+    await preloadMediaImages(canvasObjects);
+
     const measureText = (text: string, fontSize: number) => {
       const tempCanvas = document.createElement('canvas');
       const tempCtx = tempCanvas.getContext('2d');
@@ -75,6 +87,24 @@ export const createPNGExporter = (
       THEME_COLORS
     );
 
+    // 링크는 캔버스와 같은 경로 계산을 사용
+    const obstacles = getLinkObstacles(canvasObjects, measureText);
+    resolveLinkEnds(links, canvasObjects, measureText, obstacles).forEach(({ link, fromObject, toObject }) => {
+      renderLink(
+        tempCtx,
+        link,
+        fromObject,
+        toObject,
+        exportScaleFactor,
+        { x: tempOffsetX, y: tempOffsetY },
+        false,
+        false,
+        measureText,
+        obstacles,
+        THEME_COLORS[theme].background
+      );
+    });
+
     downloadCanvas(tempCanvas, `nntype-canvas-${new Date().toISOString().slice(0, 10)}.png`);
   };
 };
@@ -111,6 +141,7 @@ export const createJSONExporter = (
 
 export const createSVGExporter = (
   canvasObjects: CanvasObject[],
+  links: LinkObject[],
   currentTypingText: string,
   baseFontSize: number,
   getCurrentWorldPosition: () => { x: number; y: number },
@@ -147,8 +178,12 @@ export const createSVGExporter = (
     const svg = createSVGElement(viewBoxMinX, viewBoxMinY, viewBoxWidth, viewBoxHeight, outputWidth, outputHeight);
     addSVGBackground(svg, "#ffffff");
 
+    canvasObjects.filter(isMediaNode).forEach(obj => {
+      addMediaNodeToSVG(svg, obj);
+    });
+
     canvasObjects.filter(obj => obj.type === 'text').forEach(obj => {
-      addTextObjectToSVG(svg, obj as TextObject, "#000000");
+      addTextObjectToSVG(svg, obj as TextObject, "#000000", measureText);
     });
 
     if (currentTypingText.trim()) {
@@ -159,8 +194,69 @@ export const createSVGExporter = (
     canvasObjects.filter(obj => obj.type === 'guide').forEach(obj => {
       addA4GuideToSVG(svg, obj as GuideObject);
     });
+
+    const obstacles = getLinkObstacles(canvasObjects, measureText);
+    resolveLinkEnds(links, canvasObjects, measureText, obstacles).forEach(({ link, fromObject, toObject }) => {
+      addLinkToSVG(svg, link, getLinkPath(link, fromObject, toObject, obstacles, measureText), measureText);
+    });
     
     const svgString = serializeSVG(svg);
     downloadFile(svgString, `nntype-canvas-${new Date().toISOString().slice(0, 10)}.svg`, 'image/svg+xml');
   };
-};
\ No newline at end of file
+};
+
+export const createFigmaExporter = (
+  canvasObjects: CanvasObject[],
+  links: LinkObject[],
+  theme: Theme,
+  THEME_COLORS: any
+) => {
+  return () => {
+    const measureText = (text: string, fontSize: number) => {
+      const tempCanvas = document.createElement('canvas');
+      const tempCtx = tempCanvas.getContext('2d');
+      if (!tempCtx) return text.length * 12;
+      tempCtx.font = `400 ${fontSize}px "JetBrains Mono", monospace`;
+      return tempCtx.measureText(text).width;
+    };
+
+    const figmaDocument = createFigmaExportDocument(canvasObjects, links, measureText, THEME_COLORS[theme]);
+
+    downloadFile(
+      JSON.stringify(figmaDocument, null, 2),
+      `nntype-figma-${new Date().toISOString().slice(0, 10)}.json`,
+      'application/json'
+    );
+  };
+};
+
+export const createMarkdownExporter = (
+  canvasObjects: CanvasObject[],
+  links: LinkObject[]
+) => {
+  return () => {
+    downloadFile(
+      exportCanvasToMarkdown(canvasObjects, links),
+      `nntype-canvas-${new Date().toISOString().slice(0, 10)}.md`,
+      'text/markdown'
+    );
+  };
+};
+
+export const createPDFExporter = (canvasObjects: CanvasObject[]) => {
+  return async () => {
+    try {
+      const pdf = await createGuidePagesPDF(canvasObjects);
+      if (!pdf) {
+        console.warn('PDF export needs at least one page guide.');
+        return;
+      }
+      if (pdf.missingGlyphs.length > 0) {
+        console.warn('PDF font has no glyphs for some characters; they will show as boxes:', pdf.missingGlyphs);
+      }
+      downloadFile(pdf.bytes, `nntype-canvas-${new Date().toISOString().slice(0, 10)}.pdf`, 'application/pdf');
+    } catch (error) {
+      console.error('PDF export failed:', error);
+    }
+  };
+};
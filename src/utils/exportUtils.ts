@@ -1,4 +1,7 @@
 import { CanvasObject, TextObject, GuideObject, Theme, ExportData } from '../types';
+import { isMediaNode, getMediaNodeSize, drawMediaNode } from './mediaUtils';
+import { drawStyledText, hasTextStyling } from './paintUtils';
+import { getObjectFrame, getFrameCenter, getTextLayout, rotateContextAround } from './transformUtils';
 
 export const drawContentForExport = (
   ctx: CanvasRenderingContext2D,
@@ -12,23 +15,60 @@ export const drawContentForExport = (
   colors: any
 ) => {
   ctx.textBaseline = 'alphabetic';
+  // 줄바꿈은 화면과 같은 폰트로 측정 (월드 단위 글자 크기)
+  const measureText = (text: string, fontSize: number) => {
+    ctx.font = `400 ${fontSize}px "JetBrains Mono", monospace`;
+    return ctx.measureText(text).width;
+  };
+
+  // 이미지/비디오를 텍스트 아래에 렌더링 (캔버스와 동일한 순서)
+  canvasObjects.filter(isMediaNode).forEach(mediaObj => {
+    const { width, height } = getMediaNodeSize(mediaObj);
+    ctx.save();
+    rotateContextAround(ctx, {
+      x: (mediaObj.x + width / 2) * currentScale + currentOffset.x,
+      y: (mediaObj.y + height / 2) * currentScale + currentOffset.y
+    }, mediaObj.rotation ?? 0);
+    drawMediaNode(
+      ctx,
+      mediaObj,
+      mediaObj.x * currentScale + currentOffset.x,
+      mediaObj.y * currentScale + currentOffset.y,
+      width * currentScale,
+      height * currentScale,
+      colors[theme].a4Guide,
+      true
+    );
+    ctx.restore();
+  });
 
   canvasObjects.filter(obj => obj.type === 'text').forEach(obj => {
     const textObj = obj as TextObject;
     const screenX = textObj.x * currentScale + currentOffset.x;
     const screenY = textObj.y * currentScale + currentOffset.y;
 
+    if (textObj.visible === false) return;
+    const lines = getTextLayout(textObj, measureText).lines;
+    const center = getFrameCenter(getObjectFrame(textObj, measureText)!);
+
     const fontSize = textObj.fontSize * currentScale;
     ctx.font = `400 ${fontSize}px "JetBrains Mono", monospace`;
-    ctx.fillStyle = textObj.color || colors[theme].text;
-    
-    // Handle multi-line text
-    const lines = textObj.content.split('\n');
-    const lineHeight = fontSize * 1.6;
-    
-    lines.forEach((line, index) => {
-      ctx.fillText(line, screenX, screenY + (index * lineHeight));
-    });
+    ctx.save();
+    rotateContextAround(ctx, {
+      x: center.x * currentScale + currentOffset.x,
+      y: center.y * currentScale + currentOffset.y
+    }, textObj.rotation ?? 0);
+
+    if (hasTextStyling(textObj)) {
+      drawStyledText(ctx, textObj, lines, screenX, screenY, fontSize, currentScale, colors[theme].text, true);
+    } else {
+      ctx.fillStyle = textObj.color || colors[theme].text;
+      const lineHeight = fontSize * 1.6;
+      lines.forEach((line, index) => {
+        ctx.fillText(line, screenX, screenY + (index * lineHeight));
+      });
+    }
+    ctx.restore();
   });
 
   if (currentTypingText.trim()) {
@@ -119,7 +159,7 @@ export const createExportData = (
   };
 };
 
-export const downloadFile = (content: string, filename: string, type: string) => {
+export const downloadFile = (content: BlobPart, filename: string, type: string) => {
   const blob = new Blob([content], { type });
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
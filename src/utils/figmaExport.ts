@@ -0,0 +1,791 @@
+/**
+ * Figma export / import
+ * Converts canvas nodes to a FigmaExportDocument (consumed by a Figma plugin)
+ * and converts such a document back into canvas nodes for round-trips.
+ */
+
+import {
+  CanvasNode,
+  TextNode,
+  ImageNode,
+  VideoNode,
+  GuideNode,
+  LinkNode,
+  LinkRouting,
+  LinkAnchor,
+  LinkMarker,
+  LinkEndpoint,
+  Paint,
+  Effect,
+  FontWeight,
+  LineHeight,
+  LetterSpacing,
+  FigmaExportDocument,
+  FigmaNode,
+  FigmaTextNode,
+  FigmaRectangleNode,
+  FigmaConnectorNode,
+  FigmaConnectorMagnet,
+  FigmaConnectorStrokeCap,
+  FigmaPaint,
+  FigmaEffect,
+  generateNodeId,
+  TYPE_SYSTEM_VERSION
+} from '../types';
+import { parseCSSColor, rgbToHex } from './colorUtils';
+import { getMediaNodeSize, getVideoPosterSrc } from './mediaUtils';
+import { calculateLinkEndpoints, getLinkAnchors, getLinkMarkers, isLinkableObject } from './linkUtils';
+import { ObjectFrame, getFrameCorners, getTextAutoResize, getTextLayout, rotatePoint } from './transformUtils';
+
+export const FIGMA_EXPORT_VERSION = '1.0.0';
+
+type Matrix2x3 = [[number, number, number], [number, number, number]];
+
+// 캔버스 기본 행간 (fontSize * 1.6)
+const DEFAULT_LINE_HEIGHT_PERCENT = 160;
+const DEFAULT_GUIDE_DASH = [10, 5];
+const DEFAULT_LINK_DASH = [5, 5];
+
+// ============================================================
+// Paint / effect conversion
+// ============================================================
+
+const invertMatrix = (m: Matrix2x3): Matrix2x3 => {
+  const [[a, c, e], [b, d, f]] = m;
+  const det = a * d - b * c || 1;
+  return [
+    [d / det, -c / det, (c * f - d * e) / det],
+    [-b / det, a / det, (b * e - a * f) / det]
+  ];
+};
+
+const applyMatrix = (m: Matrix2x3, x: number, y: number) => ({
+  x: m[0][0] * x + m[0][1] * y + m[0][2],
+  y: m[1][0] * x + m[1][1] * y + m[1][2]
+});
+
+/**
+ * Figma's gradientTransform maps node space (0-1 box) to gradient space,
+ * where a linear gradient runs from (0, 0.5) to (1, 0.5) and a radial one
+ * is centered at (0.5, 0.5) with radius 0.5. We build the inverse mapping
+ * from our start/end (or center/radius) and invert it.
+ */
+const linearGradientTransform = (start: { x: number; y: number }, end: { x: number; y: number }): Matrix2x3 => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  // gradient space → node space
+  const toNode: Matrix2x3 = [
+    [dx, -dy, start.x + dy / 2],
+    [dy, dx, start.y - dx / 2]
+  ];
+  return invertMatrix(toNode);
+};
+
+const radialGradientTransform = (center: { x: number; y: number }, radius: number): Matrix2x3 => {
+  const diameter = radius * 2;
+  const toNode: Matrix2x3 = [
+    [diameter, 0, center.x - radius],
+    [0, diameter, center.y - radius]
+  ];
+  return invertMatrix(toNode);
+};
+
+export const paintToFigma = (paint: Paint): FigmaPaint => {
+  switch (paint.type) {
+    case 'SOLID':
+      return { type: 'SOLID', color: paint.color, opacity: paint.opacity, visible: paint.visible };
+    case 'GRADIENT_LINEAR':
+      return {
+        type: 'GRADIENT_LINEAR',
+        gradientTransform: linearGradientTransform(
+          paint.gradientStart ?? { x: 0, y: 0.5 },
+          paint.gradientEnd ?? { x: 1, y: 0.5 }
+        ),
+        gradientStops: paint.gradientStops,
+        opacity: paint.opacity,
+        visible: paint.visible
+      };
+    case 'GRADIENT_RADIAL':
+      return {
+        type: 'GRADIENT_RADIAL',
+        gradientTransform: radialGradientTransform(paint.center ?? { x: 0.5, y: 0.5 }, paint.radius ?? 0.5),
+        gradientStops: paint.gradientStops,
+        opacity: paint.opacity,
+        visible: paint.visible
+      };
+    case 'IMAGE':
+      // imageHash 자리에 원본 소스를 넣음 → Figma 플러그인이 업로드 후 교체
+      return { type: 'IMAGE', imageHash: paint.imageRef, scaleMode: paint.scaleMode, opacity: paint.opacity, visible: paint.visible };
+  }
+};
+
+export const paintFromFigma = (paint: FigmaPaint): Paint | null => {
+  switch (paint.type) {
+    case 'SOLID':
+      return { type: 'SOLID', color: paint.color, opacity: paint.opacity, visible: paint.visible };
+    case 'GRADIENT_LINEAR': {
+      const toNode = invertMatrix(paint.gradientTransform);
+      return {
+        type: 'GRADIENT_LINEAR',
+        gradientStops: paint.gradientStops,
+        gradientStart: applyMatrix(toNode, 0, 0.5),
+        gradientEnd: applyMatrix(toNode, 1, 0.5),
+        opacity: paint.opacity,
+        visible: paint.visible
+      };
+    }
+    case 'GRADIENT_RADIAL': {
+      const toNode = invertMatrix(paint.gradientTransform);
+      const center = applyMatrix(toNode, 0.5, 0.5);
+      const edge = applyMatrix(toNode, 1, 0.5);
+      return {
+        type: 'GRADIENT_RADIAL',
+        gradientStops: paint.gradientStops,
+        center,
+        radius: Math.hypot(edge.x - center.x, edge.y - center.y),
+        opacity: paint.opacity,
+        visible: paint.visible
+      };
+    }
+    case 'IMAGE':
+      return { type: 'IMAGE', imageRef: paint.imageHash, scaleMode: paint.scaleMode, opacity: paint.opacity, visible: paint.visible };
+    default:
+      // 각도/다이아몬드 그라디언트는 지원하지 않음
+      return null;
+  }
+};
+
+export const effectToFigma = (effect: Effect): FigmaEffect => {
+  switch (effect.type) {
+    case 'DROP_SHADOW':
+    case 'INNER_SHADOW':
+      return {
+        type: effect.type,
+        color: effect.color,
+        offset: effect.offset,
+        radius: effect.radius,
+        spread: effect.spread,
+        visible: effect.visible ?? true,
+        blendMode: effect.blendMode ?? 'NORMAL'
+      };
+    case 'LAYER_BLUR':
+    case 'BACKGROUND_BLUR':
+      return { type: effect.type, radius: effect.radius, visible: effect.visible ?? true };
+  }
+};
+
+export const effectFromFigma = (effect: FigmaEffect): Effect => {
+  if (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW') {
+    const blendModes = ['NORMAL', 'MULTIPLY', 'SCREEN', 'OVERLAY', 'DARKEN', 'LIGHTEN'] as const;
+    const blendMode = blendModes.find(mode => mode === effect.blendMode) ?? 'NORMAL';
+    return {
+      type: effect.type,
+      color: effect.color,
+      offset: effect.offset,
+      radius: effect.radius,
+      spread: effect.spread,
+      visible: effect.visible,
+      blendMode
+    };
+  }
+  return { type: effect.type, radius: effect.radius, visible: effect.visible };
+};
+
+const solidFromCSS = (css: string): FigmaPaint[] => {
+  const color = parseCSSColor(css);
+  if (!color) return [];
+  return [{ type: 'SOLID', color: { r: color.r, g: color.g, b: color.b }, opacity: color.a }];
+};
+
+// ============================================================
+// Font helpers
+// ============================================================
+
+const FONT_WEIGHT_STYLES: Record<FontWeight, string> = {
+  100: 'Thin',
+  200: 'ExtraLight',
+  300: 'Light',
+  400: 'Regular',
+  500: 'Medium',
+  600: 'SemiBold',
+  700: 'Bold',
+  800: 'ExtraBold',
+  900: 'Black'
+};
+
+const toFontStyle = (weight: FontWeight = 400, fontStyle: 'normal' | 'italic' = 'normal') => {
+  const base = FONT_WEIGHT_STYLES[weight] ?? 'Regular';
+  if (fontStyle !== 'italic') return base;
+  return base === 'Regular' ? 'Italic' : `${base} Italic`;
+};
+
+const fromFontStyle = (style: string): { fontWeight: FontWeight; fontStyle: 'normal' | 'italic' } => {
+  const isItalic = /italic/i.test(style);
+  const weightName = style.replace(/\s*italic\s*/i, '').replace(/\s+/g, '') || 'Regular';
+  const entry = Object.entries(FONT_WEIGHT_STYLES).find(([, name]) => name.toLowerCase() === weightName.toLowerCase());
+  return {
+    fontWeight: (entry ? Number(entry[0]) : 400) as FontWeight,
+    fontStyle: isItalic ? 'italic' : 'normal'
+  };
+};
+
+const lineHeightToFigma = (lineHeight?: LineHeight) => {
+  if (!lineHeight) return { value: DEFAULT_LINE_HEIGHT_PERCENT, unit: 'PERCENT' };
+  if (lineHeight.unit === 'AUTO') return { value: 0, unit: 'AUTO' };
+  return { value: lineHeight.value, unit: lineHeight.unit };
+};
+
+const lineHeightFromFigma = (lineHeight?: { value: number; unit: string }): LineHeight | undefined => {
+  if (!lineHeight) return undefined;
+  if (lineHeight.unit === 'AUTO') return { unit: 'AUTO' };
+  if (lineHeight.unit === 'PERCENT') {
+    // 기본 행간은 저장하지 않음 (캔버스 기본값과 동일)
+    return lineHeight.value === DEFAULT_LINE_HEIGHT_PERCENT ? undefined : { unit: 'PERCENT', value: lineHeight.value };
+  }
+  return { unit: 'PIXELS', value: lineHeight.value };
+};
+
+const letterSpacingFromFigma = (letterSpacing?: { value: number; unit: string }): LetterSpacing | undefined => {
+  if (!letterSpacing) return undefined;
+  return letterSpacing.unit === 'PERCENT'
+    ? { unit: 'PERCENT', value: letterSpacing.value }
+    : { unit: 'PIXELS', value: letterSpacing.value };
+};
+
+// ============================================================
+// Export: CanvasNode → Figma
+// ============================================================
+
+interface FigmaExportContext {
+  origin: { x: number; y: number };
+  measureText: (text: string, fontSize: number) => number;
+  textColor: string;
+  guideColor: string;
+}
+
+const getTextSize = (node: TextNode, measureText: (text: string, fontSize: number) => number) => {
+  const layout = getTextLayout(node, measureText);
+  return { width: layout.width * node.scale, height: layout.height * node.scale, fontSize: node.fontSize * node.scale };
+};
+
+/**
+ * Figma rotates counter-clockwise about the node's top-left corner, and x/y
+ * are where that corner ends up; canvas nodes rotate clockwise about their
+ * center from an unrotated x/y.
+ */
+const frameToFigma = (frame: ObjectFrame) => {
+  if (!frame.rotation) return { x: frame.x, y: frame.y, rotation: undefined };
+  const [topLeft] = getFrameCorners(frame);
+  return { x: topLeft.x, y: topLeft.y, rotation: -frame.rotation };
+};
+
+const frameFromFigma = (node: FigmaNode, origin: { x: number; y: number }) => {
+  const x = node.x + origin.x;
+  const y = node.y + origin.y;
+  if (!node.rotation) return { x, y, rotation: undefined };
+  const rotation = -node.rotation;
+  const center = rotatePoint({ x: x + node.width / 2, y: y + node.height / 2 }, { x, y }, rotation);
+  return { x: center.x - node.width / 2, y: center.y - node.height / 2, rotation };
+};
+
+const textToFigma = (node: TextNode, ctx: FigmaExportContext): FigmaTextNode => {
+  const { width, height, fontSize } = getTextSize(node, ctx.measureText);
+  // y는 베이스라인 → Figma는 좌상단 기준
+  const position = frameToFigma({ x: node.x, y: node.y - fontSize, width, height, rotation: node.rotation ?? 0 });
+  const pluginData: Record<string, string> = { scale: String(node.scale) };
+  if (node.isAIResponse) pluginData.isAIResponse = 'true';
+  if (node._metadata?.channelIds?.length) pluginData.channelIds = JSON.stringify(node._metadata.channelIds);
+
+  return {
+    figmaType: 'TEXT',
+    sourceId: String(node.id),
+    sourceType: 'text',
+    name: node.name || node.content.split('\n')[0].slice(0, 40) || 'Text',
+    x: position.x - ctx.origin.x,
+    y: position.y - ctx.origin.y,
+    width,
+    height,
+    rotation: position.rotation,
+    opacity: node.opacity,
+    visible: node.visible,
+    locked: node.locked,
+    characters: node.content,
+    fontSize,
+    fontName: { family: node.fontFamily ?? 'JetBrains Mono', style: toFontStyle(node.fontWeight, node.fontStyle) },
+    textAlignHorizontal: node.textAlignHorizontal ?? 'LEFT',
+    textAlignVertical: node.textAlignVertical ?? 'TOP',
+    textAutoResize: getTextAutoResize(node),
+    lineHeight: lineHeightToFigma(node.lineHeight),
+    letterSpacing: node.letterSpacing ? { value: node.letterSpacing.value, unit: node.letterSpacing.unit } : undefined,
+    textDecoration: node.textDecoration,
+    fills: node.fills?.length ? node.fills.map(paintToFigma) : solidFromCSS(node.color || ctx.textColor),
+    effects: node.effects?.map(effectToFigma),
+    pluginData
+  };
+};
+
+const guideToFigma = (node: GuideNode, ctx: FigmaExportContext): FigmaRectangleNode => ({
+  figmaType: 'RECTANGLE',
+  sourceId: String(node.id),
+  sourceType: 'guide',
+  name: node.name || node.label || (node.guideType ?? 'a4').toUpperCase(),
+  x: node.x - ctx.origin.x,
+  y: node.y - ctx.origin.y,
+  width: node.width,
+  height: node.height,
+  rotation: node.rotation,
+  opacity: node.opacity,
+  visible: node.visible,
+  locked: node.locked,
+  fills: node.fills?.map(paintToFigma) ?? [],
+  strokes: node.strokes?.length ? node.strokes.map(paintToFigma) : solidFromCSS(ctx.guideColor),
+  strokeWeight: node.strokeWeight ?? 2,
+  strokeAlign: 'CENTER',
+  dashPattern: node.strokeDashPattern ?? DEFAULT_GUIDE_DASH,
+  effects: node.effects?.map(effectToFigma),
+  pluginData: {
+    guideType: node.guideType ?? 'a4',
+    ...(node.label ? { label: node.label } : {})
+  }
+});
+
+const imageToFigma = (node: ImageNode, ctx: FigmaExportContext): FigmaRectangleNode => {
+  const { width, height } = getMediaNodeSize(node);
+  const position = frameToFigma({ x: node.x, y: node.y, width, height, rotation: node.rotation ?? 0 });
+  const scaleMode = node.scaleMode ?? 'FILL';
+  return {
+    figmaType: 'RECTANGLE',
+    sourceId: String(node.id),
+    sourceType: 'image',
+    name: node.name || node.alt || 'Image',
+    x: position.x - ctx.origin.x,
+    y: position.y - ctx.origin.y,
+    width,
+    height,
+    rotation: position.rotation,
+    opacity: node.opacity,
+    visible: node.visible,
+    locked: node.locked,
+    cornerRadius: node.cornerRadius,
+    // 이미지 fill이 맨 위에 오도록 기존 fills 뒤에 추가
+    fills: [
+      ...(node.fills ?? []).filter(paint => paint.type !== 'IMAGE').map(paintToFigma),
+      { type: 'IMAGE', imageHash: node.src, scaleMode }
+    ],
+    strokes: node.strokes?.map(paintToFigma),
+    strokeWeight: node.strokeWeight,
+    strokeAlign: node.strokeAlign,
+    effects: node.effects?.map(effectToFigma),
+    pluginData: {
+      src: node.src,
+      scaleMode,
+      ...(node.alt ? { alt: node.alt } : {}),
+      ...(node.naturalWidth ? { naturalWidth: String(node.naturalWidth) } : {}),
+      ...(node.naturalHeight ? { naturalHeight: String(node.naturalHeight) } : {})
+    }
+  };
+};
+
+const videoToFigma = (node: VideoNode, ctx: FigmaExportContext): FigmaRectangleNode => {
+  const { width, height } = getMediaNodeSize(node);
+  const position = frameToFigma({ x: node.x, y: node.y, width, height, rotation: node.rotation ?? 0 });
+  const poster = getVideoPosterSrc(node);
+  const pluginData: Record<string, string> = {
+    src: node.src,
+    sourceType: node.sourceType ?? 'url'
+  };
+  if (node.poster) pluginData.poster = node.poster;
+  if (node.autoplay !== undefined) pluginData.autoplay = String(node.autoplay);
+  if (node.loop !== undefined) pluginData.loop = String(node.loop);
+  if (node.muted !== undefined) pluginData.muted = String(node.muted);
+  if (node.controls !== undefined) pluginData.controls = String(node.controls);
+  if (node.aspectRatio) pluginData.aspectRatio = String(node.aspectRatio);
+
+  return {
+    figmaType: 'RECTANGLE',
+    sourceId: String(node.id),
+    sourceType: 'video',
+    name: node.name || 'Video',
+    x: position.x - ctx.origin.x,
+    y: position.y - ctx.origin.y,
+    width,
+    height,
+    rotation: position.rotation,
+    opacity: node.opacity,
+    visible: node.visible,
+    locked: node.locked,
+    cornerRadius: node.cornerRadius,
+    fills: poster
+      ? [...(node.fills ?? []).map(paintToFigma), { type: 'IMAGE', imageHash: poster, scaleMode: 'FILL' }]
+      : node.fills?.length ? node.fills.map(paintToFigma) : solidFromCSS('#111827'),
+    effects: node.effects?.map(effectToFigma),
+    pluginData
+  };
+};
+
+const LINK_LINE_TYPES: Record<LinkRouting, FigmaConnectorNode['connectorLineType']> = {
+  straight: 'STRAIGHT',
+  curved: 'CURVED',
+  orthogonal: 'ELBOWED'
+};
+
+const LINK_MARKER_CAPS: Record<LinkMarker, FigmaConnectorStrokeCap> = {
+  none: 'NONE',
+  arrow: 'ARROW_EQUILATERAL',
+  dot: 'CIRCLE_FILLED',
+  diamond: 'DIAMOND_FILLED'
+};
+
+const markerFromCap = (cap: FigmaConnectorStrokeCap | undefined): LinkMarker => {
+  if (!cap || cap === 'NONE') return 'none';
+  if (cap === 'ARROW_LINES') return 'arrow';
+  return (Object.keys(LINK_MARKER_CAPS) as LinkMarker[]).find(key => LINK_MARKER_CAPS[key] === cap) ?? 'none';
+};
+
+const linkToFigma = (
+  link: LinkNode,
+  fromNode: CanvasNode,
+  toNode: CanvasNode,
+  ctx: FigmaExportContext
+): FigmaConnectorNode => {
+  const anchors = getLinkAnchors(link);
+  const markers = getLinkMarkers(link);
+  const endpoints = calculateLinkEndpoints(fromNode, toNode, ctx.measureText, anchors);
+  const start = { x: endpoints.startX - ctx.origin.x, y: endpoints.startY - ctx.origin.y };
+  const end = { x: endpoints.endX - ctx.origin.x, y: endpoints.endY - ctx.origin.y };
+  const pluginData: Record<string, string> = { style: link.style };
+  if (link.routing) pluginData.routing = link.routing;
+
+  return {
+    figmaType: 'CONNECTOR',
+    sourceId: String(link.id),
+    sourceType: 'link',
+    name: link.name || 'Link',
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+    opacity: link.opacity,
+    visible: link.visible,
+    connectorStart: { endpointNodeId: String(link.from), position: start, magnet: anchors.start.toUpperCase() as FigmaConnectorMagnet },
+    connectorEnd: { endpointNodeId: String(link.to), position: end, magnet: anchors.end.toUpperCase() as FigmaConnectorMagnet },
+    text: link.label ? { characters: link.label } : undefined,
+    strokes: link.strokes?.length ? link.strokes.map(paintToFigma) : solidFromCSS(link.color),
+    strokeWeight: link.strokeWeight ?? 2,
+    dashPattern: link.style === 'dashed' ? DEFAULT_LINK_DASH : undefined,
+    connectorLineType: LINK_LINE_TYPES[link.routing ?? 'straight'],
+    connectorStartStrokeCap: LINK_MARKER_CAPS[markers.start],
+    connectorEndStrokeCap: LINK_MARKER_CAPS[markers.end],
+    pluginData
+  };
+};
+
+/**
+ * Build a FigmaExportDocument from canvas nodes and links.
+ * Coordinates are translated so the content bounding box starts at (0, 0);
+ * the original offset is kept in source.boundingBox for round-trips.
+ */
+export const createFigmaExportDocument = (
+  canvasObjects: CanvasNode[],
+  links: LinkNode[],
+  measureText: (text: string, fontSize: number) => number,
+  colors: { text: string; a4Guide: string }
+): FigmaExportDocument => {
+  const nodeById = new Map(canvasObjects.map(obj => [String(obj.id), obj]));
+  const exportableLinks = [
+    ...canvasObjects.filter((obj): obj is LinkNode => obj.type === 'link'),
+    ...links
+  ].filter(link => {
+    // Figma 커넥터는 다른 커넥터에 붙을 수 없어 링크에 붙은 링크는 제외
+    const fromNode = nodeById.get(String(link.from));
+    const toNode = nodeById.get(String(link.to));
+    return fromNode && toNode && isLinkableObject(fromNode) && isLinkableObject(toNode);
+  });
+
+  // 1차: 원점 계산용 바운딩박스 (원점 (0,0) 기준으로 변환 후 측정)
+  const zeroContext: FigmaExportContext = {
+    origin: { x: 0, y: 0 },
+    measureText,
+    textColor: colors.text,
+    guideColor: colors.a4Guide
+  };
+  const convert = (ctx: FigmaExportContext): FigmaNode[] => [
+    ...canvasObjects.flatMap((obj): FigmaNode[] => {
+      switch (obj.type) {
+        case 'guide': return [guideToFigma(obj, ctx)];
+        case 'image': return [imageToFigma(obj, ctx)];
+        case 'video': return [videoToFigma(obj, ctx)];
+        case 'text': return [textToFigma(obj, ctx)];
+        default: return [];
+      }
+    }),
+    ...exportableLinks.map(link =>
+      linkToFigma(link, nodeById.get(String(link.from))!, nodeById.get(String(link.to))!, ctx)
+    )
+  ];
+
+  const worldNodes = convert(zeroContext);
+  const minX = worldNodes.length ? Math.min(...worldNodes.map(node => node.x)) : 0;
+  const minY = worldNodes.length ? Math.min(...worldNodes.map(node => node.y)) : 0;
+  const maxX = worldNodes.length ? Math.max(...worldNodes.map(node => node.x + node.width)) : 0;
+  const maxY = worldNodes.length ? Math.max(...worldNodes.map(node => node.y + node.height)) : 0;
+
+  const nodes = convert({ ...zeroContext, origin: { x: minX, y: minY } });
+
+  // 이미지 참조 수집 (같은 소스는 한 번만 업로드)
+  const imageReferences = new Map<string, string[]>();
+  nodes.forEach(node => {
+    if (node.figmaType !== 'RECTANGLE') return;
+    node.fills.forEach(paint => {
+      if (paint.type !== 'IMAGE') return;
+      const nodeIds = imageReferences.get(paint.imageHash) ?? [];
+      nodeIds.push(node.sourceId);
+      imageReferences.set(paint.imageHash, nodeIds);
+    });
+  });
+
+  return {
+    version: FIGMA_EXPORT_VERSION,
+    generator: 'nntype',
+    exportedAt: new Date().toISOString(),
+    source: {
+      boundingBox: { x: minX, y: minY, width: maxX - minX, height: maxY - minY },
+      nodeCount: canvasObjects.length + links.length,
+      appVersion: TYPE_SYSTEM_VERSION
+    },
+    nodes,
+    imageReferences: Array.from(imageReferences, ([src, nodeIds]) => ({ src, nodeIds }))
+  };
+};
+
+// ============================================================
+// Import: Figma → CanvasNode
+// ============================================================
+
+export const isFigmaExportDocument = (data: unknown): data is FigmaExportDocument => {
+  if (!data || typeof data !== 'object') return false;
+  const doc = data as Partial<FigmaExportDocument>;
+  return doc.generator === 'nntype' && Array.isArray(doc.nodes) && !!doc.source;
+};
+
+const firstSolidHex = (fills: FigmaPaint[] = []): string | undefined => {
+  const solid = fills.find(paint => paint.type === 'SOLID');
+  return solid && solid.type === 'SOLID' ? rgbToHex(solid.color) : undefined;
+};
+
+const paintsFromFigma = (paints: FigmaPaint[] = []): Paint[] => {
+  return paints.map(paintFromFigma).filter((paint): paint is Paint => paint !== null);
+};
+
+const isDefaultSolid = (paints: FigmaPaint[] | undefined, css: string) => {
+  if (!paints || paints.length !== 1 || paints[0].type !== 'SOLID') return false;
+  const expected = parseCSSColor(css);
+  const { color, opacity } = paints[0];
+  return !!expected &&
+    rgbToHex(color) === rgbToHex(expected) &&
+    Math.abs((opacity ?? 1) - expected.a) < 0.01;
+};
+
+// pluginData는 Figma에서 수정될 수 있으므로 깨진 JSON이면 채널 없이 가져옴
+const channelIdsFromPluginData = (raw: string): string[] => {
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const textFromFigma = (node: FigmaTextNode, origin: { x: number; y: number }, textColor: string): TextNode => {
+  const data = node.pluginData ?? {};
+  const nodeScale = Number(data.scale) || 1;
+  const { fontWeight, fontStyle } = fromFontStyle(node.fontName?.style ?? 'Regular');
+  const now = new Date().toISOString();
+  // 단색 fill 하나면 color로 되돌리고, 그 외(그라디언트 등)는 fills 유지
+  const hasPlainFill = !node.fills?.length || (node.fills.length === 1 && node.fills[0].type === 'SOLID');
+  const frame = frameFromFigma(node, origin);
+  const textAutoResize = node.textAutoResize as TextNode['textAutoResize'];
+  // 고정 폭/높이 텍스트만 상자 크기를 되살림
+  const keepsWidth = !!textAutoResize && textAutoResize !== 'WIDTH_AND_HEIGHT';
+  const keepsHeight = textAutoResize === 'NONE' || textAutoResize === 'TRUNCATE';
+
+  const textNode: TextNode = {
+    id: node.sourceId || generateNodeId(),
+    type: 'text',
+    content: node.characters ?? '',
+    x: frame.x,
+    y: frame.y + node.fontSize,
+    fontSize: node.fontSize / nodeScale,
+    scale: nodeScale,
+    width: keepsWidth ? node.width / nodeScale : undefined,
+    height: keepsHeight ? node.height / nodeScale : undefined,
+    rotation: frame.rotation,
+    opacity: node.opacity,
+    visible: node.visible,
+    locked: node.locked,
+    color: hasPlainFill && !isDefaultSolid(node.fills, textColor) ? firstSolidHex(node.fills) : undefined,
+    fills: hasPlainFill ? undefined : paintsFromFigma(node.fills),
+    fontFamily: node.fontName?.family && node.fontName.family !== 'JetBrains Mono' ? node.fontName.family : undefined,
+    fontWeight: fontWeight !== 400 ? fontWeight : undefined,
+    fontStyle: fontStyle !== 'normal' ? fontStyle : undefined,
+    textAlignHorizontal: node.textAlignHorizontal !== 'LEFT' ? node.textAlignHorizontal as TextNode['textAlignHorizontal'] : undefined,
+    textAlignVertical: node.textAlignVertical !== 'TOP' ? node.textAlignVertical as TextNode['textAlignVertical'] : undefined,
+    textAutoResize: keepsWidth ? textAutoResize : undefined,
+    lineHeight: lineHeightFromFigma(node.lineHeight),
+    letterSpacing: letterSpacingFromFigma(node.letterSpacing),
+    textDecoration: node.textDecoration as TextNode['textDecoration'],
+    effects: node.effects?.map(effectFromFigma),
+    isAIResponse: data.isAIResponse === 'true' || undefined
+  };
+
+  const channelIds = data.channelIds ? channelIdsFromPluginData(data.channelIds) : [];
+  if (channelIds.length > 0) {
+    textNode._metadata = { createdAt: now, updatedAt: now, channelIds };
+  }
+
+  return textNode;
+};
+
+const rectangleFromFigma = (
+  node: FigmaRectangleNode,
+  origin: { x: number; y: number },
+  guideColor: string
+): CanvasNode | null => {
+  const data = node.pluginData ?? {};
+  const frame = frameFromFigma(node, origin);
+  const common = {
+    id: node.sourceId || generateNodeId(),
+    name: node.name,
+    x: frame.x,
+    y: frame.y,
+    width: node.width,
+    height: node.height,
+    rotation: frame.rotation,
+    opacity: node.opacity,
+    visible: node.visible,
+    locked: node.locked
+  };
+  const imagePaint = node.fills?.find(paint => paint.type === 'IMAGE');
+  const otherFills = paintsFromFigma(node.fills?.filter(paint => paint.type !== 'IMAGE'));
+
+  if (node.sourceType === 'video') {
+    return {
+      ...common,
+      type: 'video',
+      src: data.src ?? '',
+      sourceType: (data.sourceType as VideoNode['sourceType']) ?? 'url',
+      poster: data.poster,
+      autoplay: data.autoplay !== undefined ? data.autoplay === 'true' : undefined,
+      loop: data.loop !== undefined ? data.loop === 'true' : undefined,
+      muted: data.muted !== undefined ? data.muted === 'true' : undefined,
+      controls: data.controls !== undefined ? data.controls === 'true' : undefined,
+      aspectRatio: data.aspectRatio ? Number(data.aspectRatio) : undefined,
+      cornerRadius: node.cornerRadius,
+      effects: node.effects?.map(effectFromFigma)
+    };
+  }
+
+  if (node.sourceType === 'image' || (node.sourceType !== 'guide' && imagePaint)) {
+    const src = data.src ?? (imagePaint && imagePaint.type === 'IMAGE' ? imagePaint.imageHash : '');
+    if (!src) return null;
+    return {
+      ...common,
+      type: 'image',
+      src,
+      alt: data.alt,
+      scaleMode: (data.scaleMode as ImageNode['scaleMode']) ?? (imagePaint && imagePaint.type === 'IMAGE' ? imagePaint.scaleMode : 'FILL'),
+      naturalWidth: data.naturalWidth ? Number(data.naturalWidth) : undefined,
+      naturalHeight: data.naturalHeight ? Number(data.naturalHeight) : undefined,
+      cornerRadius: node.cornerRadius,
+      fills: otherFills.length ? otherFills : undefined,
+      strokes: node.strokes?.length ? paintsFromFigma(node.strokes) : undefined,
+      strokeWeight: node.strokeWeight,
+      effects: node.effects?.map(effectFromFigma)
+    };
+  }
+
+  // 그 외 사각형은 가이드로 복원
+  const dashPattern = node.dashPattern ?? DEFAULT_GUIDE_DASH;
+  return {
+    ...common,
+    type: 'guide',
+    width: node.width,
+    height: node.height,
+    guideType: (data.guideType as GuideNode['guideType']) ?? 'custom',
+    label: data.label,
+    fills: otherFills.length ? otherFills : undefined,
+    strokes: node.strokes?.length && !isDefaultSolid(node.strokes, guideColor) ? paintsFromFigma(node.strokes) : undefined,
+    strokeWeight: node.strokeWeight !== 2 ? node.strokeWeight : undefined,
+    strokeDashPattern: dashPattern.join(',') !== DEFAULT_GUIDE_DASH.join(',') ? dashPattern : undefined,
+    effects: node.effects?.map(effectFromFigma)
+  };
+};
+
+const connectorFromFigma = (node: FigmaConnectorNode): LinkNode => {
+  const style = node.pluginData?.style as LinkNode['style'] | undefined;
+  const inferredStyle: LinkNode['style'] = node.dashPattern?.length
+    ? 'dashed'
+    : node.connectorEndStrokeCap && node.connectorEndStrokeCap !== 'NONE' ? 'arrow' : 'line';
+  const routing = (node.pluginData?.routing as LinkRouting | undefined)
+    ?? (Object.keys(LINK_LINE_TYPES) as LinkRouting[]).find(key => LINK_LINE_TYPES[key] === node.connectorLineType);
+  const resolvedStyle = style ?? inferredStyle;
+
+  // 스타일 기본값과 같은 끝 모양, 'AUTO' 위치는 저장하지 않음
+  const endpointFromFigma = (
+    endpoint: FigmaConnectorNode['connectorStart'],
+    cap: FigmaConnectorStrokeCap | undefined,
+    defaultMarker: LinkMarker
+  ): LinkEndpoint | undefined => {
+    const position = endpoint.magnet && endpoint.magnet !== 'AUTO' ? endpoint.magnet.toLowerCase() as LinkAnchor : undefined;
+    const marker = markerFromCap(cap);
+    if (!position && marker === defaultMarker) return undefined;
+    return { nodeId: endpoint.endpointNodeId, position, marker: marker !== defaultMarker ? marker : undefined };
+  };
+
+  return {
+    id: node.sourceId || generateNodeId(),
+    type: 'link',
+    name: node.name !== 'Link' ? node.name : undefined,
+    from: node.connectorStart.endpointNodeId,
+    to: node.connectorEnd.endpointNodeId,
+    style: resolvedStyle,
+    routing: routing !== 'straight' ? routing : undefined,
+    label: node.text?.characters || undefined,
+    startEndpoint: endpointFromFigma(node.connectorStart, node.connectorStartStrokeCap, 'none'),
+    endEndpoint: endpointFromFigma(node.connectorEnd, node.connectorEndStrokeCap, resolvedStyle === 'arrow' ? 'arrow' : 'none'),
+    color: firstSolidHex(node.strokes) ?? '#666666',
+    strokeWeight: node.strokeWeight !== 2 ? node.strokeWeight : undefined,
+    opacity: node.opacity,
+    visible: node.visible
+  };
+};
+
+/**
+ * Convert a FigmaExportDocument back into canvas nodes and links.
+ * Links whose endpoints are missing from the document are dropped.
+ */
+export const importFigmaExportDocument = (
+  doc: FigmaExportDocument,
+  colors: { text: string; a4Guide: string }
+): { canvasObjects: CanvasNode[]; links: LinkNode[] } => {
+  const origin = { x: doc.source.boundingBox.x, y: doc.source.boundingBox.y };
+  const canvasObjects: CanvasNode[] = [];
+  const links: LinkNode[] = [];
+
+  doc.nodes.forEach(node => {
+    if (node.figmaType === 'TEXT') {
+      canvasObjects.push(textFromFigma(node, origin, colors.text));
+    } else if (node.figmaType === 'RECTANGLE') {
+      const converted = rectangleFromFigma(node, origin, colors.a4Guide);
+      if (converted) canvasObjects.push(converted);
+    } else if (node.figmaType === 'CONNECTOR') {
+      links.push(connectorFromFigma(node));
+    }
+  });
+
+  const ids = new Set(canvasObjects.map(obj => String(obj.id)));
+  return {
+    canvasObjects,
+    links: links.filter(link => ids.has(String(link.from)) && ids.has(String(link.to)))
+  };
+};
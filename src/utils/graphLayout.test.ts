@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { Vector2D } from '../types';
+import { LayoutEdge, LayoutNode, avoidObstacles, computeGraphLayout, removeOverlaps } from './graphLayout';
+
+const GAP = 10;
+
+const node = (id: string, x: number, y: number, width = 100, height = 50): LayoutNode => ({ id, x, y, width, height });
+
+const edge = (from: string, to: string): LayoutEdge => ({ from, to });
+
+const centerOf = (positions: Map<string, Vector2D>, item: LayoutNode) => {
+  const position = positions.get(item.id)!;
+  return { x: position.x + item.width / 2, y: position.y + item.height / 2 };
+};
+
+const distance = (a: Vector2D, b: Vector2D) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// 배치 결과끼리 겹치는 쌍이 있는지
+const hasOverlap = (positions: Map<string, Vector2D>, nodes: LayoutNode[]) => nodes.some((a, i) => nodes.slice(i + 1).some(b => {
+  const pa = positions.get(a.id)!;
+  const pb = positions.get(b.id)!;
+  return pa.x < pb.x + b.width && pb.x < pa.x + a.width && pa.y < pb.y + b.height && pb.y < pa.y + a.height;
+}));
+
+describe('computeGraphLayout', () => {
+  it('returns nothing for an empty selection', () => {
+    expect(computeGraphLayout('force', [], [], GAP).size).toBe(0);
+  });
+
+  it('fills a grid in reading order and keeps the top-left of the selection', () => {
+    const nodes = [node('e', 900, 700), node('a', 300, 200), node('c', 700, 210), node('b', 500, 200), node('d', 310, 600)];
+    const positions = computeGraphLayout('grid', nodes, [], GAP);
+
+    // 3열, 칸 크기 = 가장 큰 노드 + 간격
+    expect(Object.fromEntries(positions)).toEqual({
+      a: { x: 300, y: 200 },
+      b: { x: 410, y: 200 },
+      c: { x: 520, y: 200 },
+      d: { x: 300, y: 260 },
+      e: { x: 410, y: 260 }
+    });
+  });
+
+  it('puts sources above their targets in layers, even with a cycle', () => {
+    const nodes = [node('a', 0, 0), node('b', 200, 0), node('c', 400, 0), node('d', 600, 0)];
+    const edges = [edge('a', 'b'), edge('b', 'c'), edge('a', 'c'), edge('c', 'a'), edge('a', 'd')];
+    const positions = computeGraphLayout('layered', nodes, edges, GAP);
+    const y = (id: string) => positions.get(id)!.y;
+
+    expect(y('a')).toBeLessThan(y('b'));
+    expect(y('b')).toBeLessThan(y('c'));
+    expect(y('d')).toBe(y('b'));
+    expect(hasOverlap(positions, nodes)).toBe(false);
+  });
+
+  it('rings the most connected node with its neighbours and puts unreached nodes outside', () => {
+    const hub = node('hub', 0, 0);
+    const spokes = ['n', 'e', 's', 'w'].map((id, index) => node(id, 200 * (index + 1), 0));
+    const lone = node('lone', 1200, 0);
+    const nodes = [...spokes, hub, lone];
+    const positions = computeGraphLayout('radial', nodes, spokes.map(spoke => edge('hub', spoke.id)), GAP);
+
+    const hubCenter = centerOf(positions, hub);
+    const radii = spokes.map(spoke => distance(centerOf(positions, spoke), hubCenter));
+    radii.forEach(radius => expect(radius).toBeCloseTo(radii[0]));
+    expect(distance(centerOf(positions, lone), hubCenter)).toBeGreaterThan(radii[0]);
+    expect(hasOverlap(positions, nodes)).toBe(false);
+  });
+
+  it('keeps crowded rings and deeper subtrees from overlapping', () => {
+    const leaves = Array.from({ length: 12 }, (_, i) => node(`leaf-${i}`, i * 120, 0, 160, 40));
+    const grandchildren = Array.from({ length: 3 }, (_, i) => node(`deep-${i}`, i * 120, 200));
+    const nodes = [node('hub', 0, 400), ...leaves, ...grandchildren];
+    const edges = [...leaves.map(leaf => edge('hub', leaf.id)), ...grandchildren.map(child => edge('leaf-0', child.id))];
+
+    expect(hasOverlap(computeGraphLayout('radial', nodes, edges, GAP), nodes)).toBe(false);
+  });
+
+  it('pulls linked nodes together and leaves no overlaps in a force layout', () => {
+    const nodes = [node('a', 0, 0), node('b', 0, 0), node('c', 400, 400), node('d', 800, 0), node('e', 800, 10)];
+    const edges = [edge('a', 'd'), edge('d', 'e')];
+    const positions = computeGraphLayout('force', nodes, edges, GAP);
+
+    expect(hasOverlap(positions, nodes)).toBe(false);
+    const [a, , c, d] = nodes.map(item => centerOf(positions, item));
+    expect(distance(a, d)).toBeLessThan(distance(c, d));
+    // 같은 입력이면 같은 결과
+    expect(computeGraphLayout('force', nodes, edges, GAP)).toEqual(positions);
+  });
+});
+
+describe('removeOverlaps', () => {
+  it('splits boxes on the same spot along the shorter axis', () => {
+    const [a, b] = removeOverlaps([node('a', 0, 0, 100, 100), node('b', 0, 0, 100, 100)], GAP);
+    expect([a.y, b.y]).toEqual([-55, 55]);
+    expect([a.x, b.x]).toEqual([0, 0]);
+  });
+});
+
+describe('avoidObstacles', () => {
+  const nodes = [node('a', 0, 0, 100, 100)];
+  const positions = new Map([['a', { x: 0, y: 0 }]]);
+
+  it('moves the layout by the smallest step that clears other content, trying below first', () => {
+    const moved = avoidObstacles(positions, nodes, [{ x: 0, y: 0, width: 100, height: 100 }], GAP);
+    // 절반 간격을 두고 비켜야 하므로 11칸 아래
+    expect(moved.get('a')).toEqual({ x: 0, y: 110 });
+  });
+
+  it('returns the layout as is when it is already clear or nothing nearby is', () => {
+    expect(avoidObstacles(positions, nodes, [], GAP)).toBe(positions);
+    expect(avoidObstacles(positions, nodes, [{ x: 500, y: 500, width: 10, height: 10 }], GAP).get('a')).toEqual({ x: 0, y: 0 });
+    expect(avoidObstacles(positions, nodes, [{ x: -5000, y: -5000, width: 10000, height: 10000 }], GAP)).toBe(positions);
+  });
+});
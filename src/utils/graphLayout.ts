@@ -0,0 +1,418 @@
+import { Vector2D } from '../types';
+
+export type GraphLayoutKind = 'force' | 'layered' | 'radial' | 'grid';
+
+export const GRAPH_LAYOUT_KINDS: GraphLayoutKind[] = ['force', 'layered', 'radial', 'grid'];
+
+/** Box of a node to lay out. `x`/`y` are the top-left corner in world units. */
+export interface LayoutNode {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LayoutEdge {
+  from: string;
+  to: string;
+}
+
+export interface LayoutRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 힘 기반 배치 반복 횟수
+const FORCE_ITERATIONS = 300;
+// 겹침 제거 반복 횟수 상한
+const OVERLAP_PASSES = 50;
+// 연결되지 않은 노드끼리 멀어지지 않도록 중심으로 당기는 비율
+const FORCE_GRAVITY = 0.5;
+// 층 배치에서 순서를 다듬는 위/아래 훑기 횟수
+const LAYER_SWEEPS = 4;
+// 다른 내용을 피할 때 옮겨 보는 최대 거리 (간격 배수)
+const AVOID_MAX_STEPS = 60;
+
+const center = (node: LayoutRect): Vector2D => ({ x: node.x + node.width / 2, y: node.y + node.height / 2 });
+
+const rectsOverlap = (a: LayoutRect, b: LayoutRect, gap: number) =>
+  a.x < b.x + b.width + gap && b.x < a.x + a.width + gap &&
+  a.y < b.y + b.height + gap && b.y < a.y + a.height + gap;
+
+const getBoundingRect = (rects: LayoutRect[]): LayoutRect => {
+  const minX = Math.min(...rects.map(rect => rect.x));
+  const minY = Math.min(...rects.map(rect => rect.y));
+  const maxX = Math.max(...rects.map(rect => rect.x + rect.width));
+  const maxY = Math.max(...rects.map(rect => rect.y + rect.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+// 읽는 순서 (위→아래, 왼쪽→오른쪽)
+const byReadingOrder = (a: LayoutNode, b: LayoutNode) => (a.y - b.y) || (a.x - b.x);
+
+const withPosition = (node: LayoutNode, position: Vector2D): LayoutNode => ({ ...node, x: position.x, y: position.y });
+
+// 선택 안의 링크만, 자기 자신으로 가는 링크와 중복은 제외
+const getNeighbors = (nodes: LayoutNode[], edges: LayoutEdge[]) => {
+  const ids = new Set(nodes.map(node => node.id));
+  const outgoing = new Map(nodes.map(node => [node.id, new Set<string>()]));
+  const undirected = new Map(nodes.map(node => [node.id, new Set<string>()]));
+  edges.forEach(({ from, to }) => {
+    if (from === to || !ids.has(from) || !ids.has(to)) return;
+    outgoing.get(from)!.add(to);
+    undirected.get(from)!.add(to);
+    undirected.get(to)!.add(from);
+  });
+  return { outgoing, undirected };
+};
+
+/**
+ * Push overlapping boxes apart along the axis that needs the smaller move.
+ */
+export const removeOverlaps = (nodes: LayoutNode[], gap: number): LayoutNode[] => {
+  const result = nodes.map(node => ({ ...node }));
+  for (let pass = 0; pass < OVERLAP_PASSES; pass++) {
+    let moved = false;
+    for (let i = 0; i < result.length; i++) {
+      for (let j = i + 1; j < result.length; j++) {
+        const a = result[i];
+        const b = result[j];
+        if (!rectsOverlap(a, b, gap)) continue;
+        const ca = center(a);
+        const cb = center(b);
+        const overlapX = (a.width + b.width) / 2 + gap - Math.abs(ca.x - cb.x);
+        const overlapY = (a.height + b.height) / 2 + gap - Math.abs(ca.y - cb.y);
+        // 같은 자리면 인덱스 순서로 방향을 정함
+        if (overlapX < overlapY) {
+          const direction = cb.x > ca.x || (cb.x === ca.x && j > i) ? 1 : -1;
+          a.x -= direction * overlapX / 2;
+          b.x += direction * overlapX / 2;
+        } else {
+          const direction = cb.y > ca.y || (cb.y === ca.y && j > i) ? 1 : -1;
+          a.y -= direction * overlapY / 2;
+          b.y += direction * overlapY / 2;
+        }
+        moved = true;
+      }
+    }
+    if (!moved) break;
+  }
+  return result;
+};
+
+/**
+ * Grid in reading order, with cells sized to the largest node.
+ */
+export const layoutGrid = (nodes: LayoutNode[], gap: number): LayoutNode[] => {
+  const ordered = [...nodes].sort(byReadingOrder);
+  const columns = Math.ceil(Math.sqrt(ordered.length));
+  const cellWidth = Math.max(...ordered.map(node => node.width)) + gap;
+  const cellHeight = Math.max(...ordered.map(node => node.height)) + gap;
+  return ordered.map((node, index) => withPosition(node, {
+    x: (index % columns) * cellWidth,
+    y: Math.floor(index / columns) * cellHeight
+  }));
+};
+
+/**
+ * Top-down layers following link direction (sources on top).
+ * Cycles are broken at the edges a depth-first walk finds pointing back;
+ * nodes within a layer are ordered by the barycenter of their neighbours.
+ */
+export const layoutLayered = (nodes: LayoutNode[], edges: LayoutEdge[], gap: number): LayoutNode[] => {
+  const ordered = [...nodes].sort(byReadingOrder);
+  const { outgoing } = getNeighbors(ordered, edges);
+
+  // 역방향 간선을 뺀 DAG
+  const dag = new Map(ordered.map(node => [node.id, [] as string[]]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    outgoing.get(id)!.forEach(next => {
+      if (state.get(next) === 'visiting') return;
+      dag.get(id)!.push(next);
+      if (!state.has(next)) visit(next);
+    });
+    state.set(id, 'done');
+  };
+  ordered.forEach(node => { if (!state.has(node.id)) visit(node.id); });
+
+  // 가장 긴 경로 기준 층 번호 (위상 순서)
+  const indegree = new Map(ordered.map(node => [node.id, 0]));
+  dag.forEach(targets => targets.forEach(target => indegree.set(target, indegree.get(target)! + 1)));
+  const layerOf = new Map(ordered.map(node => [node.id, 0]));
+  const queue = ordered.filter(node => indegree.get(node.id) === 0).map(node => node.id);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    dag.get(id)!.forEach(target => {
+      layerOf.set(target, Math.max(layerOf.get(target)!, layerOf.get(id)! + 1));
+      indegree.set(target, indegree.get(target)! - 1);
+      if (indegree.get(target) === 0) queue.push(target);
+    });
+  }
+
+  const layerCount = Math.max(...layerOf.values()) + 1;
+  const layers: string[][] = Array.from({ length: layerCount }, () => []);
+  // 처음 순서는 현재 가로 위치
+  [...ordered].sort((a, b) => a.x - b.x).forEach(node => layers[layerOf.get(node.id)!].push(node.id));
+
+  const parents = new Map(ordered.map(node => [node.id, [] as string[]]));
+  dag.forEach((targets, id) => targets.forEach(target => parents.get(target)!.push(id)));
+  const reorder = (layer: string[], neighbors: (id: string) => string[], reference: string[]) => {
+    const positionOf = new Map(reference.map((id, index) => [id, index]));
+    const barycenter = new Map(layer.map((id, index) => {
+      const known = neighbors(id).filter(neighbor => positionOf.has(neighbor));
+      // 이웃이 없으면 현재 자리 유지
+      return [id, known.length > 0 ? known.reduce((sum, neighbor) => sum + positionOf.get(neighbor)!, 0) / known.length : index];
+    }));
+    layer.sort((a, b) => barycenter.get(a)! - barycenter.get(b)!);
+  };
+  for (let sweep = 0; sweep < LAYER_SWEEPS; sweep++) {
+    for (let index = 1; index < layerCount; index++) reorder(layers[index], id => parents.get(id)!, layers[index - 1]);
+    for (let index = layerCount - 2; index >= 0; index--) reorder(layers[index], id => dag.get(id)!, layers[index + 1]);
+  }
+
+  const nodeById = new Map(ordered.map(node => [node.id, node]));
+  const result: LayoutNode[] = [];
+  let y = 0;
+  layers.forEach(layer => {
+    const row = layer.map(id => nodeById.get(id)!);
+    const rowWidth = row.reduce((sum, node) => sum + node.width, 0) + gap * (row.length - 1);
+    const rowHeight = Math.max(...row.map(node => node.height));
+    // 각 층은 가운데 정렬
+    let x = -rowWidth / 2;
+    row.forEach(node => {
+      result.push(withPosition(node, { x, y: y + (rowHeight - node.height) / 2 }));
+      x += node.width + gap;
+    });
+    y += rowHeight + gap * 2;
+  });
+  return result;
+};
+
+/**
+ * Rings around the most connected node. Each subtree gets an angle in
+ * proportion to its leaves; nodes not reachable from the root go on an
+ * outer ring.
+ */
+export const layoutRadial = (nodes: LayoutNode[], edges: LayoutEdge[], gap: number): LayoutNode[] => {
+  const ordered = [...nodes].sort(byReadingOrder);
+  const { undirected } = getNeighbors(ordered, edges);
+  const root = ordered.reduce((best, node) => undirected.get(node.id)!.size > undirected.get(best.id)!.size ? node : best);
+
+  // BFS 트리
+  const children = new Map(ordered.map(node => [node.id, [] as string[]]));
+  const depthOf = new Map([[root.id, 0]]);
+  const queue = [root.id];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    undirected.get(id)!.forEach(next => {
+      if (depthOf.has(next)) return;
+      depthOf.set(next, depthOf.get(id)! + 1);
+      children.get(id)!.push(next);
+      queue.push(next);
+    });
+  }
+  const maxDepth = Math.max(...depthOf.values());
+  const unreached = ordered.filter(node => !depthOf.has(node.id));
+  unreached.forEach(node => {
+    depthOf.set(node.id, maxDepth + 1);
+    children.get(root.id)!.push(node.id);
+  });
+
+  const leaves = new Map<string, number>();
+  const countLeaves = (id: string): number => {
+    const count = children.get(id)!.length === 0 ? 1 : children.get(id)!.reduce((sum, child) => sum + countLeaves(child), 0);
+    leaves.set(id, count);
+    return count;
+  };
+  countLeaves(root.id);
+
+  // 각 노드의 각도 몫: 부모의 몫을 잎 수에 비례해 나눔
+  const spanOf = new Map([[root.id, Math.PI * 2]]);
+  const assignSpans = (id: string) => {
+    children.get(id)!.forEach(child => {
+      spanOf.set(child, spanOf.get(id)! * leaves.get(child)! / leaves.get(id)!);
+      assignSpans(child);
+    });
+  };
+  assignSpans(root.id);
+
+  // 링 반지름: 노드를 감싸는 원끼리 겹치지 않게, 이전 링과 한 노드 크기 이상,
+  // 같은 링에서 가장 좁은 몫을 받은 이웃과도 한 노드 크기 이상 떨어뜨림
+  const nodeById = new Map(ordered.map(node => [node.id, node]));
+  const clearance = Math.max(...ordered.map(node => Math.hypot(node.width, node.height))) + gap;
+  const ringCount = Math.max(...depthOf.values());
+  const radii = [0];
+  for (let depth = 1; depth <= ringCount; depth++) {
+    const spans = ordered.filter(node => depthOf.get(node.id) === depth).map(node => spanOf.get(node.id)!);
+    const narrowest = Math.min(Math.PI, ...spans);
+    radii.push(Math.max(radii[depth - 1] + clearance, clearance / (2 * Math.sin(narrowest / 2))));
+  }
+
+  const centers = new Map<string, Vector2D>([[root.id, { x: 0, y: 0 }]]);
+  const place = (id: string, start: number) => {
+    let angle = start;
+    children.get(id)!.forEach(child => {
+      const span = spanOf.get(child)!;
+      const radius = radii[depthOf.get(child)!];
+      const middle = angle + span / 2;
+      centers.set(child, { x: Math.cos(middle) * radius, y: Math.sin(middle) * radius });
+      place(child, angle);
+      angle += span;
+    });
+  };
+  // 위쪽부터 시계 방향
+  place(root.id, -Math.PI / 2);
+
+  return ordered.map(node => {
+    const position = centers.get(node.id)!;
+    const box = nodeById.get(node.id)!;
+    return withPosition(node, { x: position.x - box.width / 2, y: position.y - box.height / 2 });
+  });
+};
+
+/**
+ * Force-directed (Fruchterman–Reingold) from the current positions:
+ * every pair repels, links pull their ends together, a weak pull towards
+ * the centre keeps unlinked nodes close, and the step size cools down each
+ * iteration. Overlaps left at the end are pushed apart.
+ */
+export const layoutForce = (nodes: LayoutNode[], edges: LayoutEdge[], gap: number): LayoutNode[] => {
+  const ordered = [...nodes].sort(byReadingOrder);
+  const { undirected } = getNeighbors(ordered, edges);
+  const averageSize = ordered.reduce((sum, node) => sum + Math.hypot(node.width, node.height), 0) / ordered.length;
+  const idealLength = averageSize + gap * 2;
+  const radius = (node: LayoutNode) => Math.hypot(node.width, node.height) / 2;
+
+  const positions = ordered.map((node, index) => {
+    const c = center(node);
+    // 같은 자리에 겹친 노드는 조금씩 벌려서 시작 (결정적)
+    return { x: c.x + Math.cos(index) * 0.01, y: c.y + Math.sin(index) * 0.01 };
+  });
+  const indexOf = new Map(ordered.map((node, index) => [node.id, index]));
+  let temperature = idealLength;
+
+  for (let iteration = 0; iteration < FORCE_ITERATIONS; iteration++) {
+    const displacement = positions.map(() => ({ x: 0, y: 0 }));
+    for (let i = 0; i < ordered.length; i++) {
+      for (let j = i + 1; j < ordered.length; j++) {
+        const dx = positions[i].x - positions[j].x;
+        const dy = positions[i].y - positions[j].y;
+        const distance = Math.max(Math.hypot(dx, dy), 0.01);
+        // 노드 크기만큼 가까운 것으로 봐서 큰 노드끼리 더 밀어냄
+        const effective = Math.max(distance - radius(ordered[i]) - radius(ordered[j]), gap);
+        const force = idealLength * idealLength / effective;
+        displacement[i].x += dx / distance * force;
+        displacement[i].y += dy / distance * force;
+        displacement[j].x -= dx / distance * force;
+        displacement[j].y -= dy / distance * force;
+      }
+    }
+    undirected.forEach((targets, id) => {
+      const i = indexOf.get(id)!;
+      targets.forEach(target => {
+        const j = indexOf.get(target)!;
+        if (j < i) return; // 양방향으로 한 번만
+        const dx = positions[i].x - positions[j].x;
+        const dy = positions[i].y - positions[j].y;
+        const distance = Math.max(Math.hypot(dx, dy), 0.01);
+        const force = distance * distance / idealLength;
+        displacement[i].x -= dx / distance * force;
+        displacement[i].y -= dy / distance * force;
+        displacement[j].x += dx / distance * force;
+        displacement[j].y += dy / distance * force;
+      });
+    });
+    const centroid = {
+      x: positions.reduce((sum, position) => sum + position.x, 0) / positions.length,
+      y: positions.reduce((sum, position) => sum + position.y, 0) / positions.length
+    };
+    positions.forEach((position, index) => {
+      const dx = position.x - centroid.x;
+      const dy = position.y - centroid.y;
+      const distance = Math.hypot(dx, dy);
+      displacement[index].x -= dx * distance / idealLength * FORCE_GRAVITY;
+      displacement[index].y -= dy * distance / idealLength * FORCE_GRAVITY;
+    });
+    positions.forEach((position, index) => {
+      const { x, y } = displacement[index];
+      const length = Math.max(Math.hypot(x, y), 0.01);
+      const step = Math.min(length, temperature);
+      position.x += x / length * step;
+      position.y += y / length * step;
+    });
+    temperature *= 0.98;
+  }
+
+  return removeOverlaps(ordered.map((node, index) => withPosition(node, {
+    x: positions[index].x - node.width / 2,
+    y: positions[index].y - node.height / 2
+  })), gap);
+};
+
+/**
+ * Lay out `nodes` and return their new top-left positions. The result is
+ * placed where the nodes were (same top-left of the bounding box).
+ */
+export const computeGraphLayout = (
+  kind: GraphLayoutKind,
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  gap: number
+): Map<string, Vector2D> => {
+  if (nodes.length === 0) return new Map();
+  const laidOut = kind === 'grid' ? layoutGrid(nodes, gap)
+    : kind === 'layered' ? layoutLayered(nodes, edges, gap)
+    : kind === 'radial' ? layoutRadial(nodes, edges, gap)
+    : layoutForce(nodes, edges, gap);
+
+  const before = getBoundingRect(nodes);
+  const after = getBoundingRect(laidOut);
+  return new Map(laidOut.map(node => [node.id, {
+    x: node.x - after.x + before.x,
+    y: node.y - after.y + before.y
+  }]));
+};
+
+/**
+ * Shift a whole layout by the smallest offset that keeps every node clear
+ * of `obstacles` (the content that is not being laid out). Tries rings of
+ * increasing distance below, right, above and left; returns the layout
+ * unchanged if nothing within reach is clear.
+ */
+export const avoidObstacles = (
+  positions: Map<string, Vector2D>,
+  nodes: LayoutNode[],
+  obstacles: LayoutRect[],
+  gap: number
+): Map<string, Vector2D> => {
+  const rects = nodes.flatMap(node => {
+    const position = positions.get(node.id);
+    return position ? [{ x: position.x, y: position.y, width: node.width, height: node.height }] : [];
+  });
+  if (rects.length === 0 || obstacles.length === 0) return positions;
+
+  // 배치 범위 근처의 장애물만 검사
+  const area = getBoundingRect(rects);
+  const reach = gap * AVOID_MAX_STEPS;
+  const nearby = obstacles.filter(obstacle => rectsOverlap(obstacle, area, reach));
+  const isClear = (dx: number, dy: number) => !rects.some(rect =>
+    nearby.some(obstacle => rectsOverlap({ ...rect, x: rect.x + dx, y: rect.y + dy }, obstacle, gap / 2))
+  );
+
+  const directions = [[0, 1], [1, 0], [0, -1], [-1, 0]];
+  for (let step = 0; step <= AVOID_MAX_STEPS; step++) {
+    for (const [dirX, dirY] of step === 0 ? [[0, 0]] : directions) {
+      const dx = dirX * step * gap;
+      const dy = dirY * step * gap;
+      if (isClear(dx, dy)) {
+        return new Map(Array.from(positions, ([id, position]) => [id, { x: position.x + dx, y: position.y + dy }]));
+      }
+    }
+  }
+  return positions;
+};
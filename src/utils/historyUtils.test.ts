@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryEntry, HistoryState, LinkObject, TextObject } from '../types';
+import {
+  applyHistoryOperations,
+  createHistoryEntry,
+  describeHistoryEntry,
+  diffHistoryStates,
+  getHistoryRowTarget,
+  getHistoryTargetLength,
+  mergeHistoryEntries,
+  trimHistory
+} from './historyUtils';
+
+const text = (id: string, x = 0, y = 0, content = id): TextObject => ({ id, type: 'text', content, x, y, scale: 1, fontSize: 16 });
+
+const link = (id: string, from: string, to: string, color = '#000000'): LinkObject => ({ id, type: 'link', from, to, style: 'arrow', color });
+
+const historyState = (overrides: Partial<HistoryState> = {}): HistoryState => ({
+  canvasObjects: [],
+  links: [],
+  canvasOffset: { x: 0, y: 0 },
+  scale: 1,
+  currentTypingText: '',
+  ...overrides
+});
+
+const moveEntry = (ids: string[], to: number, timestamp: number): HistoryEntry =>
+  createHistoryEntry('Move', [{ type: 'move', moves: ids.map(id => ({ id, from: { x: to - 10, y: 0 }, to: { x: to, y: 0 } })) }], timestamp);
+
+const inputEntry = (value: string, nodes = 0): HistoryEntry =>
+  createHistoryEntry('Type', [
+    { type: 'input', before: '', after: value },
+    ...(nodes > 0 ? [{ type: 'add' as const, objects: Array.from({ length: nodes }, (_, i) => text(`${value}-${i}`)), indices: [] }] : [])
+  ]);
+
+describe('diffHistoryStates / applyHistoryOperations', () => {
+  it('records only what changed and replays it in both directions', () => {
+    const a = text('a');
+    const b = text('b');
+    const c = text('c');
+    const d = text('d');
+    const before = historyState({
+      canvasObjects: [a, b, c, d],
+      // 링크 순서는 기록하지 않으므로 (다시 추가된 링크는 끝으로 감) 바뀌는 링크를 끝에 둠
+      links: [link('link-2', 'c', 'd'), link('link-1', 'a', 'b')]
+    });
+    const after = historyState({
+      // b 삭제, e를 맨 앞에 추가, a 이동, c 내용 수정, d 스타일 변경
+      canvasObjects: [text('e'), { ...a, x: 40, y: 8 }, { ...c, content: 'changed' }, { ...d, fontSize: 24 }],
+      links: [before.links[0], { ...before.links[1], color: '#ff0000' }],
+      canvasOffset: { x: 100, y: -50 },
+      scale: 2,
+      currentTypingText: 'draft'
+    });
+
+    const operations = diffHistoryStates(before, after);
+    expect(operations.map(operation => operation.type)).toEqual(['delete', 'add', 'move', 'edit', 'restyle', 'link', 'viewport', 'input']);
+    expect(operations[0]).toEqual({ type: 'delete', objects: [b], indices: [1] });
+    expect(operations[2]).toEqual({ type: 'move', moves: [{ id: 'a', from: { x: 0, y: 0 }, to: { x: 40, y: 8 } }] });
+    // 같은 id의 링크라도 내용이 바뀌면 제거 + 추가
+    expect(operations[5]).toEqual({ type: 'link', added: [after.links[1]], removed: [before.links[1]] });
+
+    expect(applyHistoryOperations(before, operations, 'redo')).toEqual(after);
+    expect(applyHistoryOperations(after, operations, 'undo')).toEqual(before);
+  });
+
+  it('restores deleted nodes at their original z-order', () => {
+    const nodes = ['a', 'b', 'c', 'd', 'e'].map(id => text(id));
+    const before = historyState({ canvasObjects: nodes });
+    const after = historyState({ canvasObjects: [nodes[1], nodes[3]] });
+
+    const undone = applyHistoryOperations(after, diffHistoryStates(before, after), 'undo');
+    expect(undone.canvasObjects.map(obj => obj.id)).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('returns no operations when nothing changed', () => {
+    const state = historyState({ canvasObjects: [text('a')] });
+    expect(diffHistoryStates(state, state)).toEqual([]);
+    expect(diffHistoryStates(state, { ...state, canvasObjects: [...state.canvasObjects] })).toEqual([]);
+  });
+});
+
+describe('mergeHistoryEntries', () => {
+  it('merges moves of the same nodes within the window, keeping the first from and the last to', () => {
+    const first = moveEntry(['a', 'b'], 10, 1000);
+    const second = moveEntry(['b', 'a'], 20, 1500);
+
+    const merged = mergeHistoryEntries(first, second, 1000);
+    expect(merged?.id).toBe(first.id);
+    expect(merged?.timestamp).toBe(1500);
+    expect(merged?.operations).toEqual([{
+      type: 'move',
+      moves: [
+        { id: 'a', from: { x: 0, y: 0 }, to: { x: 20, y: 0 } },
+        { id: 'b', from: { x: 0, y: 0 }, to: { x: 20, y: 0 } }
+      ]
+    }]);
+  });
+
+  it('keeps entries apart when the nodes, the timing or the kind of change differ', () => {
+    const first = moveEntry(['a'], 10, 1000);
+    expect(mergeHistoryEntries(first, moveEntry(['a', 'b'], 20, 1100), 1000)).toBeNull();
+    expect(mergeHistoryEntries(first, moveEntry(['a'], 20, 2001), 1000)).toBeNull();
+    expect(mergeHistoryEntries(first, inputEntry('x'), Infinity)).toBeNull();
+  });
+});
+
+describe('trimHistory', () => {
+  it('keeps the newest entries up to the entry limit', () => {
+    const entries = ['a', 'b', 'c', 'd'].map(value => inputEntry(value));
+    expect(trimHistory(entries, 2, Infinity)).toEqual(entries.slice(2));
+    expect(trimHistory(entries, 10, Infinity)).toBe(entries);
+  });
+
+  it('drops the oldest entries until the retained nodes fit, but never the newest', () => {
+    // 크기: input 1 + 추가한 노드 수
+    const entries = [inputEntry('a', 4), inputEntry('b', 2), inputEntry('c', 2)];
+    expect(trimHistory(entries, 10, 6)).toEqual(entries.slice(1));
+    expect(trimHistory(entries, 10, 1)).toEqual(entries.slice(2));
+  });
+});
+
+describe('history panel rows', () => {
+  const past = [inputEntry('a'), inputEntry('b')];
+  // future는 다음 redo가 마지막 원소: 패널에는 d, c 순서로 표시
+  const future = [inputEntry('c'), inputEntry('d')];
+
+  it('map row numbers to the initial state, entries and the pending action', () => {
+    expect(getHistoryRowTarget(past, future, true, 0)).toEqual({ type: 'initial' });
+    expect(getHistoryRowTarget(past, future, true, 2)).toEqual({ type: 'entry', id: past[1].id });
+    expect(getHistoryRowTarget(past, future, true, 3)).toEqual({ type: 'current' });
+    expect(getHistoryRowTarget(past, future, true, 4)).toEqual({ type: 'entry', id: future[1].id });
+    expect(getHistoryRowTarget(past, future, true, 5)).toEqual({ type: 'entry', id: future[0].id });
+    expect(getHistoryRowTarget(past, future, true, 6)).toBeNull();
+
+    // 진행 중인 동작이 없으면 future 행이 한 칸씩 당겨짐
+    expect(getHistoryRowTarget(past, future, false, 3)).toEqual({ type: 'entry', id: future[1].id });
+  });
+
+  it('turn a target into the number of past entries to keep', () => {
+    expect(getHistoryTargetLength(past, future, { type: 'initial' })).toBe(0);
+    expect(getHistoryTargetLength(past, future, { type: 'current' })).toBe(2);
+    expect(getHistoryTargetLength(past, future, { type: 'entry', id: past[0].id })).toBe(1);
+    expect(getHistoryTargetLength(past, future, { type: 'entry', id: future[1].id })).toBe(3);
+    expect(getHistoryTargetLength(past, future, { type: 'entry', id: future[0].id })).toBe(4);
+    expect(getHistoryTargetLength(past, future, { type: 'entry', id: 'trimmed' })).toBeNull();
+  });
+});
+
+describe('describeHistoryEntry', () => {
+  it('summarizes node changes and falls back to "view"', () => {
+    const entry = createHistoryEntry('Paste', [
+      { type: 'add', objects: [text('a'), text('b')], indices: [0, 1] },
+      { type: 'link', added: [link('link-1', 'a', 'b')], removed: [] }
+    ]);
+    expect(describeHistoryEntry(entry)).toBe('2 added · 1 linked');
+    expect(describeHistoryEntry(createHistoryEntry('Pan', [{
+      type: 'viewport',
+      before: { canvasOffset: { x: 0, y: 0 }, scale: 1 },
+      after: { canvasOffset: { x: 5, y: 0 }, scale: 1 }
+    }]))).toBe('view');
+  });
+});
@@ -0,0 +1,377 @@
+import {
+  CanvasObject,
+  LinkObject,
+  HistoryState,
+  HistoryOperation,
+  HistoryEntry,
+  HistoryMove,
+  HistoryDirection,
+  HistoryRowTarget,
+  generateNodeId
+} from '../types';
+
+const POSITION_KEYS = new Set(['x', 'y']);
+
+// 얕은 비교로 바뀐 속성 이름 목록 (중첩 객체는 참조로 비교)
+const getChangedKeys = (before: CanvasObject, after: CanvasObject): string[] => {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(keys).filter(key =>
+    (before as unknown as Record<string, unknown>)[key] !== (after as unknown as Record<string, unknown>)[key]
+  );
+};
+
+const hasPosition = (obj: CanvasObject): obj is CanvasObject & { x: number; y: number } => {
+  return 'x' in obj && 'y' in obj && typeof obj.x === 'number' && typeof obj.y === 'number';
+};
+
+/**
+ * Describe the change from `before` to `after` as typed operations.
+ * Only changed nodes are kept, so an entry costs O(changed) memory
+ * no matter how many nodes the canvas holds.
+ */
+export const diffHistoryStates = (before: HistoryState, after: HistoryState): HistoryOperation[] => {
+  const operations: HistoryOperation[] = [];
+
+  if (before.canvasObjects !== after.canvasObjects) {
+    const beforeById = new Map(before.canvasObjects.map((obj, index) => [obj.id, { obj, index }]));
+    const afterIds = new Set(after.canvasObjects.map(obj => obj.id));
+
+    const added: { obj: CanvasObject; index: number }[] = [];
+    const moves: HistoryMove[] = [];
+    const edited: { before: CanvasObject; after: CanvasObject }[] = [];
+    const restyled: { before: CanvasObject; after: CanvasObject }[] = [];
+
+    after.canvasObjects.forEach((obj, index) => {
+      const previous = beforeById.get(obj.id);
+      if (!previous) {
+        added.push({ obj, index });
+        return;
+      }
+      if (previous.obj === obj) return;
+
+      const changedKeys = getChangedKeys(previous.obj, obj);
+      if (changedKeys.length === 0) return;
+      if (changedKeys.every(key => POSITION_KEYS.has(key)) && hasPosition(previous.obj) && hasPosition(obj)) {
+        moves.push({
+          id: obj.id,
+          from: { x: previous.obj.x, y: previous.obj.y },
+          to: { x: obj.x, y: obj.y }
+        });
+      } else if (changedKeys.includes('content')) {
+        edited.push({ before: previous.obj, after: obj });
+      } else {
+        restyled.push({ before: previous.obj, after: obj });
+      }
+    });
+
+    const deleted = before.canvasObjects
+      .map((obj, index) => ({ obj, index }))
+      .filter(({ obj }) => !afterIds.has(obj.id));
+
+    if (deleted.length > 0) {
+      operations.push({ type: 'delete', objects: deleted.map(item => item.obj), indices: deleted.map(item => item.index) });
+    }
+    if (added.length > 0) {
+      operations.push({ type: 'add', objects: added.map(item => item.obj), indices: added.map(item => item.index) });
+    }
+    if (moves.length > 0) {
+      operations.push({ type: 'move', moves });
+    }
+    if (edited.length > 0) {
+      operations.push({ type: 'edit', before: edited.map(item => item.before), after: edited.map(item => item.after) });
+    }
+    if (restyled.length > 0) {
+      operations.push({ type: 'restyle', before: restyled.map(item => item.before), after: restyled.map(item => item.after) });
+    }
+  }
+
+  if (before.links !== after.links) {
+    const beforeLinks = new Set(before.links);
+    const afterLinks = new Set(after.links);
+    // 같은 id라도 내용이 바뀌었으면 제거 + 추가로 기록
+    const added = after.links.filter(link => !beforeLinks.has(link));
+    const removed = before.links.filter(link => !afterLinks.has(link));
+    if (added.length > 0 || removed.length > 0) {
+      operations.push({ type: 'link', added, removed });
+    }
+  }
+
+  if (
+    before.scale !== after.scale ||
+    before.canvasOffset.x !== after.canvasOffset.x ||
+    before.canvasOffset.y !== after.canvasOffset.y
+  ) {
+    operations.push({
+      type: 'viewport',
+      before: { canvasOffset: before.canvasOffset, scale: before.scale },
+      after: { canvasOffset: after.canvasOffset, scale: after.scale }
+    });
+  }
+
+  if (before.currentTypingText !== after.currentTypingText) {
+    operations.push({ type: 'input', before: before.currentTypingText, after: after.currentTypingText });
+  }
+
+  return operations;
+};
+
+const removeObjects = (objects: CanvasObject[], removed: CanvasObject[]) => {
+  const ids = new Set(removed.map(obj => obj.id));
+  return objects.filter(obj => !ids.has(obj.id));
+};
+
+// 원래 인덱스 순서대로 끼워 넣어 z-순서 복원
+const insertObjects = (objects: CanvasObject[], inserted: CanvasObject[], indices: number[]) => {
+  const result = removeObjects(objects, inserted);
+  inserted
+    .map((obj, i) => ({ obj, index: indices[i] ?? result.length }))
+    .sort((a, b) => a.index - b.index)
+    .forEach(({ obj, index }) => result.splice(Math.min(index, result.length), 0, obj));
+  return result;
+};
+
+const replaceObjects = (objects: CanvasObject[], replacements: CanvasObject[]) => {
+  const byId = new Map(replacements.map(obj => [obj.id, obj]));
+  return objects.map(obj => byId.get(obj.id) ?? obj);
+};
+
+const moveObjects = (objects: CanvasObject[], moves: HistoryMove[], direction: HistoryDirection) => {
+  const byId = new Map(moves.map(move => [move.id, direction === 'undo' ? move.from : move.to]));
+  return objects.map(obj => {
+    const position = byId.get(obj.id);
+    return position && hasPosition(obj) ? { ...obj, x: position.x, y: position.y } : obj;
+  });
+};
+
+const removeLinks = (links: LinkObject[], removed: LinkObject[]) => {
+  const ids = new Set(removed.map(link => link.id));
+  return links.filter(link => !ids.has(link.id));
+};
+
+/**
+ * Apply an entry's operations forwards (redo) or backwards (undo).
+ * Undo walks the operations in reverse so each step sees the state it produced.
+ */
+export const applyHistoryOperations = (
+  state: HistoryState,
+  operations: HistoryOperation[],
+  direction: HistoryDirection
+): HistoryState => {
+  const ordered = direction === 'undo' ? [...operations].reverse() : operations;
+  const isUndo = direction === 'undo';
+
+  return ordered.reduce<HistoryState>((current, operation) => {
+    switch (operation.type) {
+      case 'add':
+        return {
+          ...current,
+          canvasObjects: isUndo
+            ? removeObjects(current.canvasObjects, operation.objects)
+            : insertObjects(current.canvasObjects, operation.objects, operation.indices)
+        };
+      case 'delete':
+        return {
+          ...current,
+          canvasObjects: isUndo
+            ? insertObjects(current.canvasObjects, operation.objects, operation.indices)
+            : removeObjects(current.canvasObjects, operation.objects)
+        };
+      case 'move':
+        return { ...current, canvasObjects: moveObjects(current.canvasObjects, operation.moves, direction) };
+      case 'edit':
+      case 'restyle':
+        return {
+          ...current,
+          canvasObjects: replaceObjects(current.canvasObjects, isUndo ? operation.before : operation.after)
+        };
+      case 'link': {
+        const toRemove = isUndo ? operation.added : operation.removed;
+        const toAdd = isUndo ? operation.removed : operation.added;
+        return { ...current, links: [...removeLinks(current.links, toRemove), ...toAdd] };
+      }
+      case 'viewport': {
+        const viewport = isUndo ? operation.before : operation.after;
+        return { ...current, canvasOffset: viewport.canvasOffset, scale: viewport.scale };
+      }
+      case 'input':
+        return { ...current, currentTypingText: isUndo ? operation.before : operation.after };
+    }
+  }, state);
+};
+
+export const createHistoryEntry = (
+  label: string,
+  operations: HistoryOperation[],
+  timestamp: number = Date.now()
+): HistoryEntry => ({
+  id: generateNodeId(),
+  label,
+  timestamp,
+  operations
+});
+
+const getMoveIds = (entry: HistoryEntry): string | null => {
+  if (entry.operations.length !== 1 || entry.operations[0].type !== 'move') return null;
+  return entry.operations[0].moves.map(move => String(move.id)).sort().join('|');
+};
+
+/**
+ * Merge `next` into `previous` when both only move the same nodes
+ * within `windowMs` of each other (arrow-key nudges, repeated drags).
+ * The merged move keeps the earliest `from` and the latest `to`.
+ */
+export const mergeHistoryEntries = (
+  previous: HistoryEntry,
+  next: HistoryEntry,
+  windowMs: number
+): HistoryEntry | null => {
+  const previousIds = getMoveIds(previous);
+  if (!previousIds || previousIds !== getMoveIds(next)) return null;
+  if (next.timestamp - previous.timestamp > windowMs) return null;
+
+  const previousMoves = previous.operations[0].type === 'move' ? previous.operations[0].moves : [];
+  const nextMoves = next.operations[0].type === 'move' ? next.operations[0].moves : [];
+  const toById = new Map(nextMoves.map(move => [move.id, move.to]));
+
+  return {
+    ...previous,
+    timestamp: next.timestamp,
+    operations: [{
+      type: 'move',
+      moves: previousMoves.map(move => ({ ...move, to: toById.get(move.id) ?? move.to }))
+    }]
+  };
+};
+
+/**
+ * Rough memory weight of an entry: the number of nodes it holds on to.
+ */
+export const getHistoryEntrySize = (entry: HistoryEntry): number => {
+  return entry.operations.reduce((total, operation) => {
+    switch (operation.type) {
+      case 'add':
+      case 'delete':
+        return total + operation.objects.length;
+      case 'move':
+        return total + operation.moves.length;
+      case 'edit':
+      case 'restyle':
+        return total + operation.before.length + operation.after.length;
+      case 'link':
+        return total + operation.added.length + operation.removed.length;
+      default:
+        return total + 1;
+    }
+  }, 0);
+};
+
+/**
+ * Every node snapshot held by the given entries (nodes an undo/redo could bring back).
+ */
+export const getHistoryRetainedNodes = (entries: HistoryEntry[]): CanvasObject[] => {
+  return entries.flatMap(entry => entry.operations.flatMap(operation => {
+    switch (operation.type) {
+      case 'add':
+      case 'delete':
+        return operation.objects;
+      case 'edit':
+      case 'restyle':
+        return [...operation.before, ...operation.after];
+      default:
+        return [];
+    }
+  }));
+};
+
+/**
+ * Drop the oldest entries until both the entry count and the
+ * retained node count are within limits. The newest entry is always kept.
+ */
+export const trimHistory = (entries: HistoryEntry[], maxEntries: number, maxRetainedNodes: number): HistoryEntry[] => {
+  let trimmed = entries.length > maxEntries ? entries.slice(entries.length - maxEntries) : entries;
+  let retained = trimmed.reduce((total, entry) => total + getHistoryEntrySize(entry), 0);
+  let start = 0;
+  while (retained > maxRetainedNodes && start < trimmed.length - 1) {
+    retained -= getHistoryEntrySize(trimmed[start]);
+    start++;
+  }
+  if (start > 0) trimmed = trimmed.slice(start);
+  return trimmed;
+};
+
+/**
+ * Resolve a history panel row to the point it shows. Rows are the initial
+ * state, the past entries, the pending action (if any), then the future
+ * entries with the next redo first.
+ */
+export const getHistoryRowTarget = (
+  past: HistoryEntry[],
+  future: HistoryEntry[],
+  hasPending: boolean,
+  rowIndex: number
+): HistoryRowTarget | null => {
+  if (rowIndex === 0) return { type: 'initial' };
+  if (rowIndex <= past.length) return { type: 'entry', id: past[rowIndex - 1].id };
+
+  const pendingRows = hasPending ? 1 : 0;
+  if (hasPending && rowIndex === past.length + 1) return { type: 'current' };
+
+  // future는 다음 redo가 마지막 원소
+  const futureRow = rowIndex - past.length - pendingRows;
+  const entry = future[future.length - futureRow];
+  return entry && futureRow > 0 ? { type: 'entry', id: entry.id } : null;
+};
+
+/**
+ * How many entries `past` should hold once `target` is reached, or null when
+ * its entry is gone (trimmed, or the future was dropped by a new action).
+ */
+export const getHistoryTargetLength = (
+  past: HistoryEntry[],
+  future: HistoryEntry[],
+  target: HistoryRowTarget
+): number | null => {
+  switch (target.type) {
+    case 'initial':
+      return 0;
+    case 'current':
+      return past.length;
+    case 'entry': {
+      const pastIndex = past.findIndex(entry => entry.id === target.id);
+      if (pastIndex !== -1) return pastIndex + 1;
+      const futureIndex = future.findIndex(entry => entry.id === target.id);
+      return futureIndex !== -1 ? past.length + future.length - futureIndex : null;
+    }
+  }
+};
+
+/**
+ * One-line summary of an entry for the history panel, e.g. "3 added · 1 moved".
+ */
+export const describeHistoryEntry = (entry: HistoryEntry): string => {
+  const parts: string[] = [];
+  entry.operations.forEach(operation => {
+    switch (operation.type) {
+      case 'add':
+        parts.push(`${operation.objects.length} added`);
+        break;
+      case 'delete':
+        parts.push(`${operation.objects.length} deleted`);
+        break;
+      case 'move':
+        parts.push(`${operation.moves.length} moved`);
+        break;
+      case 'edit':
+        parts.push(`${operation.after.length} edited`);
+        break;
+      case 'restyle':
+        parts.push(`${operation.after.length} restyled`);
+        break;
+      case 'link':
+        if (operation.added.length > 0) parts.push(`${operation.added.length} linked`);
+        if (operation.removed.length > 0) parts.push(`${operation.removed.length} unlinked`);
+        break;
+    }
+  });
+  return parts.join(' · ') || 'view';
+};
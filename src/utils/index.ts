@@ -4,9 +4,20 @@ export * from './exportUtils';
 export * from './coordinateUtils';
 export * from './fontUtils';
 export * from './svgUtils';
+export * from './mediaUtils';
+export * from './colorUtils';
+export * from './paintUtils';
+export * from './spatialIndex';
+export * from './thumbnailUtils';
 
 // Legacy functions kept for backward compatibility
 import { CanvasObject, TextObject, GuideObject } from '../types';
+import { isMediaNode, isPointInMediaNode } from './mediaUtils';
+import { getFrameBounds, getFrameCenter, getObjectFrame, getTextLayout, rotatePoint } from './transformUtils';
+
+// 폰트 로드 후 측정값 캐시 (히트 테스트/그리기마다 같은 줄을 반복 측정하지 않도록)
+const TEXT_WIDTH_CACHE_LIMIT = 20000;
+const textWidthCache = new Map<string, number>();
 
 export const measureTextWidth = (
   text: string, 
@@ -15,10 +26,18 @@ export const measureTextWidth = (
   fontLoaded: boolean
 ): number => {
   if (!canvas || !fontLoaded) return text.length * 12;
+  const cacheKey = `${fontSize}|${text}`;
+  const cached = textWidthCache.get(cacheKey);
+  if (cached !== undefined) return cached;
+
   const ctx = canvas.getContext('2d');
   if (!ctx) return text.length * 12;
   ctx.font = `400 ${fontSize}px "JetBrains Mono", monospace`;
-  return ctx.measureText(text).width;
+  const width = ctx.measureText(text).width;
+
+  if (textWidthCache.size >= TEXT_WIDTH_CACHE_LIMIT) textWidthCache.clear();
+  textWidthCache.set(cacheKey, width);
+  return width;
 };
 
 export const snapToGrid = (value: number, gridSize: number): number => {
@@ -35,27 +54,16 @@ export const isPointInTextObject = (
 ): boolean => {
   const screenPos = worldToScreen(obj.x, obj.y);
   const fontSize = obj.fontSize * scale;
-  
-  // Handle multi-line text
-  const lines = obj.content.split('\n');
-  const lineHeight = fontSize * 1.6;
-  let maxWidth = 0;
-  
-  lines.forEach(line => {
-    const lineWidth = measureText(line, fontSize);
-    maxWidth = Math.max(maxWidth, lineWidth);
-  });
-  
-  // 마지막 줄은 fontSize만, 나머지 줄들은 lineHeight 적용
-  const totalHeight = lines.length > 1 
-    ? (lines.length - 1) * lineHeight + fontSize 
-    : fontSize;
+  // 줄바꿈된 레이아웃 기준 (월드 크기를 화면 배율로 환산)
+  const layout = getTextLayout(obj, measureText);
+  const width = layout.width * scale;
+  const height = layout.height * scale;
   const padding = 2; // 클릭 감지를 위한 최소 패딩
   
   return screenX >= screenPos.x - padding && 
-         screenX <= screenPos.x + maxWidth + padding &&
+         screenX <= screenPos.x + width + padding &&
          screenY >= screenPos.y - fontSize - padding &&
-         screenY <= screenPos.y + totalHeight - fontSize + padding;
+         screenY <= screenPos.y + height - fontSize + padding;
 };
 
 export const isPointInA4GuideObject = (
@@ -91,10 +99,22 @@ export const isPointInObject = (
   worldToScreen: (x: number, y: number) => { x: number; y: number },
   measureText: (text: string, fontSize: number) => number
 ): boolean => {
+  // 회전된 노드는 점을 반대로 돌려 회전 전 상자와 비교
+  const frame = obj.type === 'text' || isMediaNode(obj) ? getObjectFrame(obj, measureText) : null;
+  if (frame?.rotation) {
+    const center = getFrameCenter(frame);
+    const screenCenter = worldToScreen(center.x, center.y);
+    const local = rotatePoint({ x: screenX, y: screenY }, screenCenter, -frame.rotation);
+    screenX = local.x;
+    screenY = local.y;
+  }
+
   if (obj.type === 'text') {
     return isPointInTextObject(obj, screenX, screenY, scale, worldToScreen, measureText);
   } else if (obj.type === 'guide') {
     return isPointInA4GuideObject(obj, screenX, screenY, scale, worldToScreen);
+  } else if (isMediaNode(obj)) {
+    return isPointInMediaNode(obj, screenX, screenY, scale, worldToScreen);
   }
   return false;
 };
@@ -206,21 +226,14 @@ export const calculateContentBoundingBox = (
   let maxX = -Infinity;
   let maxY = -Infinity;
 
-  objects.filter(obj => obj.type === 'text').forEach(obj => {
-    const textObj = obj as TextObject;
-    const effectiveFontSizeInWorld = textObj.fontSize;
-    const textWorldWidth = measureText(textObj.content, effectiveFontSizeInWorld);
-    const textWorldHeight = effectiveFontSizeInWorld;
-
-    const worldLeft = textObj.x;
-    const worldTop = textObj.y - textWorldHeight;
-    const worldRight = textObj.x + textWorldWidth;
-    const worldBottom = textObj.y + 4;
+  objects.filter(obj => obj.type === 'text' || isMediaNode(obj)).forEach(obj => {
+    const bounds = getFrameBounds(getObjectFrame(obj, measureText)!);
 
-    minX = Math.min(minX, worldLeft);
-    minY = Math.min(minY, worldTop);
-    maxX = Math.max(maxX, worldRight);
-    maxY = Math.max(maxY, worldBottom);
+    minX = Math.min(minX, bounds.minX);
+    minY = Math.min(minY, bounds.minY);
+    maxX = Math.max(maxX, bounds.maxX);
+    // 텍스트는 마지막 줄 글자 아래 여백 포함
+    maxY = Math.max(maxY, bounds.maxY + (obj.type === 'text' ? 4 : 0));
   });
 
   if (currentTypingText.trim()) {
@@ -3,12 +3,15 @@
  * Provides robust, large-capacity storage for canvas sessions
  */
 
-import { SessionData, SessionMetadata } from '../types';
+import { SessionData, SessionMetadata, SessionRevision, SessionRevisionInfo, Channel, ChannelMessage, TYPE_SYSTEM_VERSION } from '../types';
+import { migrateSessionPayload } from './sessionMigrations';
+import { validateSerializedSession, formatValidationIssues } from './schemaValidation';
 
 const DB_NAME = 'NNTypeDB';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 const SESSION_STORE = 'sessions';
 const METADATA_STORE = 'metadata';
+const REVISION_STORE = 'revisions';
 
 // IndexedDB wrapper interface
 export interface DBSession {
@@ -18,6 +21,7 @@ export interface DBSession {
   createdAt: number;
   updatedAt: number;
   size: number; // approximate size in bytes
+  thumbnail?: string | null; // data URL for the workspace list
 }
 
 /**
@@ -50,6 +54,12 @@ export function initDB(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(METADATA_STORE)) {
         db.createObjectStore(METADATA_STORE, { keyPath: 'key' });
       }
+
+      // Create revisions store (v2)
+      if (!db.objectStoreNames.contains(REVISION_STORE)) {
+        const revisionStore = db.createObjectStore(REVISION_STORE, { keyPath: 'id' });
+        revisionStore.createIndex('sessionId', 'sessionId', { unique: false });
+      }
     };
   });
 }
@@ -70,7 +80,7 @@ function calculateSessionSize(sessionData: SessionData): number {
 /**
  * Save session to IndexedDB
  */
-export async function saveSessionToDB(sessionData: SessionData): Promise<string> {
+export async function saveSessionToDB(sessionData: SessionData, thumbnail?: string | null): Promise<string> {
   const db = await initDB();
   
   return new Promise((resolve, reject) => {
@@ -82,14 +92,13 @@ export async function saveSessionToDB(sessionData: SessionData): Promise<string>
     
     const dbSession: DBSession = {
       id: sessionId,
-      metadata: {
-        ...sessionData.metadata,
-        lastUpdated: new Date().toISOString()
-      },
+      // lastUpdated는 호출하는 쪽이 정함 (화면만 바뀐 저장은 마지막 편집 시각을 유지)
+      metadata: sessionData.metadata,
       data: sessionData,
       createdAt: sessionData.metadata.createdAt ? new Date(sessionData.metadata.createdAt).getTime() : now,
       updatedAt: now,
-      size: calculateSessionSize(sessionData)
+      size: calculateSessionSize(sessionData),
+      thumbnail
     };
 
     const request = store.put(dbSession);
@@ -138,6 +147,42 @@ export async function loadSessionFromDB(sessionId: string): Promise<SessionData
   });
 }
 
+/**
+ * Update a session's metadata (title, archived flag) without touching its
+ * content or last-edited time
+ */
+export async function updateSessionMetadataInDB(
+  sessionId: string,
+  patch: Partial<SessionMetadata>
+): Promise<SessionMetadata | null> {
+  const db = await initDB();
+  
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SESSION_STORE], 'readwrite');
+    const store = transaction.objectStore(SESSION_STORE);
+    const request = store.get(sessionId);
+
+    request.onsuccess = (event) => {
+      const record = (event.target as IDBRequest).result as DBSession | undefined;
+      if (!record) {
+        resolve(null);
+        return;
+      }
+      const metadata = { ...record.metadata, ...patch, id: sessionId };
+      store.put({ ...record, metadata, data: { ...record.data, metadata } });
+      resolve(metadata);
+    };
+
+    request.onerror = () => {
+      reject(new Error('Failed to update session in IndexedDB'));
+    };
+
+    transaction.oncomplete = () => {
+      db.close();
+    };
+  });
+}
+
 /**
  * Get all sessions metadata (for session list)
  */
@@ -199,9 +244,10 @@ export async function clearAllSessions(): Promise<void> {
   const db = await initDB();
   
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([SESSION_STORE], 'readwrite');
+    const transaction = db.transaction([SESSION_STORE, REVISION_STORE], 'readwrite');
     const store = transaction.objectStore(SESSION_STORE);
     const request = store.clear();
+    transaction.objectStore(REVISION_STORE).clear();
 
     request.onsuccess = () => {
       resolve();
@@ -218,15 +264,115 @@ export async function clearAllSessions(): Promise<void> {
 }
 
 /**
- * Get current active session ID from metadata
+ * Save a session revision
+ */
+export async function saveRevisionToDB(revision: SessionRevision): Promise<void> {
+  const db = await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([REVISION_STORE], 'readwrite');
+    const request = transaction.objectStore(REVISION_STORE).put(revision);
+
+    request.onsuccess = () => {
+      resolve();
+    };
+
+    request.onerror = () => {
+      reject(new Error('Failed to save revision to IndexedDB'));
+    };
+
+    transaction.oncomplete = () => {
+      db.close();
+    };
+  });
+}
+
+/**
+ * List a session's revisions without their content, newest first
+ */
+export async function getRevisionsForSession(sessionId: string): Promise<SessionRevisionInfo[]> {
+  const db = await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([REVISION_STORE], 'readonly');
+    const request = transaction.objectStore(REVISION_STORE).index('sessionId').getAll(sessionId);
+
+    request.onsuccess = (event) => {
+      const revisions = (event.target as IDBRequest).result as SessionRevision[];
+      resolve(
+        revisions
+          .map(({ canvasObjects, links, ...info }) => info)
+          .sort((a, b) => b.createdAt - a.createdAt)
+      );
+    };
+
+    request.onerror = () => {
+      reject(new Error('Failed to get revisions from IndexedDB'));
+    };
+
+    transaction.oncomplete = () => {
+      db.close();
+    };
+  });
+}
+
+/**
+ * Load a revision with its content
  */
-export async function getCurrentSessionId(): Promise<string | null> {
+export async function loadRevisionFromDB(revisionId: string): Promise<SessionRevision | null> {
+  const db = await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([REVISION_STORE], 'readonly');
+    const request = transaction.objectStore(REVISION_STORE).get(revisionId);
+
+    request.onsuccess = (event) => {
+      resolve(((event.target as IDBRequest).result as SessionRevision | undefined) ?? null);
+    };
+
+    request.onerror = () => {
+      reject(new Error('Failed to load revision from IndexedDB'));
+    };
+
+    transaction.oncomplete = () => {
+      db.close();
+    };
+  });
+}
+
+/**
+ * Delete revisions by id
+ */
+export async function deleteRevisionsFromDB(revisionIds: string[]): Promise<void> {
+  if (revisionIds.length === 0) return;
+  const db = await initDB();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([REVISION_STORE], 'readwrite');
+    const store = transaction.objectStore(REVISION_STORE);
+    revisionIds.forEach(id => store.delete(id));
+
+    transaction.oncomplete = () => {
+      db.close();
+      resolve();
+    };
+
+    transaction.onerror = () => {
+      reject(new Error('Failed to delete revisions from IndexedDB'));
+    };
+  });
+}
+
+/**
+ * Read an app-level value from the metadata store
+ */
+export async function getMetadataValue<T>(key: string): Promise<T | null> {
   const db = await initDB();
   
   return new Promise((resolve, reject) => {
     const transaction = db.transaction([METADATA_STORE], 'readonly');
     const store = transaction.objectStore(METADATA_STORE);
-    const request = store.get('currentSessionId');
+    const request = store.get(key);
 
     request.onsuccess = (event) => {
       const result = (event.target as IDBRequest).result;
@@ -234,7 +380,7 @@ export async function getCurrentSessionId(): Promise<string | null> {
     };
 
     request.onerror = () => {
-      reject(new Error('Failed to get current session ID'));
+      reject(new Error(`Failed to read "${key}" from IndexedDB`));
     };
 
     transaction.oncomplete = () => {
@@ -244,29 +390,22 @@ export async function getCurrentSessionId(): Promise<string | null> {
 }
 
 /**
- * Set current active session ID
+ * Write an app-level value to the metadata store
  */
-export async function setCurrentSessionId(sessionId: string | null): Promise<void> {
+export async function setMetadataValue<T>(key: string, value: T): Promise<void> {
   const db = await initDB();
   
   return new Promise((resolve, reject) => {
     const transaction = db.transaction([METADATA_STORE], 'readwrite');
     const store = transaction.objectStore(METADATA_STORE);
-    
-    const data = {
-      key: 'currentSessionId',
-      value: sessionId,
-      updatedAt: Date.now()
-    };
-
-    const request = store.put(data);
+    const request = store.put({ key, value, updatedAt: Date.now() });
 
     request.onsuccess = () => {
       resolve();
     };
 
     request.onerror = () => {
-      reject(new Error('Failed to set current session ID'));
+      reject(new Error(`Failed to write "${key}" to IndexedDB`));
     };
 
     transaction.oncomplete = () => {
@@ -275,6 +414,20 @@ export async function setCurrentSessionId(sessionId: string | null): Promise<voi
   });
 }
 
+/**
+ * Get current active session ID from metadata
+ */
+export function getCurrentSessionId(): Promise<string | null> {
+  return getMetadataValue<string>('currentSessionId');
+}
+
+/**
+ * Set current active session ID
+ */
+export function setCurrentSessionId(sessionId: string | null): Promise<void> {
+  return setMetadataValue('currentSessionId', sessionId);
+}
+
 /**
  * Get database storage info
  */
@@ -320,28 +473,69 @@ export async function exportSessionAsBlob(sessionId: string): Promise<Blob> {
   const exportData = {
     version: '1.0',
     exportedAt: new Date().toISOString(),
-    sessionData
+    sessionData: {
+      ...sessionData,
+      schemaVersion: TYPE_SYSTEM_VERSION,
+      // Map은 JSON으로 직렬화되지 않으므로 엔트리 배열로 변환
+      channels: Array.from(sessionData.channels.entries()),
+      messages: Array.from(sessionData.messages.entries())
+    }
   };
 
   return new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
 }
 
+// 예전 내보내기는 Map을 {}로 기록했으므로 객체도 엔트리 배열로 받아들임
+const toEntries = (value: unknown): unknown => {
+  if (value instanceof Map) return Array.from(value.entries());
+  if (typeof value === 'object' && value !== null && !Array.isArray(value)) return Object.entries(value);
+  return value;
+};
+
 /**
- * Import session from JSON blob
+ * Import session from JSON blob.
+ * The session is migrated and validated first; a bad file throws with one line per problem.
  */
 export async function importSessionFromBlob(blob: Blob): Promise<string> {
   const text = await blob.text();
-  const importData = JSON.parse(text);
+  let importData: { sessionData?: Record<string, unknown> };
+  try {
+    importData = JSON.parse(text);
+  } catch (error) {
+    throw new Error('Session file is not valid JSON');
+  }
   
-  if (!importData.sessionData) {
+  if (!importData.sessionData || typeof importData.sessionData !== 'object') {
     throw new Error('Invalid session file format');
   }
 
-  const sessionData: SessionData = importData.sessionData;
-  
-  // Generate new ID to avoid conflicts
-  sessionData.metadata.id = `imported_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  sessionData.metadata.lastUpdated = new Date().toISOString();
+  const { data } = migrateSessionPayload({
+    ...importData.sessionData,
+    channels: toEntries(importData.sessionData.channels),
+    messages: toEntries(importData.sessionData.messages)
+  });
+  const { errors } = validateSerializedSession(data);
+  if (errors.length > 0) {
+    throw new Error(['Invalid session file:', ...formatValidationIssues(errors, 20)].join('\n'));
+  }
+
+  const serialized = data as unknown as Omit<SessionData, 'channels' | 'messages'> & {
+    channels?: Array<[string, Channel]>;
+    messages?: Array<[string, ChannelMessage[]]>;
+  };
+  const sessionData: SessionData = {
+    metadata: {
+      ...serialized.metadata,
+      // Generate new ID to avoid conflicts
+      id: `imported_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      lastUpdated: new Date().toISOString()
+    },
+    channels: new Map(serialized.channels || []),
+    messages: new Map(serialized.messages || []),
+    canvasObjects: serialized.canvasObjects || [],
+    links: serialized.links || [],
+    activeChannelId: serialized.activeChannelId ?? null
+  };
 
   return await saveSessionToDB(sessionData);
 }
@@ -0,0 +1,266 @@
+import { describe, expect, it } from 'vitest';
+import { CanvasObject, GuideObject, LinkObject, LinkRouting, TextObject } from '../types';
+import {
+  LinkObstacle,
+  getBestConnectionPoints,
+  getLinkAnchors,
+  getLinkArrowBase,
+  getLinkJunctions,
+  getLinkLabelBox,
+  getLinkMarkerShape,
+  getLinkMarkers,
+  getLinkObstacles,
+  getLinkPath,
+  getLinkPathData,
+  getLinkPathMidpoint,
+  getLinkPathPolyline,
+  getLinkStartBase,
+  getLinkableObjectBounds,
+  isLinkableObject,
+  resolveLinkEnds,
+  updateLinkEndpoint
+} from './linkUtils';
+
+type Point = { x: number; y: number };
+
+// 가이드는 x, y, width, height가 그대로 링크 상자
+const box = (id: string, x: number, y: number, width = 100, height = 100): GuideObject => ({
+  id,
+  type: 'guide',
+  guideType: 'custom',
+  x,
+  y,
+  width,
+  height
+});
+
+const text = (id: string, x: number, y: number): TextObject => ({ id, type: 'text', content: id, x, y, scale: 1, fontSize: 16 });
+
+const link = (from: string, to: string, extra: Partial<LinkObject> = {}): LinkObject => ({
+  id: `${from}-${to}`,
+  type: 'link',
+  from,
+  to,
+  style: 'arrow',
+  color: '#666666',
+  ...extra
+});
+
+const obstacle = (node: CanvasObject): LinkObstacle => ({ id: String(node.id), bounds: getLinkableObjectBounds(node) });
+
+// 경로 구간이 상자 내부를 지나는지 (가로/세로 구간만)
+const crossesBox = (a: Point, b: Point, node: GuideObject) => {
+  const minX = Math.min(a.x, b.x);
+  const maxX = Math.max(a.x, b.x);
+  const minY = Math.min(a.y, b.y);
+  const maxY = Math.max(a.y, b.y);
+  return maxX > node.x && minX < node.x + node.width && maxY > node.y && minY < node.y + node.height;
+};
+
+describe('getLinkPath', () => {
+  const left = box('left', 0, 0);
+  const right = box('right', 400, 0);
+
+  const pathFor = (routing: LinkRouting, obstacles: LinkObstacle[] = []) =>
+    getLinkPath(link('left', 'right', { routing }), left, right, obstacles);
+
+  it('draws a straight link between the closest edge midpoints', () => {
+    // 가장자리에서 8만큼 떨어진 점
+    expect(pathFor('straight')).toEqual({ routing: 'straight', points: [{ x: 108, y: 50 }, { x: 392, y: 50 }] });
+  });
+
+  it('bends a curved link out of the edges it leaves and enters', () => {
+    const path = pathFor('curved');
+    const reach = (392 - 108) * 0.4;
+
+    expect(path.points).toEqual([{ x: 108, y: 50 }, { x: 392, y: 50 }]);
+    expect(path.controlPoints).toEqual([{ x: 108 + reach, y: 50 }, { x: 392 - reach, y: 50 }]);
+    expect(getLinkPathData(path)).toBe(`M 108 50 C ${108 + reach} 50, ${392 - reach} 50, 392 50`);
+    expect(getLinkPathPolyline(path)).toHaveLength(25);
+  });
+
+  it('keeps an unobstructed orthogonal link straight', () => {
+    expect(pathFor('orthogonal').points).toEqual([{ x: 108, y: 50 }, { x: 392, y: 50 }]);
+  });
+
+  it('routes an orthogonal link around a node in the way', () => {
+    const wall = box('wall', 200, -60, 60, 220);
+    const { points } = pathFor('orthogonal', [obstacle(wall)]);
+
+    expect(points[0]).toEqual({ x: 108, y: 50 });
+    expect(points[points.length - 1]).toEqual({ x: 392, y: 50 });
+    points.slice(1).forEach((point, index) => {
+      const previous = points[index];
+      expect(point.x === previous.x || point.y === previous.y).toBe(true);
+      expect(crossesBox(previous, point, wall)).toBe(false);
+    });
+  });
+
+  it('ignores obstacles that are the link\'s own ends', () => {
+    expect(pathFor('orthogonal', [obstacle(left), obstacle(right)]).points).toHaveLength(2);
+  });
+
+  it('reuses the path while the link, its ends and the obstacles are unchanged', () => {
+    const item = link('left', 'right', { routing: 'orthogonal' });
+    const obstacles = [obstacle(box('wall', 200, -60, 60, 220))];
+    const path = getLinkPath(item, left, right, obstacles);
+
+    expect(getLinkPath(item, left, right, obstacles)).toBe(path);
+    expect(getLinkPath(item, left, { ...right, y: 300 }, obstacles)).not.toBe(path);
+  });
+});
+
+describe('getLinkPathMidpoint', () => {
+  it('finds the point halfway along a bent path', () => {
+    expect(getLinkPathMidpoint({ routing: 'orthogonal', points: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }] }))
+      .toEqual({ x: 100, y: 0 });
+    expect(getLinkPathMidpoint({ routing: 'straight', points: [{ x: 0, y: 0 }, { x: 0, y: 40 }] })).toEqual({ x: 0, y: 20 });
+  });
+});
+
+describe('getLinkObstacles', () => {
+  it('keeps visible nodes other than guides and links', () => {
+    const objects: CanvasObject[] = [
+      box('page', 0, 0, 800, 1000),
+      text('shown', 10, 40),
+      { ...text('hidden', 10, 80), visible: false },
+      link('shown', 'page')
+    ];
+
+    expect(getLinkObstacles(objects).map(item => item.id)).toEqual(['shown']);
+    expect(getLinkObstacles(objects)).toBe(getLinkObstacles(objects));
+  });
+});
+
+describe('link endpoints', () => {
+  it('default the markers from the link style', () => {
+    expect(getLinkMarkers(link('a', 'b'))).toEqual({ start: 'none', end: 'arrow' });
+    expect(getLinkMarkers(link('a', 'b', { style: 'dashed' }))).toEqual({ start: 'none', end: 'none' });
+    // 양방향 링크는 시작점에도 화살표
+    expect(getLinkMarkers(link('a', 'b', { startEndpoint: { nodeId: 'a', marker: 'arrow' } }))).toEqual({ start: 'arrow', end: 'arrow' });
+  });
+
+  it('update one end at a time and keep its other settings', () => {
+    const pinned = updateLinkEndpoint(link('a', 'b'), 'end', { position: 'bottom' });
+    const marked = updateLinkEndpoint(pinned, 'end', { marker: 'diamond' });
+
+    expect(marked.endEndpoint).toEqual({ nodeId: 'b', position: 'bottom', marker: 'diamond' });
+    expect(marked.startEndpoint).toBeUndefined();
+    expect(getLinkAnchors(marked)).toEqual({ start: 'auto', end: 'bottom' });
+  });
+});
+
+describe('pinned anchors', () => {
+  const left = getLinkableObjectBounds(box('left', 0, 0));
+  const right = getLinkableObjectBounds(box('right', 400, 0));
+
+  it('attach to the pinned edge and pick the closest edge on the free end', () => {
+    expect(getBestConnectionPoints(left, right, { start: 'top', end: 'auto' })).toEqual({
+      start: { x: 50, y: -8 },
+      end: { x: 392, y: 50 },
+      startEdge: 'top',
+      endEdge: 'left'
+    });
+  });
+
+  it('attach at the center but keep the direction of the closest edge', () => {
+    expect(getBestConnectionPoints(left, right, { start: 'center', end: 'auto' })).toMatchObject({
+      start: { x: 50, y: 50 },
+      startEdge: 'right'
+    });
+  });
+
+  it('are followed by link paths', () => {
+    const pinned = link('left', 'right', { endEndpoint: { nodeId: 'right', position: 'bottom' } });
+    expect(getLinkPath(pinned, box('left', 0, 0), box('right', 400, 0)).points[1]).toEqual({ x: 450, y: 108 });
+  });
+});
+
+describe('markers and labels', () => {
+  const straight = { routing: 'straight' as const, points: [{ x: 0, y: 0 }, { x: 50, y: 0 }, { x: 50, y: 40 }] };
+  const curved = { routing: 'curved' as const, points: [{ x: 0, y: 0 }, { x: 100, y: 0 }], controlPoints: [{ x: 0, y: 30 }, { x: 100, y: 30 }] as [Point, Point] };
+
+  it('point markers along the first and last segment of the path', () => {
+    expect(getLinkArrowBase(straight)).toEqual({ x: 50, y: 0 });
+    expect(getLinkStartBase(straight)).toEqual({ x: 50, y: 0 });
+    expect(getLinkArrowBase(curved)).toEqual({ x: 100, y: 30 });
+    expect(getLinkStartBase(curved)).toEqual({ x: 0, y: 30 });
+  });
+
+  it('build each marker shape at the tip', () => {
+    const base = { x: 0, y: 0 };
+    const tip = { x: 10, y: 0 };
+    expect(getLinkMarkerShape('arrow', base, tip, 8)).toEqual({ kind: 'polygon', points: [tip, { x: 2, y: -4 }, { x: 2, y: 4 }] });
+    expect(getLinkMarkerShape('dot', base, tip, 8)).toEqual({ kind: 'circle', center: tip, radius: 3.2 });
+    const diamond = getLinkMarkerShape('diamond', base, tip, 10);
+    const rounded = (point: Point) => ({ x: Math.round(point.x * 10) / 10 + 0, y: Math.round(point.y * 10) / 10 + 0 });
+    expect(diamond?.kind === 'polygon' && diamond.points.map(rounded)).toEqual([
+      { x: 10, y: 0 }, { x: 3, y: -4.5 }, { x: -4, y: 0 }, { x: 3, y: 4.5 }
+    ]);
+    expect(getLinkMarkerShape('none', base, tip, 8)).toBeNull();
+  });
+
+  it('center the label box on the middle of the path', () => {
+    const labelled = link('a', 'b', { label: 'why' });
+    const labelBox = getLinkLabelBox(labelled, { routing: 'straight', points: [{ x: 0, y: 0 }, { x: 100, y: 0 }] }, text => text.length * 10);
+
+    expect(labelBox).toEqual({
+      x: 31,
+      y: expect.closeTo(-9.6),
+      width: 38,
+      height: expect.closeTo(19.2),
+      center: { x: 50, y: 0 },
+      fontSize: 12
+    });
+    expect(getLinkLabelBox(link('a', 'b'), straight)).toBeNull();
+  });
+});
+
+describe('resolveLinkEnds', () => {
+  const a = box('a', 0, 0);
+  const b = box('b', 400, 0);
+  const c = box('c', 200, 300);
+
+  it('lets a link end on another link at the middle of its path', () => {
+    const ab = link('a', 'b');
+    const toLink = link('c', 'a-b');
+    expect(isLinkableObject(ab)).toBe(false);
+    expect(() => getLinkableObjectBounds(ab)).toThrow('Link a-b has not been resolved');
+
+    // 순서와 상관없이 먼저 필요한 링크부터 풀림
+    const resolved = resolveLinkEnds([toLink, ab], [a, b, c]);
+    expect(resolved.map(entry => entry.link.id)).toEqual(['c-a-b', 'a-b']);
+    expect(resolved[0].toObject).toBe(ab);
+    expect(isLinkableObject(ab)).toBe(true);
+    expect(getLinkableObjectBounds(ab)).toMatchObject({ left: 250, top: 50, width: 0, height: 0 });
+
+    // c 위쪽에서 a-b 중점 아래쪽으로
+    expect(getLinkPath(toLink, c, ab).points).toEqual([{ x: 250, y: 292 }, { x: 250, y: 58 }]);
+  });
+
+  it('attaches to the label box of a labelled link', () => {
+    const ab = link('a', 'b', { label: 'why' });
+    resolveLinkEnds([ab, link('c', 'a-b')], [a, b, c], label => label.length * 10);
+
+    expect(getLinkJunctions([ab])[0].bounds).toMatchObject({ left: 231, right: 269, centerX: 250 });
+  });
+
+  it('keeps the junction while the link has not moved', () => {
+    const ab = link('a', 'b');
+    resolveLinkEnds([ab], [a, b]);
+    const [junction] = getLinkJunctions([ab]);
+
+    resolveLinkEnds([ab], [a, b]);
+    expect(getLinkJunctions([ab])[0]).toBe(junction);
+    resolveLinkEnds([ab], [a, { ...b, y: 200 }]);
+    expect(getLinkJunctions([ab])[0]).not.toBe(junction);
+  });
+
+  it('leaves out links with a missing end and links that only join each other', () => {
+    const first = { ...link('a', 'second'), id: 'first' };
+    const second = { ...link('b', 'first'), id: 'second' };
+    const dangling = link('a', 'gone');
+
+    expect(resolveLinkEnds([first, second, dangling, link('a', 'b')], [a, b]).map(entry => entry.link.id)).toEqual(['a-b']);
+  });
+});
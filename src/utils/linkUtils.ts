@@ -1,8 +1,141 @@
 /**
- * Link utilities for connecting and rendering text objects
+ * Link utilities for connecting and rendering text and media objects
  */
 
-import { LinkObject, CanvasObject, PinPosition } from '../types';
+import { LinkObject, CanvasObject, PinPosition, LinkRouting, LinkAnchor, LinkMarker } from '../types';
+import { isMediaNode } from './mediaUtils';
+import { ObjectFrame, getFrameBounds, getFrameCenter, getObjectFrame, getTextLayout, rotatePoint } from './transformUtils';
+
+type Point = { x: number; y: number };
+
+/**
+ * Axis-aligned world box a link attaches to
+ */
+export interface LinkBounds {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  centerX: number;
+  centerY: number;
+  width: number;
+  height: number;
+  /** 회전된 노드의 회전 전 상자 (링크는 돌아간 변의 중점에 붙음) */
+  frame?: ObjectFrame;
+}
+export type LinkEdge = 'left' | 'right' | 'top' | 'bottom';
+
+/**
+ * World-space geometry of a link as drawn. Rendering, hit testing and
+ * export all read this, so they always agree.
+ */
+export interface LinkPath {
+  routing: LinkRouting;
+  /** 꺾이는 점을 포함한 모든 꼭짓점 (곡선은 시작/끝 두 점) */
+  points: Point[];
+  /** 곡선의 두 제어점 */
+  controlPoints?: [Point, Point];
+}
+
+/** Linkable node bounds that orthogonal routes go around */
+export interface LinkObstacle {
+  id: string;
+  bounds: LinkBounds;
+}
+
+export interface LinkAnchors {
+  start: LinkAnchor;
+  end: LinkAnchor;
+}
+
+export interface LinkMarkers {
+  start: LinkMarker;
+  end: LinkMarker;
+}
+
+/** Marker outline in the same space as the points it was built from */
+export type LinkMarkerShape =
+  | { kind: 'polygon'; points: Point[] }
+  | { kind: 'circle'; center: Point; radius: number };
+
+/** World-space box around a link label */
+export interface LinkLabelBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  center: Point;
+  fontSize: number;
+}
+
+// 곡선 제어점이 끝점에서 뻗어 나가는 거리 (두 끝점 거리 비율, 최소값)
+const CURVE_REACH_RATIO = 0.4;
+const CURVE_MIN_REACH = 30;
+// 직교 경로: 장애물과의 간격, 노드에서 수직으로 뻗는 첫 구간 길이, 꺾일 때마다 더하는 비용
+const ROUTE_MARGIN = 12;
+const ROUTE_STUB = 20;
+const ROUTE_BEND_PENALTY = 40;
+// 경로 탐색에 넣을 장애물 수 (가까운 순)
+const ROUTE_MAX_OBSTACLES = 40;
+// 곡선 히트 테스트/길이 계산용 분할 수
+const CURVE_SAMPLES = 24;
+// 라벨 글자 크기와 배경 여백 (월드 단위)
+const LINK_LABEL_FONT_SIZE = 12;
+const LINK_LABEL_PADDING = 4;
+const AUTO_ANCHORS: LinkAnchors = { start: 'auto', end: 'auto' };
+
+/**
+ * Anchors stored on the link's endpoints ('auto' when unset)
+ */
+export function getLinkAnchors(link: LinkObject): LinkAnchors {
+  return {
+    start: link.startEndpoint?.position ?? 'auto',
+    end: link.endEndpoint?.position ?? 'auto'
+  };
+}
+
+/**
+ * Markers at both ends. Links without explicit markers keep the look of
+ * their style: an arrowhead at the end for 'arrow', nothing otherwise.
+ */
+export function getLinkMarkers(link: LinkObject): LinkMarkers {
+  return {
+    start: link.startEndpoint?.marker ?? 'none',
+    end: link.endEndpoint?.marker ?? (link.style === 'arrow' ? 'arrow' : 'none')
+  };
+}
+
+/**
+ * Copy of the link with one endpoint's anchor and/or marker changed
+ */
+export function updateLinkEndpoint(
+  link: LinkObject,
+  side: 'start' | 'end',
+  changes: { position?: LinkAnchor; marker?: LinkMarker }
+): LinkObject {
+  const key = side === 'start' ? 'startEndpoint' : 'endEndpoint';
+  const nodeId = side === 'start' ? link.from : link.to;
+  return { ...link, [key]: { ...link[key], nodeId, ...changes } };
+}
+
+/**
+ * Where other links attach to a link: its label box, or the point halfway
+ * along its path.
+ */
+export interface LinkJunction {
+  link: LinkObject;
+  bounds: LinkBounds;
+}
+
+/** A link whose two ends were found, ready to draw */
+export interface ResolvedLink {
+  link: LinkObject;
+  fromObject: CanvasObject;
+  toObject: CanvasObject;
+}
+
+// 마지막으로 계산된 링크별 연결점 (같은 위치면 같은 객체를 유지해 경로 캐시가 맞도록)
+const linkJunctions = new WeakMap<LinkObject, LinkJunction>();
 
 export interface LinkRenderData {
   startX: number;
@@ -16,54 +149,102 @@ export interface LinkRenderData {
 /**
  * Calculate text object bounds
  */
-export function getTextObjectBounds(textObj: CanvasObject, measureTextWidth?: (text: string, fontSize: number) => number) {
+export function getTextObjectBounds(textObj: CanvasObject, measureTextWidth?: (text: string, fontSize: number) => number): LinkBounds {
   if (textObj.type !== 'text') {
     throw new Error('Object must be a text object');
   }
 
-  const lines = textObj.content.split('\n');
+  // Wrapped layout; falls back to approximate measurement without measureTextWidth
+  const layout = getTextLayout(textObj, measureTextWidth);
   const fontSize = textObj.fontSize * textObj.scale;
-  const lineHeight = fontSize * 1.6;
-  
-  let width: number;
-  if (measureTextWidth) {
-    // Use accurate text measurement if available
-    const maxWidth = Math.max(...lines.map(line => measureTextWidth(line, fontSize)));
-    width = maxWidth;
-  } else {
-    // Fallback to approximation
-    const approximateCharWidth = fontSize * 0.6;
-    const maxLineLength = Math.max(...lines.map(line => line.length));
-    width = maxLineLength * approximateCharWidth;
+
+  // textObj.y is the baseline, so the box starts fontSize above it
+  return frameBounds({
+    x: textObj.x,
+    y: textObj.y - fontSize,
+    width: layout.width * textObj.scale,
+    height: layout.height * textObj.scale,
+    rotation: textObj.rotation ?? 0
+  });
+}
+
+const boxBounds = (x: number, y: number, width: number, height: number): LinkBounds => ({
+  left: x,
+  right: x + width,
+  top: y,
+  bottom: y + height,
+  centerX: x + width / 2,
+  centerY: y + height / 2,
+  width,
+  height
+});
+
+// 회전된 노드는 돌아간 상자를 감싸는 상자 + 원래 상자
+const frameBounds = (frame: ObjectFrame): LinkBounds => {
+  if (!frame.rotation) return boxBounds(frame.x, frame.y, frame.width, frame.height);
+  const { minX, minY, maxX, maxY } = getFrameBounds(frame);
+  return { ...boxBounds(minX, minY, maxX - minX, maxY - minY), frame };
+};
+
+/**
+ * Calculate bounds for any linkable object (text, image, video, guide,
+ * or a link resolved by `resolveLinkEnds`)
+ */
+export function getLinkableObjectBounds(
+  obj: CanvasObject,
+  measureTextWidth?: (text: string, fontSize: number) => number
+): ReturnType<typeof getTextObjectBounds> {
+  if (obj.type === 'text') {
+    return getTextObjectBounds(obj, measureTextWidth);
   }
-  
-  // Calculate accurate height: (lines-1) * lineHeight + fontSize
-  const height = lines.length > 1 
-    ? (lines.length - 1) * lineHeight + fontSize
-    : fontSize;
-
-  // textObj.y is the baseline, so we need to adjust for proper bounds
-  const top = textObj.y - fontSize; // Move up by fontSize to get the actual top
-  const bottom = textObj.y + (height - fontSize); // Adjust bottom accordingly
-  
-  return {
-    left: textObj.x,
-    right: textObj.x + width,
-    top: top,
-    bottom: bottom,
-    centerX: textObj.x + width / 2,
-    centerY: top + height / 2, // Center Y based on actual top
-    width,
-    height
-  };
+
+  if (obj.type === 'guide') {
+    return boxBounds(obj.x, obj.y, obj.width, obj.height);
+  }
+
+  if (obj.type === 'link') {
+    const junction = linkJunctions.get(obj);
+    if (!junction) throw new Error(`Link ${obj.id} has not been resolved`);
+    return junction.bounds;
+  }
+
+  // 이미지/비디오는 x, y가 좌상단
+  return frameBounds(getObjectFrame(obj)!);
+}
+
+/**
+ * Whether links can attach to this object. Links can attach to other
+ * links once those have been resolved (drawn) this frame.
+ */
+export function isLinkableObject(obj: CanvasObject): boolean {
+  if (obj.type === 'link') return linkJunctions.has(obj);
+  return obj.type === 'text' || obj.type === 'guide' || isMediaNode(obj);
 }
 
 /**
  * Get all edge midpoints of a bounding box
  */
-function getEdgeMidpoints(bounds: ReturnType<typeof getTextObjectBounds>): Array<{ x: number; y: number; edge: string }> {
+function getEdgeMidpoints(bounds: LinkBounds): Array<{ x: number; y: number; edge: LinkEdge }> {
   const padding = 8; // Padding to avoid text overlap
   
+  if (bounds.frame) {
+    // Rotated node: midpoints of its turned sides. Each side takes the name
+    // of the direction it faces after every quarter turn
+    const { frame } = bounds;
+    const center = getFrameCenter(frame);
+    const quarterTurns = ((Math.round(frame.rotation / 90) % 4) + 4) % 4;
+    const sides: Array<Point & { edge: LinkEdge }> = [
+      { x: frame.x - padding, y: center.y, edge: 'left' },
+      { x: center.x, y: frame.y - padding, edge: 'top' },
+      { x: frame.x + frame.width + padding, y: center.y, edge: 'right' },
+      { x: center.x, y: frame.y + frame.height + padding, edge: 'bottom' }
+    ];
+    return sides.map((side, index) => ({
+      ...rotatePoint(side, center, frame.rotation),
+      edge: sides[(index + quarterTurns) % 4].edge
+    }));
+  }
+
   return [
     { x: bounds.left - padding, y: bounds.centerY, edge: 'left' },       // Left edge midpoint
     { x: bounds.right + padding, y: bounds.centerY, edge: 'right' },     // Right edge midpoint  
@@ -72,6 +253,15 @@ function getEdgeMidpoints(bounds: ReturnType<typeof getTextObjectBounds>): Array
   ];
 }
 
+/**
+ * Edge midpoints a link may attach to for the given anchor
+ */
+function getAnchorCandidates(bounds: LinkBounds, anchor: LinkAnchor): Array<{ x: number; y: number; edge: LinkEdge }> {
+  const midpoints = getEdgeMidpoints(bounds);
+  if (anchor === 'auto' || anchor === 'center') return midpoints;
+  return midpoints.filter(point => point.edge === anchor);
+}
+
 /**
  * Calculate distance between two points
  */
@@ -83,14 +273,17 @@ function calculateDistance(p1: { x: number; y: number }, p2: { x: number; y: num
 
 /**
  * Find the optimal connection points between two objects
- * Uses minimum distance between all possible edge midpoint combinations
+ * Uses minimum distance between all possible edge midpoint combinations.
+ * Pinned anchors restrict the candidates to one edge; 'center' attaches
+ * at the center but keeps the direction of the closest edge.
  */
 export function getBestConnectionPoints(
   fromBounds: ReturnType<typeof getTextObjectBounds>,
-  toBounds: ReturnType<typeof getTextObjectBounds>
-): { start: { x: number; y: number }, end: { x: number; y: number } } {
-  const fromMidpoints = getEdgeMidpoints(fromBounds);
-  const toMidpoints = getEdgeMidpoints(toBounds);
+  toBounds: ReturnType<typeof getTextObjectBounds>,
+  anchors: LinkAnchors = AUTO_ANCHORS
+): { start: { x: number; y: number }, end: { x: number; y: number }, startEdge: LinkEdge, endEdge: LinkEdge } {
+  const fromMidpoints = getAnchorCandidates(fromBounds, anchors.start);
+  const toMidpoints = getAnchorCandidates(toBounds, anchors.end);
 
   let minDistance = Infinity;
   let bestStartPoint = fromMidpoints[0];
@@ -108,9 +301,13 @@ export function getBestConnectionPoints(
     }
   }
 
+  const center = (bounds: LinkBounds) => ({ x: bounds.centerX, y: bounds.centerY });
+
   return {
-    start: { x: bestStartPoint.x, y: bestStartPoint.y },
-    end: { x: bestEndPoint.x, y: bestEndPoint.y }
+    start: anchors.start === 'center' ? center(fromBounds) : { x: bestStartPoint.x, y: bestStartPoint.y },
+    end: anchors.end === 'center' ? center(toBounds) : { x: bestEndPoint.x, y: bestEndPoint.y },
+    startEdge: bestStartPoint.edge,
+    endEdge: bestEndPoint.edge
   };
 }
 
@@ -132,24 +329,19 @@ function getBestConnectionPoint(
 export function calculateLinkEndpoints(
   fromObject: CanvasObject,
   toObject: CanvasObject,
-  measureTextWidth?: (text: string, fontSize: number) => number
+  measureTextWidth?: (text: string, fontSize: number) => number,
+  anchors: LinkAnchors = AUTO_ANCHORS
 ): LinkRenderData {
-  if (fromObject.type !== 'text' || toObject.type !== 'text') {
-    throw new Error('Links can only be created between text objects');
+  if (!isLinkableObject(fromObject) || !isLinkableObject(toObject)) {
+    throw new Error('Links can only be created between canvas nodes and resolved links');
   }
 
-  const fromBounds = getTextObjectBounds(fromObject, measureTextWidth);
-  const toBounds = getTextObjectBounds(toObject, measureTextWidth);
-
-  // Check for overlapping objects
-  const isOverlapping = !(
-    fromBounds.right < toBounds.left ||
-    fromBounds.left > toBounds.right ||
-    fromBounds.bottom < toBounds.top ||
-    fromBounds.top > toBounds.bottom
-  );
+  const fromBounds = getLinkableObjectBounds(fromObject, measureTextWidth);
+  const toBounds = getLinkableObjectBounds(toObject, measureTextWidth);
 
-  if (isOverlapping) {
+  // Check for overlapping objects (고정 위치가 없고 한쪽이 다른 쪽을 감싸지 않을 때만)
+  if (anchors.start === 'auto' && anchors.end === 'auto' && boundsOverlap(fromBounds, toBounds) &&
+      !boundsContain(fromBounds, toBounds) && !boundsContain(toBounds, fromBounds)) {
     // For overlapping objects, use centers with small offset
     return {
       startX: fromBounds.centerX,
@@ -160,7 +352,7 @@ export function calculateLinkEndpoints(
   }
 
   // Calculate optimal connection points using minimum distance algorithm
-  const connectionPoints = getBestConnectionPoints(fromBounds, toBounds);
+  const connectionPoints = getBestConnectionPoints(fromBounds, toBounds, anchors);
 
   return {
     startX: connectionPoints.start.x,
@@ -170,6 +362,477 @@ export function calculateLinkEndpoints(
   };
 }
 
+// 가이드 안의 노드처럼 한쪽이 다른 쪽을 완전히 감쌀 때
+function boundsContain(outer: LinkBounds, inner: LinkBounds): boolean {
+  return outer.left <= inner.left && outer.right >= inner.right && outer.top <= inner.top && outer.bottom >= inner.bottom;
+}
+
+function boundsOverlap(a: LinkBounds, b: LinkBounds): boolean {
+  return !(a.right < b.left || a.left > b.right || a.bottom < b.top || a.top > b.bottom);
+}
+
+const EDGE_NORMALS: Record<LinkEdge, Point> = {
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 },
+  top: { x: 0, y: -1 },
+  bottom: { x: 0, y: 1 }
+};
+
+function offsetFromEdge(point: Point, edge: LinkEdge, distance: number): Point {
+  const normal = EDGE_NORMALS[edge];
+  return { x: point.x + normal.x * distance, y: point.y + normal.y * distance };
+}
+
+// 마지막 장애물 목록 (캔버스 객체 배열이 그대로면 재사용)
+let lastObstacles: {
+  objects: CanvasObject[];
+  measureTextWidth?: (text: string, fontSize: number) => number;
+  obstacles: LinkObstacle[];
+} | null = null;
+
+/**
+ * Bounds of every linkable node, for orthogonal routing
+ */
+export function getLinkObstacles(
+  canvasObjects: CanvasObject[],
+  measureTextWidth?: (text: string, fontSize: number) => number
+): LinkObstacle[] {
+  if (lastObstacles?.objects === canvasObjects && lastObstacles.measureTextWidth === measureTextWidth) {
+    return lastObstacles.obstacles;
+  }
+  // 가이드는 안에 든 노드를 감싸므로 장애물에서 제외
+  const obstacles = canvasObjects
+    .filter(obj => isLinkableObject(obj) && obj.type !== 'guide' && obj.type !== 'link' && obj.visible !== false)
+    .map(obj => ({ id: obj.id.toString(), bounds: getLinkableObjectBounds(obj, measureTextWidth) }));
+  lastObstacles = { objects: canvasObjects, measureTextWidth, obstacles };
+  return obstacles;
+}
+
+interface RouteBox {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+const inflate = (bounds: LinkBounds, margin: number): RouteBox => ({
+  left: bounds.left - margin,
+  right: bounds.right + margin,
+  top: bounds.top - margin,
+  bottom: bounds.bottom + margin
+});
+
+const isInsideBox = (point: Point, box: RouteBox) =>
+  point.x > box.left && point.x < box.right && point.y > box.top && point.y < box.bottom;
+
+/** Drop repeated points and points that sit on a straight run between their neighbours */
+function simplifyPolyline(points: Point[]): Point[] {
+  const distinct = points.filter((point, index) =>
+    index === 0 || point.x !== points[index - 1].x || point.y !== points[index - 1].y);
+  return distinct.filter((point, index) => {
+    if (index === 0 || index === distinct.length - 1) return true;
+    const prev = distinct[index - 1];
+    const next = distinct[index + 1];
+    return Math.abs((point.x - prev.x) * (next.y - point.y) - (point.y - prev.y) * (next.x - point.x)) > 1e-6;
+  });
+}
+
+/** Minimal binary heap of states ordered by cost */
+function heapPush(heap: number[], state: number, cost: Float64Array) {
+  heap.push(state);
+  for (let index = heap.length - 1; index > 0;) {
+    const parent = (index - 1) >> 1;
+    if (cost[heap[parent]] <= cost[heap[index]]) break;
+    [heap[parent], heap[index]] = [heap[index], heap[parent]];
+    index = parent;
+  }
+}
+
+function heapPop(heap: number[], cost: Float64Array): number {
+  const top = heap[0];
+  const last = heap.pop()!;
+  if (heap.length > 0) {
+    heap[0] = last;
+    for (let index = 0; ;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < heap.length && cost[heap[left]] < cost[heap[smallest]]) smallest = left;
+      if (right < heap.length && cost[heap[right]] < cost[heap[smallest]]) smallest = right;
+      if (smallest === index) break;
+      [heap[smallest], heap[index]] = [heap[index], heap[smallest]];
+      index = smallest;
+    }
+  }
+  return top;
+}
+
+/**
+ * Orthogonal route between two edge points that goes around `boxes`.
+ * Searches a sparse grid built from the box borders (the usual orthogonal
+ * connector approach) with a penalty per bend, so routes stay simple.
+ */
+function routeOrthogonal(start: Point, startEdge: LinkEdge, end: Point, endEdge: LinkEdge, boxes: RouteBox[]): Point[] {
+  const from = offsetFromEdge(start, startEdge, ROUTE_STUB);
+  const to = offsetFromEdge(end, endEdge, ROUTE_STUB);
+  const startHorizontal = startEdge === 'left' || startEdge === 'right';
+  const endHorizontal = endEdge === 'left' || endEdge === 'right';
+  const fallback = startHorizontal
+    ? [start, from, { x: (from.x + to.x) / 2, y: from.y }, { x: (from.x + to.x) / 2, y: to.y }, to, end]
+    : [start, from, { x: from.x, y: (from.y + to.y) / 2 }, { x: to.x, y: (from.y + to.y) / 2 }, to, end];
+
+  // 두 끝점을 감싸는 상자를 넓혀 그 안의 장애물만 고려
+  const spread = Math.max(Math.abs(from.x - to.x), Math.abs(from.y - to.y), 200);
+  const area: RouteBox = {
+    left: Math.min(from.x, to.x) - spread / 2,
+    right: Math.max(from.x, to.x) + spread / 2,
+    top: Math.min(from.y, to.y) - spread / 2,
+    bottom: Math.max(from.y, to.y) + spread / 2
+  };
+  const center = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+  const nearby = boxes
+    .filter(box => box.right > area.left && box.left < area.right && box.bottom > area.top && box.top < area.bottom)
+    // 끝점이 안에 들어가 버린 상자는 피할 수 없으므로 제외
+    .filter(box => !isInsideBox(from, box) && !isInsideBox(to, box))
+    .sort((a, b) =>
+      Math.hypot((a.left + a.right) / 2 - center.x, (a.top + a.bottom) / 2 - center.y) -
+      Math.hypot((b.left + b.right) / 2 - center.x, (b.top + b.bottom) / 2 - center.y))
+    .slice(0, ROUTE_MAX_OBSTACLES);
+
+  const unique = (values: number[]) => Array.from(new Set(values)).sort((a, b) => a - b);
+  const xs = unique([from.x, to.x, center.x, area.left, area.right, ...nearby.flatMap(box => [box.left, box.right])]);
+  const ys = unique([from.y, to.y, center.y, area.top, area.bottom, ...nearby.flatMap(box => [box.top, box.bottom])]);
+  const blocked = (point: Point) => nearby.some(box => isInsideBox(point, box));
+
+  // 상태 = (격자 점, 들어온 방향 0: 가로 / 1: 세로)
+  const width = xs.length;
+  const stateCount = xs.length * ys.length * 2;
+  const cost = new Float64Array(stateCount).fill(Infinity);
+  const previous = new Int32Array(stateCount).fill(-1);
+  const done = new Uint8Array(stateCount);
+  const stateOf = (i: number, j: number, axis: number) => (j * width + i) * 2 + axis;
+
+  const startI = xs.indexOf(from.x);
+  const startJ = ys.indexOf(from.y);
+  const endI = xs.indexOf(to.x);
+  const endJ = ys.indexOf(to.y);
+  const firstState = stateOf(startI, startJ, startHorizontal ? 0 : 1);
+  cost[firstState] = 0;
+
+  // 비용이 줄면 다시 넣고, 이미 확정된 상태는 꺼낼 때 건너뜀
+  const heap: number[] = [firstState];
+  let found = -1;
+  while (heap.length > 0) {
+    const state = heapPop(heap, cost);
+    if (done[state]) continue;
+    done[state] = 1;
+
+    const axis = state % 2;
+    const cell = (state - axis) / 2;
+    const i = cell % width;
+    const j = (cell - i) / width;
+    if (i === endI && j === endJ) {
+      found = state;
+      break;
+    }
+
+    const neighbours: Array<[number, number, number]> = [[i - 1, j, 0], [i + 1, j, 0], [i, j - 1, 1], [i, j + 1, 1]];
+    for (const [ni, nj, nextAxis] of neighbours) {
+      if (ni < 0 || nj < 0 || ni >= xs.length || nj >= ys.length) continue;
+      const point = { x: xs[ni], y: ys[nj] };
+      const midpoint = { x: (xs[i] + point.x) / 2, y: (ys[j] + point.y) / 2 };
+      if (blocked(point) || blocked(midpoint)) continue;
+      const arrivesAtEnd = ni === endI && nj === endJ;
+      const bends = (nextAxis !== axis ? 1 : 0) + (arrivesAtEnd && nextAxis !== (endHorizontal ? 0 : 1) ? 1 : 0);
+      const nextState = stateOf(ni, nj, nextAxis);
+      const nextCost = cost[state] + Math.abs(xs[i] - point.x) + Math.abs(ys[j] - point.y) + bends * ROUTE_BEND_PENALTY;
+      if (nextCost < cost[nextState]) {
+        cost[nextState] = nextCost;
+        previous[nextState] = state;
+        heapPush(heap, nextState, cost);
+      }
+    }
+  }
+
+  if (found === -1) return simplifyPolyline(fallback);
+
+  const route: Point[] = [];
+  for (let state = found; state !== -1; state = previous[state]) {
+    const cell = (state - (state % 2)) / 2;
+    route.unshift({ x: xs[cell % width], y: ys[Math.floor(cell / width)] });
+  }
+  return simplifyPolyline([start, ...route, end]);
+}
+
+// 링크별 경로 캐시 (링크/양 끝 노드/장애물 참조가 같으면 재사용)
+const pathCache = new WeakMap<LinkObject, {
+  fromObject: CanvasObject;
+  toObject: CanvasObject;
+  fromJunction?: LinkJunction;
+  toJunction?: LinkJunction;
+  obstacles: LinkObstacle[];
+  path: LinkPath;
+}>();
+
+/**
+ * Geometry of a link between two nodes, following `link.routing`.
+ * Orthogonal routes go around `obstacles` (see `getLinkObstacles`).
+ */
+export function getLinkPath(
+  link: LinkObject,
+  fromObject: CanvasObject,
+  toObject: CanvasObject,
+  obstacles: LinkObstacle[] = [],
+  measureTextWidth?: (text: string, fontSize: number) => number
+): LinkPath {
+  // 링크에 붙은 끝은 그 링크가 움직여도 객체가 같으므로 연결점도 비교
+  const fromJunction = fromObject.type === 'link' ? linkJunctions.get(fromObject) : undefined;
+  const toJunction = toObject.type === 'link' ? linkJunctions.get(toObject) : undefined;
+  const cached = pathCache.get(link);
+  if (cached && cached.fromObject === fromObject && cached.toObject === toObject && cached.obstacles === obstacles &&
+      cached.fromJunction === fromJunction && cached.toJunction === toJunction) {
+    return cached.path;
+  }
+
+  const routing = link.routing ?? 'straight';
+  const anchors = getLinkAnchors(link);
+  const fromBounds = getLinkableObjectBounds(fromObject, measureTextWidth);
+  const toBounds = getLinkableObjectBounds(toObject, measureTextWidth);
+  let path: LinkPath;
+
+  if (routing === 'straight' || boundsOverlap(fromBounds, toBounds)) {
+    // 겹친 노드는 가장자리 방향이 없으므로 직선으로
+    const endpoints = calculateLinkEndpoints(fromObject, toObject, measureTextWidth, anchors);
+    path = { routing, points: [{ x: endpoints.startX, y: endpoints.startY }, { x: endpoints.endX, y: endpoints.endY }] };
+  } else {
+    const { start, end, startEdge, endEdge } = getBestConnectionPoints(fromBounds, toBounds, anchors);
+    if (routing === 'curved') {
+      const reach = Math.max(CURVE_MIN_REACH, calculateDistance(start, end) * CURVE_REACH_RATIO);
+      path = {
+        routing,
+        points: [start, end],
+        controlPoints: [offsetFromEdge(start, startEdge, reach), offsetFromEdge(end, endEdge, reach)]
+      };
+    } else {
+      const boxes = [
+        inflate(fromBounds, ROUTE_MARGIN),
+        inflate(toBounds, ROUTE_MARGIN),
+        ...obstacles
+          .filter(obstacle => obstacle.id !== link.from && obstacle.id !== link.to)
+          .map(obstacle => inflate(obstacle.bounds, ROUTE_MARGIN))
+      ];
+      path = { routing, points: routeOrthogonal(start, startEdge, end, endEdge, boxes) };
+    }
+  }
+
+  pathCache.set(link, { fromObject, toObject, fromJunction, toJunction, obstacles, path });
+  return path;
+}
+
+function updateLinkJunction(link: LinkObject, bounds: LinkBounds): LinkJunction {
+  const previous = linkJunctions.get(link);
+  if (previous && previous.bounds.left === bounds.left && previous.bounds.top === bounds.top &&
+      previous.bounds.width === bounds.width && previous.bounds.height === bounds.height) {
+    return previous;
+  }
+  const junction = { link, bounds };
+  linkJunctions.set(link, junction);
+  return junction;
+}
+
+/**
+ * Find both ends of every link. An end may be any canvas node or another
+ * link, which it joins at that link's label or midpoint. Links with a
+ * missing end, or that only join each other in a cycle, are left out.
+ * Resolving also records each link's junction, so links become linkable
+ * targets (see `isLinkableObject`).
+ */
+export function resolveLinkEnds(
+  links: LinkObject[],
+  canvasObjects: CanvasObject[],
+  measureTextWidth?: (text: string, fontSize: number) => number,
+  obstacles: LinkObstacle[] = []
+): ResolvedLink[] {
+  const objectsById = new Map(canvasObjects.map(obj => [obj.id.toString(), obj]));
+  const linksById = new Map(links.map(link => [link.id, link]));
+  const resolved = new Map<string, ResolvedLink | null>();
+
+  const resolve = (link: LinkObject): ResolvedLink | null => {
+    if (resolved.has(link.id)) return resolved.get(link.id) ?? null;
+    resolved.set(link.id, null); // 순환 참조 방지
+
+    const resolveEnd = (id: string): CanvasObject | null => {
+      const obj = objectsById.get(id);
+      if (obj) return isLinkableObject(obj) ? obj : null;
+      const target = linksById.get(id);
+      return target && resolve(target) ? target : null;
+    };
+    const fromObject = resolveEnd(link.from);
+    const toObject = resolveEnd(link.to);
+    if (!fromObject || !toObject) return null;
+
+    const path = getLinkPath(link, fromObject, toObject, obstacles, measureTextWidth);
+    const labelBox = getLinkLabelBox(link, path, measureTextWidth);
+    const mid = getLinkPathMidpoint(path);
+    updateLinkJunction(link, labelBox
+      ? boxBounds(labelBox.x, labelBox.y, labelBox.width, labelBox.height)
+      : boxBounds(mid.x, mid.y, 0, 0));
+
+    const entry = { link, fromObject, toObject };
+    resolved.set(link.id, entry);
+    return entry;
+  };
+
+  return links.map(resolve).filter((entry): entry is ResolvedLink => entry !== null);
+}
+
+/**
+ * Junctions of links resolved by the last `resolveLinkEnds` call
+ */
+export function getLinkJunctions(links: LinkObject[]): LinkJunction[] {
+  return links.flatMap(link => {
+    const junction = linkJunctions.get(link);
+    return junction ? [junction] : [];
+  });
+}
+
+function cubicPoint(p0: Point, p1: Point, p2: Point, p3: Point, t: number): Point {
+  const u = 1 - t;
+  return {
+    x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+    y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y
+  };
+}
+
+/**
+ * The path as a polyline (curves are sampled)
+ */
+export function getLinkPathPolyline(path: LinkPath): Point[] {
+  if (!path.controlPoints) return path.points;
+  const [start, end] = path.points;
+  const [c1, c2] = path.controlPoints;
+  return Array.from({ length: CURVE_SAMPLES + 1 }, (_, index) => cubicPoint(start, c1, c2, end, index / CURVE_SAMPLES));
+}
+
+/**
+ * Point halfway along the path (selection handle position)
+ */
+export function getLinkPathMidpoint(path: LinkPath): Point {
+  const polyline = getLinkPathPolyline(path);
+  const lengths = polyline.slice(1).map((point, index) => calculateDistance(polyline[index], point));
+  let remaining = lengths.reduce((sum, length) => sum + length, 0) / 2;
+  for (let index = 0; index < lengths.length; index++) {
+    if (remaining <= lengths[index] && lengths[index] > 0) {
+      const t = remaining / lengths[index];
+      const a = polyline[index];
+      const b = polyline[index + 1];
+      return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+    }
+    remaining -= lengths[index];
+  }
+  return polyline[0];
+}
+
+/**
+ * SVG path data for a link path, in world coordinates
+ */
+export function getLinkPathData(path: LinkPath): string {
+  const [start, ...rest] = path.points;
+  if (path.controlPoints) {
+    const [c1, c2] = path.controlPoints;
+    const end = path.points[path.points.length - 1];
+    return `M ${start.x} ${start.y} C ${c1.x} ${c1.y}, ${c2.x} ${c2.y}, ${end.x} ${end.y}`;
+  }
+  return `M ${start.x} ${start.y} ${rest.map(point => `L ${point.x} ${point.y}`).join(' ')}`;
+}
+
+/**
+ * Direction the path arrives at its end, as the point the arrowhead points from
+ */
+export function getLinkArrowBase(path: LinkPath): Point {
+  const end = path.points[path.points.length - 1];
+  if (path.controlPoints) {
+    const c2 = path.controlPoints[1];
+    return c2.x === end.x && c2.y === end.y ? path.points[0] : c2;
+  }
+  return path.points[path.points.length - 2] ?? end;
+}
+
+/**
+ * Direction the path leaves its start, as the point the start marker points from
+ */
+export function getLinkStartBase(path: LinkPath): Point {
+  const start = path.points[0];
+  if (path.controlPoints) {
+    const c1 = path.controlPoints[0];
+    return c1.x === start.x && c1.y === start.y ? path.points[path.points.length - 1] : c1;
+  }
+  return path.points[1] ?? start;
+}
+
+/**
+ * Outline of a marker at `tip`, oriented along the path arriving from `base`
+ */
+export function getLinkMarkerShape(marker: LinkMarker, base: Point, tip: Point, size: number): LinkMarkerShape | null {
+  switch (marker) {
+    case 'arrow':
+      return { kind: 'polygon', points: getArrowheadPolygon(base, tip, size) };
+    case 'dot':
+      return { kind: 'circle', center: tip, radius: size * 0.4 };
+    case 'diamond': {
+      const angle = Math.atan2(tip.y - base.y, tip.x - base.x);
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      const corner = (dx: number, dy: number) => ({ x: tip.x + dx * cos - dy * sin, y: tip.y + dx * sin + dy * cos });
+      return { kind: 'polygon', points: [tip, corner(-size * 0.7, -size * 0.45), corner(-size * 1.4, 0), corner(-size * 0.7, size * 0.45)] };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Box around the link's label at the middle of the path, or null without a label
+ */
+export function getLinkLabelBox(
+  link: LinkObject,
+  path: LinkPath,
+  measureTextWidth?: (text: string, fontSize: number) => number
+): LinkLabelBox | null {
+  if (!link.label) return null;
+  const fontSize = LINK_LABEL_FONT_SIZE;
+  const textWidth = measureTextWidth ? measureTextWidth(link.label, fontSize) : link.label.length * fontSize * 0.6;
+  const width = textWidth + LINK_LABEL_PADDING * 2;
+  const height = fontSize * 1.6;
+  const center = getLinkPathMidpoint(path);
+  return { x: center.x - width / 2, y: center.y - height / 2, width, height, center, fontSize };
+}
+
+function fillMarkerShape(ctx: CanvasRenderingContext2D, shape: LinkMarkerShape | null) {
+  if (!shape) return;
+  ctx.beginPath();
+  if (shape.kind === 'circle') {
+    ctx.arc(shape.center.x, shape.center.y, shape.radius, 0, Math.PI * 2);
+  } else {
+    shape.points.forEach((point, index) => index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+    ctx.closePath();
+  }
+  ctx.fill();
+}
+
+function traceLinkPath(ctx: CanvasRenderingContext2D, path: LinkPath, toScreen: (point: Point) => Point) {
+  const [start, ...rest] = path.points.map(toScreen);
+  ctx.beginPath();
+  ctx.moveTo(start.x, start.y);
+  if (path.controlPoints) {
+    const [c1, c2] = path.controlPoints.map(toScreen);
+    const end = rest[rest.length - 1];
+    ctx.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, end.x, end.y);
+  } else {
+    rest.forEach(point => ctx.lineTo(point.x, point.y));
+  }
+}
+
 /**
  * Render a link on canvas context
  */
@@ -182,17 +845,21 @@ export function renderLink(
   canvasOffset: { x: number; y: number },
   isSelected: boolean = false,
   isHovered: boolean = false,
-  measureTextWidth?: (text: string, fontSize: number) => number
+  measureTextWidth?: (text: string, fontSize: number) => number,
+  obstacles: LinkObstacle[] = [],
+  labelBackground: string = '#ffffff'
 ) {
-  const linkData = calculateLinkEndpoints(fromObject, toObject, measureTextWidth);
-  
+  const path = getLinkPath(link, fromObject, toObject, obstacles, measureTextWidth);
+
   // Convert world coordinates to screen coordinates
-  const startX = linkData.startX * scale + canvasOffset.x;
-  const startY = linkData.startY * scale + canvasOffset.y;
-  const endX = linkData.endX * scale + canvasOffset.x;
-  const endY = linkData.endY * scale + canvasOffset.y;
+  const toScreen = (point: Point) => ({ x: point.x * scale + canvasOffset.x, y: point.y * scale + canvasOffset.y });
+  const start = toScreen(path.points[0]);
+  const end = toScreen(path.points[path.points.length - 1]);
+  const markers = getLinkMarkers(link);
+  const labelBox = getLinkLabelBox(link, path, measureTextWidth);
 
   ctx.save();
+  ctx.lineJoin = 'round';
   
   // Selection and hover highlighting
   if (isSelected || isHovered) {
@@ -200,9 +867,7 @@ export function renderLink(
     ctx.lineWidth = isSelected ? 4 : 3;
     ctx.globalAlpha = 0.7;
     
-    ctx.beginPath();
-    ctx.moveTo(startX, startY);
-    ctx.lineTo(endX, endY);
+    traceLinkPath(ctx, path, toScreen);
     ctx.stroke();
     
     ctx.globalAlpha = 1.0;
@@ -219,29 +884,42 @@ export function renderLink(
     ctx.setLineDash([]);
   }
 
-  ctx.beginPath();
-  
-  // Always draw straight line
-  ctx.moveTo(startX, startY);
-  ctx.lineTo(endX, endY);
-  
+  traceLinkPath(ctx, path, toScreen);
   ctx.stroke();
+  ctx.setLineDash([]);
 
-  // Draw arrowhead for arrow style
-  if (link.style === 'arrow') {
+  // Draw end markers (screen-space size, like the arrowhead)
+  ctx.fillStyle = link.color;
+  fillMarkerShape(ctx, getLinkMarkerShape(markers.start, toScreen(getLinkStartBase(path)), start, 10));
+  fillMarkerShape(ctx, getLinkMarkerShape(markers.end, toScreen(getLinkArrowBase(path)), end, 10));
+
+  // Label on a background box that hides the line under it
+  if (labelBox) {
+    const topLeft = toScreen(labelBox);
+    const center = toScreen(labelBox.center);
+    ctx.fillStyle = labelBackground;
+    ctx.fillRect(topLeft.x, topLeft.y, labelBox.width * scale, labelBox.height * scale);
+    if (isSelected) {
+      ctx.strokeStyle = '#007bff';
+      ctx.lineWidth = 1;
+      ctx.strokeRect(topLeft.x, topLeft.y, labelBox.width * scale, labelBox.height * scale);
+    }
     ctx.fillStyle = link.color;
-    drawArrowhead(ctx, startX, startY, endX, endY, 10);
+    ctx.font = `400 ${labelBox.fontSize * scale}px "JetBrains Mono", monospace`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(link.label ?? '', center.x, center.y);
   }
 
   // Draw selection handles for selected links
   if (isSelected) {
-    const midX = (startX + endX) / 2;
-    const midY = (startY + endY) / 2;
-    
-    ctx.fillStyle = '#007bff';
-    ctx.beginPath();
-    ctx.arc(midX, midY, 4, 0, Math.PI * 2);
-    ctx.fill();
+    if (!labelBox) {
+      const mid = toScreen(getLinkPathMidpoint(path));
+      ctx.fillStyle = '#007bff';
+      ctx.beginPath();
+      ctx.arc(mid.x, mid.y, 4, 0, Math.PI * 2);
+      ctx.fill();
+    }
     
     // Draw small handles at endpoints
     ctx.fillStyle = '#ffffff';
@@ -249,12 +927,12 @@ export function renderLink(
     ctx.lineWidth = 2;
     
     ctx.beginPath();
-    ctx.arc(startX, startY, 3, 0, Math.PI * 2);
+    ctx.arc(start.x, start.y, 3, 0, Math.PI * 2);
     ctx.fill();
     ctx.stroke();
     
     ctx.beginPath();
-    ctx.arc(endX, endY, 3, 0, Math.PI * 2);
+    ctx.arc(end.x, end.y, 3, 0, Math.PI * 2);
     ctx.fill();
     ctx.stroke();
   }
@@ -262,6 +940,17 @@ export function renderLink(
   ctx.restore();
 }
 
+/**
+ * Corners of an arrowhead whose tip is at `to`, pointing away from `from`
+ */
+export function getArrowheadPolygon(from: Point, to: Point, size: number): Point[] {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const corner = (dx: number, dy: number) => ({ x: to.x + dx * cos - dy * sin, y: to.y + dx * sin + dy * cos });
+  return [to, corner(-size, -size / 2), corner(-size, size / 2)];
+}
+
 /**
  * Draw arrowhead at the end of a line
  */
@@ -273,22 +962,14 @@ function drawArrowhead(
   toY: number,
   size: number
 ) {
-  const dx = toX - fromX;
-  const dy = toY - fromY;
-  const angle = Math.atan2(dy, dx);
-
-  ctx.save();
-  ctx.translate(toX, toY);
-  ctx.rotate(angle);
+  const [tip, left, right] = getArrowheadPolygon({ x: fromX, y: fromY }, { x: toX, y: toY }, size);
 
   ctx.beginPath();
-  ctx.moveTo(0, 0);
-  ctx.lineTo(-size, -size / 2);
-  ctx.lineTo(-size, size / 2);
+  ctx.moveTo(tip.x, tip.y);
+  ctx.lineTo(left.x, left.y);
+  ctx.lineTo(right.x, right.y);
   ctx.closePath();
   ctx.fill();
-
-  ctx.restore();
 }
 
 /**
@@ -354,11 +1035,11 @@ export function calculatePreviewConnectionPoint(
   targetWorldPos: { x: number; y: number },
   measureTextWidth?: (text: string, fontSize: number) => number
 ): { x: number; y: number } {
-  if (sourceObject.type !== 'text') {
-    return { x: sourceObject.x, y: sourceObject.y };
+  if (!isLinkableObject(sourceObject)) {
+    return 'x' in sourceObject ? { x: sourceObject.x, y: sourceObject.y } : targetWorldPos;
   }
 
-  const sourceBounds = getTextObjectBounds(sourceObject, measureTextWidth);
+  const sourceBounds = getLinkableObjectBounds(sourceObject, measureTextWidth);
   
   // Create a fake target bounds at the cursor position
   const targetBounds = {
@@ -425,7 +1106,7 @@ export function getLinkedObjectIds(links: LinkObject[]): Set<string> {
 }
 
 /**
- * Check if a point is near a link line for selection
+ * Check if a point is near a link's drawn path for selection
  */
 export function isPointOnLink(
   point: { x: number; y: number },
@@ -433,21 +1114,26 @@ export function isPointOnLink(
   fromObject: CanvasObject,
   toObject: CanvasObject,
   tolerance: number = 0,
-  measureTextWidth?: (text: string, fontSize: number) => number
+  measureTextWidth?: (text: string, fontSize: number) => number,
+  obstacles: LinkObstacle[] = []
 ): boolean {
-  if (fromObject.type !== 'text' || toObject.type !== 'text') {
+  if (!isLinkableObject(fromObject) || !isLinkableObject(toObject)) {
     return false;
   }
 
-  // Use bounding box centers for collision detection instead of edge connection points
-  const fromBounds = getTextObjectBounds(fromObject, measureTextWidth);
-  const toBounds = getTextObjectBounds(toObject, measureTextWidth);
-  
-  const distance = distancePointToLine(
+  // 그려진 경로와 같은 도형으로 판정 (라벨 상자 포함)
+  const path = getLinkPath(link, fromObject, toObject, obstacles, measureTextWidth);
+  const labelBox = getLinkLabelBox(link, path, measureTextWidth);
+  if (labelBox && point.x >= labelBox.x && point.x <= labelBox.x + labelBox.width &&
+      point.y >= labelBox.y && point.y <= labelBox.y + labelBox.height) {
+    return true;
+  }
+  const polyline = getLinkPathPolyline(path);
+  const distance = Math.min(...polyline.slice(1).map((end, index) => distancePointToLine(
     point.x, point.y,
-    fromBounds.centerX, fromBounds.centerY,
-    toBounds.centerX, toBounds.centerY
-  );
+    polyline[index].x, polyline[index].y,
+    end.x, end.y
+  )));
   
   // Use a minimum tolerance of 3 units for usability
   const effectiveTolerance = Math.max(tolerance, 3);
@@ -504,14 +1190,11 @@ export function findLinkAtPosition(
   tolerance: number = 10,
   measureTextWidth?: (text: string, fontSize: number) => number
 ): LinkObject | null {
-  for (const link of links) {
-    const fromObject = canvasObjects.find(obj => obj.id.toString() === link.from);
-    const toObject = canvasObjects.find(obj => obj.id.toString() === link.to);
-
-    if (fromObject && toObject && isPointOnLink(worldPos, link, fromObject, toObject, tolerance, measureTextWidth)) {
-      return link;
-    }
-  }
+  const obstacles = getLinkObstacles(canvasObjects, measureTextWidth);
+  const resolved = resolveLinkEnds(links, canvasObjects, measureTextWidth, obstacles);
+  const hit = resolved.find(({ link, fromObject, toObject }) =>
+    isPointOnLink(worldPos, link, fromObject, toObject, tolerance, measureTextWidth, obstacles)
+  );
 
-  return null;
+  return hit?.link ?? null;
 }
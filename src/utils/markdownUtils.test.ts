@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { GuideObject, LinkObject, TextObject } from '../types';
+import { exportCanvasToMarkdown, importMarkdownToCanvas, sortByReadingOrder } from './markdownUtils';
+
+const FONT_SIZE = 10;
+const LINE_HEIGHT = FONT_SIZE * 1.6;
+
+const line = (id: string, content: string, x: number, y: number, extra: Partial<TextObject> = {}): TextObject => ({
+  id,
+  type: 'text',
+  content,
+  x,
+  y,
+  scale: 1,
+  fontSize: FONT_SIZE,
+  ...extra
+});
+
+const tagged = (channelIds: string[]): Partial<TextObject> => ({
+  _metadata: { createdAt: '2026-10-19T09:00:00.000Z', updatedAt: '2026-10-19T09:00:00.000Z', channelIds }
+});
+
+const link = (id: string, from: string, to: string): LinkObject => ({ id, type: 'link', from, to, style: 'arrow', color: '#666666' });
+
+const importOptions = { origin: { x: 0, y: 0 }, fontSize: FONT_SIZE, maxCharsPerLine: 80 };
+
+describe('sortByReadingOrder', () => {
+  it('reads rows top to bottom and items in a row left to right', () => {
+    const items = [
+      line('below', 'below', 0, LINE_HEIGHT),
+      line('right', 'right', 200, 3),
+      line('left', 'left', 0, 0)
+    ];
+    // 3만큼 아래인 줄은 반 줄 안쪽이므로 같은 행
+    expect(sortByReadingOrder(items).map(item => item.id)).toEqual(['left', 'right', 'below']);
+  });
+});
+
+describe('exportCanvasToMarkdown', () => {
+  it('writes lines in reading order and starts a paragraph at large gaps', () => {
+    const canvas = [
+      line('d', 'fourth', 0, LINE_HEIGHT * 4),
+      line('c', 'third', 0, LINE_HEIGHT),
+      line('b', 'second', 200, 3),
+      line('a', 'first', 0, 0)
+    ];
+    expect(exportCanvasToMarkdown(canvas, [])).toBe('first\nsecond\nthird\n\nfourth\n');
+  });
+
+  it('writes channels as trailing tags without the internal default channel', () => {
+    const canvas = [line('a', 'buy milk', 0, 0, tagged(['default', 'ideas', 'todo']))];
+    expect(exportCanvasToMarkdown(canvas, [])).toBe('buy milk #ideas #todo\n');
+  });
+
+  it('writes AI responses as block quotes and links as footnotes', () => {
+    const canvas = [
+      line('q', 'what is a typewriter?', 0, 0),
+      line('r', 'a machine for writing', 0, LINE_HEIGHT * 3, { isAIResponse: true })
+    ];
+    expect(exportCanvasToMarkdown(canvas, [link('link-1', 'q', 'r')])).toBe(
+      'what is a typewriter? [^1]\n\n> a machine for writing\n\n[^1]: → a machine for writing\n'
+    );
+  });
+
+  it('groups content by page guide and puts the rest last', () => {
+    const guide: GuideObject = { id: 'page-1', type: 'guide', guideType: 'a4', label: 'Intro', x: 0, y: 0, width: 794, height: 1123 };
+    const canvas = [guide, line('outside', 'outside', 2000, 50), line('inside', 'inside', 40, 60)];
+    expect(exportCanvasToMarkdown(canvas, [])).toBe('<!-- Page 1: Intro -->\n\ninside\n\n<!-- Outside pages -->\n\noutside\n');
+  });
+});
+
+describe('importMarkdownToCanvas', () => {
+  it('lays lines out one row apart with one blank row between paragraphs', () => {
+    const { canvasObjects, lineCount } = importMarkdownToCanvas('<!-- Page 1 -->\n\nfirst\nsecond\n\n\n\nthird', importOptions);
+
+    expect(canvasObjects.map(obj => [obj.content, obj.y])).toEqual([
+      ['first', 0],
+      ['second', LINE_HEIGHT],
+      ['third', LINE_HEIGHT * 3]
+    ]);
+    expect(lineCount).toBe(4);
+  });
+
+  it('turns trailing tags into channels and quotes into AI responses', () => {
+    const { canvasObjects } = importMarkdownToCanvas('buy milk #Ideas #todo\n> sure #ideas', importOptions);
+
+    expect(canvasObjects[0]).toMatchObject({ content: 'buy milk', _metadata: { channelIds: ['default', 'ideas', 'todo'] } });
+    expect(canvasObjects[0].isAIResponse).toBeUndefined();
+    expect(canvasObjects[1]).toMatchObject({ content: 'sure', isAIResponse: true, _metadata: { channelIds: ['default', 'ideas'] } });
+  });
+
+  it('wraps long lines to the typewriter width', () => {
+    const { canvasObjects } = importMarkdownToCanvas('one two three four', { ...importOptions, maxCharsPerLine: 9 });
+    expect(canvasObjects.map(obj => obj.content)).toEqual(['one two', 'three', 'four']);
+  });
+
+  it('round-trips an exported canvas with channels, AI quotes and links', () => {
+    const canvas = [
+      line('q', 'what is a typewriter?', 0, 0, tagged(['default', 'questions'])),
+      line('r', 'a machine for writing', 0, LINE_HEIGHT * 2, { isAIResponse: true }),
+      line('s', 'with keys', 0, LINE_HEIGHT * 3, { isAIResponse: true })
+    ];
+    const markdown = exportCanvasToMarkdown(canvas, [link('link-1', 'q', 'r')]);
+
+    const imported = importMarkdownToCanvas(markdown, importOptions);
+    expect(imported.links).toHaveLength(1);
+    expect(imported.links[0]).toMatchObject({ from: imported.canvasObjects[0].id, to: imported.canvasObjects[1].id });
+    expect(exportCanvasToMarkdown(imported.canvasObjects, imported.links)).toBe(markdown);
+  });
+});
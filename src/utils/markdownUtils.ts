@@ -0,0 +1,208 @@
+import { CanvasObject, LinkObject, TextObject, Vector2D, generateNodeId } from '../types';
+import { getMediaNodeSize } from './mediaUtils';
+import { getGuidePages, getPageItemTop, PageItem } from './pageUtils';
+import { createLink } from './modeUtils';
+import { wrapTextToLines } from './index';
+
+// AI 응답 텍스트 색 (스트리밍 응답과 동일)
+const AI_RESPONSE_COLOR = '#3b82f6';
+// 채널 태그에 쓸 수 있는 글자 (channelUtils의 +# 태그와 동일)
+const TRAILING_TAGS_REGEX = /(?:\s#[a-zA-Z0-9-_가-힣]+)+$/;
+const TRAILING_REFS_REGEX = /(?:\s\[\^[^\]\s]+\])+$/;
+const FOOTNOTE_DEFINITION_REGEX = /^\[\^([^\]\s]+)\]:\s*(?:→\s*)?(.*)$/;
+const PAGE_COMMENT_REGEX = /^<!--.*-->$/;
+const REFERENCE_PREVIEW_LENGTH = 60;
+// 모든 입력 텍스트에 붙는 내부 채널 (화면과 문서에는 보이지 않음)
+const INTERNAL_CHANNEL_ID = 'default';
+
+const itemLineHeight = (item: PageItem) => (item.type === 'text' ? item.fontSize * 1.6 : getMediaNodeSize(item).height);
+
+/**
+ * Sort items into reading order: rows top to bottom, left to right within a row.
+ * Items whose tops are within half a line of the row's first item share the row.
+ */
+export const sortByReadingOrder = <T extends PageItem>(items: T[]): T[] => {
+  const byTop = [...items].sort((a, b) => getPageItemTop(a) - getPageItemTop(b));
+  const rows: T[][] = [];
+  byTop.forEach(item => {
+    const row = rows[rows.length - 1];
+    if (row && getPageItemTop(item) - getPageItemTop(row[0]) <= itemLineHeight(row[0]) / 2) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  });
+  return rows.flatMap(row => row.sort((a, b) => a.x - b.x));
+};
+
+const previewText = (item: PageItem) => {
+  if (item.type !== 'text') return item.type === 'image' ? item.alt || 'image' : 'video';
+  const firstLine = item.content.split('\n')[0].trim();
+  return firstLine.length > REFERENCE_PREVIEW_LENGTH ? `${firstLine.slice(0, REFERENCE_PREVIEW_LENGTH)}…` : firstLine;
+};
+
+// 큰 간격이나 AI 응답 경계에서 문단을 나눔
+const isParagraphBreak = (previous: PageItem, item: PageItem) => {
+  if (previous.type !== 'text' || item.type !== 'text') return true;
+  if (!!previous.isAIResponse !== !!item.isAIResponse) return true;
+  const previousLines = previous.content.split('\n').length;
+  const expectedY = previous.y + previousLines * previous.fontSize * 1.6;
+  return item.y - expectedY > previous.fontSize * 0.8;
+};
+
+/**
+ * Export the canvas as Markdown.
+ * - Text and media are written in reading order, grouped by page guide when
+ *   there are guides (content outside every guide comes last).
+ * - `_metadata.channelIds` become trailing `#channel` tags.
+ * - Links become footnote references on their source line.
+ * - AI responses are written as block quotes.
+ */
+export const exportCanvasToMarkdown = (canvasObjects: CanvasObject[], links: LinkObject[]): string => {
+  const { pages, outside } = getGuidePages(canvasObjects);
+  const exported = new Map(
+    [...pages.flatMap(page => page.items), ...outside].map(item => [item.id, item])
+  );
+  const references = new Map<string, number[]>();
+  const footnotes: string[] = [];
+  links.forEach(link => {
+    const target = exported.get(link.to);
+    if (!exported.has(link.from) || !target) return;
+    const number = footnotes.length + 1;
+    references.set(link.from, [...(references.get(link.from) ?? []), number]);
+    footnotes.push(`[^${number}]: → ${previewText(target)}`);
+  });
+
+  const renderItem = (item: PageItem): string => {
+    const refs = (references.get(item.id) ?? []).map(number => ` [^${number}]`).join('');
+    if (item.type !== 'text') {
+      // data URL은 문서에 넣기엔 너무 커서 자리만 남김
+      const src = item.src.startsWith('data:') ? '' : item.src;
+      return item.type === 'image' ? `![${item.alt || 'image'}](${src})${refs}` : `[video](${src})${refs}`;
+    }
+    const tags = (item._metadata?.channelIds ?? [])
+      .filter(channelId => channelId !== INTERNAL_CHANNEL_ID)
+      .map(channelId => ` #${channelId}`)
+      .join('');
+    const lines = item.content.split('\n');
+    lines[lines.length - 1] += tags + refs;
+    return lines.map(line => (item.isAIResponse ? `> ${line}` : line)).join('\n');
+  };
+
+  const renderFlow = (items: PageItem[]) => {
+    const lines: string[] = [];
+    let previous: PageItem | null = null;
+    sortByReadingOrder(items).forEach(item => {
+      if (previous && isParagraphBreak(previous, item)) lines.push('');
+      lines.push(renderItem(item));
+      previous = item;
+    });
+    return lines.join('\n');
+  };
+
+  const sections: string[] = [];
+  pages.forEach((page, index) => {
+    if (page.items.length === 0) return;
+    sections.push(`<!-- Page ${index + 1}${page.guide.label ? `: ${page.guide.label}` : ''} -->\n\n${renderFlow(page.items)}`);
+  });
+  if (outside.length > 0) {
+    sections.push(pages.length > 0 ? `<!-- Outside pages -->\n\n${renderFlow(outside)}` : renderFlow(outside));
+  }
+  if (footnotes.length > 0) sections.push(footnotes.join('\n'));
+
+  return `${sections.join('\n\n')}\n`;
+};
+
+export interface MarkdownImportOptions {
+  /** 첫 줄의 월드 좌표 (텍스트 기준선) */
+  origin: Vector2D;
+  /** 월드 단위 글자 크기 */
+  fontSize: number;
+  /** 긴 줄을 나눌 글자 수 (타이프라이터 박스 폭) */
+  maxCharsPerLine: number;
+}
+
+export interface MarkdownImportResult {
+  canvasObjects: TextObject[];
+  links: LinkObject[];
+  /** 배치에 쓴 줄 수 (빈 줄 포함) */
+  lineCount: number;
+}
+
+/**
+ * Lay a Markdown document out as typewriter lines starting at `origin`.
+ * Reverses `exportCanvasToMarkdown`: block quotes become AI responses,
+ * trailing `#tags` become channels, and footnote references become links
+ * to the line their definition previews.
+ */
+export const importMarkdownToCanvas = (markdown: string, options: MarkdownImportOptions): MarkdownImportResult => {
+  const { origin, fontSize, maxCharsPerLine } = options;
+  const lineHeight = fontSize * 1.6;
+  const now = new Date().toISOString();
+
+  const definitions = new Map<string, string>();
+  const body: string[] = [];
+  markdown.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    const definition = line.match(FOOTNOTE_DEFINITION_REGEX);
+    if (definition) definitions.set(definition[1], definition[2].replace(/…$/, '').trim());
+    else if (!PAGE_COMMENT_REGEX.test(line.trim())) body.push(line);
+  });
+
+  const canvasObjects: TextObject[] = [];
+  const pendingRefs: Array<{ fromId: string; ref: string }> = [];
+  let row = 0;
+  let previousBlank = true;
+
+  body.forEach(rawLine => {
+    if (rawLine.trim() === '') {
+      // 연속된 빈 줄은 한 줄 간격으로
+      if (!previousBlank) row++;
+      previousBlank = true;
+      return;
+    }
+    previousBlank = false;
+
+    let text = rawLine;
+    const quote = text.match(/^>\s?(.*)$/);
+    if (quote) text = quote[1];
+
+    const refsMatch = text.match(TRAILING_REFS_REGEX);
+    const refs = refsMatch ? Array.from(refsMatch[0].matchAll(/\[\^([^\]\s]+)\]/g), match => match[1]) : [];
+    if (refsMatch) text = text.slice(0, -refsMatch[0].length);
+
+    const tagsMatch = text.match(TRAILING_TAGS_REGEX);
+    const tags = tagsMatch ? tagsMatch[0].trim().split(/\s+/).map(tag => tag.slice(1).toLowerCase()) : [];
+    const channelIds = [INTERNAL_CHANNEL_ID, ...tags.filter(tag => tag !== INTERNAL_CHANNEL_ID)];
+    if (tagsMatch) text = text.slice(0, -tagsMatch[0].length);
+
+    const wrapped = wrapTextToLines(text, maxCharsPerLine);
+    const lines = wrapped.length > 0 ? wrapped : [text];
+    lines.forEach(content => {
+      const obj: TextObject = {
+        id: generateNodeId(),
+        type: 'text',
+        content,
+        x: origin.x,
+        y: origin.y + row * lineHeight,
+        scale: 1,
+        fontSize,
+        ...(quote ? { isAIResponse: true, color: AI_RESPONSE_COLOR } : {}),
+        _metadata: { createdAt: now, updatedAt: now, channelIds }
+      };
+      canvasObjects.push(obj);
+      row++;
+    });
+    refs.forEach(ref => pendingRefs.push({ fromId: canvasObjects[canvasObjects.length - 1].id, ref }));
+  });
+
+  // 각주 정의의 미리보기와 내용이 시작이 같은 줄을 링크 대상으로 사용
+  const links: LinkObject[] = [];
+  pendingRefs.forEach(({ fromId, ref }) => {
+    const preview = definitions.get(ref);
+    if (!preview) return;
+    const target = canvasObjects.find(obj => obj.id !== fromId && obj.content.trim().startsWith(preview));
+    if (target) links.push(createLink(fromId, target.id));
+  });
+
+  return { canvasObjects, links, lineCount: row };
+};
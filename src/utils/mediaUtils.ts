@@ -0,0 +1,501 @@
+import { ImageNode, VideoNode, ImageScaleMode, VideoSourceType, Paint, generateNodeId } from '../types';
+
+export type MediaNode = ImageNode | VideoNode;
+
+// 크기 정보가 없는 미디어 노드의 기본 크기 (월드 단위)
+export const DEFAULT_MEDIA_WIDTH = 320;
+export const DEFAULT_VIDEO_ASPECT_RATIO = 16 / 9;
+
+export const isMediaNode = (obj: { type: string }): obj is MediaNode => {
+  return obj.type === 'image' || obj.type === 'video';
+};
+
+/**
+ * Resolve the world-space size of an image or video node.
+ * Falls back to natural size / aspect ratio when width or height is missing.
+ */
+export const getMediaNodeSize = (node: MediaNode): { width: number; height: number } => {
+  const nodeScale = node.scale ?? 1;
+
+  if (node.type === 'image') {
+    const naturalRatio = node.naturalWidth && node.naturalHeight
+      ? node.naturalWidth / node.naturalHeight
+      : 1;
+    const width = node.width ?? (node.height ? node.height * naturalRatio : node.naturalWidth ?? DEFAULT_MEDIA_WIDTH);
+    const height = node.height ?? width / naturalRatio;
+    return { width: width * nodeScale, height: height * nodeScale };
+  }
+
+  const aspectRatio = node.aspectRatio || DEFAULT_VIDEO_ASPECT_RATIO;
+  const width = node.width ?? (node.height ? node.height * aspectRatio : DEFAULT_MEDIA_WIDTH);
+  const height = node.height ?? width / aspectRatio;
+  return { width: width * nodeScale, height: height * nodeScale };
+};
+
+/**
+ * World-space bounds of a media node. x, y is the top-left corner (same as guides).
+ */
+export const getMediaNodeBounds = (node: MediaNode) => {
+  const { width, height } = getMediaNodeSize(node);
+  return { x: node.x, y: node.y, width, height };
+};
+
+export const isPointInMediaNode = (
+  node: MediaNode,
+  screenX: number,
+  screenY: number,
+  scale: number,
+  worldToScreen: (x: number, y: number) => { x: number; y: number }
+): boolean => {
+  const { width, height } = getMediaNodeSize(node);
+  const screenPos = worldToScreen(node.x, node.y);
+  return screenX >= screenPos.x &&
+         screenX <= screenPos.x + width * scale &&
+         screenY >= screenPos.y &&
+         screenY <= screenPos.y + height * scale;
+};
+
+// ============================================================
+// Video source helpers
+// ============================================================
+
+const YOUTUBE_ID_PATTERN = /(?:youtube\.com\/(?:watch\?(?:.*&)?v=|embed\/|shorts\/)|youtu\.be\/)([\w-]{11})/;
+const VIMEO_ID_PATTERN = /vimeo\.com\/(?:video\/)?(\d+)/;
+const IMAGE_URL_PATTERN = /^(https?:\/\/\S+\.(?:png|jpe?g|gif|webp|svg|avif|bmp)(?:\?\S*)?|data:image\/[\w.+-]+;base64,\S+)$/i;
+const VIDEO_URL_PATTERN = /^https?:\/\/\S+\.(?:mp4|webm|ogv|mov)(?:\?\S*)?$/i;
+
+export const detectVideoSourceType = (src: string): VideoSourceType | null => {
+  if (YOUTUBE_ID_PATTERN.test(src)) return 'youtube';
+  if (VIMEO_ID_PATTERN.test(src)) return 'vimeo';
+  if (VIDEO_URL_PATTERN.test(src)) return 'url';
+  return null;
+};
+
+/**
+ * Image used to represent a video on the canvas: explicit poster first,
+ * then the YouTube thumbnail. Vimeo / direct URLs without a poster have none.
+ */
+export const getVideoPosterSrc = (node: VideoNode): string | null => {
+  if (node.poster) return node.poster;
+  const youtubeMatch = node.src.match(YOUTUBE_ID_PATTERN);
+  if (youtubeMatch) {
+    return `https://img.youtube.com/vi/${youtubeMatch[1]}/hqdefault.jpg`;
+  }
+  return null;
+};
+
+export const getMediaImageSrc = (node: MediaNode): string | null => {
+  return node.type === 'image' ? node.src : getVideoPosterSrc(node);
+};
+
+// ============================================================
+// Image cache
+// ============================================================
+
+// 화면 표시용 로드는 CORS 없이, export용 로드만 crossOrigin으로 따로 캐시
+// (CORS 헤더가 없는 서버의 이미지도 화면에는 보이도록)
+const imageCache = new Map<string, HTMLImageElement>();
+const failedImages = new Set<string>();
+const loadListeners = new Set<() => void>();
+
+const needsCors = (src: string) => !src.startsWith('data:') && !src.startsWith('blob:');
+
+const getCacheKey = (src: string, forExport: boolean) => {
+  return forExport && needsCors(src) ? `cors:${src}` : src;
+};
+
+const loadImage = (src: string, forExport = false): HTMLImageElement => {
+  const key = getCacheKey(src, forExport);
+  const cached = imageCache.get(key);
+  if (cached) return cached;
+
+  const image = new Image();
+  // export 캔버스가 오염되면 toDataURL이 실패하므로 export용 로드에서만 CORS 요청
+  if (key !== src) {
+    image.crossOrigin = 'anonymous';
+  }
+  image.onload = () => loadListeners.forEach(listener => listener());
+  image.onerror = () => {
+    failedImages.add(key);
+    loadListeners.forEach(listener => listener());
+  };
+  image.src = src;
+  imageCache.set(key, image);
+  return image;
+};
+
+/**
+ * Return a decoded image for the given source, or null while it is still loading.
+ * The first call starts the load; subscribers of onMediaImageLoad are notified once it lands.
+ * Pass forExport for canvases that are read back (PNG export): external images are then
+ * loaded with CORS and left out when the server does not allow it.
+ */
+export const getCachedImage = (src: string, forExport = false): HTMLImageElement | null => {
+  if (failedImages.has(getCacheKey(src, forExport))) return null;
+  const image = loadImage(src, forExport);
+  return image.complete && image.naturalWidth > 0 ? image : null;
+};
+
+export const isMediaImageFailed = (src: string, forExport = false): boolean => {
+  return failedImages.has(getCacheKey(src, forExport));
+};
+
+/**
+ * Subscribe to image load completion (used to trigger a canvas re-render).
+ * Returns an unsubscribe function.
+ */
+export const onMediaImageLoad = (listener: () => void): (() => void) => {
+  loadListeners.add(listener);
+  return () => {
+    loadListeners.delete(listener);
+  };
+};
+
+/**
+ * Wait until every image referenced by the given nodes has loaded (or failed)
+ * in its export (CORS) variant. Exporters call this so media is never missing from the output.
+ */
+export const preloadMediaImages = (nodes: Array<{ type: string }>): Promise<void> => {
+  // IMAGE 페인트(fills/strokes)도 함께 로드
+  const paintSources = nodes.flatMap(node => {
+    const { fills, strokes } = node as { fills?: Paint[]; strokes?: Paint[] };
+    return [...(fills ?? []), ...(strokes ?? [])]
+      .flatMap(paint => paint.type === 'IMAGE' ? [paint.imageRef] : []);
+  });
+  const sources = [...nodes.filter(isMediaNode).map(getMediaImageSrc), ...paintSources]
+    .filter((src): src is string => !!src && !isMediaImageFailed(src, true));
+
+  return Promise.all(sources.map(src => {
+    const image = loadImage(src, true);
+    if (image.complete) return Promise.resolve();
+    return new Promise<void>(resolve => {
+      image.addEventListener('load', () => resolve(), { once: true });
+      image.addEventListener('error', () => resolve(), { once: true });
+    });
+  })).then(() => undefined);
+};
+
+// ============================================================
+// Drawing
+// ============================================================
+
+/**
+ * Compute where an image of naturalWidth x naturalHeight is drawn inside a box
+ * for the given scale mode. Result is relative to the box origin.
+ */
+export const getImageDrawRect = (
+  scaleMode: ImageScaleMode,
+  naturalWidth: number,
+  naturalHeight: number,
+  boxWidth: number,
+  boxHeight: number
+): { x: number; y: number; width: number; height: number } => {
+  if (naturalWidth <= 0 || naturalHeight <= 0) {
+    return { x: 0, y: 0, width: boxWidth, height: boxHeight };
+  }
+
+  const ratio = scaleMode === 'FIT'
+    ? Math.min(boxWidth / naturalWidth, boxHeight / naturalHeight)
+    : Math.max(boxWidth / naturalWidth, boxHeight / naturalHeight); // FILL, CROP: cover
+
+  const width = naturalWidth * ratio;
+  const height = naturalHeight * ratio;
+  return { x: (boxWidth - width) / 2, y: (boxHeight - height) / 2, width, height };
+};
+
+const traceRoundedRect = (
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number
+) => {
+  const r = Math.max(0, Math.min(radius, width / 2, height / 2));
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.lineTo(x + width - r, y);
+  ctx.arcTo(x + width, y, x + width, y + r, r);
+  ctx.lineTo(x + width, y + height - r);
+  ctx.arcTo(x + width, y + height, x + width - r, y + height, r);
+  ctx.lineTo(x + r, y + height);
+  ctx.arcTo(x, y + height, x, y + height - r, r);
+  ctx.lineTo(x, y + r);
+  ctx.arcTo(x, y, x + r, y, r);
+  ctx.closePath();
+};
+
+const drawVideoPlayGlyph = (
+  ctx: CanvasRenderingContext2D,
+  centerX: number,
+  centerY: number,
+  boxWidth: number,
+  boxHeight: number
+) => {
+  const radius = Math.max(8, Math.min(boxWidth, boxHeight) * 0.12);
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+  ctx.fill();
+
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+  ctx.beginPath();
+  ctx.moveTo(centerX - radius * 0.35, centerY - radius * 0.5);
+  ctx.lineTo(centerX + radius * 0.55, centerY);
+  ctx.lineTo(centerX - radius * 0.35, centerY + radius * 0.5);
+  ctx.closePath();
+  ctx.fill();
+};
+
+/**
+ * Draw an image or video node into the given screen rectangle.
+ * While the image is loading a placeholder box with the alt text / source type is drawn.
+ * forExport draws the CORS-loaded copy so the target canvas stays readable.
+ */
+export const drawMediaNode = (
+  ctx: CanvasRenderingContext2D,
+  node: MediaNode,
+  screenX: number,
+  screenY: number,
+  screenWidth: number,
+  screenHeight: number,
+  placeholderColor: string,
+  forExport = false
+) => {
+  const imageSrc = getMediaImageSrc(node);
+  const image = imageSrc ? getCachedImage(imageSrc, forExport) : null;
+  const cornerRadius = (node.cornerRadius ?? 0) * (screenWidth / getMediaNodeSize(node).width || 1);
+
+  ctx.save();
+  ctx.globalAlpha *= node.opacity ?? 1;
+  traceRoundedRect(ctx, screenX, screenY, screenWidth, screenHeight, cornerRadius);
+  ctx.clip();
+
+  if (image) {
+    const scaleMode = node.type === 'image' ? node.scaleMode ?? 'FILL' : 'FILL';
+    if (scaleMode === 'TILE') {
+      const pattern = ctx.createPattern(image, 'repeat');
+      if (pattern) {
+        const tileScale = screenWidth / getMediaNodeSize(node).width;
+        pattern.setTransform(new DOMMatrix().translate(screenX, screenY).scale(tileScale));
+        ctx.fillStyle = pattern;
+        ctx.fillRect(screenX, screenY, screenWidth, screenHeight);
+      }
+    } else {
+      const rect = getImageDrawRect(scaleMode, image.naturalWidth, image.naturalHeight, screenWidth, screenHeight);
+      ctx.drawImage(image, screenX + rect.x, screenY + rect.y, rect.width, rect.height);
+    }
+  } else {
+    // 로딩 중이거나 이미지가 없는 경우 플레이스홀더
+    ctx.fillStyle = node.type === 'video' ? '#111827' : 'rgba(128, 128, 128, 0.15)';
+    ctx.fillRect(screenX, screenY, screenWidth, screenHeight);
+    ctx.strokeStyle = placeholderColor;
+    ctx.lineWidth = 1;
+    ctx.strokeRect(screenX + 0.5, screenY + 0.5, screenWidth - 1, screenHeight - 1);
+
+    const label = node.type === 'image'
+      ? (imageSrc && isMediaImageFailed(imageSrc, forExport) ? 'Image unavailable' : node.alt || 'Loading image…')
+      : node.name || node.sourceType || 'video';
+    const fontSize = Math.max(8, Math.min(14, screenHeight / 8));
+    ctx.fillStyle = node.type === 'video' ? 'rgba(255, 255, 255, 0.7)' : placeholderColor;
+    ctx.font = `${fontSize}px "Inter", sans-serif`;
+    ctx.fillText(label, screenX + 8, screenY + fontSize + 6, Math.max(0, screenWidth - 16));
+  }
+
+  if (node.type === 'video') {
+    drawVideoPlayGlyph(ctx, screenX + screenWidth / 2, screenY + screenHeight / 2, screenWidth, screenHeight);
+  }
+
+  ctx.restore();
+};
+
+// ============================================================
+// Node creation (paste / drop)
+// ============================================================
+
+const readFileAsDataURL = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+};
+
+const measureImage = (src: string): Promise<{ width: number; height: number }> => {
+  return new Promise((resolve, reject) => {
+    const fail = () => reject(new Error(`Failed to load image: ${src.slice(0, 80)}`));
+    // 이미 실패한 이미지는 load/error 이벤트가 다시 오지 않으므로 바로 reject
+    if (isMediaImageFailed(src)) {
+      fail();
+      return;
+    }
+    const image = loadImage(src);
+    const done = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    if (image.complete) {
+      if (image.naturalWidth > 0) done();
+      else fail();
+      return;
+    }
+    image.addEventListener('load', done, { once: true });
+    image.addEventListener('error', fail, { once: true });
+  });
+};
+
+/**
+ * Grab the first frame of a video file as a JPEG data URI (used as the poster,
+ * since blob: sources do not survive a reload).
+ */
+const captureVideoPoster = (videoUrl: string): Promise<{ poster: string | null; width: number; height: number }> => {
+  return new Promise(resolve => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.src = videoUrl;
+    video.addEventListener('loadeddata', () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      const ctx = canvas.getContext('2d');
+      let poster: string | null = null;
+      if (ctx && canvas.width > 0) {
+        ctx.drawImage(video, 0, 0);
+        poster = canvas.toDataURL('image/jpeg', 0.8);
+      }
+      resolve({ poster, width: video.videoWidth, height: video.videoHeight });
+    }, { once: true });
+    video.addEventListener('error', () => resolve({ poster: null, width: 0, height: 0 }), { once: true });
+  });
+};
+
+// 드롭한 비디오 파일의 blob: URL. 캔버스와 히스토리 어디에도 남지 않으면 해제
+const videoObjectUrls = new Set<string>();
+const adoptedVideoObjectUrls = new Set<string>();
+
+/**
+ * Revoke blob: URLs of dropped videos that no longer appear in the given nodes
+ * (live canvas objects plus everything undo/redo can restore).
+ * A URL is only released after it has been seen in use once, so a drop that is
+ * still being processed keeps its URL.
+ */
+export const releaseVideoObjectUrls = (retainedNodes: Array<{ type: string }>) => {
+  if (videoObjectUrls.size === 0) return;
+  const inUse = new Set(retainedNodes.filter(isMediaNode).map(node => node.src));
+  videoObjectUrls.forEach(url => {
+    if (inUse.has(url)) {
+      adoptedVideoObjectUrls.add(url);
+    } else if (adoptedVideoObjectUrls.has(url)) {
+      URL.revokeObjectURL(url);
+      videoObjectUrls.delete(url);
+      adoptedVideoObjectUrls.delete(url);
+    }
+  });
+};
+
+const fitWidth = (naturalWidth: number, maxWidth: number) => {
+  return naturalWidth > 0 ? Math.min(naturalWidth, maxWidth) : maxWidth;
+};
+
+/**
+ * Build an ImageNode or VideoNode from a pasted / dropped file.
+ * Returns null for files that are neither images nor videos.
+ */
+export const createMediaNodeFromFile = async (
+  file: File,
+  position: { x: number; y: number },
+  maxWidth: number
+): Promise<MediaNode | null> => {
+  if (file.type.startsWith('image/')) {
+    const src = await readFileAsDataURL(file);
+    const natural = await measureImage(src);
+    const width = fitWidth(natural.width, maxWidth);
+    return {
+      id: generateNodeId(),
+      type: 'image',
+      name: file.name,
+      src,
+      alt: file.name,
+      x: position.x,
+      y: position.y,
+      width,
+      height: natural.width > 0 ? width * (natural.height / natural.width) : width,
+      naturalWidth: natural.width,
+      naturalHeight: natural.height,
+      scaleMode: 'FILL'
+    };
+  }
+
+  if (file.type.startsWith('video/')) {
+    const src = URL.createObjectURL(file);
+    videoObjectUrls.add(src);
+    const { poster, width: videoWidth, height: videoHeight } = await captureVideoPoster(src);
+    const aspectRatio = videoWidth > 0 && videoHeight > 0 ? videoWidth / videoHeight : DEFAULT_VIDEO_ASPECT_RATIO;
+    const width = fitWidth(videoWidth, maxWidth);
+    return {
+      id: generateNodeId(),
+      type: 'video',
+      name: file.name,
+      src,
+      sourceType: 'url',
+      poster: poster ?? undefined,
+      x: position.x,
+      y: position.y,
+      width,
+      height: width / aspectRatio,
+      aspectRatio,
+      muted: true,
+      controls: true
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Build a media node from pasted text when it is an image or video URL.
+ * Returns null for any other text so the caller can fall back to normal paste.
+ */
+export const createMediaNodeFromUrl = async (
+  text: string,
+  position: { x: number; y: number },
+  maxWidth: number
+): Promise<MediaNode | null> => {
+  const url = text.trim();
+
+  if (IMAGE_URL_PATTERN.test(url)) {
+    const natural = await measureImage(url).catch(() => ({ width: 0, height: 0 }));
+    const width = fitWidth(natural.width, maxWidth);
+    return {
+      id: generateNodeId(),
+      type: 'image',
+      src: url,
+      x: position.x,
+      y: position.y,
+      width,
+      height: natural.width > 0 ? width * (natural.height / natural.width) : width,
+      naturalWidth: natural.width || undefined,
+      naturalHeight: natural.height || undefined,
+      scaleMode: 'FILL'
+    };
+  }
+
+  const sourceType = detectVideoSourceType(url);
+  if (sourceType) {
+    const width = Math.min(DEFAULT_MEDIA_WIDTH * 2, maxWidth);
+    return {
+      id: generateNodeId(),
+      type: 'video',
+      src: url,
+      sourceType,
+      x: position.x,
+      y: position.y,
+      width,
+      height: width / DEFAULT_VIDEO_ASPECT_RATIO,
+      aspectRatio: DEFAULT_VIDEO_ASPECT_RATIO,
+      muted: true,
+      controls: true
+    };
+  }
+
+  return null;
+};
@@ -3,6 +3,9 @@
  */
 
 import { CanvasMode, PinPosition, LinkState, SelectionState, CanvasObject, LinkObject } from '../types';
+import { isMediaNode, getMediaNodeSize } from './mediaUtils';
+import { getObjectFrame, getTextLayout, toFrameLocal } from './transformUtils';
+import { LinkJunction } from './linkUtils';
 
 export const CANVAS_MODES: CanvasMode[] = [CanvasMode.TYPOGRAPHY, CanvasMode.SELECT, CanvasMode.LINK];
 
@@ -154,13 +157,17 @@ export function updatePinPosition(
 }
 
 /**
- * Find object at pin position
+ * Find object at pin position.
+ * Priority: text, media, link junctions (when given), then guide borders —
+ * a guide is only hit near its frame so the page area stays free for the
+ * nodes inside it.
  */
 export function findObjectAtPin(
   objects: CanvasObject[],
   pinPosition: PinPosition,
   tolerance: number = 20,
-  measureTextFn?: (text: string, fontSize: number) => number
+  measureTextFn?: (text: string, fontSize: number) => number,
+  linkJunctions: LinkJunction[] = []
 ): CanvasObject | null {
   const { worldX, worldY } = pinPosition;
   
@@ -169,34 +176,61 @@ export function findObjectAtPin(
     if (obj.type === 'text') {
       const lineHeight = obj.fontSize * 1.6;
       
-      // Handle multiline text
-      const lines = obj.content.split('\n');
-      let maxWidth = 0;
+      // Wrapped lines; falls back to approximate measurement without measureTextFn
+      const layout = getTextLayout(obj, measureTextFn);
+      const maxWidth = layout.width * obj.scale;
+      const textHeight = layout.lines.length * lineHeight * obj.scale;
       
-      if (measureTextFn) {
-        // Use accurate text measurement when available
-        lines.forEach(line => {
-          const lineWidth = measureTextFn(line, obj.fontSize) * obj.scale;
-          maxWidth = Math.max(maxWidth, lineWidth);
-        });
-      } else {
-        // Fallback to approximate measurement
-        const maxLineLength = Math.max(...lines.map(line => line.length));
-        const approximateCharWidth = obj.fontSize * 0.6;
-        maxWidth = maxLineLength * approximateCharWidth * obj.scale;
-      }
-      
-      const textHeight = lines.length * lineHeight * obj.scale;
+      // Rotated text: test the pin in the text's unrotated space
+      const { x: localX, y: localY } = toFrameLocal(getObjectFrame(obj, measureTextFn)!, { x: worldX, y: worldY });
       
       const objLeft = obj.x;
       const objTop = obj.y - obj.fontSize; // Adjust for baseline
       const objRight = obj.x + maxWidth;
       const objBottom = obj.y + textHeight - obj.fontSize;
       
-      if (worldX >= objLeft - tolerance && 
-          worldX <= objRight + tolerance &&
-          worldY >= objTop - tolerance && 
-          worldY <= objBottom + tolerance) {
+      if (localX >= objLeft - tolerance && 
+          localX <= objRight + tolerance &&
+          localY >= objTop - tolerance && 
+          localY <= objBottom + tolerance) {
+        return obj;
+      }
+    }
+  }
+
+  // Then image / video nodes (top-left anchored boxes)
+  for (const obj of objects) {
+    if (isMediaNode(obj)) {
+      const { width, height } = getMediaNodeSize(obj);
+      const { x: localX, y: localY } = toFrameLocal(getObjectFrame(obj)!, { x: worldX, y: worldY });
+
+      if (localX >= obj.x - tolerance &&
+          localX <= obj.x + width + tolerance &&
+          localY >= obj.y - tolerance &&
+          localY <= obj.y + height + tolerance) {
+        return obj;
+      }
+    }
+  }
+
+  // Link midpoints / labels (links attached to links)
+  for (const { link, bounds } of linkJunctions) {
+    if (worldX >= bounds.left - tolerance &&
+        worldX <= bounds.right + tolerance &&
+        worldY >= bounds.top - tolerance &&
+        worldY <= bounds.bottom + tolerance) {
+      return link;
+    }
+  }
+
+  // Guide frames
+  for (const obj of objects) {
+    if (obj.type === 'guide') {
+      const insideOuter = worldX >= obj.x - tolerance && worldX <= obj.x + obj.width + tolerance &&
+        worldY >= obj.y - tolerance && worldY <= obj.y + obj.height + tolerance;
+      const insideInner = worldX > obj.x + tolerance && worldX < obj.x + obj.width - tolerance &&
+        worldY > obj.y + tolerance && worldY < obj.y + obj.height - tolerance;
+      if (insideOuter && !insideInner) {
         return obj;
       }
     }
@@ -251,15 +285,20 @@ export function getObjectLinks(
 }
 
 /**
- * Remove links associated with deleted objects
+ * Remove links associated with deleted objects, including links attached
+ * to links that were removed
  */
 export function cleanupOrphanedLinks(
   links: LinkObject[],
   validObjectIds: Set<string>
 ): LinkObject[] {
-  return links.filter(link => 
-    validObjectIds.has(link.from) && validObjectIds.has(link.to)
-  );
+  let remaining = links;
+  for (;;) {
+    const validIds = new Set([...validObjectIds, ...remaining.map(link => link.id)]);
+    const next = remaining.filter(link => validIds.has(link.from) && validIds.has(link.to));
+    if (next.length === remaining.length) return next;
+    remaining = next;
+  }
 }
 
 /**
@@ -0,0 +1,58 @@
+import { CanvasObject, GuideObject, TextObject } from '../types';
+import { GUIDE_PAGE_SIZES_MM } from '../constants';
+import { isMediaNode, MediaNode } from './mediaUtils';
+
+// 화면 포맷 가이드는 CSS px (96dpi) 기준
+const CSS_PX_PER_MM = 96 / 25.4;
+
+/** Content that flows on a page: text and media */
+export type PageItem = TextObject | MediaNode;
+
+export interface GuidePage {
+  guide: GuideObject;
+  items: PageItem[];
+}
+
+// 텍스트 y는 기준선이므로 위쪽 끝은 글자 크기만큼 위
+export const getPageItemTop = (item: PageItem) => (item.type === 'text' ? item.y - item.fontSize : item.y);
+
+export const isInsideGuide = (item: PageItem, guide: GuideObject) => {
+  const top = getPageItemTop(item);
+  return item.x >= guide.x && item.x <= guide.x + guide.width && top >= guide.y && top <= guide.y + guide.height;
+};
+
+/**
+ * Guides in page order: top to bottom, then left to right for guides side by side.
+ */
+export const sortGuidesByPageOrder = (guides: GuideObject[]) => {
+  return [...guides].sort((a, b) => (Math.abs(a.y - b.y) > a.height / 2 ? a.y - b.y : a.x - b.x));
+};
+
+/**
+ * Split the canvas into guide pages. Each item belongs to the first page
+ * (in page order) that contains its top-left corner; the rest is `outside`.
+ */
+export const getGuidePages = (canvasObjects: CanvasObject[]): { pages: GuidePage[]; outside: PageItem[] } => {
+  const guides = sortGuidesByPageOrder(canvasObjects.filter((obj): obj is GuideObject => obj.type === 'guide'));
+  const pages = guides.map(guide => ({ guide, items: [] as PageItem[] }));
+  const outside: PageItem[] = [];
+
+  canvasObjects.forEach(obj => {
+    if (obj.type !== 'text' && !isMediaNode(obj)) return;
+    const page = pages.find(candidate => isInsideGuide(obj, candidate.guide));
+    if (page) page.items.push(obj);
+    else outside.push(obj);
+  });
+
+  return { pages, outside };
+};
+
+/**
+ * Physical page size of a guide in millimetres. Paper formats use their real
+ * size; screen and custom guides keep their world size at 96dpi.
+ */
+export const getGuidePageSizeMm = (guide: GuideObject): { width: number; height: number } => {
+  const paper = GUIDE_PAGE_SIZES_MM[guide.guideType ?? 'a4'];
+  if (paper) return paper;
+  return { width: guide.width / CSS_PX_PER_MM, height: guide.height / CSS_PX_PER_MM };
+};
@@ -0,0 +1,296 @@
+import { Paint, Effect, BlendMode, DropShadowEffect, InnerShadowEffect, TextObject } from '../types';
+import { rgbaToCSS } from './colorUtils';
+import { getCachedImage } from './mediaUtils';
+
+export interface PaintBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const BLEND_MODE_TO_COMPOSITE: Record<BlendMode, GlobalCompositeOperation> = {
+  NORMAL: 'source-over',
+  MULTIPLY: 'multiply',
+  SCREEN: 'screen',
+  OVERLAY: 'overlay',
+  DARKEN: 'darken',
+  LIGHTEN: 'lighten'
+};
+
+export const getVisiblePaints = (paints?: Paint[]): Paint[] => {
+  return (paints ?? []).filter(paint => paint.visible !== false);
+};
+
+export const getVisibleEffects = (effects?: Effect[]): Effect[] => {
+  return (effects ?? []).filter(effect => effect.visible !== false);
+};
+
+/**
+ * Whether a text node needs the paint/effect pipeline instead of a plain fillText.
+ */
+export const hasTextStyling = (textObj: TextObject): boolean => {
+  return getVisiblePaints(textObj.fills).length > 0 ||
+    getVisiblePaints(textObj.strokes).length > 0 ||
+    getVisibleEffects(textObj.effects).length > 0 ||
+    (textObj.opacity !== undefined && textObj.opacity < 1) ||
+    (!!textObj.blendMode && textObj.blendMode !== 'NORMAL');
+};
+
+/**
+ * Text block bounds in the same space as (x, baselineY).
+ * Gradients and offscreen effect buffers are laid out against this box.
+ */
+export const getTextPaintBounds = (
+  lines: string[],
+  x: number,
+  baselineY: number,
+  fontSize: number,
+  measureText: (text: string) => number
+): PaintBounds => {
+  const lineHeight = fontSize * 1.6;
+  return {
+    x,
+    y: baselineY - fontSize,
+    width: Math.max(0, ...lines.map(line => measureText(line))),
+    // 마지막 줄 descender까지 포함
+    height: (lines.length - 1) * lineHeight + fontSize * 1.3
+  };
+};
+
+/**
+ * Convert a Paint into a canvas fill/stroke style for the given bounds.
+ * Returns null for paints that can't be drawn yet (e.g. an image still loading).
+ * Paint opacity is folded into the colors where possible; gradients/patterns
+ * return it separately so the caller can multiply globalAlpha.
+ * forExport resolves IMAGE paints from the CORS-loaded copy (see getCachedImage).
+ */
+export const createCanvasPaint = (
+  ctx: CanvasRenderingContext2D,
+  paint: Paint,
+  bounds: PaintBounds,
+  forExport = false
+): { style: string | CanvasGradient | CanvasPattern; alpha: number } | null => {
+  const opacity = paint.opacity ?? 1;
+
+  switch (paint.type) {
+    case 'SOLID':
+      return { style: rgbaToCSS(paint.color, opacity), alpha: 1 };
+    case 'GRADIENT_LINEAR': {
+      const start = paint.gradientStart ?? { x: 0, y: 0.5 };
+      const end = paint.gradientEnd ?? { x: 1, y: 0.5 };
+      const gradient = ctx.createLinearGradient(
+        bounds.x + start.x * bounds.width,
+        bounds.y + start.y * bounds.height,
+        bounds.x + end.x * bounds.width,
+        bounds.y + end.y * bounds.height
+      );
+      paint.gradientStops.forEach(stop => gradient.addColorStop(stop.position, rgbaToCSS(stop.color)));
+      return { style: gradient, alpha: opacity };
+    }
+    case 'GRADIENT_RADIAL': {
+      const center = paint.center ?? { x: 0.5, y: 0.5 };
+      // radius는 바운딩박스 대각선 비율
+      const radius = (paint.radius ?? 0.5) * Math.hypot(bounds.width, bounds.height);
+      const cx = bounds.x + center.x * bounds.width;
+      const cy = bounds.y + center.y * bounds.height;
+      const gradient = ctx.createRadialGradient(cx, cy, 0, cx, cy, Math.max(radius, 0.001));
+      paint.gradientStops.forEach(stop => gradient.addColorStop(stop.position, rgbaToCSS(stop.color)));
+      return { style: gradient, alpha: opacity };
+    }
+    case 'IMAGE': {
+      const image = getCachedImage(paint.imageRef, forExport);
+      if (!image) return null;
+      const pattern = ctx.createPattern(image, 'repeat');
+      if (!pattern) return null;
+      if (paint.scaleMode !== 'TILE' && image.naturalWidth && image.naturalHeight) {
+        // FILL/FIT/CROP은 텍스트 박스에 맞춰 한 장으로 늘림
+        const sx = bounds.width / image.naturalWidth;
+        const sy = bounds.height / image.naturalHeight;
+        const s = paint.scaleMode === 'FIT' ? Math.min(sx, sy) : Math.max(sx, sy);
+        pattern.setTransform(new DOMMatrix([s, 0, 0, s, bounds.x, bounds.y]));
+      } else {
+        pattern.setTransform(new DOMMatrix([1, 0, 0, 1, bounds.x, bounds.y]));
+      }
+      return { style: pattern, alpha: opacity };
+    }
+  }
+};
+
+const drawLines = (
+  ctx: CanvasRenderingContext2D,
+  lines: string[],
+  x: number,
+  y: number,
+  lineHeight: number,
+  mode: 'fill' | 'stroke'
+) => {
+  lines.forEach((line, index) => {
+    if (mode === 'fill') {
+      ctx.fillText(line, x, y + index * lineHeight);
+    } else {
+      ctx.strokeText(line, x, y + index * lineHeight);
+    }
+  });
+};
+
+// 그림자는 오프스크린 버퍼에 그려 붙임 (현재 변환/회전과 무관하게 글리프 기준으로 위치)
+const drawDropShadow = (
+  ctx: CanvasRenderingContext2D,
+  effect: DropShadowEffect,
+  lines: string[],
+  x: number,
+  y: number,
+  lineHeight: number,
+  bounds: PaintBounds,
+  scale: number
+) => {
+  const blur = effect.radius * scale;
+  const spread = Math.max(0, (effect.spread ?? 0) * scale);
+  const padding = Math.ceil(blur + spread) + 2;
+  const buffer = document.createElement('canvas');
+  buffer.width = Math.ceil(bounds.width + padding * 2);
+  buffer.height = Math.ceil(bounds.height + padding * 2);
+  const bufferCtx = buffer.getContext('2d');
+  if (!bufferCtx || buffer.width === 0 || buffer.height === 0) return;
+
+  const localX = x - bounds.x + padding;
+  const localY = y - bounds.y + padding;
+  bufferCtx.font = ctx.font;
+  bufferCtx.textBaseline = ctx.textBaseline;
+  // shadowBlur와 같은 퍼짐이 되도록 blur 필터는 절반 반경
+  if (blur > 0) bufferCtx.filter = `blur(${blur / 2}px)`;
+  bufferCtx.fillStyle = '#000';
+  drawLines(bufferCtx, lines, localX, localY, lineHeight, 'fill');
+  if (spread > 0) {
+    // spread는 글리프 외곽을 두껍게 해서 근사
+    bufferCtx.strokeStyle = '#000';
+    bufferCtx.lineWidth = spread * 2;
+    bufferCtx.lineJoin = 'round';
+    drawLines(bufferCtx, lines, localX, localY, lineHeight, 'stroke');
+  }
+  // 채우기와 외곽선이 겹친 곳도 같은 알파가 되도록 모양을 먼저 그리고 색을 입힘
+  bufferCtx.filter = 'none';
+  bufferCtx.globalCompositeOperation = 'source-in';
+  bufferCtx.fillStyle = rgbaToCSS(effect.color);
+  bufferCtx.fillRect(0, 0, buffer.width, buffer.height);
+
+  ctx.save();
+  ctx.globalCompositeOperation = BLEND_MODE_TO_COMPOSITE[effect.blendMode ?? 'NORMAL'];
+  ctx.drawImage(
+    buffer,
+    bounds.x - padding + effect.offset.x * scale,
+    bounds.y - padding + effect.offset.y * scale
+  );
+  ctx.restore();
+};
+
+const drawInnerShadow = (
+  ctx: CanvasRenderingContext2D,
+  effect: InnerShadowEffect,
+  lines: string[],
+  x: number,
+  y: number,
+  lineHeight: number,
+  bounds: PaintBounds,
+  scale: number
+) => {
+  const blur = effect.radius * scale;
+  const padding = Math.ceil(blur + Math.abs(effect.offset.x * scale) + Math.abs(effect.offset.y * scale)) + 2;
+  const buffer = document.createElement('canvas');
+  buffer.width = Math.ceil(bounds.width + padding * 2);
+  buffer.height = Math.ceil(bounds.height + padding * 2);
+  const bufferCtx = buffer.getContext('2d');
+  if (!bufferCtx || buffer.width === 0 || buffer.height === 0) return;
+
+  const localX = x - bounds.x + padding;
+  const localY = y - bounds.y + padding;
+  bufferCtx.font = ctx.font;
+  bufferCtx.textBaseline = ctx.textBaseline;
+
+  // 글리프 - (오프셋 + 블러된 글리프) = 안쪽 가장자리 그림자
+  bufferCtx.fillStyle = rgbaToCSS(effect.color);
+  drawLines(bufferCtx, lines, localX, localY, lineHeight, 'fill');
+  bufferCtx.globalCompositeOperation = 'destination-out';
+  if (blur > 0) bufferCtx.filter = `blur(${blur / 2}px)`;
+  bufferCtx.fillStyle = '#000';
+  drawLines(bufferCtx, lines, localX + effect.offset.x * scale, localY + effect.offset.y * scale, lineHeight, 'fill');
+
+  ctx.save();
+  ctx.globalCompositeOperation = BLEND_MODE_TO_COMPOSITE[effect.blendMode ?? 'NORMAL'];
+  ctx.drawImage(buffer, bounds.x - padding, bounds.y - padding);
+  ctx.restore();
+};
+
+/**
+ * Draw a text node with its fills, strokes, effects, opacity and blend mode.
+ * ctx.font must already be set. `lines` are the node's laid-out lines,
+ * (x, y) is the first baseline in screen space, and `scale` converts
+ * world-unit stroke weights and effect radii to pixels.
+ * Pass forExport when the canvas is read back afterwards (PNG export).
+ */
+export const drawStyledText = (
+  ctx: CanvasRenderingContext2D,
+  textObj: TextObject,
+  lines: string[],
+  x: number,
+  y: number,
+  fontSize: number,
+  scale: number,
+  fallbackColor: string,
+  forExport = false
+) => {
+  const lineHeight = fontSize * 1.6;
+  const bounds = getTextPaintBounds(lines, x, y, fontSize, text => ctx.measureText(text).width);
+  const effects = getVisibleEffects(textObj.effects);
+  const layerBlur = effects.find(effect => effect.type === 'LAYER_BLUR');
+
+  ctx.save();
+  ctx.globalAlpha *= textObj.opacity ?? 1;
+  ctx.globalCompositeOperation = BLEND_MODE_TO_COMPOSITE[textObj.blendMode ?? 'NORMAL'];
+  if (layerBlur) {
+    ctx.filter = `blur(${layerBlur.radius * scale}px)`;
+  }
+
+  effects.forEach(effect => {
+    if (effect.type === 'DROP_SHADOW') {
+      drawDropShadow(ctx, effect, lines, x, y, lineHeight, bounds, scale);
+    }
+  });
+
+  const fills = getVisiblePaints(textObj.fills);
+  if (fills.length === 0) {
+    ctx.fillStyle = textObj.color || fallbackColor;
+    drawLines(ctx, lines, x, y, lineHeight, 'fill');
+  }
+  fills.forEach(paint => {
+    const canvasPaint = createCanvasPaint(ctx, paint, bounds, forExport);
+    if (!canvasPaint) return;
+    ctx.save();
+    ctx.globalAlpha *= canvasPaint.alpha;
+    ctx.fillStyle = canvasPaint.style;
+    drawLines(ctx, lines, x, y, lineHeight, 'fill');
+    ctx.restore();
+  });
+
+  effects.forEach(effect => {
+    if (effect.type === 'INNER_SHADOW') {
+      drawInnerShadow(ctx, effect, lines, x, y, lineHeight, bounds, scale);
+    }
+  });
+
+  const strokeWeight = (textObj.strokeWeight ?? 1) * scale;
+  getVisiblePaints(textObj.strokes).forEach(paint => {
+    const canvasPaint = createCanvasPaint(ctx, paint, bounds, forExport);
+    if (!canvasPaint || strokeWeight <= 0) return;
+    ctx.save();
+    ctx.globalAlpha *= canvasPaint.alpha;
+    ctx.strokeStyle = canvasPaint.style;
+    ctx.lineWidth = strokeWeight;
+    ctx.lineJoin = 'round';
+    drawLines(ctx, lines, x, y, lineHeight, 'stroke');
+    ctx.restore();
+  });
+
+  ctx.restore();
+};
@@ -0,0 +1,136 @@
+import { PDFDocument, PDFFont, PDFImage, PDFPage, degrees, rgb } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import { CanvasObject, GuideObject, ImageNode, TextObject } from '../types';
+import { PDF_FONT_URL } from '../constants';
+import { parseCSSColor } from './colorUtils';
+import { getMediaNodeSize } from './mediaUtils';
+import { getGuidePages, getGuidePageSizeMm } from './pageUtils';
+import { mmToPoints } from './units';
+import { getFrameCenter, getObjectFrame, getTextLayout, rotatePoint } from './transformUtils';
+
+const loadFontBytes = async () => {
+  const response = await fetch(PDF_FONT_URL);
+  if (!response.ok) throw new Error(`Failed to load PDF font (${response.status})`);
+  return response.arrayBuffer();
+};
+
+// PNG/JPEG만 pdf-lib에 넣을 수 있으므로 헤더 바이트로 형식을 구분
+const embedImage = async (pdfDoc: PDFDocument, src: string): Promise<PDFImage | null> => {
+  const bytes = new Uint8Array(await (await fetch(src)).arrayBuffer());
+  if (bytes[0] === 0x89 && bytes[1] === 0x50) return pdfDoc.embedPng(bytes);
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return pdfDoc.embedJpg(bytes);
+  return null;
+};
+
+/** 임베드한 글꼴에 글리프가 없어 PDF에서 빈 상자로 찍히는 글자 */
+export interface MissingGlyphs {
+  nodeId: string;
+  /** 중복 없이 처음 나온 순서대로 */
+  characters: string[];
+}
+
+export interface GuidePagesPDF {
+  bytes: Uint8Array;
+  missingGlyphs: MissingGlyphs[];
+}
+
+interface PageTransform {
+  guide: GuideObject;
+  /** 월드 단위 → pt */
+  k: number;
+  pageHeight: number;
+}
+
+const drawTextObject = (page: PDFPage, font: PDFFont, obj: TextObject, { guide, k, pageHeight }: PageTransform) => {
+  if (obj.visible === false) return;
+  const color = (obj.color && parseCSSColor(obj.color)) || { r: 0, g: 0, b: 0, a: 1 };
+  const lineHeight = obj.fontSize * 1.6;
+  const rotation = obj.rotation ?? 0;
+  const center = getFrameCenter(getObjectFrame(obj)!);
+
+  getTextLayout(obj).lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    // 텍스트 y는 기준선이므로 그대로 PDF 기준선이 됨. PDF는 기준선 시작점을 축으로
+    // 반시계 방향으로 돌리므로, 시작점을 먼저 노드 중심 기준으로 옮겨 둠
+    const origin = rotatePoint({ x: obj.x, y: obj.y + index * lineHeight }, center, rotation);
+    page.drawText(line, {
+      x: (origin.x - guide.x) * k,
+      y: pageHeight - (origin.y - guide.y) * k,
+      size: obj.fontSize * k,
+      font,
+      color: rgb(color.r, color.g, color.b),
+      opacity: color.a * (obj.opacity ?? 1),
+      rotate: degrees(-rotation)
+    });
+  });
+};
+
+// 공백과 줄바꿈은 글리프 없이도 문제없으므로 제외
+const findMissingCharacters = (text: string, characterSet: Set<number>): string[] => {
+  const missing = new Set<string>();
+  for (const char of text) {
+    if (/\s/.test(char)) continue;
+    if (!characterSet.has(char.codePointAt(0)!)) missing.add(char);
+  }
+  return [...missing];
+};
+
+const drawImageNode = async (pdfDoc: PDFDocument, page: PDFPage, obj: ImageNode, { guide, k, pageHeight }: PageTransform) => {
+  if (obj.visible === false) return;
+  try {
+    const image = await embedImage(pdfDoc, obj.src);
+    if (!image) return;
+    const { width, height } = getMediaNodeSize(obj);
+    const rotation = obj.rotation ?? 0;
+    // PDF 이미지는 왼쪽 아래 모서리가 기준점
+    const origin = rotatePoint({ x: obj.x, y: obj.y + height }, getFrameCenter(getObjectFrame(obj)!), rotation);
+    page.drawImage(image, {
+      x: (origin.x - guide.x) * k,
+      y: pageHeight - (origin.y - guide.y) * k,
+      width: width * k,
+      height: height * k,
+      opacity: obj.opacity ?? 1,
+      rotate: degrees(-rotation)
+    });
+  } catch (error) {
+    // 다른 출처 이미지나 지원하지 않는 형식은 건너뜀
+    console.warn(`Skipping image ${obj.id} in PDF export:`, error);
+  }
+};
+
+/**
+ * Build a PDF with one page per guide, in page order.
+ * Text is written as real (selectable) text in embedded JetBrains Mono;
+ * each item keeps its offset inside the guide, so guide margins carry over.
+ * The font has no Hangul or other CJK glyphs, so text nodes using characters
+ * it lacks are listed in `missingGlyphs`; those characters render as boxes.
+ * Returns null when the canvas has no guides.
+ */
+export const createGuidePagesPDF = async (canvasObjects: CanvasObject[]): Promise<GuidePagesPDF | null> => {
+  const { pages } = getGuidePages(canvasObjects);
+  if (pages.length === 0) return null;
+
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.registerFontkit(fontkit);
+  // 쓰인 글자만 넣어 파일 크기를 줄임
+  const font = await pdfDoc.embedFont(await loadFontBytes(), { subset: true });
+  const characterSet = new Set(font.getCharacterSet());
+  const missingGlyphs: MissingGlyphs[] = [];
+
+  for (const { guide, items } of pages) {
+    const sizeMm = getGuidePageSizeMm(guide);
+    const size = { width: mmToPoints(sizeMm.width), height: mmToPoints(sizeMm.height) };
+    const page = pdfDoc.addPage([size.width, size.height]);
+    const transform: PageTransform = { guide, k: size.width / guide.width, pageHeight: size.height };
+
+    for (const item of items) {
+      if (item.type === 'text') {
+        drawTextObject(page, font, item, transform);
+        const characters = item.visible === false ? [] : findMissingCharacters(item.content, characterSet);
+        if (characters.length > 0) missingGlyphs.push({ nodeId: item.id, characters });
+      } else if (item.type === 'image') await drawImageNode(pdfDoc, page, item, transform);
+    }
+  }
+
+  return { bytes: await pdfDoc.save(), missingGlyphs };
+};
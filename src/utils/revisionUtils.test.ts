@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { CanvasObject, LinkObject, RevisionContent, TextObject } from '../types';
+import { diffRevisions, isEmptyRevisionDiff, restoreFromRevision } from './revisionUtils';
+
+const text = (id: string, x = 0, content = id): TextObject => ({ id, type: 'text', content, x, y: 0, scale: 1, fontSize: 16 });
+
+const link = (id: string, from: string, to: string): LinkObject => ({ id, type: 'link', from, to, style: 'arrow', color: '#000000' });
+
+const content = (canvasObjects: CanvasObject[], links: LinkObject[] = []): RevisionContent => ({ canvasObjects, links });
+
+describe('diffRevisions', () => {
+  it('sorts node and link changes into lists', () => {
+    const kept = text('kept');
+    const sameLink = link('link-1', 'kept', 'moved');
+    const before = content(
+      [kept, text('moved', 0), text('edited', 0, 'old'), text('both', 0, 'old'), text('removed')],
+      [sameLink, link('link-2', 'kept', 'edited'), link('link-3', 'kept', 'removed')]
+    );
+    const after = content(
+      [kept, text('moved', 50), text('edited', 0, 'new'), text('both', 50, 'new'), text('added')],
+      [sameLink, { ...link('link-2', 'kept', 'edited'), color: '#ff0000' }, link('link-4', 'kept', 'added')]
+    );
+
+    const diff = diffRevisions(before, after);
+    expect(diff.added.map(obj => obj.id)).toEqual(['added']);
+    expect(diff.removed.map(obj => obj.id)).toEqual(['removed']);
+    // 이동과 수정이 함께 일어나면 양쪽에 모두 나옴
+    expect(diff.moved.map(change => change.after.id)).toEqual(['moved', 'both']);
+    expect(diff.edited.map(change => change.after.id)).toEqual(['edited', 'both']);
+    expect(diff.linksAdded.map(item => item.id)).toEqual(['link-4']);
+    expect(diff.linksRemoved.map(item => item.id)).toEqual(['link-3']);
+    expect(diff.linksChanged).toEqual([{ before: before.links[1], after: after.links[1] }]);
+  });
+
+  it('treats equal copies as unchanged', () => {
+    const before = content([text('a')], [link('link-1', 'a', 'a')]);
+    const after = content([{ ...before.canvasObjects[0] }], [{ ...before.links[0] }]);
+
+    expect(isEmptyRevisionDiff(diffRevisions(before, after))).toBe(true);
+    expect(isEmptyRevisionDiff(diffRevisions(before, content([])))).toBe(false);
+  });
+});
+
+describe('restoreFromRevision', () => {
+  const revision = content(
+    [text('a', 0, 'old a'), text('b'), text('c')],
+    [link('link-ab', 'a', 'b'), link('link-bc', 'b', 'c'), link('link-b-ab', 'b', 'link-ab')]
+  );
+
+  it('replaces selected nodes in place and leaves the rest alone', () => {
+    const current = content([text('c', 90), text('a', 40, 'new a')]);
+    const result = restoreFromRevision(current, revision, ['a']);
+
+    expect(result.canvasObjects).toEqual([text('c', 90), text('a', 0, 'old a')]);
+    // b가 없으므로 a-b 링크는 복원하지 않음
+    expect(result.links).toEqual([]);
+  });
+
+  it('adds deleted nodes back with the links whose ends exist', () => {
+    const current = content([text('a', 0, 'old a'), text('c')]);
+    const result = restoreFromRevision(current, revision, ['b']);
+
+    expect(result.canvasObjects.map(obj => obj.id)).toEqual(['a', 'c', 'b']);
+    expect(result.links.map(item => item.id)).toEqual(['link-ab', 'link-bc', 'link-b-ab']);
+  });
+
+  it('restores a link that ends on a link restored with it', () => {
+    const current = content([text('a', 0, 'old a'), text('c')]);
+    const result = restoreFromRevision(current, { ...revision, links: [...revision.links].reverse() }, ['b']);
+
+    expect(result.links.map(item => item.id)).toEqual(['link-b-ab', 'link-bc', 'link-ab']);
+  });
+
+  it('does not duplicate links that are still on the canvas', () => {
+    const current = content([text('a', 0, 'old a'), text('b'), text('c')], [revision.links[0]]);
+    const result = restoreFromRevision(current, revision, ['a', 'b']);
+
+    expect(result.links.map(item => item.id)).toEqual(['link-ab', 'link-bc', 'link-b-ab']);
+  });
+});
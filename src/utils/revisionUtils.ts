@@ -0,0 +1,97 @@
+import { CanvasObject, LinkObject, RevisionContent, RevisionChange, RevisionDiff } from '../types';
+
+// 위치 외 속성 비교용: 좌표를 뺀 나머지가 같으면 이동만 한 것
+const withoutPosition = (obj: CanvasObject) => {
+  return JSON.stringify({ ...obj, x: undefined, y: undefined });
+};
+
+const positionOf = (obj: CanvasObject) => {
+  return 'x' in obj ? `${obj.x},${obj.y}` : '';
+};
+
+/**
+ * Compare two points in a session's history.
+ * Nodes and links are matched by id; `before` is the older side.
+ */
+export const diffRevisions = (before: RevisionContent, after: RevisionContent): RevisionDiff => {
+  const beforeObjects = new Map(before.canvasObjects.map(obj => [obj.id, obj]));
+  const afterObjects = new Map(after.canvasObjects.map(obj => [obj.id, obj]));
+
+  const moved: RevisionChange<CanvasObject>[] = [];
+  const edited: RevisionChange<CanvasObject>[] = [];
+  afterObjects.forEach((next, id) => {
+    const prev = beforeObjects.get(id);
+    if (!prev || prev === next) return;
+    if (positionOf(prev) !== positionOf(next)) moved.push({ before: prev, after: next });
+    if (withoutPosition(prev) !== withoutPosition(next)) edited.push({ before: prev, after: next });
+  });
+
+  const beforeLinks = new Map(before.links.map(link => [link.id, link]));
+  const afterLinks = new Map(after.links.map(link => [link.id, link]));
+  const linksChanged: RevisionChange<LinkObject>[] = [];
+  afterLinks.forEach((next, id) => {
+    const prev = beforeLinks.get(id);
+    if (prev && prev !== next && JSON.stringify(prev) !== JSON.stringify(next)) {
+      linksChanged.push({ before: prev, after: next });
+    }
+  });
+
+  return {
+    added: after.canvasObjects.filter(obj => !beforeObjects.has(obj.id)),
+    removed: before.canvasObjects.filter(obj => !afterObjects.has(obj.id)),
+    moved,
+    edited,
+    linksAdded: after.links.filter(link => !beforeLinks.has(link.id)),
+    linksRemoved: before.links.filter(link => !afterLinks.has(link.id)),
+    linksChanged
+  };
+};
+
+export const isEmptyRevisionDiff = (diff: RevisionDiff): boolean => {
+  return Object.values(diff).every(list => list.length === 0);
+};
+
+/**
+ * Bring selected nodes back from a revision into the current canvas.
+ * Nodes that still exist are replaced by their revision version; deleted ones
+ * are added back. Links from the revision are restored when both of their
+ * ends (a node or another link) exist afterwards.
+ */
+export const restoreFromRevision = (
+  current: RevisionContent,
+  revision: RevisionContent,
+  objectIds: string[]
+): RevisionContent => {
+  const selected = new Set(objectIds);
+  const restored = new Map(
+    revision.canvasObjects.filter(obj => selected.has(obj.id)).map(obj => [obj.id, obj])
+  );
+
+  const canvasObjects = current.canvasObjects.map(obj => restored.get(obj.id) ?? obj);
+  const currentIds = new Set(current.canvasObjects.map(obj => obj.id));
+  restored.forEach((obj, id) => {
+    if (!currentIds.has(id)) canvasObjects.push(obj);
+  });
+
+  // 링크 끝은 노드이거나 다른 링크
+  const endIds = new Set<string>([...canvasObjects.map(obj => obj.id), ...current.links.map(link => link.id)]);
+  let candidates = revision.links.filter(link =>
+    !endIds.has(link.id) && (selected.has(link.from) || selected.has(link.to))
+  );
+  // 함께 복원되는 링크에 붙은 링크도 있으므로 더 늘지 않을 때까지 반복
+  const restoredLinkIds = new Set<string>();
+  let grew = true;
+  while (grew) {
+    grew = false;
+    candidates = candidates.filter(link => {
+      if (!endIds.has(link.from) || !endIds.has(link.to)) return true;
+      endIds.add(link.id);
+      restoredLinkIds.add(link.id);
+      grew = true;
+      return false;
+    });
+  }
+  const links = [...current.links, ...revision.links.filter(link => restoredLinkIds.has(link.id))];
+
+  return { canvasObjects, links };
+};
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import { TYPE_SYSTEM_VERSION } from '../types';
+import {
+  ValidationIssue,
+  formatValidationIssues,
+  validateCanvasNode,
+  validateChannel,
+  validateChannelMessage,
+  validateLinkNode,
+  validateSerializedSession
+} from './schemaValidation';
+import { createSessionMetadata } from './sessionUtils';
+
+const issuesOf = (validate: (value: unknown, path: string, issues: ValidationIssue[]) => void, value: unknown) => {
+  const issues: ValidationIssue[] = [];
+  validate(value, 'node', issues);
+  return issues;
+};
+
+const text = { id: 'text-1', type: 'text', content: 'hello', x: 0, y: 0, fontSize: 16, scale: 1 };
+const image = { id: 'image-1', type: 'image', src: 'data:image/png;base64,', x: 10, y: 20, width: 100, height: 80 };
+const video = { id: 'video-1', type: 'video', src: 'https://example.com/a.mp4', x: 0, y: 0, sourceType: 'url' };
+const guide = { id: 'guide-1', type: 'guide', guideType: 'a4', x: 0, y: 0, width: 794, height: 1123 };
+const link = { id: 'link-1', type: 'link', from: 'text-1', to: 'image-1', style: 'arrow', color: '#000000' };
+const channel = { id: 'ideas', name: 'ideas', messageCount: 1, lastActivity: '2026-10-19T09:00:00.000Z', type: 'personal' };
+const message = {
+  id: 'msg_text-1_1',
+  textObjectId: 'text-1',
+  channelIds: ['default', 'ideas'],
+  content: 'hello',
+  timestamp: '2026-10-19T09:00:00.000Z',
+  isFromCanvas: true
+};
+
+describe('validateCanvasNode', () => {
+  it.each([
+    ['text', text],
+    ['image', image],
+    ['video', video],
+    ['guide', guide],
+    ['link', link]
+  ])('accepts a valid %s node', (_type, node) => {
+    expect(issuesOf(validateCanvasNode, node)).toEqual([]);
+  });
+
+  it('reports every bad text field with its path', () => {
+    expect(issuesOf(validateCanvasNode, { ...text, id: 12, content: undefined, fontSize: 0, aiThread: { threadId: 't', turn: '1', role: 'bot' } })).toEqual([
+      { path: 'node.id', message: 'expected string, got number' },
+      { path: 'node.content', message: 'expected string, got undefined' },
+      { path: 'node.fontSize', message: 'expected a positive font size' },
+      { path: 'node.aiThread.turn', message: 'expected finite number, got string' },
+      { path: 'node.aiThread.role', message: 'expected one of user, assistant, got "bot"' }
+    ]);
+  });
+
+  it('requires a source for media nodes', () => {
+    expect(issuesOf(validateCanvasNode, { ...image, src: null })).toEqual([{ path: 'node.src', message: 'expected string, got null' }]);
+    expect(issuesOf(validateCanvasNode, { ...video, sourceType: 'ftp' })).toEqual([
+      { path: 'node.sourceType', message: 'expected one of url, youtube, vimeo, embed, got "ftp"' }
+    ]);
+  });
+
+  it('requires guide size and a known page format', () => {
+    expect(issuesOf(validateCanvasNode, { ...guide, width: Infinity, guideType: 'a5' })).toEqual([
+      { path: 'node.width', message: 'expected finite number, got number' },
+      { path: 'node.guideType', message: 'expected one of a4, a3, letter, legal, screen, iphone, ipad, custom, got "a5"' }
+    ]);
+  });
+
+  it('checks node metadata', () => {
+    expect(issuesOf(validateCanvasNode, { ...text, _metadata: { createdAt: 'now', channelIds: ['default', 1] } })).toEqual([
+      { path: 'node._metadata.updatedAt', message: 'expected string, got undefined' },
+      { path: 'node._metadata.channelIds[1]', message: 'expected string, got number' }
+    ]);
+  });
+
+  it('rejects unknown node types', () => {
+    expect(issuesOf(validateCanvasNode, { ...text, type: 'a4guide' })).toEqual([
+      { path: 'node.type', message: 'unknown node type "a4guide" (expected text, image, video, guide, link)' }
+    ]);
+    expect(issuesOf(validateCanvasNode, 'text')).toEqual([{ path: 'node', message: 'expected node object, got string' }]);
+  });
+});
+
+describe('validateLinkNode', () => {
+  it('checks ends, style and endpoints', () => {
+    expect(issuesOf(validateLinkNode, {
+      ...link,
+      to: 7,
+      style: 'zigzag',
+      endEndpoint: { nodeId: 'image-1', marker: 'star' }
+    })).toEqual([
+      { path: 'node.to', message: 'expected string, got number' },
+      { path: 'node.style', message: 'expected one of arrow, line, dashed, got "zigzag"' },
+      { path: 'node.endEndpoint.marker', message: 'expected one of none, arrow, dot, diamond, got "star"' }
+    ]);
+  });
+
+  it('rejects non-link nodes in the links list', () => {
+    expect(issuesOf(validateLinkNode, { ...link, type: 'text' })).toEqual([
+      { path: 'node.type', message: 'expected "link", got "text"' }
+    ]);
+  });
+});
+
+describe('validateChannel / validateChannelMessage', () => {
+  it('accepts valid values', () => {
+    expect(issuesOf(validateChannel, channel)).toEqual([]);
+    expect(issuesOf(validateChannelMessage, message)).toEqual([]);
+  });
+
+  it('reports bad channel fields', () => {
+    expect(issuesOf(validateChannel, { ...channel, messageCount: '1', type: 'team' })).toEqual([
+      { path: 'node.messageCount', message: 'expected finite number, got string' },
+      { path: 'node.type', message: 'expected one of default, personal, got "team"' }
+    ]);
+  });
+
+  it('reports bad message fields', () => {
+    expect(issuesOf(validateChannelMessage, { ...message, textObjectId: 1760864400000, channelIds: 'ideas', isFromCanvas: 1 })).toEqual([
+      { path: 'node.textObjectId', message: 'expected string, got number' },
+      { path: 'node.channelIds', message: 'expected array, got string' },
+      { path: 'node.isFromCanvas', message: 'expected boolean, got number' }
+    ]);
+  });
+});
+
+describe('validateSerializedSession', () => {
+  const session = (overrides: Record<string, unknown> = {}) => ({
+    schemaVersion: TYPE_SYSTEM_VERSION,
+    metadata: createSessionMetadata('Test'),
+    channels: [['ideas', channel]],
+    messages: [['ideas', [message]]],
+    canvasObjects: [text, image, video, guide],
+    links: [link],
+    activeChannelId: 'ideas',
+    ...overrides
+  });
+
+  it('accepts a session with every node variant', () => {
+    expect(validateSerializedSession(session())).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('collects errors from every list with paths into the file', () => {
+    const { errors } = validateSerializedSession(session({
+      channels: [['ideas', { ...channel, name: null }], 'broken'],
+      messages: [['ideas', [{ ...message, content: 3 }]]],
+      canvasObjects: [text, { ...text }],
+      activeChannelId: 4
+    }));
+
+    expect(errors).toEqual([
+      { path: 'canvasObjects[1].id', message: 'duplicate id "text-1" (first used at canvasObjects[0])' },
+      { path: 'channels[0][1].name', message: 'expected string, got null' },
+      { path: 'channels[1]', message: 'expected a [key, value] entry with a string key' },
+      { path: 'messages[0][1][0].content', message: 'expected string, got number' },
+      { path: 'activeChannelId', message: 'expected string or null, got number' }
+    ]);
+  });
+
+  it('warns about links to missing nodes but accepts links to links', () => {
+    const linkToLink = { ...link, id: 'link-2', from: 'link-1', to: 'text-1' };
+    const { errors, warnings } = validateSerializedSession(session({
+      links: [link, linkToLink, { ...link, id: 'link-3', to: 'gone' }]
+    }));
+
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([{ path: 'links[2].to', message: 'points to missing node "gone"' }]);
+  });
+});
+
+describe('formatValidationIssues', () => {
+  it('prints one line per issue and summarizes the rest past the limit', () => {
+    const issues = [
+      { path: 'a', message: 'one' },
+      { path: 'b', message: 'two' },
+      { path: 'c', message: 'three' }
+    ];
+    expect(formatValidationIssues(issues)).toEqual(['a: one', 'b: two', 'c: three']);
+    expect(formatValidationIssues(issues, 2)).toEqual(['a: one', 'b: two', '…and 1 more']);
+  });
+});
@@ -0,0 +1,394 @@
+/**
+ * Runtime validation for imported session data.
+ *
+ * Every validator walks a value and appends issues with a JSON path
+ * (e.g. `canvasObjects[3].fontSize`) instead of stopping at the first
+ * problem, so a bad file produces a complete report.
+ */
+
+export interface ValidationIssue {
+  /** 문제가 된 위치. 예: `links[2].from` */
+  path: string;
+  message: string;
+}
+
+type Issues = ValidationIssue[];
+type Fields = Record<string, unknown>;
+
+const BLEND_MODES = ['NORMAL', 'MULTIPLY', 'SCREEN', 'OVERLAY', 'DARKEN', 'LIGHTEN'];
+const GUIDE_FORMATS = ['a4', 'a3', 'letter', 'legal', 'screen', 'iphone', 'ipad', 'custom'];
+const LINK_STYLES = ['arrow', 'line', 'dashed'];
+const LINK_ROUTINGS = ['straight', 'curved', 'orthogonal'];
+const ENDPOINT_POSITIONS = ['top', 'right', 'bottom', 'left', 'center', 'auto'];
+const LINK_MARKERS = ['none', 'arrow', 'dot', 'diamond'];
+const SCALE_MODES = ['FILL', 'FIT', 'CROP', 'TILE'];
+const TEXT_AUTO_RESIZE_MODES = ['NONE', 'WIDTH_AND_HEIGHT', 'HEIGHT', 'TRUNCATE'];
+const VIDEO_SOURCE_TYPES = ['url', 'youtube', 'vimeo', 'embed'];
+const CHANNEL_TYPES = ['default', 'personal'];
+
+export const NODE_TYPES = ['text', 'image', 'video', 'guide', 'link'] as const;
+
+const isRecord = (value: unknown): value is Fields => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+// 최상위 필드는 '' 경로에서 시작
+const joinPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+const push = (issues: Issues, path: string, message: string) => {
+  issues.push({ path, message });
+};
+
+// --- 필드 검사기: optional이면 undefined 허용 ---
+
+const checkString = (obj: Fields, key: string, path: string, issues: Issues, optional = false) => {
+  const value = obj[key];
+  if (value === undefined && optional) return;
+  if (typeof value !== 'string') push(issues, joinPath(path, key), `expected string, got ${describe(value)}`);
+};
+
+const checkNumber = (obj: Fields, key: string, path: string, issues: Issues, optional = false) => {
+  const value = obj[key];
+  if (value === undefined && optional) return;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    push(issues, joinPath(path, key), `expected finite number, got ${describe(value)}`);
+  }
+};
+
+const checkBoolean = (obj: Fields, key: string, path: string, issues: Issues, optional = false) => {
+  const value = obj[key];
+  if (value === undefined && optional) return;
+  if (typeof value !== 'boolean') push(issues, joinPath(path, key), `expected boolean, got ${describe(value)}`);
+};
+
+const checkEnum = (obj: Fields, key: string, options: readonly string[], path: string, issues: Issues, optional = false) => {
+  const value = obj[key];
+  if (value === undefined && optional) return;
+  if (typeof value !== 'string' || !options.includes(value)) {
+    push(issues, joinPath(path, key), `expected one of ${options.join(', ')}, got ${JSON.stringify(value)}`);
+  }
+};
+
+const checkArray = (obj: Fields, key: string, path: string, issues: Issues, optional = false): unknown[] | null => {
+  const value = obj[key];
+  if (value === undefined && optional) return null;
+  if (!Array.isArray(value)) {
+    push(issues, joinPath(path, key), `expected array, got ${describe(value)}`);
+    return null;
+  }
+  return value;
+};
+
+const checkStringArray = (obj: Fields, key: string, path: string, issues: Issues, optional = false) => {
+  const items = checkArray(obj, key, path, issues, optional);
+  items?.forEach((item, index) => {
+    if (typeof item !== 'string') push(issues, `${joinPath(path, key)}[${index}]`, `expected string, got ${describe(item)}`);
+  });
+};
+
+const checkRecord = (obj: Fields, key: string, path: string, issues: Issues, optional = false): Fields | null => {
+  const value = obj[key];
+  if (value === undefined && optional) return null;
+  if (!isRecord(value)) {
+    push(issues, joinPath(path, key), `expected object, got ${describe(value)}`);
+    return null;
+  }
+  return value;
+};
+
+// --- 공통 믹스인 ---
+
+const validateBase = (node: Fields, path: string, issues: Issues) => {
+  checkString(node, 'id', path, issues);
+  checkString(node, 'name', path, issues, true);
+  checkBoolean(node, 'visible', path, issues, true);
+  checkBoolean(node, 'locked', path, issues, true);
+  checkNumber(node, 'opacity', path, issues, true);
+  checkEnum(node, 'blendMode', BLEND_MODES, path, issues, true);
+  // 페인트/이펙트는 내보내기 전용이라 배열인지만 확인
+  checkArray(node, 'fills', path, issues, true);
+  checkArray(node, 'strokes', path, issues, true);
+  checkArray(node, 'effects', path, issues, true);
+  checkNumber(node, 'strokeWeight', path, issues, true);
+
+  const metadata = checkRecord(node, '_metadata', path, issues, true);
+  if (metadata) {
+    const metadataPath = `${path}._metadata`;
+    checkString(metadata, 'createdAt', metadataPath, issues);
+    checkString(metadata, 'updatedAt', metadataPath, issues);
+    checkStringArray(metadata, 'channelIds', metadataPath, issues);
+  }
+};
+
+const validatePosition = (node: Fields, path: string, issues: Issues) => {
+  checkNumber(node, 'x', path, issues);
+  checkNumber(node, 'y', path, issues);
+  checkNumber(node, 'rotation', path, issues, true);
+};
+
+// --- 노드 타입별 검사 ---
+
+const validateTextNode = (node: Fields, path: string, issues: Issues) => {
+  validatePosition(node, path, issues);
+  checkString(node, 'content', path, issues);
+  checkNumber(node, 'fontSize', path, issues);
+  if (typeof node.fontSize === 'number' && node.fontSize <= 0) {
+    push(issues, `${path}.fontSize`, 'expected a positive font size');
+  }
+  checkNumber(node, 'scale', path, issues);
+  checkBoolean(node, 'isAIResponse', path, issues, true);
+  checkString(node, 'color', path, issues, true);
+  checkString(node, 'fontFamily', path, issues, true);
+  checkNumber(node, 'width', path, issues, true);
+  checkNumber(node, 'height', path, issues, true);
+  checkEnum(node, 'textAutoResize', TEXT_AUTO_RESIZE_MODES, path, issues, true);
+
+  const thread = checkRecord(node, 'aiThread', path, issues, true);
+  if (thread) {
+    checkString(thread, 'threadId', `${path}.aiThread`, issues);
+    checkNumber(thread, 'turn', `${path}.aiThread`, issues);
+    checkEnum(thread, 'role', ['user', 'assistant'], `${path}.aiThread`, issues);
+  }
+};
+
+const validateImageNode = (node: Fields, path: string, issues: Issues) => {
+  validatePosition(node, path, issues);
+  checkString(node, 'src', path, issues);
+  checkNumber(node, 'width', path, issues, true);
+  checkNumber(node, 'height', path, issues, true);
+  checkEnum(node, 'scaleMode', SCALE_MODES, path, issues, true);
+  checkString(node, 'alt', path, issues, true);
+  checkNumber(node, 'naturalWidth', path, issues, true);
+  checkNumber(node, 'naturalHeight', path, issues, true);
+  checkNumber(node, 'cornerRadius', path, issues, true);
+  checkNumber(node, 'scale', path, issues, true);
+};
+
+const validateVideoNode = (node: Fields, path: string, issues: Issues) => {
+  validatePosition(node, path, issues);
+  checkString(node, 'src', path, issues);
+  checkNumber(node, 'width', path, issues, true);
+  checkNumber(node, 'height', path, issues, true);
+  checkEnum(node, 'sourceType', VIDEO_SOURCE_TYPES, path, issues, true);
+  checkString(node, 'poster', path, issues, true);
+  checkBoolean(node, 'autoplay', path, issues, true);
+  checkBoolean(node, 'loop', path, issues, true);
+  checkBoolean(node, 'muted', path, issues, true);
+  checkBoolean(node, 'controls', path, issues, true);
+  checkNumber(node, 'aspectRatio', path, issues, true);
+  checkNumber(node, 'cornerRadius', path, issues, true);
+  checkNumber(node, 'scale', path, issues, true);
+};
+
+const validateGuideNode = (node: Fields, path: string, issues: Issues) => {
+  validatePosition(node, path, issues);
+  checkNumber(node, 'width', path, issues);
+  checkNumber(node, 'height', path, issues);
+  checkEnum(node, 'guideType', GUIDE_FORMATS, path, issues, true);
+  checkString(node, 'label', path, issues, true);
+  checkArray(node, 'strokeDashPattern', path, issues, true);
+};
+
+const validateEndpoint = (node: Fields, key: string, path: string, issues: Issues) => {
+  const endpoint = checkRecord(node, key, path, issues, true);
+  if (!endpoint) return;
+  checkString(endpoint, 'nodeId', joinPath(path, key), issues);
+  checkEnum(endpoint, 'position', ENDPOINT_POSITIONS, joinPath(path, key), issues, true);
+  checkEnum(endpoint, 'marker', LINK_MARKERS, joinPath(path, key), issues, true);
+};
+
+/**
+ * Validate a link node, whether it sits in `links` or `canvasObjects`.
+ */
+export const validateLinkNode = (value: unknown, path: string, issues: Issues) => {
+  if (!isRecord(value)) {
+    push(issues, path, `expected link object, got ${describe(value)}`);
+    return;
+  }
+  validateBase(value, path, issues);
+  if (value.type !== 'link') push(issues, `${path}.type`, `expected "link", got ${JSON.stringify(value.type)}`);
+  checkString(value, 'from', path, issues);
+  checkString(value, 'to', path, issues);
+  checkEnum(value, 'style', LINK_STYLES, path, issues);
+  checkEnum(value, 'routing', LINK_ROUTINGS, path, issues, true);
+  checkString(value, 'label', path, issues, true);
+  checkString(value, 'color', path, issues);
+  validateEndpoint(value, 'startEndpoint', path, issues);
+  validateEndpoint(value, 'endEndpoint', path, issues);
+};
+
+/**
+ * Validate any `CanvasNode` variant, dispatching on `type`.
+ */
+export const validateCanvasNode = (value: unknown, path: string, issues: Issues) => {
+  if (!isRecord(value)) {
+    push(issues, path, `expected node object, got ${describe(value)}`);
+    return;
+  }
+
+  switch (value.type) {
+    case 'text':
+      validateBase(value, path, issues);
+      validateTextNode(value, path, issues);
+      return;
+    case 'image':
+      validateBase(value, path, issues);
+      validateImageNode(value, path, issues);
+      return;
+    case 'video':
+      validateBase(value, path, issues);
+      validateVideoNode(value, path, issues);
+      return;
+    case 'guide':
+      validateBase(value, path, issues);
+      validateGuideNode(value, path, issues);
+      return;
+    case 'link':
+      validateLinkNode(value, path, issues);
+      return;
+    default:
+      push(issues, `${path}.type`, `unknown node type ${JSON.stringify(value.type)} (expected ${NODE_TYPES.join(', ')})`);
+  }
+};
+
+export const validateChannel = (value: unknown, path: string, issues: Issues) => {
+  if (!isRecord(value)) {
+    push(issues, path, `expected channel object, got ${describe(value)}`);
+    return;
+  }
+  checkString(value, 'id', path, issues);
+  checkString(value, 'name', path, issues);
+  checkNumber(value, 'messageCount', path, issues);
+  checkString(value, 'lastActivity', path, issues);
+  checkEnum(value, 'type', CHANNEL_TYPES, path, issues);
+  checkString(value, 'color', path, issues, true);
+};
+
+export const validateChannelMessage = (value: unknown, path: string, issues: Issues) => {
+  if (!isRecord(value)) {
+    push(issues, path, `expected message object, got ${describe(value)}`);
+    return;
+  }
+  checkString(value, 'id', path, issues);
+  checkString(value, 'textObjectId', path, issues);
+  checkStringArray(value, 'channelIds', path, issues);
+  checkString(value, 'content', path, issues);
+  checkString(value, 'timestamp', path, issues);
+  checkBoolean(value, 'isFromCanvas', path, issues);
+};
+
+// [key, value] 엔트리 배열 (직렬화된 Map) 검사
+const validateEntries = (
+  obj: Fields,
+  key: string,
+  issues: Issues,
+  validateValue: (value: unknown, path: string) => void
+) => {
+  const entries = checkArray(obj, key, '', issues, true);
+  entries?.forEach((entry, index) => {
+    const path = `${key}[${index}]`;
+    if (!Array.isArray(entry) || entry.length !== 2 || typeof entry[0] !== 'string') {
+      push(issues, path, 'expected a [key, value] entry with a string key');
+      return;
+    }
+    validateValue(entry[1], `${path}[1]`);
+  });
+};
+
+const findDuplicateIds = (items: unknown[], key: string, issues: Issues) => {
+  const seen = new Map<unknown, number>();
+  items.forEach((item, index) => {
+    if (!isRecord(item) || item.id === undefined) return;
+    const first = seen.get(item.id);
+    if (first !== undefined) {
+      push(issues, `${key}[${index}].id`, `duplicate id ${JSON.stringify(item.id)} (first used at ${key}[${first}])`);
+    } else {
+      seen.set(item.id, index);
+    }
+  });
+};
+
+/**
+ * Validate a serialized session (the JSON shape written by `exportSessionData`).
+ * `errors` make the file unusable; `warnings` are kept data that can't be fully
+ * resolved, such as links pointing at nodes that aren't in the file.
+ */
+export const validateSerializedSession = (data: unknown): { errors: ValidationIssue[]; warnings: ValidationIssue[] } => {
+  const errors: Issues = [];
+  const warnings: Issues = [];
+
+  if (!isRecord(data)) {
+    push(errors, '$', `expected session object, got ${describe(data)}`);
+    return { errors, warnings };
+  }
+
+  const metadata = checkRecord(data, 'metadata', '', errors);
+  if (metadata) {
+    checkString(metadata, 'id', 'metadata', errors);
+    checkString(metadata, 'createdAt', 'metadata', errors);
+    checkString(metadata, 'lastUpdated', 'metadata', errors);
+    checkString(metadata, 'version', 'metadata', errors);
+    checkString(metadata, 'title', 'metadata', errors, true);
+    checkString(metadata, 'description', 'metadata', errors, true);
+    checkBoolean(metadata, 'readOnly', 'metadata', errors, true);
+  }
+
+  // 목록 필드가 없는 예전 파일은 빈 목록으로 취급
+  const canvasObjects = checkArray(data, 'canvasObjects', '', errors, true) ?? [];
+  canvasObjects.forEach((node, index) => validateCanvasNode(node, `canvasObjects[${index}]`, errors));
+  findDuplicateIds(canvasObjects, 'canvasObjects', errors);
+
+  const links = checkArray(data, 'links', '', errors, true) ?? [];
+  links.forEach((link, index) => validateLinkNode(link, `links[${index}]`, errors));
+  findDuplicateIds(links, 'links', errors);
+
+  validateEntries(data, 'channels', errors, (value, path) => validateChannel(value, path, errors));
+  validateEntries(data, 'messages', errors, (value, path) => {
+    if (!Array.isArray(value)) {
+      push(errors, path, `expected message array, got ${describe(value)}`);
+      return;
+    }
+    value.forEach((message, index) => validateChannelMessage(message, `${path}[${index}]`, errors));
+  });
+
+  if (data.activeChannelId !== undefined && data.activeChannelId !== null && typeof data.activeChannelId !== 'string') {
+    push(errors, 'activeChannelId', `expected string or null, got ${describe(data.activeChannelId)}`);
+  }
+
+  const view = checkRecord(data, 'view', '', errors, true);
+  if (view) {
+    checkNumber(view, 'scale', 'view', errors);
+    checkNumber(view, 'baseFontSize', 'view', errors);
+    checkNumber(view, 'maxCharsPerLine', 'view', errors);
+    checkString(view, 'currentTypingText', 'view', errors);
+    checkEnum(view, 'theme', ['light', 'dark'], 'view', errors);
+  }
+
+  // 끊어진 링크는 렌더링에서 무시되므로 경고로만 보고 (링크 끝은 다른 링크일 수도 있음)
+  const nodeIds = new Set([...canvasObjects, ...links].filter(isRecord).map(node => node.id));
+  links.forEach((link, index) => {
+    if (!isRecord(link)) return;
+    (['from', 'to'] as const).forEach(end => {
+      if (typeof link[end] === 'string' && !nodeIds.has(link[end])) {
+        push(warnings, `links[${index}].${end}`, `points to missing node ${JSON.stringify(link[end])}`);
+      }
+    });
+  });
+
+  return { errors, warnings };
+};
+
+/**
+ * One line per issue, for error reports and logs.
+ */
+export const formatValidationIssues = (issues: ValidationIssue[], limit: number = issues.length): string[] => {
+  const lines = issues.slice(0, limit).map(issue => `${issue.path}: ${issue.message}`);
+  if (issues.length > limit) lines.push(`…and ${issues.length - limit} more`);
+  return lines;
+};
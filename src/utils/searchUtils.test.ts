@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { ChannelMessage, TextObject } from '../types';
+import { SearchIndex, compileSearchRegex, fuzzyMatch, parseSearchQuery } from './searchUtils';
+
+const line = (id: string, content: string, y: number, channelIds: string[] = ['default']): TextObject => ({
+  id,
+  type: 'text',
+  content,
+  x: 0,
+  y,
+  scale: 1,
+  fontSize: 16,
+  _metadata: { createdAt: '2026-10-19T09:00:00.000Z', updatedAt: '2026-10-19T09:00:00.000Z', channelIds }
+});
+
+const message = (id: string, textObjectId: string, content: string, isFromCanvas: boolean): ChannelMessage => ({
+  id,
+  textObjectId,
+  channelIds: ['default'],
+  content,
+  timestamp: '2026-10-19T09:00:00.000Z',
+  isFromCanvas
+});
+
+const keysOf = (index: SearchIndex, input: string, regex = false) => index.search(parseSearchQuery(input, regex)).map(result => result.document.key);
+
+describe('parseSearchQuery', () => {
+  it('pulls #channel filters out of the text', () => {
+    expect(parseSearchQuery('#Work meeting  notes #ideas', false)).toEqual({ text: 'meeting notes', channels: ['work', 'ideas'], regex: false });
+    expect(parseSearchQuery('issue #12', true)).toEqual({ text: 'issue', channels: ['12'], regex: true });
+  });
+});
+
+describe('fuzzyMatch', () => {
+  it('scores substrings highest, more so at a word start', () => {
+    expect(fuzzyMatch('writ', 'typewriter')).toEqual({ ranges: [[4, 8]], score: 100 - 4 / 5 });
+    expect(fuzzyMatch('ab', 'ab ab')).toEqual({ ranges: [[0, 2], [3, 5]], score: 120 });
+    expect(fuzzyMatch('', 'anything')).toEqual({ ranges: [], score: 0 });
+  });
+
+  it('matches characters spread out in order, by how tightly they cluster', () => {
+    expect(fuzzyMatch('tw', 'typewriter')).toEqual({ ranges: [[0, 1], [4, 5]], score: 50 * (2 / 5) });
+    // 더 촘촘한 쪽을 고름
+    expect(fuzzyMatch('ac', 'a-b-c abc')?.ranges).toEqual([[6, 7], [8, 9]]);
+  });
+
+  it('rejects spread-out and single-character matches', () => {
+    expect(fuzzyMatch('ab', 'a-------b')).toBeNull();
+    expect(fuzzyMatch('ba', 'ab')).toBeNull();
+    expect(fuzzyMatch('z', 'abc')).toBeNull();
+  });
+});
+
+describe('compileSearchRegex', () => {
+  it('returns the error message for an invalid pattern', () => {
+    expect(compileSearchRegex('gro.+y')).toBeInstanceOf(RegExp);
+    expect(typeof compileSearchRegex('(')).toBe('string');
+  });
+});
+
+describe('SearchIndex', () => {
+  const meeting = line('t1', 'Meeting notes', 100, ['default', 'work']);
+  const grocery = line('t2', 'grocery list', 0);
+  const messages = new Map([
+    ['work', [
+      message('m1', 't1', 'Meeting notes', true),
+      message('m2', 'deleted-node', 'meeting recap', true)
+    ]]
+  ]);
+
+  it('indexes text nodes and messages whose node is gone', () => {
+    const index = new SearchIndex();
+    index.sync([meeting, grocery], messages);
+
+    // 노드가 남아 있는 캔버스 메시지는 노드 결과와 겹치므로 빠짐
+    expect(index.size).toBe(3);
+    // 점수가 같으면 캔버스 위치 순, 위치 없는 메시지는 마지막
+    expect(keysOf(index, 'meet')).toEqual(['text:t1', 'message:m2']);
+    expect(keysOf(index, 'list')).toEqual(['text:t2']);
+  });
+
+  it('filters by channel, with or without search text', () => {
+    const index = new SearchIndex();
+    index.sync([meeting, grocery], messages);
+
+    expect(keysOf(index, '#work')).toEqual(['text:t1', 'message:m2']);
+    expect(keysOf(index, '#WORK recap')).toEqual(['message:m2']);
+    expect(keysOf(index, '#home')).toEqual([]);
+  });
+
+  it('rebuilds only changed nodes on sync', () => {
+    const index = new SearchIndex();
+    const objects = [meeting, grocery];
+    index.sync(objects, messages);
+    const meetingDocument = index.search(parseSearchQuery('notes', false))[0].document;
+
+    index.sync([meeting, { ...grocery, content: 'grocery notes' }, line('t3', 'more notes', 200)], messages);
+    const results = index.search(parseSearchQuery('notes', false));
+    expect(results.map(result => result.document.key)).toEqual(['text:t3', 'text:t2', 'text:t1']);
+    expect(results[2].document).toBe(meetingDocument);
+
+    // 노드가 지워지면 그 노드의 캔버스 메시지가 결과로 돌아옴
+    index.sync([grocery], messages);
+    expect(keysOf(index, 'notes')).toEqual(['message:m1']);
+    expect(keysOf(index, 'meeting')).toEqual(['message:m1', 'message:m2']);
+  });
+
+  it('searches by regex and returns nothing for an invalid pattern', () => {
+    const index = new SearchIndex();
+    index.sync([meeting, grocery], new Map());
+
+    expect(index.search(parseSearchQuery('gro.+y', true))[0]).toMatchObject({ document: { key: 'text:t2' }, ranges: [[0, 7]] });
+    expect(keysOf(index, '(', true)).toEqual([]);
+    expect(keysOf(index, '', true)).toEqual([]);
+  });
+});
@@ -0,0 +1,236 @@
+import { CanvasObject, ChannelMessage, NodeId, TextObject, Vector2D } from '../types';
+
+export type SearchDocumentKind = 'text' | 'message';
+
+export interface SearchDocument {
+  /** `text:<nodeId>` 또는 `message:<messageId>` */
+  key: string;
+  kind: SearchDocumentKind;
+  /** 이동할 텍스트 노드 (메시지는 메시지를 만든 노드) */
+  objectId: NodeId;
+  messageId?: string;
+  content: string;
+  /** 매칭용 소문자 본문 */
+  normalized: string;
+  channelIds: string[];
+  /** 노드 위치 (노드가 지워진 메시지는 null) */
+  position: Vector2D | null;
+}
+
+/** [start, end) offsets into `document.content` */
+export type SearchRange = [number, number];
+
+export interface SearchResult {
+  document: SearchDocument;
+  ranges: SearchRange[];
+  score: number;
+}
+
+export interface SearchQuery {
+  /** 채널 태그를 뺀 검색어 */
+  text: string;
+  /** `#work` 같은 채널 필터 (소문자) */
+  channels: string[];
+  regex: boolean;
+}
+
+// 흩어진 글자 매칭이 검색어 길이의 이 배수보다 넓게 퍼지면 버림
+const MAX_FUZZY_SPREAD = 3;
+const DEFAULT_RESULT_LIMIT = 200;
+// 모든 입력 텍스트에 붙는 내부 채널
+const INTERNAL_CHANNEL_ID = 'default';
+
+/**
+ * Split palette input into free text and `#channel` filters.
+ */
+export const parseSearchQuery = (input: string, regex: boolean): SearchQuery => {
+  const channels: string[] = [];
+  const text = input
+    .split(/\s+/)
+    .filter(token => {
+      if (/^#[a-zA-Z0-9-_가-힣]+$/.test(token)) {
+        channels.push(token.slice(1).toLowerCase());
+        return false;
+      }
+      return true;
+    })
+    .join(' ')
+    .trim();
+  return { text, channels, regex };
+};
+
+const mergeRanges = (positions: number[]): SearchRange[] => {
+  const ranges: SearchRange[] = [];
+  positions.forEach(position => {
+    const last = ranges[ranges.length - 1];
+    if (last && last[1] === position) last[1] = position + 1;
+    else ranges.push([position, position + 1]);
+  });
+  return ranges;
+};
+
+/**
+ * Match `needle` against `haystack` (both lowercase).
+ * Substrings score highest; otherwise the characters may be spread out
+ * in order, scored by how tightly they cluster.
+ */
+export const fuzzyMatch = (needle: string, haystack: string): { ranges: SearchRange[]; score: number } | null => {
+  if (!needle) return { ranges: [], score: 0 };
+
+  const first = haystack.indexOf(needle);
+  if (first !== -1) {
+    const ranges: SearchRange[] = [];
+    for (let index = first; index !== -1; index = haystack.indexOf(needle, index + needle.length)) {
+      ranges.push([index, index + needle.length]);
+    }
+    // 앞쪽이나 단어 시작에서 찾을수록 높은 점수
+    const wordStart = first === 0 || /\W/.test(haystack[first - 1]);
+    return { ranges, score: 100 + (wordStart ? 20 : 0) - Math.min(first, 50) / 5 };
+  }
+
+  // 한 글자짜리는 흩어진 매칭을 하지 않음 (거의 모든 줄이 맞음)
+  if (needle.length < 2) return null;
+
+  let best: number[] | null = null;
+  for (let start = haystack.indexOf(needle[0]); start !== -1; start = haystack.indexOf(needle[0], start + 1)) {
+    const positions = [start];
+    let cursor = start + 1;
+    for (let i = 1; i < needle.length && cursor !== 0; i++) {
+      cursor = haystack.indexOf(needle[i], cursor) + 1;
+      if (cursor !== 0) positions.push(cursor - 1);
+    }
+    if (positions.length < needle.length) break;
+    const spread = positions[positions.length - 1] - start + 1;
+    if (!best || spread < best[best.length - 1] - best[0] + 1) best = positions;
+  }
+  if (!best) return null;
+
+  const spread = best[best.length - 1] - best[0] + 1;
+  if (spread > needle.length * MAX_FUZZY_SPREAD) return null;
+  return { ranges: mergeRanges(best), score: 50 * (needle.length / spread) };
+};
+
+const regexMatch = (pattern: RegExp, content: string): { ranges: SearchRange[]; score: number } | null => {
+  const ranges: SearchRange[] = [];
+  for (const match of content.matchAll(pattern)) {
+    if (match[0].length > 0 && match.index !== undefined) ranges.push([match.index, match.index + match[0].length]);
+  }
+  return ranges.length > 0 ? { ranges, score: 100 } : null;
+};
+
+/**
+ * Compile a regex query. Returns the error message for invalid patterns.
+ */
+export const compileSearchRegex = (pattern: string): RegExp | string => {
+  try {
+    return new RegExp(pattern, 'gi');
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid pattern';
+  }
+};
+
+const createTextDocument = (obj: TextObject): SearchDocument => ({
+  key: `text:${obj.id}`,
+  kind: 'text',
+  objectId: obj.id,
+  content: obj.content,
+  normalized: obj.content.toLowerCase(),
+  channelIds: (obj._metadata?.channelIds ?? []).filter(channelId => channelId !== INTERNAL_CHANNEL_ID),
+  position: { x: obj.x, y: obj.y }
+});
+
+/**
+ * Full-text index over text nodes and channel messages.
+ *
+ * Like `SpatialIndex`, `sync()` compares references against the previous
+ * arrays and only rebuilds documents for nodes and messages that changed,
+ * so it can be synced on every keystroke.
+ */
+export class SearchIndex {
+  private textDocuments = new Map<NodeId, { source: TextObject; document: SearchDocument }>();
+  private messageDocuments: SearchDocument[] = [];
+  private syncedObjects: CanvasObject[] | null = null;
+  private syncedMessages: Map<string, ChannelMessage[]> | null = null;
+
+  sync(objects: CanvasObject[], channelMessages: Map<string, ChannelMessage[]>): void {
+    if (objects === this.syncedObjects && channelMessages === this.syncedMessages) return;
+
+    if (objects !== this.syncedObjects) {
+      this.syncedObjects = objects;
+      const seen = new Set<NodeId>();
+      objects.forEach(obj => {
+        if (obj.type !== 'text') return;
+        seen.add(obj.id);
+        const entry = this.textDocuments.get(obj.id);
+        if (entry?.source === obj) return;
+        this.textDocuments.set(obj.id, { source: obj, document: createTextDocument(obj) });
+      });
+      this.textDocuments.forEach((_, id) => {
+        if (!seen.has(id)) this.textDocuments.delete(id);
+      });
+    }
+
+    // 메시지는 노드 위치를 참조하므로 어느 쪽이 바뀌어도 다시 만듦 (메시지 수는 노드보다 적음)
+    this.syncedMessages = channelMessages;
+    const byId = new Map<string, { message: ChannelMessage; channelIds: Set<string> }>();
+    channelMessages.forEach((messages, channelId) => {
+      messages.forEach(message => {
+        const entry = byId.get(message.id) ?? { message, channelIds: new Set<string>() };
+        entry.channelIds.add(channelId);
+        message.channelIds.forEach(id => entry.channelIds.add(id));
+        byId.set(message.id, entry);
+      });
+    });
+    this.messageDocuments = [];
+    byId.forEach(({ message, channelIds }) => {
+      const node = this.textDocuments.get(message.textObjectId)?.source;
+      // 캔버스에서 온 메시지는 노드가 남아 있으면 노드 결과와 겹침
+      if (message.isFromCanvas && node) return;
+      this.messageDocuments.push({
+        key: `message:${message.id}`,
+        kind: 'message',
+        objectId: message.textObjectId,
+        messageId: message.id,
+        content: message.content,
+        normalized: message.content.toLowerCase(),
+        channelIds: Array.from(channelIds).filter(channelId => channelId !== INTERNAL_CHANNEL_ID),
+        position: node ? { x: node.x, y: node.y } : null
+      });
+    });
+  }
+
+  get size(): number {
+    return this.textDocuments.size + this.messageDocuments.length;
+  }
+
+  /**
+   * Results ordered by score, then by reading order on the canvas.
+   * Invalid regex patterns yield no results.
+   */
+  search(query: SearchQuery, limit: number = DEFAULT_RESULT_LIMIT): SearchResult[] {
+    if (!query.text && query.channels.length === 0) return [];
+
+    const pattern = query.regex && query.text ? compileSearchRegex(query.text) : null;
+    if (typeof pattern === 'string') return [];
+    const needle = query.text.toLowerCase();
+
+    const results: SearchResult[] = [];
+    const consider = (document: SearchDocument) => {
+      if (query.channels.some(channel => !document.channelIds.some(id => id.toLowerCase() === channel))) return;
+      const match = pattern ? regexMatch(pattern, document.content) : fuzzyMatch(needle, document.normalized);
+      if (match) results.push({ document, ...match });
+    };
+    this.textDocuments.forEach(({ document }) => consider(document));
+    this.messageDocuments.forEach(consider);
+
+    const orderOf = (document: SearchDocument) => document.position ?? { x: Infinity, y: Infinity };
+    return results
+      .sort((a, b) => {
+        if (b.score !== a.score) return b.score - a.score;
+        const posA = orderOf(a.document);
+        const posB = orderOf(b.document);
+        return (posA.y - posB.y) || (posA.x - posB.x);
+      })
+      .slice(0, limit);
+  }
+}
@@ -4,6 +4,7 @@
 
 import { CanvasObject, SelectionState, TextObject, GuideObject } from '../types';
 import { measureTextWidth } from './index';
+import { ObjectFrame, getFrameBounds, getFrameCenter, getObjectFrame, getTextLayout, rotateContextAround } from './transformUtils';
 
 /**
  * Check if a point is inside a rectangle
@@ -36,32 +37,15 @@ export function getObjectsInSelectionRect(
   const maxY = Math.max(y, y + height);
 
   return objects.filter(obj => {
-    if (obj.type === 'text') {
-      const textObj = obj as TextObject;
-      const { width: textWidth, height: textHeight } = getTextDimensions(
-        textObj, 
-        1, // No scale needed for world coordinates
-        canvas, 
-        fontLoaded
-      );
-      
-      // Adjust Y position for text baseline
-      const textY = obj.y - textObj.fontSize;
-      
-      return isRectIntersecting(
-        obj.x, textY, textWidth, textHeight,
-        minX, minY, maxX - minX, maxY - minY
-      );
-    }
-    
-    if (obj.type === 'guide') {
-      return isRectIntersecting(
-        obj.x, obj.y, obj.width, obj.height,
-        minX, minY, maxX - minX, maxY - minY
-      );
-    }
-    
-    return false;
+    const box = getObjectBox(obj, canvas, fontLoaded);
+    if (!box) return false;
+
+    // Rotated objects are tested by the box around them
+    const bounds = getFrameBounds(box);
+    return isRectIntersecting(
+      bounds.minX, bounds.minY, bounds.maxX - bounds.minX, bounds.maxY - bounds.minY,
+      minX, minY, maxX - minX, maxY - minY
+    );
   });
 }
 
@@ -121,37 +105,44 @@ export function renderSelectionRect(
   ctx.restore();
 }
 
+// One measure function per canvas, so text layouts stay cached between calls
+const canvasMeasures = new WeakMap<HTMLCanvasElement, (text: string, fontSize: number) => number>();
+
+function getCanvasMeasure(
+  canvas?: HTMLCanvasElement | null,
+  fontLoaded?: boolean
+): ((text: string, fontSize: number) => number) | undefined {
+  // Fallback to approximation if canvas/font not available
+  if (!canvas || !fontLoaded) return undefined;
+  let measure = canvasMeasures.get(canvas);
+  if (!measure) {
+    measure = (text, fontSize) => measureTextWidth(text, fontSize, canvas, true);
+    canvasMeasures.set(canvas, measure);
+  }
+  return measure;
+}
+
 /**
- * Get accurate text dimensions for a text object
+ * Unrotated world box of an object (null for links). Text follows its
+ * wrapped layout and its own scale.
  */
-function getTextDimensions(
-  textObj: TextObject,
-  scale: number,
+function getObjectBox(
+  obj: CanvasObject,
   canvas?: HTMLCanvasElement | null,
   fontLoaded?: boolean
-): { width: number; height: number } {
-  const lines = textObj.content.split('\n');
-  const fontSize = textObj.fontSize * textObj.scale * scale;
-  const lineHeight = fontSize * 1.6;
-  
-  // Calculate accurate width using measureTextWidth
-  let maxWidth = 0;
-  if (canvas && fontLoaded) {
-    for (const line of lines) {
-      const lineWidth = measureTextWidth(line, fontSize, canvas, fontLoaded);
-      maxWidth = Math.max(maxWidth, lineWidth);
-    }
-  } else {
-    // Fallback to approximation if canvas/font not available
-    maxWidth = Math.max(...lines.map(line => line.length)) * fontSize * 0.6;
+): ObjectFrame | null {
+  if (obj.type === 'text') {
+    const layout = getTextLayout(obj, getCanvasMeasure(canvas, fontLoaded));
+    return {
+      x: obj.x,
+      // Adjust Y position for text baseline
+      y: obj.y - obj.fontSize,
+      width: layout.width * obj.scale,
+      height: layout.height * obj.scale,
+      rotation: obj.rotation ?? 0
+    };
   }
-  
-  // Calculate accurate height: (lines-1) * lineHeight + fontSize
-  const totalHeight = lines.length > 1 
-    ? (lines.length - 1) * lineHeight + fontSize
-    : fontSize;
-  
-  return { width: maxWidth, height: totalHeight };
+  return getObjectFrame(obj);
 }
 
 /**
@@ -172,41 +163,26 @@ export function renderSelectionHighlights(
   ctx.lineWidth = 1;
 
   objects.forEach(obj => {
-    if (selectedIds.has(obj.id.toString())) {
-      if (obj.type === 'link') return; // Skip link objects as they don't have x,y coordinates
-      
-      const positionedObj = obj as TextObject | GuideObject;
-      const screenX = positionedObj.x * scale + canvasOffset.x;
-      const screenY = positionedObj.y * scale + canvasOffset.y;
-
-      if (obj.type === 'text') {
-        const textObj = obj as TextObject;
-        const { width: textWidth, height: textHeight } = getTextDimensions(
-          textObj, 
-          scale, 
-          canvas, 
-          fontLoaded
-        );
-        
-        // Adjust Y position for text baseline
-        const adjustedY = screenY - textObj.fontSize * textObj.scale * scale;
-        
-        // Highlight background
-        ctx.fillRect(screenX - 5, adjustedY - 5, textWidth + 10, textHeight + 10);
-        
-        // Highlight border
-        ctx.strokeRect(screenX - 5, adjustedY - 5, textWidth + 10, textHeight + 10);
-      } else if (obj.type === 'guide') {
-        const screenWidth = obj.width * scale;
-        const screenHeight = obj.height * scale;
-        
-        // Highlight background
-        ctx.fillRect(screenX - 2, screenY - 2, screenWidth + 4, screenHeight + 4);
-        
-        // Highlight border
-        ctx.strokeRect(screenX - 2, screenY - 2, screenWidth + 4, screenHeight + 4);
-      }
-    }
+    if (!selectedIds.has(obj.id.toString())) return;
+    const box = getObjectBox(obj, canvas, fontLoaded);
+    if (!box) return; // Skip link objects as they don't have x,y coordinates
+
+    const center = getFrameCenter(box);
+    const padding = obj.type === 'text' ? 5 : 2;
+    const screenX = box.x * scale + canvasOffset.x;
+    const screenY = box.y * scale + canvasOffset.y;
+    const screenWidth = box.width * scale;
+    const screenHeight = box.height * scale;
+
+    ctx.save();
+    rotateContextAround(ctx, { x: center.x * scale + canvasOffset.x, y: center.y * scale + canvasOffset.y }, box.rotation);
+    
+    // Highlight background
+    ctx.fillRect(screenX - padding, screenY - padding, screenWidth + padding * 2, screenHeight + padding * 2);
+    
+    // Highlight border
+    ctx.strokeRect(screenX - padding, screenY - padding, screenWidth + padding * 2, screenHeight + padding * 2);
+    ctx.restore();
   });
 
   ctx.restore();
@@ -306,36 +282,15 @@ export function getSelectionBounds(
   let maxY = -Infinity;
 
   selectedObjects.forEach(obj => {
-    if (obj.type === 'link') return; // Skip link objects as they don't have x,y coordinates
-    
-    const positionedObj = obj as TextObject | GuideObject;
-    let objMinX = positionedObj.x;
-    let objMinY = positionedObj.y;
-    let objMaxX = positionedObj.x;
-    let objMaxY = positionedObj.y;
-
-    if (obj.type === 'text') {
-      const textObj = obj as TextObject;
-      const { width: textWidth, height: textHeight } = getTextDimensions(
-        textObj, 
-        1, // No scale needed for world coordinates
-        canvas, 
-        fontLoaded
-      );
-      
-      // Adjust Y position for text baseline
-      objMinY = positionedObj.y - textObj.fontSize;
-      objMaxX += textWidth;
-      objMaxY = objMinY + textHeight;
-    } else if (obj.type === 'guide') {
-      objMaxX += obj.width;
-      objMaxY += obj.height;
-    }
+    const box = getObjectBox(obj, canvas, fontLoaded);
+    if (!box) return; // Skip link objects as they don't have x,y coordinates
 
-    minX = Math.min(minX, objMinX);
-    minY = Math.min(minY, objMinY);
-    maxX = Math.max(maxX, objMaxX);
-    maxY = Math.max(maxY, objMaxY);
+    // Rotated objects count with the box around them
+    const bounds = getFrameBounds(box);
+    minX = Math.min(minX, bounds.minX);
+    minY = Math.min(minY, bounds.minY);
+    maxX = Math.max(maxX, bounds.maxX);
+    maxY = Math.max(maxY, bounds.maxY);
   });
 
   return { minX, minY, maxX, maxY };
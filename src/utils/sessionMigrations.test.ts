@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { TYPE_SYSTEM_VERSION, LEGACY_TYPE_SYSTEM_VERSION, ChannelMessage, SessionData, TextObject, generateNodeId } from '../types';
+import { migrateSessionPayload } from './sessionMigrations';
+import { createSessionMetadata, exportSessionData, importSessionData } from './sessionUtils';
+
+const a4guide = { id: 1712345678901, type: 'a4guide', x: 0, y: 0, width: 794, height: 1123 };
+
+const sessionWith = (overrides: Record<string, unknown>) => ({
+  metadata: createSessionMetadata('Test'),
+  channels: [],
+  messages: [],
+  canvasObjects: [],
+  links: [],
+  activeChannelId: null,
+  ...overrides
+});
+
+// 캔버스에서 한 줄을 입력했을 때 만들어지는 텍스트 노드와 채널 메시지
+const typedLine = (id: TextObject['id']): { node: TextObject; message: ChannelMessage } => {
+  const createdAt = '2026-10-19T09:00:00.000Z';
+  return {
+    node: {
+      type: 'text',
+      content: 'hello',
+      x: 120,
+      y: 48,
+      scale: 1,
+      fontSize: 16,
+      id,
+      _metadata: { createdAt, updatedAt: createdAt, channelIds: ['default'] }
+    },
+    message: {
+      id: `msg_${id}_1760864400000`,
+      textObjectId: id,
+      channelIds: ['default'],
+      content: 'hello',
+      timestamp: createdAt,
+      isFromCanvas: true
+    }
+  };
+};
+
+const sessionWithTypedLine = (id: TextObject['id']): SessionData => {
+  const { node, message } = typedLine(id);
+  return {
+    metadata: createSessionMetadata('Typed'),
+    channels: new Map(),
+    messages: new Map([['default', [message]]]),
+    canvasObjects: [node],
+    links: [],
+    activeChannelId: null
+  };
+};
+
+describe('migrateSessionPayload', () => {
+  it('converts a4guide nodes in files already stamped with the current schema', () => {
+    const { data, applied } = migrateSessionPayload(sessionWith({
+      schemaVersion: TYPE_SYSTEM_VERSION,
+      canvasObjects: [a4guide],
+      links: [{ id: 'link-1', type: 'link', from: 1712345678901, to: 'text-1' }]
+    }));
+
+    expect(data.canvasObjects).toEqual([{ ...a4guide, id: '1712345678901', type: 'guide', guideType: 'a4' }]);
+    expect(data.links).toEqual([{ id: 'link-1', type: 'link', from: '1712345678901', to: 'text-1' }]);
+    expect(applied).toEqual(['Convert a4guide nodes to A4 guides with string ids']);
+  });
+
+  it('runs the version chain before converting a4guide nodes in legacy files', () => {
+    const { data, fromVersion } = migrateSessionPayload(sessionWith({ canvasObjects: [a4guide] }));
+
+    expect(fromVersion).toBe(LEGACY_TYPE_SYSTEM_VERSION);
+    expect(data.canvasObjects).toEqual([{ ...a4guide, id: '1712345678901', type: 'guide', guideType: 'a4' }]);
+  });
+
+  it('converts numeric ids of typed text in files already stamped with the current schema', () => {
+    const { node, message } = typedLine('1760864400000');
+    const { data, applied } = migrateSessionPayload(sessionWith({
+      schemaVersion: TYPE_SYSTEM_VERSION,
+      canvasObjects: [{ ...node, id: 1760864400000 }],
+      links: [{ id: 'link-1', type: 'link', from: 1760864400000, to: 'text-1' }],
+      messages: [['default', [{ ...message, textObjectId: 1760864400000 }]]]
+    }));
+
+    expect(data.canvasObjects).toEqual([node]);
+    expect(data.links).toEqual([{ id: 'link-1', type: 'link', from: '1760864400000', to: 'text-1' }]);
+    expect(data.messages).toEqual([['default', [message]]]);
+    expect(applied).toEqual(['Convert numeric node ids left in current-schema files to strings']);
+  });
+
+  it('leaves sessions without a4guide nodes untouched', () => {
+    const { applied } = migrateSessionPayload(sessionWith({ schemaVersion: TYPE_SYSTEM_VERSION }));
+    expect(applied).toEqual([]);
+  });
+});
+
+describe('importSessionData', () => {
+  it('accepts a saved session that contains a header A4 guide', () => {
+    const result = importSessionData(JSON.stringify(sessionWith({
+      schemaVersion: TYPE_SYSTEM_VERSION,
+      canvasObjects: [a4guide]
+    })));
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.sessionData.canvasObjects[0]).toMatchObject({ id: '1712345678901', type: 'guide', guideType: 'a4' });
+    }
+  });
+});
+
+describe('exportSessionData / importSessionData', () => {
+  it('round-trips a canvas with a typed line', () => {
+    const session = sessionWithTypedLine(generateNodeId());
+    const result = importSessionData(exportSessionData(session));
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.sessionData.canvasObjects).toEqual(session.canvasObjects);
+      expect(result.sessionData.messages).toEqual(session.messages);
+      expect(result.migrations).toEqual([]);
+    }
+  });
+
+  it('loads a session saved with numeric typed-text ids by earlier builds', () => {
+    const session = sessionWithTypedLine(1760864400000 as unknown as string);
+    const result = importSessionData(exportSessionData(session));
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.sessionData.canvasObjects[0].id).toBe('1760864400000');
+      expect(result.sessionData.messages.get('default')?.[0].textObjectId).toBe('1760864400000');
+    }
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Versioned migrations for serialized sessions.
+ *
+ * Import runs two steps, in order:
+ * 1. Migrations (the version chain). Each one upgrades a payload from one
+ *    `TYPE_SYSTEM_VERSION` to the next; the chain is walked from the file's
+ *    version until it reaches the current one, so a schema change only needs
+ *    one new registration.
+ * 2. Normalizations. They run on every file, whatever its version, and repair
+ *    data that builds wrote under the current version number without matching
+ *    it (so no version bump would reach them). They must leave valid data alone.
+ */
+
+import { TYPE_SYSTEM_VERSION, LEGACY_TYPE_SYSTEM_VERSION, isLegacyObject, migrateId } from '../types';
+
+type Payload = Record<string, unknown>;
+
+export interface SessionMigration {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (data: Payload) => Payload;
+}
+
+export interface SessionMigrationResult {
+  data: Payload;
+  /** 파일에 기록된(또는 추정한) 원래 버전 */
+  fromVersion: string;
+  /** 적용된 마이그레이션 설명 (순서대로) */
+  applied: string[];
+}
+
+export interface SessionNormalization {
+  description: string;
+  /** 고칠 것이 있으면 새 payload, 없으면 null */
+  normalize: (data: Payload) => Payload | null;
+}
+
+// from 버전 → 마이그레이션 (버전마다 다음 단계는 하나뿐)
+const migrations = new Map<string, SessionMigration>();
+const normalizations: SessionNormalization[] = [];
+
+/**
+ * Register a migration step. Registering the same `from` twice replaces the earlier step.
+ */
+export function registerSessionMigration(migration: SessionMigration): void {
+  migrations.set(migration.from, migration);
+}
+
+export function getSessionMigrations(): SessionMigration[] {
+  return Array.from(migrations.values());
+}
+
+/**
+ * Register a normalization. It runs on every import after the version chain,
+ * in registration order, and returns null when the payload needs no change.
+ * Use a migration instead when the fix belongs to a schema version bump.
+ */
+export function registerSessionNormalization(normalization: SessionNormalization): void {
+  normalizations.push(normalization);
+}
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const isPayload = (value: unknown): value is Payload => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const stringifyRef = (value: unknown) => (typeof value === 'number' ? migrateId(value) : value);
+
+const hasNumericNodeIds = (data: Payload): boolean => {
+  const hasNumericEnds = (link: unknown) => isPayload(link) && (typeof link.from === 'number' || typeof link.to === 'number');
+  return (
+    asArray(data.canvasObjects).some(obj => isLegacyObject(obj) || (isPayload(obj) && obj.type === 'link' && hasNumericEnds(obj))) ||
+    asArray(data.links).some(hasNumericEnds) ||
+    asArray(data.messages).some(entry =>
+      Array.isArray(entry) && asArray(entry[1]).some(message => isPayload(message) && typeof message.textObjectId === 'number')
+    )
+  );
+};
+
+const stringifyNodeIds = (data: Payload): Payload => {
+  const canvasObjects = asArray(data.canvasObjects).map(obj => {
+    if (!isPayload(obj)) return obj;
+    const migrated: Payload = isLegacyObject(obj) ? { ...obj, id: migrateId(obj.id) } : { ...obj };
+    if (migrated.type === 'link') {
+      migrated.from = stringifyRef(migrated.from);
+      migrated.to = stringifyRef(migrated.to);
+    }
+    return migrated;
+  });
+
+  const links = asArray(data.links).map(link =>
+    isPayload(link) ? { ...link, from: stringifyRef(link.from), to: stringifyRef(link.to) } : link
+  );
+
+  const messages = asArray(data.messages).map(entry => {
+    if (!Array.isArray(entry) || !Array.isArray(entry[1])) return entry;
+    const channelMessages = entry[1].map((message: unknown) =>
+      isPayload(message) ? { ...message, textObjectId: stringifyRef(message.textObjectId) } : message
+    );
+    return [entry[0], channelMessages];
+  });
+
+  return { ...data, canvasObjects, links, messages };
+};
+
+// 1.0.0 → 2.0.0: 노드 ID가 number에서 string으로 바뀜
+registerSessionMigration({
+  from: LEGACY_TYPE_SYSTEM_VERSION,
+  to: TYPE_SYSTEM_VERSION,
+  description: 'Convert numeric node ids to strings',
+  migrate: stringifyNodeIds
+});
+
+// 헤더의 A4 버튼이 2.0.0 파일에도 { id: number, type: 'a4guide' }를 남겼으므로 버전과 무관하게 고침
+registerSessionNormalization({
+  description: 'Convert a4guide nodes to A4 guides with string ids',
+  normalize: data => {
+    const canvasObjects = asArray(data.canvasObjects);
+    if (!canvasObjects.some(obj => isPayload(obj) && obj.type === 'a4guide')) return null;
+
+    return {
+      ...data,
+      canvasObjects: canvasObjects.map(obj => {
+        if (!isPayload(obj)) return obj;
+        if (obj.type === 'a4guide') return { ...obj, id: stringifyRef(obj.id), type: 'guide', guideType: 'a4' };
+        if (obj.type === 'link') return { ...obj, from: stringifyRef(obj.from), to: stringifyRef(obj.to) };
+        return obj;
+      }),
+      // 가이드에 연결된 링크도 문자열 ID를 가리키도록
+      links: asArray(data.links).map(link =>
+        isPayload(link) ? { ...link, from: stringifyRef(link.from), to: stringifyRef(link.to) } : link
+      )
+    };
+  }
+});
+
+// 입력한 텍스트와 /gpt 질문이 Date.now() ID로 만들어져 2.0.0 파일에도 숫자 ID가 남아 있음
+registerSessionNormalization({
+  description: 'Convert numeric node ids left in current-schema files to strings',
+  normalize: data => (hasNumericNodeIds(data) ? stringifyNodeIds(data) : null)
+});
+
+const parseVersion = (version: string): number[] => version.split('.').map(part => Number(part) || 0);
+
+const compareVersions = (a: string, b: string): number => {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+/**
+ * Schema version of a serialized session.
+ * Files written before versioning carry no `schemaVersion`; numeric ids mark them as 1.0.0.
+ */
+export function detectSchemaVersion(data: Payload): string {
+  if (typeof data.schemaVersion === 'string') {
+    return data.schemaVersion;
+  }
+  const hasNumericIds =
+    asArray(data.canvasObjects).some(isLegacyObject) ||
+    asArray(data.links).some(link => isPayload(link) && (typeof link.from === 'number' || typeof link.to === 'number'));
+  return hasNumericIds ? LEGACY_TYPE_SYSTEM_VERSION : TYPE_SYSTEM_VERSION;
+}
+
+/**
+ * Upgrade a serialized session to `TYPE_SYSTEM_VERSION`.
+ * Throws when the file is newer than this build or no migration path exists.
+ */
+export function migrateSessionPayload(data: Payload): SessionMigrationResult {
+  const fromVersion = detectSchemaVersion(data);
+  if (compareVersions(fromVersion, TYPE_SYSTEM_VERSION) > 0) {
+    throw new Error(
+      `Session was saved with schema ${fromVersion}, which is newer than this app supports (${TYPE_SYSTEM_VERSION})`
+    );
+  }
+
+  const applied: string[] = [];
+  const visited = new Set<string>();
+  let version = fromVersion;
+  let current = data;
+
+  while (version !== TYPE_SYSTEM_VERSION) {
+    const migration = migrations.get(version);
+    if (!migration || visited.has(version)) {
+      throw new Error(`No migration path from schema ${version} to ${TYPE_SYSTEM_VERSION}`);
+    }
+    visited.add(version);
+    current = migration.migrate(current);
+    applied.push(`${migration.from} → ${migration.to}: ${migration.description}`);
+    version = migration.to;
+  }
+
+  normalizations.forEach(normalization => {
+    const normalized = normalization.normalize(current);
+    if (!normalized) return;
+    current = normalized;
+    applied.push(normalization.description);
+  });
+
+  return { data: { ...current, schemaVersion: TYPE_SYSTEM_VERSION }, fromVersion, applied };
+}
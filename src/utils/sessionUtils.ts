@@ -1,54 +1,41 @@
 /**
- * Session management utilities for channels and canvas state
- * Uses IndexedDB for large-capacity storage and better performance
+ * Session serialization, import and share-link utilities.
+ * Persistence goes through `services/sessionRepository`.
  */
 
-import { Channel, ChannelMessage, CanvasObject, LinkObject } from '../types';
 import {
-  saveSessionToDB,
-  loadSessionFromDB,
-  getAllSessionsMetadata,
-  deleteSessionFromDB,
-  clearAllSessions,
-  getCurrentSessionId,
-  setCurrentSessionId,
-  getStorageInfo,
-  exportSessionAsBlob,
-  importSessionFromBlob,
-  isIndexedDBAvailable,
-  cleanupOldSessions,
-  DBSession
-} from './indexedDBUtils';
-
-// Session metadata interface
-export interface SessionMetadata {
-  id: string;
-  createdAt: string;
-  lastUpdated: string;
-  version: string;
-  title?: string;
-  description?: string;
-  userAgent?: string;
-}
-
-// Complete session data structure
-export interface SessionData {
-  metadata: SessionMetadata;
-  channels: Map<string, Channel>;
-  messages: Map<string, ChannelMessage[]>;
-  canvasObjects: CanvasObject[];
-  links: LinkObject[];
-  activeChannelId: string | null;
-}
+  Channel,
+  ChannelMessage,
+  CanvasObject,
+  LinkObject,
+  SessionData,
+  SessionMetadata,
+  TYPE_SYSTEM_VERSION
+} from '../types';
+import { downloadFile } from './exportUtils';
+import {
+  ShareLinkResult,
+  encodeSharePayload,
+  decodeSharePayload,
+  buildShareUrl,
+  getShareFragment,
+  fitsInShareUrl,
+  createSnapshotFile,
+  isSnapshotFile,
+  readSnapshotFile
+} from './shareLinkUtils';
+import { migrateSessionPayload, SessionMigrationResult } from './sessionMigrations';
+import { validateSerializedSession, formatValidationIssues, ValidationIssue } from './schemaValidation';
+import { SHARE_LINK_MAX_URL_LENGTH } from '../constants';
+
+export type { SessionData, SessionMetadata };
 
 // Session export format (serializable)
-export interface SerializableSessionData {
-  metadata: SessionMetadata;
+export interface SerializableSessionData extends Omit<SessionData, 'channels' | 'messages'> {
+  /** 타입 시스템 스키마 버전 (마이그레이션 기준). 이전 파일에는 없음 */
+  schemaVersion?: string;
   channels: Array<[string, Channel]>;
   messages: Array<[string, ChannelMessage[]]>;
-  canvasObjects: CanvasObject[];
-  links: LinkObject[];
-  activeChannelId: string | null;
 }
 
 /**
@@ -74,191 +61,155 @@ export function createSessionMetadata(title?: string, description?: string): Ses
 }
 
 /**
- * Save session data to IndexedDB
+ * Convert session data to its serializable form (Maps → entry arrays)
  */
-export async function saveSessionToStorage(sessionData: SessionData): Promise<boolean> {
-  try {
-    if (!isIndexedDBAvailable()) {
-      throw new Error('IndexedDB not available');
-    }
-
-    const sessionId = await saveSessionToDB(sessionData);
-    await setCurrentSessionId(sessionId);
-    
-    return true;
-  } catch (error) {
-    console.error('Failed to save session to IndexedDB:', error);
-    return false;
-  }
+export function serializeSessionData(sessionData: SessionData): SerializableSessionData {
+  return {
+    schemaVersion: TYPE_SYSTEM_VERSION,
+    metadata: sessionData.metadata,
+    channels: Array.from(sessionData.channels.entries()),
+    messages: Array.from(sessionData.messages.entries()),
+    canvasObjects: sessionData.canvasObjects,
+    links: sessionData.links,
+    activeChannelId: sessionData.activeChannelId,
+    view: sessionData.view
+  };
 }
 
 /**
- * Load session data from IndexedDB
+ * Export session data as downloadable JSON
  */
-export async function loadSessionFromStorage(): Promise<SessionData | null> {
-  try {
-    if (!isIndexedDBAvailable()) {
-      return null;
-    }
-
-    const currentSessionId = await getCurrentSessionId();
-    if (!currentSessionId) {
-      return null;
-    }
-
-    return await loadSessionFromDB(currentSessionId);
-  } catch (error) {
-    console.error('Failed to load session from IndexedDB:', error);
-    return null;
-  }
+export function exportSessionData(sessionData: SessionData): string {
+  return JSON.stringify(serializeSessionData(sessionData), null, 2);
 }
 
-/**
- * Check if a session exists in IndexedDB
- */
-export async function hasStoredSession(): Promise<boolean> {
-  try {
-    if (!isIndexedDBAvailable()) {
-      return false;
+export type SessionImportResult =
+  | {
+      ok: true;
+      sessionData: SessionData;
+      /** 마이그레이션 전 스키마 버전 */
+      schemaVersion: string;
+      /** 적용된 마이그레이션 (없으면 빈 배열) */
+      migrations: string[];
+      warnings: ValidationIssue[];
     }
-
-    const currentSessionId = await getCurrentSessionId();
-    return currentSessionId !== null;
-  } catch (error) {
-    return false;
-  }
-}
+  | {
+      ok: false;
+      message: string;
+      errors: ValidationIssue[];
+    };
 
 /**
- * Clear session data from IndexedDB
+ * Import session data from JSON string.
+ * The payload is migrated to the current schema version and validated;
+ * on failure every problem found is returned instead of the first one.
+ * A read-only snapshot file opens as a session marked `readOnly`.
  */
-export async function clearSessionStorage(): Promise<void> {
+export function importSessionData(jsonString: string): SessionImportResult {
+  let parsed: unknown;
+  let readOnly = false;
   try {
-    if (!isIndexedDBAvailable()) {
-      return;
+    parsed = JSON.parse(jsonString);
+    // 공유 링크 대신 받은 스냅샷 파일이면 체크섬 확인 후 안의 세션을 사용
+    if (isSnapshotFile(parsed)) {
+      readOnly = parsed.readOnly === true;
+      parsed = JSON.parse(readSnapshotFile(parsed));
     }
-
-    await clearAllSessions();
-    await setCurrentSessionId(null);
   } catch (error) {
-    console.error('Failed to clear session storage:', error);
+    const message = error instanceof Error ? error.message : 'Unknown parse error';
+    return { ok: false, message: 'File could not be read as a session', errors: [{ path: '$', message }] };
   }
-}
-
-/**
- * Export session data as downloadable JSON
- */
-export function exportSessionData(sessionData: SessionData): string {
-  const serializable: SerializableSessionData = {
-    metadata: sessionData.metadata,
-    channels: Array.from(sessionData.channels.entries()),
-    messages: Array.from(sessionData.messages.entries()),
-    canvasObjects: sessionData.canvasObjects,
-    links: sessionData.links,
-    activeChannelId: sessionData.activeChannelId
-  };
 
-  return JSON.stringify(serializable, null, 2);
-}
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return { ok: false, message: 'File does not contain a session', errors: [{ path: '$', message: 'expected a session object' }] };
+  }
 
-/**
- * Import session data from JSON string
- */
-export function importSessionData(jsonString: string): SessionData | null {
+  let migration: SessionMigrationResult;
   try {
-    const serializable: SerializableSessionData = JSON.parse(jsonString);
-    
-    // Validate the structure
-    if (!serializable.metadata || !serializable.metadata.id) {
-      throw new Error('Invalid session data format');
-    }
+    migration = migrateSessionPayload(parsed as Record<string, unknown>);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Migration failed';
+    return { ok: false, message, errors: [{ path: 'schemaVersion', message }] };
+  }
 
+  const { errors, warnings } = validateSerializedSession(migration.data);
+  if (errors.length > 0) {
+    console.error('Session data failed validation:', formatValidationIssues(errors));
     return {
-      metadata: serializable.metadata,
+      ok: false,
+      message: `Session data has ${errors.length} ${errors.length === 1 ? 'problem' : 'problems'}`,
+      errors
+    };
+  }
+
+  // 검증을 통과했으므로 직렬화 형식으로 취급
+  const serializable = migration.data as unknown as SerializableSessionData;
+  return {
+    ok: true,
+    sessionData: {
+      metadata: readOnly ? { ...serializable.metadata, readOnly: true } : serializable.metadata,
       channels: new Map(serializable.channels || []),
       messages: new Map(serializable.messages || []),
       canvasObjects: serializable.canvasObjects || [],
       links: serializable.links || [],
-      activeChannelId: serializable.activeChannelId || null
-    };
-  } catch (error) {
-    console.error('Failed to import session data:', error);
-    return null;
-  }
+      activeChannelId: serializable.activeChannelId ?? null,
+      view: serializable.view
+    },
+    schemaVersion: migration.fromVersion,
+    migrations: migration.applied,
+    warnings
+  };
 }
 
 /**
- * Generate shareable session link
+ * Generate shareable session link.
+ * The session is deflated into the URL fragment; when the link would still
+ * be longer than the URL limit, a read-only snapshot file is downloaded instead.
  */
-export function generateShareableLink(sessionData: SessionData): string {
+export async function generateShareableLink(sessionData: SessionData): Promise<ShareLinkResult> {
   try {
-    const compressed = exportSessionData(sessionData);
-    const encoded = encodeURIComponent(compressed);
-    const baseUrl = window.location.origin + window.location.pathname;
-    
-    // For large sessions, we might need to use a different approach
-    // For now, using URL parameters (limited by browser URL length)
-    if (encoded.length > 8000) { // Conservative limit for URL length
-      console.warn('Session data too large for URL sharing');
-      return '';
+    const json = JSON.stringify(serializeSessionData(sessionData));
+    const jsonBytes = new TextEncoder().encode(json).length;
+    const url = buildShareUrl(await encodeSharePayload(json));
+
+    if (fitsInShareUrl(url.length)) {
+      return { kind: 'link', url, jsonBytes, urlLength: url.length, maxUrlLength: SHARE_LINK_MAX_URL_LENGTH };
     }
-    
-    return `${baseUrl}?session=${encoded}`;
+
+    console.warn('Session data too large for URL sharing, saving snapshot file instead');
+    const fileName = `nntype-snapshot-${new Date().toISOString().slice(0, 10)}.json`;
+    downloadFile(JSON.stringify(createSnapshotFile(json)), fileName, 'application/json');
+    return { kind: 'snapshot', fileName, jsonBytes, urlLength: url.length, maxUrlLength: SHARE_LINK_MAX_URL_LENGTH };
   } catch (error) {
     console.error('Failed to generate shareable link:', error);
-    return '';
+    return { kind: 'error', message: error instanceof Error ? error.message : 'Failed to generate share link' };
   }
 }
 
 /**
- * Parse session data from URL parameters
+ * Parse session data from the share link fragment (or a legacy `?session=` parameter).
+ * Returns null when the URL carries no session; throws when it carries a bad one.
  */
-export function parseSessionFromUrl(): SessionData | null {
-  try {
-    const urlParams = new URLSearchParams(window.location.search);
-    const sessionParam = urlParams.get('session');
-    
-    if (!sessionParam) {
-      return null;
+export async function parseSessionFromUrl(): Promise<SessionData | null> {
+  const fragment = getShareFragment();
+  if (fragment) {
+    const result = importSessionData(await decodeSharePayload(fragment));
+    if (!result.ok) {
+      throw new Error(`Share link does not contain a valid session: ${formatValidationIssues(result.errors, 3).join('; ')}`);
     }
-    
-    const decodedData = decodeURIComponent(sessionParam);
-    return importSessionData(decodedData);
-  } catch (error) {
-    console.error('Failed to parse session from URL:', error);
-    return null;
+    return result.sessionData;
   }
-}
-
-/**
- * Create an auto-save mechanism
- */
-export function createAutoSave(
-  getSessionData: () => SessionData,
-  intervalMs: number = 30000 // 30 seconds
-): () => void {
-  let intervalId: NodeJS.Timeout;
 
-  const startAutoSave = () => {
-    intervalId = setInterval(() => {
-      const sessionData = getSessionData();
-      if (sessionData) {
-        saveSessionToStorage(sessionData);
-      }
-    }, intervalMs);
-  };
-
-  const stopAutoSave = () => {
-    if (intervalId) {
-      clearInterval(intervalId);
-    }
-  };
-
-  // Start auto-save immediately
-  startAutoSave();
-
-  // Return cleanup function
-  return stopAutoSave;
+  // 이전 형식 링크 (JSON을 쿼리 문자열에 그대로 담음)
+  const sessionParam = new URLSearchParams(window.location.search).get('session');
+  if (!sessionParam) {
+    return null;
+  }
+  const result = importSessionData(sessionParam);
+  if (!result.ok) {
+    throw new Error(`Shared session in the URL is invalid: ${formatValidationIssues(result.errors, 3).join('; ')}`);
+  }
+  return result.sessionData;
 }
 
 /**
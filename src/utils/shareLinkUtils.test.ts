@@ -0,0 +1,178 @@
+import { Blob as NodeBlob } from 'node:buffer';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SessionData, TextObject } from '../types';
+import { SHARE_LINK_MAX_URL_LENGTH, SHARE_LINK_VERSION } from '../constants';
+import {
+  crc32,
+  checksumText,
+  createSnapshotFile,
+  decodeSharePayload,
+  encodeSharePayload,
+  fitsInShareUrl,
+  fromBase64Url,
+  readSnapshotFile,
+  toBase64Url
+} from './shareLinkUtils';
+import { createSessionMetadata, generateShareableLink, importSessionData, parseSessionFromUrl, serializeSessionData } from './sessionUtils';
+import { downloadFile } from './exportUtils';
+
+vi.mock('./exportUtils', () => ({ downloadFile: vi.fn() }));
+
+// jsdom의 Blob에는 압축에 쓰는 stream()이 없으므로 Node의 Blob을 사용
+vi.stubGlobal('Blob', NodeBlob);
+
+const encoder = new TextEncoder();
+
+const line = (id: string, content: string): TextObject => ({ id, type: 'text', content, x: 0, y: 0, scale: 1, fontSize: 16 });
+
+const sessionWith = (canvasObjects: TextObject[]): SessionData => ({
+  metadata: createSessionMetadata('Shared'),
+  channels: new Map(),
+  messages: new Map(),
+  canvasObjects,
+  links: [],
+  activeChannelId: null
+});
+
+// 압축이 잘 안 되는 내용 (고정 시드)
+const noise = (length: number) => {
+  let seed = 7;
+  let result = '';
+  while (result.length < length) {
+    seed = (seed * 16807) % 2147483647;
+    result += seed.toString(36);
+  }
+  return result.slice(0, length);
+};
+
+const setUrl = (url: string) => window.history.replaceState({}, '', url);
+
+describe('checksums and base64url', () => {
+  it('computes the standard CRC-32', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe('cbf43926');
+    expect(checksumText('')).toBe('00000000');
+  });
+
+  it('round-trips bytes through URL-safe base64 without padding', () => {
+    const bytes = new Uint8Array([0, 250, 251, 252, 253, 254, 255]);
+    const encoded = toBase64Url(bytes);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(fromBase64Url(encoded)).toEqual(bytes);
+    expect(() => fromBase64Url('not+url/safe=')).toThrow('Share link payload is not valid base64url');
+  });
+});
+
+describe('encodeSharePayload / decodeSharePayload', () => {
+  it('round-trips JSON with non-ASCII text', async () => {
+    const json = JSON.stringify({ content: '안녕하세요 — typewriter ✍️' });
+    const value = await encodeSharePayload(json);
+
+    expect(value).toMatch(new RegExp(`^v${SHARE_LINK_VERSION}\\.[0-9a-f]{8}\\.`));
+    await expect(decodeSharePayload(value)).resolves.toBe(json);
+  });
+
+  it('rejects a payload whose checksum does not match', async () => {
+    const value = await encodeSharePayload('{"a":1}');
+    const [version, , payload] = value.split('.');
+    await expect(decodeSharePayload(`${version}.00000000.${payload}`)).rejects.toThrow('checksum does not match');
+  });
+
+  it('rejects malformed, truncated and unknown-version links', async () => {
+    const value = await encodeSharePayload(JSON.stringify({ text: noise(2000) }));
+    await expect(decodeSharePayload('garbage')).rejects.toThrow('Share link is malformed');
+    await expect(decodeSharePayload(value.slice(0, value.length - 40))).rejects.toThrow(/truncated or corrupt|checksum/);
+    await expect(decodeSharePayload(value.replace(/^v\d+/, 'v99'))).rejects.toThrow('version 99 is not supported');
+  });
+});
+
+describe('snapshot files', () => {
+  it('are read-only and checksummed', () => {
+    const snapshot = createSnapshotFile('{"a":1}');
+    expect(snapshot).toMatchObject({ format: 'nntype-snapshot', version: SHARE_LINK_VERSION, readOnly: true });
+    expect(readSnapshotFile(snapshot)).toBe('{"a":1}');
+    expect(() => readSnapshotFile({ ...snapshot, session: '{"a":2}' })).toThrow('Snapshot checksum does not match');
+  });
+
+  it('import as a read-only session', () => {
+    const session = sessionWith([line('text-1', 'hello')]);
+    const snapshot = createSnapshotFile(JSON.stringify(serializeSessionData(session)));
+
+    const result = importSessionData(JSON.stringify(snapshot));
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.sessionData.metadata.readOnly).toBe(true);
+      expect(result.sessionData.canvasObjects).toEqual(session.canvasObjects);
+    }
+  });
+});
+
+describe('generateShareableLink', () => {
+  afterEach(() => {
+    vi.mocked(downloadFile).mockClear();
+  });
+
+  it('allows URLs up to the limit', () => {
+    expect(fitsInShareUrl(SHARE_LINK_MAX_URL_LENGTH)).toBe(true);
+    expect(fitsInShareUrl(SHARE_LINK_MAX_URL_LENGTH + 1)).toBe(false);
+  });
+
+  it('puts a small session in the URL fragment', async () => {
+    const session = sessionWith([line('text-1', 'hello')]);
+    const result = await generateShareableLink(session);
+
+    expect(result.kind).toBe('link');
+    if (result.kind !== 'link') return;
+    expect(result.urlLength).toBeLessThanOrEqual(SHARE_LINK_MAX_URL_LENGTH);
+    expect(result.url).toContain('#share=v1.');
+    expect(downloadFile).not.toHaveBeenCalled();
+  });
+
+  it('falls back to a snapshot file once the URL would pass the limit', async () => {
+    const session = sessionWith([line('text-1', noise(SHARE_LINK_MAX_URL_LENGTH * 2))]);
+    const result = await generateShareableLink(session);
+
+    expect(result.kind).toBe('snapshot');
+    if (result.kind !== 'snapshot') return;
+    expect(result.urlLength).toBeGreaterThan(SHARE_LINK_MAX_URL_LENGTH);
+    expect(downloadFile).toHaveBeenCalledTimes(1);
+
+    const [content, fileName] = vi.mocked(downloadFile).mock.calls[0];
+    expect(fileName).toBe(result.fileName);
+    expect(JSON.parse(content as string)).toMatchObject({ format: 'nntype-snapshot', readOnly: true });
+  });
+});
+
+describe('parseSessionFromUrl', () => {
+  afterEach(() => {
+    setUrl('/');
+  });
+
+  it('returns null when the URL carries no session', async () => {
+    setUrl('/');
+    await expect(parseSessionFromUrl()).resolves.toBeNull();
+  });
+
+  it('reads the share fragment written by generateShareableLink', async () => {
+    const session = sessionWith([line('text-1', 'hello')]);
+    const result = await generateShareableLink(session);
+    if (result.kind !== 'link') throw new Error('expected a link');
+
+    setUrl(`/${new URL(result.url).hash}`);
+    const parsed = await parseSessionFromUrl();
+    expect(parsed?.canvasObjects).toEqual(session.canvasObjects);
+    expect(parsed?.metadata.readOnly).toBeUndefined();
+  });
+
+  it('reads the legacy ?session= parameter', async () => {
+    const session = sessionWith([line('text-1', 'legacy')]);
+    setUrl(`/?session=${encodeURIComponent(JSON.stringify(serializeSessionData(session)))}`);
+
+    const parsed = await parseSessionFromUrl();
+    expect(parsed?.canvasObjects).toEqual(session.canvasObjects);
+  });
+
+  it('throws with the validation problems of a bad legacy session', async () => {
+    setUrl(`/?session=${encodeURIComponent(JSON.stringify({ metadata: 1 }))}`);
+    await expect(parseSessionFromUrl()).rejects.toThrow('Shared session in the URL is invalid: metadata: expected object, got number');
+  });
+});
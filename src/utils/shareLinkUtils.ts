@@ -0,0 +1,188 @@
+/**
+ * Share link encoding: session JSON → deflate → base64url, carried in the URL fragment.
+ *
+ * Fragment format: `#share=v<version>.<crc32>.<payload>`
+ * - the fragment is never sent to servers, so the canvas stays client-side
+ * - crc32 is taken over the uncompressed JSON and checked after inflating
+ */
+
+import { SHARE_LINK_VERSION, SHARE_LINK_MAX_URL_LENGTH } from '../constants';
+
+export const SHARE_FRAGMENT_KEY = 'share';
+export const SNAPSHOT_FORMAT = 'nntype-snapshot';
+
+export type ShareLinkResult =
+  | {
+      kind: 'link';
+      url: string;
+      /** 압축 전 JSON 크기 (bytes) */
+      jsonBytes: number;
+      urlLength: number;
+      maxUrlLength: number;
+    }
+  | {
+      kind: 'snapshot';
+      fileName: string;
+      jsonBytes: number;
+      /** 링크로 만들었을 때의 길이 (한도 초과분 안내용) */
+      urlLength: number;
+      maxUrlLength: number;
+    }
+  | {
+      kind: 'error';
+      message: string;
+    };
+
+/**
+ * Read-only snapshot written when a session is too large for a link.
+ * Same checksum as links so a damaged file is rejected on import.
+ */
+export interface SessionSnapshotFile {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  checksum: string;
+  readOnly: true;
+  createdAt: string;
+  session: string;
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array): string => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC32_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return ((crc ^ 0xffffffff) >>> 0).toString(16).padStart(8, '0');
+};
+
+export const checksumText = (text: string): string => crc32(new TextEncoder().encode(text));
+
+export const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  // 큰 배열에서 인자 개수 한도를 넘지 않도록 나눠서 변환
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const fromBase64Url = (encoded: string): Uint8Array => {
+  if (!/^[A-Za-z0-9_-]*$/.test(encoded)) {
+    throw new Error('Share link payload is not valid base64url');
+  }
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+};
+
+export const deflate = (bytes: Uint8Array) => pipeThrough(bytes, new CompressionStream('deflate-raw'));
+export const inflate = (bytes: Uint8Array) => pipeThrough(bytes, new DecompressionStream('deflate-raw'));
+
+/**
+ * Encode a JSON string into the `v1.<crc>.<payload>` fragment value.
+ */
+export const encodeSharePayload = async (json: string): Promise<string> => {
+  const bytes = new TextEncoder().encode(json);
+  const payload = toBase64Url(await deflate(bytes));
+  return `v${SHARE_LINK_VERSION}.${crc32(bytes)}.${payload}`;
+};
+
+/**
+ * Decode a fragment value back to JSON. Throws with a readable message
+ * when the version is unknown, the payload is corrupt or the checksum fails.
+ */
+export const decodeSharePayload = async (value: string): Promise<string> => {
+  const match = /^v(\d+)\.([0-9a-f]{8})\.(.+)$/.exec(value);
+  if (!match) {
+    throw new Error('Share link is malformed');
+  }
+  const [, version, checksum, payload] = match;
+  if (Number(version) !== SHARE_LINK_VERSION) {
+    throw new Error(`Share link version ${version} is not supported (expected ${SHARE_LINK_VERSION})`);
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = await inflate(fromBase64Url(payload));
+  } catch (error) {
+    throw new Error('Share link is truncated or corrupt');
+  }
+  if (crc32(bytes) !== checksum) {
+    throw new Error('Share link checksum does not match; the link may be incomplete');
+  }
+  return new TextDecoder().decode(bytes);
+};
+
+export const buildShareUrl = (fragmentValue: string): string => {
+  const baseUrl = window.location.origin + window.location.pathname;
+  return `${baseUrl}#${SHARE_FRAGMENT_KEY}=${fragmentValue}`;
+};
+
+/**
+ * Fragment value of the current URL, or null when the page wasn't opened from a share link.
+ */
+export const getShareFragment = (): string | null => {
+  const hash = window.location.hash.replace(/^#/, '');
+  return new URLSearchParams(hash).get(SHARE_FRAGMENT_KEY);
+};
+
+export const clearShareFragment = () => {
+  const url = new URL(window.location.href);
+  url.hash = '';
+  window.history.replaceState({}, '', url.toString());
+};
+
+export const createSnapshotFile = (json: string): SessionSnapshotFile => ({
+  format: SNAPSHOT_FORMAT,
+  version: SHARE_LINK_VERSION,
+  checksum: checksumText(json),
+  readOnly: true,
+  createdAt: new Date().toISOString(),
+  session: json
+});
+
+export const isSnapshotFile = (data: unknown): data is SessionSnapshotFile => {
+  return typeof data === 'object' && data !== null && (data as SessionSnapshotFile).format === SNAPSHOT_FORMAT;
+};
+
+/**
+ * Unwrap a snapshot file and return the session JSON it carries.
+ */
+export const readSnapshotFile = (snapshot: SessionSnapshotFile): string => {
+  if (snapshot.version !== SHARE_LINK_VERSION) {
+    throw new Error(`Snapshot version ${snapshot.version} is not supported (expected ${SHARE_LINK_VERSION})`);
+  }
+  if (typeof snapshot.session !== 'string' || checksumText(snapshot.session) !== snapshot.checksum) {
+    throw new Error('Snapshot checksum does not match; the file may be damaged');
+  }
+  return snapshot.session;
+};
+
+export const fitsInShareUrl = (urlLength: number) => urlLength <= SHARE_LINK_MAX_URL_LENGTH;
+
+export const formatByteSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import { CanvasObject, GuideObject, TextObject } from '../types';
+import { SpatialIndex, WorldBounds, getObjectWorldBounds } from './spatialIndex';
+
+const measureText = (text: string, fontSize: number) => text.length * fontSize * 0.6;
+
+const text = (id: string, x: number, y: number, content = 'hello'): TextObject => ({
+  id,
+  type: 'text',
+  content,
+  x,
+  y,
+  scale: 1,
+  fontSize: 16
+});
+
+const guide = (id: string, x: number, y: number): GuideObject => ({
+  id,
+  type: 'guide',
+  guideType: 'a4',
+  x,
+  y,
+  width: 100,
+  height: 100
+} as GuideObject);
+
+const createIndex = () => new SpatialIndex<CanvasObject>(obj => getObjectWorldBounds(obj, measureText));
+
+const idsAt = (index: SpatialIndex<CanvasObject>, x: number, y: number) => index.searchPoint(x, y).map(obj => obj.id);
+
+describe('SpatialIndex.sync', () => {
+  it('indexes added nodes and skips nodes without bounds', () => {
+    const index = createIndex();
+    const link = { id: 'link-1', type: 'link', from: 'a', to: 'b', style: 'arrow', color: '#000' } as CanvasObject;
+    index.sync([text('a', 0, 0), guide('b', 500, 500), link]);
+
+    expect(index.size).toBe(2);
+    expect(idsAt(index, 10, -5)).toEqual(['a']);
+    expect(idsAt(index, 550, 550)).toEqual(['b']);
+    expect(index.getBoundsOf('link-1')).toBeNull();
+  });
+
+  it('re-measures moved and edited nodes and keeps unchanged ones', () => {
+    const index = createIndex();
+    const a = text('a', 0, 0);
+    const b = text('b', 1000, 1000);
+    index.sync([a, b]);
+    const bBounds = index.getBoundsOf('b');
+
+    const movedA = { ...a, x: 5000, y: 5000 };
+    index.sync([movedA, b]);
+    expect(idsAt(index, 10, -5)).toEqual([]);
+    expect(idsAt(index, 5010, 4995)).toEqual(['a']);
+    // 참조가 같은 노드는 캐시된 경계를 그대로 사용
+    expect(index.getBoundsOf('b')).toBe(bBounds);
+
+    const editedA = { ...movedA, content: 'a much longer line of text' };
+    index.sync([editedA, b]);
+    expect(idsAt(index, 5200, 4995)).toEqual(['a']);
+    expect(index.searchPoint(5010, 4995)[0]).toBe(editedA);
+  });
+
+  it('removes deleted nodes', () => {
+    const index = createIndex();
+    const nodes = [text('a', 0, 0), text('b', 0, 200)];
+    index.sync(nodes);
+    index.sync([nodes[1]]);
+
+    expect(index.size).toBe(1);
+    expect(idsAt(index, 10, -5)).toEqual([]);
+    expect(index.getBoundsOf('a')).toBeNull();
+  });
+
+  it('returns results in array order after reordering', () => {
+    const index = createIndex();
+    const back = guide('back', 0, 0);
+    const front = guide('front', 50, 50);
+    index.sync([back, front]);
+    expect(idsAt(index, 75, 75)).toEqual(['back', 'front']);
+
+    // 같은 객체를 다른 순서로: 다시 측정하지 않고 순서만 갱신
+    index.sync([front, back]);
+    expect(idsAt(index, 75, 75)).toEqual(['front', 'back']);
+  });
+
+  it('does nothing when given the same array again', () => {
+    const index = createIndex();
+    const nodes = [text('a', 0, 0)];
+    index.sync(nodes);
+    nodes.push(text('b', 0, 200));
+    index.sync(nodes);
+
+    expect(index.size).toBe(1);
+  });
+
+  it('grows to hold nodes far outside the first root and after splitting', () => {
+    const index = createIndex();
+    const nodes = [
+      ...Array.from({ length: 40 }, (_, i) => guide(`near-${i}`, i * 10, i * 10)),
+      guide('far', -250000, 900000)
+    ];
+    index.sync(nodes);
+
+    expect(index.size).toBe(41);
+    expect(idsAt(index, -249950, 900050)).toEqual(['far']);
+    expect(idsAt(index, 395, 395)).toEqual(['near-30', 'near-31', 'near-32', 'near-33', 'near-34', 'near-35', 'near-36', 'near-37', 'near-38', 'near-39']);
+  });
+
+  it('uses a custom key for items that are not canvas objects', () => {
+    interface Junction { linkId: string; x: number; y: number }
+    const index = new SpatialIndex<Junction>(
+      ({ x, y }) => ({ minX: x - 2, minY: y - 2, maxX: x + 2, maxY: y + 2 }),
+      junction => junction.linkId
+    );
+    index.sync([{ linkId: 'l1', x: 10, y: 10 }]);
+    index.sync([{ linkId: 'l1', x: 40, y: 40 }]);
+
+    expect(index.size).toBe(1);
+    expect(index.searchPoint(10, 10)).toEqual([]);
+    expect(index.searchPoint(40, 40)).toEqual([{ linkId: 'l1', x: 40, y: 40 }]);
+  });
+});
+
+// 인덱스 없이 모든 노드를 훑는 방식과 결과와 속도를 비교
+describe('SpatialIndex benchmark', () => {
+  const NODE_COUNT = 5000;
+  const WORLD_SIZE = 20000;
+
+  // 고정 시드 난수로 매 실행 같은 배치
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+
+  const objects = Array.from({ length: NODE_COUNT }, (_, i) =>
+    text(`node-${i}`, random() * WORLD_SIZE, random() * WORLD_SIZE, `Line ${i} of the benchmark canvas`)
+  );
+  const boundsById = new Map(objects.map(obj => [obj.id, getObjectWorldBounds(obj, measureText)!]));
+  const intersects = (a: WorldBounds, b: WorldBounds) =>
+    a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+  const linearSearch = (bounds: WorldBounds) => objects.filter(obj => intersects(boundsById.get(obj.id)!, bounds));
+
+  const queries = Array.from({ length: 200 }, () => {
+    const x = random() * WORLD_SIZE;
+    const y = random() * WORLD_SIZE;
+    return { minX: x, minY: y, maxX: x + 1920, maxY: y + 1080 };
+  });
+
+  // 가장 빠른 회차를 씀 (다른 작업에 밀린 회차는 무시)
+  const fastest = (run: () => void, rounds = 5) => {
+    let best = Infinity;
+    for (let round = 0; round < rounds; round++) {
+      const start = performance.now();
+      run();
+      best = Math.min(best, performance.now() - start);
+    }
+    return best;
+  };
+
+  it(`finds the same nodes as a linear scan, faster (${NODE_COUNT} nodes)`, () => {
+    const index = new SpatialIndex<CanvasObject>(obj => boundsById.get(obj.id) ?? null);
+    index.sync(objects);
+
+    queries.forEach(query => {
+      expect(index.search(query)).toEqual(linearSearch(query));
+    });
+
+    const linear = fastest(() => queries.forEach(linearSearch));
+    const quadtree = fastest(() => queries.forEach(query => index.search(query)));
+    console.info(`viewport queries: linear ${linear.toFixed(2)}ms, quadtree ${quadtree.toFixed(2)}ms`);
+    expect(quadtree).toBeLessThan(linear);
+  });
+
+  it('re-syncs after moving one node without rebuilding', () => {
+    const index = new SpatialIndex<CanvasObject>(obj => getObjectWorldBounds(obj, measureText));
+    const rebuild = fastest(() => {
+      index.clear();
+      index.sync(objects);
+    }, 3);
+
+    let moved = objects;
+    const resync = fastest(() => {
+      const target = Math.floor(random() * NODE_COUNT);
+      moved = moved.map((obj, position) => position === target ? { ...obj, x: obj.x + 1 } : obj);
+      index.sync(moved);
+    }, 3);
+
+    console.info(`sync: full rebuild ${rebuild.toFixed(2)}ms, one moved node ${resync.toFixed(2)}ms`);
+    expect(index.size).toBe(NODE_COUNT);
+    expect(resync).toBeLessThan(rebuild);
+  });
+});
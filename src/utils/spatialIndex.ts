@@ -0,0 +1,266 @@
+import { CanvasObject, NodeId } from '../types';
+import { isMediaNode } from './mediaUtils';
+import { getFrameBounds, getObjectFrame, getTextLayout } from './transformUtils';
+
+export interface WorldBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+interface IndexedItem<T> {
+  object: T;
+  bounds: WorldBounds;
+  /** canvasObjects 배열에서의 위치 (그리기/히트 우선순위 유지용) */
+  order: number;
+}
+
+interface QuadNode<T> {
+  bounds: WorldBounds;
+  depth: number;
+  items: IndexedItem<T>[];
+  children: QuadNode<T>[] | null;
+}
+
+// 노드가 이 개수를 넘으면 4분할
+const MAX_ITEMS_PER_NODE = 16;
+const MAX_DEPTH = 12;
+const INITIAL_ROOT_SIZE = 4096;
+
+const contains = (outer: WorldBounds, inner: WorldBounds) =>
+  inner.minX >= outer.minX && inner.maxX <= outer.maxX &&
+  inner.minY >= outer.minY && inner.maxY <= outer.maxY;
+
+const intersects = (a: WorldBounds, b: WorldBounds) =>
+  a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+
+const createNode = <T>(bounds: WorldBounds, depth: number): QuadNode<T> => ({ bounds, depth, items: [], children: null });
+
+const splitBounds = ({ minX, minY, maxX, maxY }: WorldBounds): WorldBounds[] => {
+  const midX = (minX + maxX) / 2;
+  const midY = (minY + maxY) / 2;
+  return [
+    { minX, minY, maxX: midX, maxY: midY },
+    { minX: midX, minY, maxX, maxY: midY },
+    { minX, minY: midY, maxX: midX, maxY },
+    { minX: midX, minY: midY, maxX, maxY }
+  ];
+};
+
+/**
+ * World-space bounds of a node, or null for nodes that can't be hit (links).
+ * Text bounds run from the cap line of the first line to one full line
+ * height below the last baseline, which covers every hit test in the app.
+ * Rotated nodes get the axis-aligned box around them.
+ */
+export const getObjectWorldBounds = (
+  obj: CanvasObject,
+  measureText: (text: string, fontSize: number) => number
+): WorldBounds | null => {
+  if (obj.type === 'text') {
+    // 렌더링은 obj.scale을 쓰지 않으므로 1보다 작을 때도 원래 크기를 포함
+    const objScale = Math.max(1, obj.scale || 1);
+    const layout = getTextLayout(obj, measureText);
+    const bounds = getFrameBounds({
+      x: obj.x,
+      y: obj.y - obj.fontSize,
+      width: layout.width * objScale,
+      height: layout.height * objScale,
+      rotation: obj.rotation ?? 0
+    });
+    // 마지막 기준선 아래 한 줄 높이까지 (회전했으면 상자 전체가 이미 포함됨)
+    return obj.rotation ? bounds : { ...bounds, maxY: obj.y - obj.fontSize + (layout.height + obj.fontSize * 0.6) * objScale };
+  }
+  if (obj.type === 'guide') {
+    return { minX: obj.x, minY: obj.y, maxX: obj.x + obj.width, maxY: obj.y + obj.height };
+  }
+  if (isMediaNode(obj)) {
+    return getFrameBounds(getObjectFrame(obj)!);
+  }
+  return null;
+};
+
+/**
+ * Quadtree over the world-space bounds of canvas objects.
+ *
+ * The root grows outward as objects are placed further away, so the
+ * infinite canvas needs no fixed extent. `sync()` compares object references
+ * against the previous array and only re-measures nodes that were added,
+ * moved or edited; unchanged nodes keep their cached bounds.
+ * Items other than canvas objects (e.g. link junctions) pass their own key.
+ */
+export class SpatialIndex<T = CanvasObject> {
+  private root: QuadNode<T> | null = null;
+  private entries = new Map<NodeId, { item: IndexedItem<T>; node: QuadNode<T> }>();
+  private syncedObjects: T[] | null = null;
+
+  constructor(
+    private readonly getBounds: (obj: T) => WorldBounds | null,
+    private readonly getKey: (obj: T) => NodeId = obj => (obj as { id: NodeId }).id
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Bring the index in line with `objects` (usually the canvasObjects state).
+   */
+  sync(objects: T[]): void {
+    if (objects === this.syncedObjects) return;
+    this.syncedObjects = objects;
+
+    const seen = new Set<NodeId>();
+    objects.forEach((obj, order) => {
+      const key = this.getKey(obj);
+      seen.add(key);
+      const entry = this.entries.get(key);
+      if (entry && entry.item.object === obj) {
+        entry.item.order = order;
+        return;
+      }
+      if (entry) this.remove(key);
+      this.insert(obj, order);
+    });
+
+    if (seen.size !== this.entries.size) {
+      Array.from(this.entries.keys())
+        .filter(id => !seen.has(id))
+        .forEach(id => this.remove(id));
+    }
+  }
+
+  insert(obj: T, order: number): void {
+    const bounds = this.getBounds(obj);
+    if (!bounds) return;
+    const item: IndexedItem<T> = { object: obj, bounds, order };
+
+    this.ensureRootContains(bounds);
+    const node = this.insertInto(this.root!, item);
+    this.entries.set(this.getKey(obj), { item, node });
+  }
+
+  remove(id: NodeId): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    const index = entry.node.items.indexOf(entry.item);
+    if (index !== -1) entry.node.items.splice(index, 1);
+    this.entries.delete(id);
+  }
+
+  /**
+   * Objects whose bounds intersect `bounds`, in canvasObjects order.
+   */
+  search(bounds: WorldBounds): T[] {
+    if (!this.root) return [];
+    const found: IndexedItem<T>[] = [];
+    const stack: QuadNode<T>[] = [this.root];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (!intersects(node.bounds, bounds)) continue;
+      node.items.forEach(item => {
+        if (intersects(item.bounds, bounds)) found.push(item);
+      });
+      if (node.children) stack.push(...node.children);
+    }
+
+    return found.sort((a, b) => a.order - b.order).map(item => item.object);
+  }
+
+  searchPoint(x: number, y: number, tolerance: number = 0): T[] {
+    return this.search({ minX: x - tolerance, minY: y - tolerance, maxX: x + tolerance, maxY: y + tolerance });
+  }
+
+  getBoundsOf(id: NodeId): WorldBounds | null {
+    return this.entries.get(id)?.item.bounds ?? null;
+  }
+
+  clear(): void {
+    this.root = null;
+    this.entries.clear();
+    this.syncedObjects = null;
+  }
+
+  private ensureRootContains(bounds: WorldBounds) {
+    if (!this.root) {
+      const centerX = (bounds.minX + bounds.maxX) / 2;
+      const centerY = (bounds.minY + bounds.maxY) / 2;
+      const half = Math.max(INITIAL_ROOT_SIZE, bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) / 2;
+      this.root = createNode({ minX: centerX - half, minY: centerY - half, maxX: centerX + half, maxY: centerY + half }, 0);
+      return;
+    }
+
+    // 기존 루트를 한 사분면으로 두고 바깥쪽으로 두 배씩 확장
+    while (!contains(this.root.bounds, bounds)) {
+      const old = this.root;
+      const width = old.bounds.maxX - old.bounds.minX;
+      const height = old.bounds.maxY - old.bounds.minY;
+      const growLeft = bounds.minX < old.bounds.minX;
+      const growUp = bounds.minY < old.bounds.minY;
+      const grown: WorldBounds = {
+        minX: growLeft ? old.bounds.minX - width : old.bounds.minX,
+        minY: growUp ? old.bounds.minY - height : old.bounds.minY,
+        maxX: growLeft ? old.bounds.maxX : old.bounds.maxX + width,
+        maxY: growUp ? old.bounds.maxY : old.bounds.maxY + height
+      };
+
+      const newRoot = createNode<T>(grown, 0);
+      // 왼쪽/위로 확장하면 기존 루트는 오른쪽/아래 사분면이 됨
+      const oldQuadrant = (growLeft ? 1 : 0) + (growUp ? 2 : 0);
+      newRoot.children = splitBounds(grown).map((quadrant, index) =>
+        index === oldQuadrant ? old : createNode<T>(quadrant, 1)
+      );
+      this.root = newRoot;
+      this.incrementDepth(old);
+    }
+  }
+
+  private incrementDepth(node: QuadNode<T>) {
+    node.depth++;
+    node.children?.forEach(child => this.incrementDepth(child));
+  }
+
+  private insertInto(node: QuadNode<T>, item: IndexedItem<T>): QuadNode<T> {
+    let current = node;
+    for (;;) {
+      if (current.children) {
+        const child = current.children.find(candidate => contains(candidate.bounds, item.bounds));
+        if (child) {
+          current = child;
+          continue;
+        }
+        // 여러 사분면에 걸치면 현재 노드에 보관
+        current.items.push(item);
+        return current;
+      }
+
+      current.items.push(item);
+      if (current.items.length > MAX_ITEMS_PER_NODE && current.depth < MAX_DEPTH) {
+        this.split(current);
+        return this.findNodeOf(current, item);
+      }
+      return current;
+    }
+  }
+
+  private split(node: QuadNode<T>) {
+    node.children = splitBounds(node.bounds).map(bounds => createNode<T>(bounds, node.depth + 1));
+    const items = node.items;
+    node.items = [];
+    items.forEach(item => {
+      const child = node.children!.find(candidate => contains(candidate.bounds, item.bounds));
+      const target = child ?? node;
+      target.items.push(item);
+      const entry = this.entries.get(this.getKey(item.object));
+      if (entry && entry.item === item) entry.node = target;
+    });
+  }
+
+  private findNodeOf(node: QuadNode<T>, item: IndexedItem<T>): QuadNode<T> {
+    if (node.items.includes(item)) return node;
+    const child = node.children?.find(candidate => contains(candidate.bounds, item.bounds));
+    return child ? this.findNodeOf(child, item) : node;
+  }
+}
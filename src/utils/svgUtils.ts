@@ -1,4 +1,18 @@
-import { CanvasObject, TextObject, GuideObject } from '../types';
+import { CanvasObject, TextObject, GuideObject, LinkObject, Paint, Effect } from '../types';
+import { MediaNode, getMediaNodeSize, getMediaImageSrc } from './mediaUtils';
+import {
+  LinkPath,
+  LinkMarkerShape,
+  getLinkPathData,
+  getLinkArrowBase,
+  getLinkStartBase,
+  getLinkMarkers,
+  getLinkMarkerShape,
+  getLinkLabelBox
+} from './linkUtils';
+import { rgbToHex } from './colorUtils';
+import { PaintBounds, getVisiblePaints, getVisibleEffects, getTextPaintBounds } from './paintUtils';
+import { ObjectFrame, getFrameCenter, getObjectFrame, getTextLayout } from './transformUtils';
 
 export const createSVGElement = (
   viewBoxMinX: number,
@@ -27,30 +41,214 @@ export const addSVGBackground = (svg: SVGSVGElement, backgroundColor: string = "
   svg.appendChild(bg);
 };
 
+/**
+ * Append a paint server (gradient/pattern) to the SVG and return the fill value.
+ * Gradients use userSpaceOnUse so multi-line text shares one gradient box.
+ */
+const addSVGPaint = (
+  svg: SVGSVGElement,
+  paint: Paint,
+  bounds: PaintBounds,
+  id: string
+): { value: string; opacity: number } => {
+  const svgNS = "http://www.w3.org/2000/svg";
+  const opacity = paint.opacity ?? 1;
+
+  if (paint.type === 'SOLID') {
+    return { value: rgbToHex(paint.color), opacity };
+  }
+
+  if (paint.type === 'IMAGE') {
+    const pattern = document.createElementNS(svgNS, "pattern");
+    pattern.setAttribute("id", id);
+    pattern.setAttribute("patternUnits", "userSpaceOnUse");
+    pattern.setAttribute("x", String(bounds.x));
+    pattern.setAttribute("y", String(bounds.y));
+    pattern.setAttribute("width", String(bounds.width));
+    pattern.setAttribute("height", String(bounds.height));
+    const image = document.createElementNS(svgNS, "image");
+    image.setAttribute("href", paint.imageRef);
+    image.setAttribute("width", String(bounds.width));
+    image.setAttribute("height", String(bounds.height));
+    image.setAttribute("preserveAspectRatio", paint.scaleMode === 'FIT' ? "xMidYMid meet" : "xMidYMid slice");
+    pattern.appendChild(image);
+    svg.appendChild(pattern);
+    return { value: `url(#${id})`, opacity };
+  }
+
+  const gradient = document.createElementNS(
+    svgNS,
+    paint.type === 'GRADIENT_LINEAR' ? "linearGradient" : "radialGradient"
+  );
+  gradient.setAttribute("id", id);
+  gradient.setAttribute("gradientUnits", "userSpaceOnUse");
+
+  if (paint.type === 'GRADIENT_LINEAR') {
+    const start = paint.gradientStart ?? { x: 0, y: 0.5 };
+    const end = paint.gradientEnd ?? { x: 1, y: 0.5 };
+    gradient.setAttribute("x1", String(bounds.x + start.x * bounds.width));
+    gradient.setAttribute("y1", String(bounds.y + start.y * bounds.height));
+    gradient.setAttribute("x2", String(bounds.x + end.x * bounds.width));
+    gradient.setAttribute("y2", String(bounds.y + end.y * bounds.height));
+  } else {
+    const center = paint.center ?? { x: 0.5, y: 0.5 };
+    gradient.setAttribute("cx", String(bounds.x + center.x * bounds.width));
+    gradient.setAttribute("cy", String(bounds.y + center.y * bounds.height));
+    gradient.setAttribute("r", String((paint.radius ?? 0.5) * Math.hypot(bounds.width, bounds.height)));
+  }
+
+  paint.gradientStops.forEach(colorStop => {
+    const stop = document.createElementNS(svgNS, "stop");
+    stop.setAttribute("offset", String(colorStop.position));
+    stop.setAttribute("stop-color", rgbToHex(colorStop.color));
+    stop.setAttribute("stop-opacity", String(colorStop.color.a));
+    gradient.appendChild(stop);
+  });
+  svg.appendChild(gradient);
+  return { value: `url(#${id})`, opacity };
+};
+
+/**
+ * Build an SVG filter for drop shadows, inner shadows and layer blur.
+ * Returns null when the node has no renderable effects.
+ */
+const addSVGEffectsFilter = (svg: SVGSVGElement, effects: Effect[], id: string): string | null => {
+  const svgNS = "http://www.w3.org/2000/svg";
+  const visibleEffects = getVisibleEffects(effects).filter(effect => effect.type !== 'BACKGROUND_BLUR');
+  if (visibleEffects.length === 0) return null;
+
+  const filter = document.createElementNS(svgNS, "filter");
+  filter.setAttribute("id", id);
+  filter.setAttribute("x", "-50%");
+  filter.setAttribute("y", "-50%");
+  filter.setAttribute("width", "200%");
+  filter.setAttribute("height", "200%");
+
+  const addPrimitive = (tag: string, attrs: Record<string, string | number>) => {
+    const primitive = document.createElementNS(svgNS, tag);
+    Object.entries(attrs).forEach(([key, value]) => primitive.setAttribute(key, String(value)));
+    filter.appendChild(primitive);
+  };
+
+  const below: string[] = [];
+  const above: string[] = [];
+
+  visibleEffects.forEach((effect, index) => {
+    if (effect.type === 'DROP_SHADOW') {
+      let source = 'SourceAlpha';
+      if (effect.spread) {
+        addPrimitive("feMorphology", { in: source, operator: "dilate", radius: effect.spread, result: `spread${index}` });
+        source = `spread${index}`;
+      }
+      addPrimitive("feGaussianBlur", { in: source, stdDeviation: effect.radius / 2, result: `blur${index}` });
+      addPrimitive("feOffset", { in: `blur${index}`, dx: effect.offset.x, dy: effect.offset.y, result: `offset${index}` });
+      addPrimitive("feFlood", { "flood-color": rgbToHex(effect.color), "flood-opacity": effect.color.a, result: `color${index}` });
+      addPrimitive("feComposite", { in: `color${index}`, in2: `offset${index}`, operator: "in", result: `shadow${index}` });
+      below.push(`shadow${index}`);
+    } else if (effect.type === 'INNER_SHADOW') {
+      // 원본 알파에서 오프셋+블러된 알파를 빼서 안쪽 가장자리만 남김
+      addPrimitive("feOffset", { in: "SourceAlpha", dx: effect.offset.x, dy: effect.offset.y, result: `offset${index}` });
+      addPrimitive("feGaussianBlur", { in: `offset${index}`, stdDeviation: effect.radius / 2, result: `blur${index}` });
+      addPrimitive("feComposite", { in: "SourceAlpha", in2: `blur${index}`, operator: "arithmetic", k2: 1, k3: -1, result: `edge${index}` });
+      addPrimitive("feFlood", { "flood-color": rgbToHex(effect.color), "flood-opacity": effect.color.a, result: `color${index}` });
+      addPrimitive("feComposite", { in: `color${index}`, in2: `edge${index}`, operator: "in", result: `shadow${index}` });
+      above.push(`shadow${index}`);
+    }
+  });
+
+  const merge = document.createElementNS(svgNS, "feMerge");
+  merge.setAttribute("result", "merged");
+  [...below, 'SourceGraphic', ...above].forEach(input => {
+    const node = document.createElementNS(svgNS, "feMergeNode");
+    node.setAttribute("in", input);
+    merge.appendChild(node);
+  });
+  filter.appendChild(merge);
+
+  const layerBlur = visibleEffects.find(effect => effect.type === 'LAYER_BLUR');
+  if (layerBlur) {
+    addPrimitive("feGaussianBlur", { in: "merged", stdDeviation: layerBlur.radius / 2 });
+  }
+
+  svg.appendChild(filter);
+  return `url(#${id})`;
+};
+
+// 회전된 노드는 그룹에 중심 기준 rotate를 걸어 그대로 그림
+const setSVGRotation = (group: SVGGElement, frame: ObjectFrame | null): void => {
+  if (!frame?.rotation) return;
+  const center = getFrameCenter(frame);
+  group.setAttribute("transform", `rotate(${frame.rotation} ${center.x} ${center.y})`);
+};
+
 export const addTextObjectToSVG = (
   svg: SVGSVGElement,
   textObj: TextObject,
-  fillColor: string = "#000000"
+  fillColor: string = "#000000",
+  measureText: (text: string, fontSize: number) => number = (text, size) => text.length * size * 0.6
 ): void => {
   const svgNS = "http://www.w3.org/2000/svg";
   const fontSize = textObj.fontSize;
+  if (textObj.visible === false) return;
   
-  // Handle multi-line text
-  const lines = textObj.content.split('\n');
+  // 줄바꿈/말줄임이 적용된 줄
+  const lines = getTextLayout(textObj, measureText).lines;
   const lineHeight = fontSize * 1.6;
-  
-  lines.forEach((line, index) => {
-    const text = document.createElementNS(svgNS, "text");
-    text.setAttribute("x", String(textObj.x));
-    text.setAttribute("y", String(textObj.y + (index * lineHeight)));
-    text.setAttribute("font-family", '"JetBrains Mono", monospace');
-    text.setAttribute("font-size", String(fontSize));
-    text.setAttribute("dominant-baseline", "alphabetic");
-    text.setAttribute("fill", fillColor);
-    text.textContent = line;
-    
-    svg.appendChild(text);
+  const bounds = getTextPaintBounds(lines, textObj.x, textObj.y, fontSize, text => measureText(text, fontSize));
+  const fills = getVisiblePaints(textObj.fills);
+  const strokes = getVisiblePaints(textObj.strokes);
+
+  // 여러 줄이 한 번에 효과/블렌드를 받도록 그룹으로 묶음
+  const group = document.createElementNS(svgNS, "g");
+  setSVGRotation(group, getObjectFrame(textObj, measureText));
+  if (textObj.opacity !== undefined && textObj.opacity < 1) {
+    group.setAttribute("opacity", String(textObj.opacity));
+  }
+  if (textObj.blendMode && textObj.blendMode !== 'NORMAL') {
+    group.setAttribute("style", `mix-blend-mode: ${textObj.blendMode.toLowerCase()}`);
+  }
+  const filter = addSVGEffectsFilter(svg, textObj.effects ?? [], `effects-${textObj.id}`);
+  if (filter) {
+    group.setAttribute("filter", filter);
+  }
+
+  // SVG는 fill 하나만 받으므로 fill 레이어마다 텍스트를 겹쳐 그림
+  const fillLayers = fills.length > 0
+    ? fills.map((paint, index) => addSVGPaint(svg, paint, bounds, `fill-${textObj.id}-${index}`))
+    : [{ value: textObj.color || fillColor, opacity: 1 }];
+  // SVG stroke는 하나뿐이므로 가장 위 stroke 페인트만 사용
+  const stroke = strokes.length > 0
+    ? addSVGPaint(svg, strokes[strokes.length - 1], bounds, `stroke-${textObj.id}`)
+    : null;
+
+  fillLayers.forEach((fill, layerIndex) => {
+    lines.forEach((line, index) => {
+      const text = document.createElementNS(svgNS, "text");
+      text.setAttribute("x", String(textObj.x));
+      text.setAttribute("y", String(textObj.y + (index * lineHeight)));
+      text.setAttribute("font-family", '"JetBrains Mono", monospace');
+      text.setAttribute("font-size", String(fontSize));
+      text.setAttribute("dominant-baseline", "alphabetic");
+      text.setAttribute("fill", fill.value);
+      if (fill.opacity < 1) {
+        text.setAttribute("fill-opacity", String(fill.opacity));
+      }
+      // 외곽선은 마지막 fill 레이어 위에만
+      if (stroke && layerIndex === fillLayers.length - 1) {
+        text.setAttribute("stroke", stroke.value);
+        text.setAttribute("stroke-width", String(textObj.strokeWeight ?? 1));
+        text.setAttribute("stroke-linejoin", "round");
+        if (stroke.opacity < 1) {
+          text.setAttribute("stroke-opacity", String(stroke.opacity));
+        }
+      }
+      text.textContent = line;
+
+      group.appendChild(text);
+    });
   });
+
+  svg.appendChild(group);
 };
 
 export const addA4GuideToSVG = (svg: SVGSVGElement, a4Obj: GuideObject): void => {
@@ -78,6 +276,175 @@ export const addA4GuideToSVG = (svg: SVGSVGElement, a4Obj: GuideObject): void =>
   svg.appendChild(a4Text);
 };
 
+const addLinkMarkerToSVG = (svg: SVGSVGElement, shape: LinkMarkerShape | null, color: string): void => {
+  if (!shape) return;
+  const svgNS = "http://www.w3.org/2000/svg";
+  const element = document.createElementNS(svgNS, shape.kind === 'circle' ? "circle" : "polygon");
+  if (shape.kind === 'circle') {
+    element.setAttribute("cx", shape.center.x.toString());
+    element.setAttribute("cy", shape.center.y.toString());
+    element.setAttribute("r", shape.radius.toString());
+  } else {
+    element.setAttribute("points", shape.points.map(point => `${point.x},${point.y}`).join(' '));
+  }
+  element.setAttribute("fill", color);
+  svg.appendChild(element);
+};
+
+/**
+ * Draw a link along its routed path, with the same geometry as the canvas.
+ */
+export const addLinkToSVG = (
+  svg: SVGSVGElement,
+  link: LinkObject,
+  path: LinkPath,
+  measureText?: (text: string, fontSize: number) => number,
+  labelBackground: string = "#ffffff"
+): void => {
+  const svgNS = "http://www.w3.org/2000/svg";
+
+  const line = document.createElementNS(svgNS, "path");
+  line.setAttribute("d", getLinkPathData(path));
+  line.setAttribute("fill", "none");
+  line.setAttribute("stroke", link.color);
+  line.setAttribute("stroke-width", "2");
+  line.setAttribute("stroke-linejoin", "round");
+  if (link.style === 'dashed') {
+    line.setAttribute("stroke-dasharray", "5,5");
+  }
+  svg.appendChild(line);
+
+  const markers = getLinkMarkers(link);
+  addLinkMarkerToSVG(svg, getLinkMarkerShape(markers.start, getLinkStartBase(path), path.points[0], 10), link.color);
+  addLinkMarkerToSVG(svg, getLinkMarkerShape(markers.end, getLinkArrowBase(path), path.points[path.points.length - 1], 10), link.color);
+
+  const labelBox = getLinkLabelBox(link, path, measureText);
+  if (labelBox) {
+    const background = document.createElementNS(svgNS, "rect");
+    background.setAttribute("x", labelBox.x.toString());
+    background.setAttribute("y", labelBox.y.toString());
+    background.setAttribute("width", labelBox.width.toString());
+    background.setAttribute("height", labelBox.height.toString());
+    background.setAttribute("fill", labelBackground);
+    svg.appendChild(background);
+
+    const label = document.createElementNS(svgNS, "text");
+    label.setAttribute("x", labelBox.center.x.toString());
+    label.setAttribute("y", labelBox.center.y.toString());
+    label.setAttribute("font-family", '"JetBrains Mono", monospace');
+    label.setAttribute("font-size", labelBox.fontSize.toString());
+    label.setAttribute("fill", link.color);
+    label.setAttribute("text-anchor", "middle");
+    label.setAttribute("dominant-baseline", "central");
+    label.textContent = link.label ?? '';
+    svg.appendChild(label);
+  }
+};
+
+export const addMediaNodeToSVG = (svg: SVGSVGElement, mediaObj: MediaNode): void => {
+  const svgNS = "http://www.w3.org/2000/svg";
+  const { width, height } = getMediaNodeSize(mediaObj);
+  const imageSrc = getMediaImageSrc(mediaObj);
+  const cornerRadius = Math.min(mediaObj.cornerRadius ?? 0, width / 2, height / 2);
+  const scaleMode = mediaObj.type === 'image' ? mediaObj.scaleMode ?? 'FILL' : 'FILL';
+
+  const group = document.createElementNS(svgNS, "g");
+  setSVGRotation(group, getObjectFrame(mediaObj));
+  if (mediaObj.opacity !== undefined && mediaObj.opacity < 1) {
+    group.setAttribute("opacity", String(mediaObj.opacity));
+  }
+
+  const title = document.createElementNS(svgNS, "title");
+  title.textContent = mediaObj.type === 'image' ? mediaObj.alt || mediaObj.name || '' : mediaObj.src;
+  group.appendChild(title);
+
+  // 모서리 둥글기는 clipPath로 처리
+  if (cornerRadius > 0) {
+    const clipId = `clip-${mediaObj.id}`;
+    const clipPath = document.createElementNS(svgNS, "clipPath");
+    clipPath.setAttribute("id", clipId);
+    const clipRect = document.createElementNS(svgNS, "rect");
+    clipRect.setAttribute("x", String(mediaObj.x));
+    clipRect.setAttribute("y", String(mediaObj.y));
+    clipRect.setAttribute("width", String(width));
+    clipRect.setAttribute("height", String(height));
+    clipRect.setAttribute("rx", String(cornerRadius));
+    clipPath.appendChild(clipRect);
+    group.appendChild(clipPath);
+    group.setAttribute("clip-path", `url(#${clipId})`);
+  }
+
+  if (mediaObj.type === 'video') {
+    const backdrop = document.createElementNS(svgNS, "rect");
+    backdrop.setAttribute("x", String(mediaObj.x));
+    backdrop.setAttribute("y", String(mediaObj.y));
+    backdrop.setAttribute("width", String(width));
+    backdrop.setAttribute("height", String(height));
+    backdrop.setAttribute("fill", "#111827");
+    group.appendChild(backdrop);
+  }
+
+  if (imageSrc && scaleMode === 'TILE') {
+    const patternId = `tile-${mediaObj.id}`;
+    const pattern = document.createElementNS(svgNS, "pattern");
+    pattern.setAttribute("id", patternId);
+    pattern.setAttribute("patternUnits", "userSpaceOnUse");
+    pattern.setAttribute("x", String(mediaObj.x));
+    pattern.setAttribute("y", String(mediaObj.y));
+    const tileWidth = mediaObj.type === 'image' && mediaObj.naturalWidth ? mediaObj.naturalWidth : width;
+    const tileHeight = mediaObj.type === 'image' && mediaObj.naturalHeight ? mediaObj.naturalHeight : height;
+    pattern.setAttribute("width", String(tileWidth));
+    pattern.setAttribute("height", String(tileHeight));
+    const tile = document.createElementNS(svgNS, "image");
+    tile.setAttribute("href", imageSrc);
+    tile.setAttribute("width", String(tileWidth));
+    tile.setAttribute("height", String(tileHeight));
+    pattern.appendChild(tile);
+    group.appendChild(pattern);
+
+    const tiled = document.createElementNS(svgNS, "rect");
+    tiled.setAttribute("x", String(mediaObj.x));
+    tiled.setAttribute("y", String(mediaObj.y));
+    tiled.setAttribute("width", String(width));
+    tiled.setAttribute("height", String(height));
+    tiled.setAttribute("fill", `url(#${patternId})`);
+    group.appendChild(tiled);
+  } else if (imageSrc) {
+    const image = document.createElementNS(svgNS, "image");
+    image.setAttribute("href", imageSrc);
+    image.setAttribute("x", String(mediaObj.x));
+    image.setAttribute("y", String(mediaObj.y));
+    image.setAttribute("width", String(width));
+    image.setAttribute("height", String(height));
+    image.setAttribute("preserveAspectRatio", scaleMode === 'FIT' ? "xMidYMid meet" : "xMidYMid slice");
+    group.appendChild(image);
+  }
+
+  if (mediaObj.type === 'video') {
+    const radius = Math.max(8, Math.min(width, height) * 0.12);
+    const centerX = mediaObj.x + width / 2;
+    const centerY = mediaObj.y + height / 2;
+
+    const circle = document.createElementNS(svgNS, "circle");
+    circle.setAttribute("cx", String(centerX));
+    circle.setAttribute("cy", String(centerY));
+    circle.setAttribute("r", String(radius));
+    circle.setAttribute("fill", "rgba(0, 0, 0, 0.55)");
+    group.appendChild(circle);
+
+    const triangle = document.createElementNS(svgNS, "polygon");
+    triangle.setAttribute("points", [
+      `${centerX - radius * 0.35},${centerY - radius * 0.5}`,
+      `${centerX + radius * 0.55},${centerY}`,
+      `${centerX - radius * 0.35},${centerY + radius * 0.5}`
+    ].join(' '));
+    triangle.setAttribute("fill", "rgba(255, 255, 255, 0.9)");
+    group.appendChild(triangle);
+  }
+
+  svg.appendChild(group);
+};
+
 export const addCurrentTypingTextToSVG = (
   svg: SVGSVGElement,
   currentTypingText: string,
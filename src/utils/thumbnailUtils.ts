@@ -0,0 +1,102 @@
+import { CanvasObject, Theme } from '../types';
+import { getObjectWorldBounds, WorldBounds } from './spatialIndex';
+import { isMediaNode } from './mediaUtils';
+import { getFrameCenter, getObjectFrame, getTextLayout, rotateContextAround } from './transformUtils';
+
+export const THUMBNAIL_WIDTH = 160;
+export const THUMBNAIL_HEIGHT = 100;
+const THUMBNAIL_PADDING = 8;
+
+const THUMBNAIL_COLORS: Record<Theme, { background: string; text: string; guide: string; media: string }> = {
+  light: { background: '#ffffff', text: '#6b7280', guide: '#93c5fd', media: '#d1d5db' },
+  dark: { background: '#111827', text: '#9ca3af', guide: '#1d4ed8', media: '#374151' }
+};
+
+/**
+ * Render a small overview of a canvas for the workspace list.
+ * Text is drawn as one bar per line (glyphs would be unreadable at this size),
+ * guides as outlines and media as filled boxes. Returns a data URL, or null
+ * when there is nothing to draw or no 2D context.
+ */
+export const renderCanvasThumbnail = (objects: CanvasObject[], theme: Theme = 'light'): string | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = THUMBNAIL_WIDTH;
+  canvas.height = THUMBNAIL_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const measureText = (text: string, fontSize: number) => {
+    ctx.font = `400 ${fontSize}px "JetBrains Mono", monospace`;
+    return ctx.measureText(text).width;
+  };
+
+  const items = objects
+    .map(obj => ({ obj, bounds: getObjectWorldBounds(obj, measureText) }))
+    .filter((item): item is { obj: CanvasObject; bounds: WorldBounds } => item.bounds !== null);
+  if (items.length === 0) return null;
+
+  const bounds = items.reduce(
+    (acc, { bounds: b }) => ({
+      minX: Math.min(acc.minX, b.minX),
+      minY: Math.min(acc.minY, b.minY),
+      maxX: Math.max(acc.maxX, b.maxX),
+      maxY: Math.max(acc.maxY, b.maxY)
+    }),
+    { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+  );
+
+  // 전체 내용이 들어가도록 맞추되, 글자 몇 개짜리 캔버스가 과하게 확대되지 않도록 제한
+  const contentWidth = Math.max(bounds.maxX - bounds.minX, 1);
+  const contentHeight = Math.max(bounds.maxY - bounds.minY, 1);
+  const fit = Math.min(
+    (THUMBNAIL_WIDTH - THUMBNAIL_PADDING * 2) / contentWidth,
+    (THUMBNAIL_HEIGHT - THUMBNAIL_PADDING * 2) / contentHeight,
+    0.5
+  );
+  const offsetX = (THUMBNAIL_WIDTH - contentWidth * fit) / 2 - bounds.minX * fit;
+  const offsetY = (THUMBNAIL_HEIGHT - contentHeight * fit) / 2 - bounds.minY * fit;
+
+  const colors = THUMBNAIL_COLORS[theme];
+  ctx.fillStyle = colors.background;
+  ctx.fillRect(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+
+  items.forEach(({ obj, bounds: b }) => {
+    const x = b.minX * fit + offsetX;
+    const y = b.minY * fit + offsetY;
+
+    if (obj.type === 'text') {
+      // 회전 전 상자 기준으로 그린 뒤 중심에서 돌림
+      const frame = getObjectFrame(obj, measureText)!;
+      const center = getFrameCenter(frame);
+      const lineHeight = obj.fontSize * 1.6 * fit;
+      const barHeight = Math.max(1, obj.fontSize * 0.7 * fit);
+      ctx.save();
+      rotateContextAround(ctx, { x: center.x * fit + offsetX, y: center.y * fit + offsetY }, frame.rotation);
+      ctx.fillStyle = obj.color || colors.text;
+      ctx.globalAlpha = 0.7;
+      getTextLayout(obj, measureText).lines.forEach((line, index) => {
+        const width = measureText(line, obj.fontSize) * fit;
+        if (width > 0) ctx.fillRect(frame.x * fit + offsetX, frame.y * fit + offsetY + index * lineHeight, Math.max(1, width), barHeight);
+      });
+      ctx.restore();
+    } else if (obj.type === 'guide') {
+      ctx.strokeStyle = colors.guide;
+      ctx.lineWidth = 1;
+      ctx.strokeRect(x, y, (b.maxX - b.minX) * fit, (b.maxY - b.minY) * fit);
+    } else if (isMediaNode(obj)) {
+      const frame = getObjectFrame(obj)!;
+      const center = getFrameCenter(frame);
+      ctx.save();
+      rotateContextAround(ctx, { x: center.x * fit + offsetX, y: center.y * fit + offsetY }, frame.rotation);
+      ctx.fillStyle = colors.media;
+      ctx.fillRect(frame.x * fit + offsetX, frame.y * fit + offsetY, frame.width * fit, frame.height * fit);
+      ctx.restore();
+    }
+  });
+
+  try {
+    return canvas.toDataURL('image/png');
+  } catch (error) {
+    return null;
+  }
+};
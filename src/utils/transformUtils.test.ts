@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { GuideObject, ImageNode, TextObject } from '../types';
+import {
+  findTransformHandle,
+  getFrameBounds,
+  getObjectFrame,
+  getTextLayout,
+  normalizeRotation,
+  resizeObjects,
+  rotateObjects
+} from './transformUtils';
+import { findObjectAtPin } from './modeUtils';
+
+// 글자 폭 = 0.6em (측정 함수가 없을 때와 같음)
+const text = (content: string, extra: Partial<TextObject> = {}): TextObject => ({
+  id: 'text-1',
+  type: 'text',
+  content,
+  x: 0,
+  y: 10,
+  scale: 1,
+  fontSize: 10,
+  ...extra
+});
+
+const image = (x: number, y: number, width: number, height: number, extra: Partial<ImageNode> = {}): ImageNode => ({
+  id: 'image-1',
+  type: 'image',
+  src: 'data:image/png;base64,',
+  x,
+  y,
+  width,
+  height,
+  ...extra
+});
+
+const pin = (worldX: number, worldY: number) => ({ x: worldX, y: worldY, worldX, worldY });
+
+describe('getTextLayout', () => {
+  it('hugs the content by default', () => {
+    expect(getTextLayout(text('hello\nhi'))).toEqual({ lines: ['hello', 'hi'], lineStarts: [0, 6], width: 30, height: 26 });
+  });
+
+  it('wraps to a fixed width and truncates to a fixed height', () => {
+    expect(getTextLayout(text('hello world', { width: 40, textAutoResize: 'HEIGHT' }))).toEqual({
+      lines: ['hello', 'world'],
+      lineStarts: [0, 6],
+      width: 40,
+      height: 26
+    });
+    expect(getTextLayout(text('hello world', { width: 40, height: 20, textAutoResize: 'TRUNCATE' })).lines).toEqual(['hello…']);
+  });
+
+  it('starts the text frame at the cap line above the first baseline', () => {
+    expect(getObjectFrame(text('hello', { rotation: 30 }))).toEqual({ x: 0, y: 0, width: 30, height: 10, rotation: 30 });
+  });
+});
+
+describe('rotation helpers', () => {
+  it('normalize angles to (-180, 180]', () => {
+    expect([370, -190, 180, -180, 540, 0].map(normalizeRotation)).toEqual([10, 170, 180, 180, 180, 0]);
+  });
+
+  it('bound a rotated frame by its turned corners', () => {
+    const bounds = getFrameBounds({ x: 0, y: 0, width: 100, height: 50, rotation: 90 });
+    expect(bounds.minX).toBeCloseTo(25);
+    expect(bounds.maxX).toBeCloseTo(75);
+    expect(bounds.minY).toBeCloseTo(-25);
+    expect(bounds.maxY).toBeCloseTo(75);
+  });
+});
+
+describe('findTransformHandle', () => {
+  it('finds handles in screen space around the selection', () => {
+    const bounds = { minX: 0, minY: 0, maxX: 100, maxY: 100 };
+    expect(findTransformHandle(bounds, 203, 198, 2, { x: 0, y: 0 })).toBe('se');
+    expect(findTransformHandle(bounds, 60, -14, 1, { x: 10, y: 10 })).toBe('rotate');
+    expect(findTransformHandle(bounds, 50, 50, 1, { x: 0, y: 0 })).toBeNull();
+  });
+});
+
+describe('resizeObjects', () => {
+  it('scales media uniformly from a corner about the opposite corner', () => {
+    const bounds = { minX: 0, minY: 0, maxX: 100, maxY: 80 };
+    expect(resizeObjects([image(0, 0, 100, 80)], 'se', bounds, { x: 200, y: 100 })[0]).toMatchObject({ x: 0, y: 0, width: 200, height: 160 });
+    expect(resizeObjects([image(0, 0, 100, 80)], 'nw', bounds, { x: 50, y: 40 })[0]).toMatchObject({ x: 50, y: 40, width: 50, height: 40 });
+  });
+
+  it('scales text from a corner by font size', () => {
+    const node = text('hello');
+    const [scaled] = resizeObjects([node], 'se', { minX: 0, minY: 0, maxX: 30, maxY: 10 }, { x: 60, y: 20 });
+    expect(scaled).toMatchObject({ fontSize: 20, x: 0, y: 20 });
+  });
+
+  it('turns auto-width text into wrapping text from a side handle and keeps its top edge', () => {
+    const [resized] = resizeObjects([text('hello')], 'e', { minX: 0, minY: 0, maxX: 30, maxY: 10 }, { x: 15, y: 500 });
+    expect(resized).toMatchObject({ width: 15, textAutoResize: 'HEIGHT', x: 0, y: 10 });
+    expect(getTextLayout(resized as TextObject).lines).toEqual(['he', 'll', 'o']);
+  });
+
+  it('does not flip past the opposite side and leaves guides alone', () => {
+    const guide: GuideObject = { id: 'guide-1', type: 'guide', guideType: 'a4', x: 0, y: 0, width: 100, height: 80 };
+    const [shrunk, untouched] = resizeObjects([image(0, 0, 100, 80), guide], 'se', { minX: 0, minY: 0, maxX: 100, maxY: 80 }, { x: -50, y: -50 });
+    expect(shrunk).toMatchObject({ x: 0, y: 0, width: 5, height: 4 });
+    expect(untouched).toBe(guide);
+  });
+});
+
+describe('rotateObjects', () => {
+  it('orbits each node about the selection center and turns it by the same angle', () => {
+    const [rotated] = rotateObjects([image(0, 0, 100, 100)], { x: 150, y: 50 }, 90);
+    const frame = getObjectFrame(rotated)!;
+    expect(frame.x).toBeCloseTo(100);
+    expect(frame.y).toBeCloseTo(-100);
+    expect(frame.rotation).toBe(90);
+  });
+
+  it('wraps the angle and leaves guides alone', () => {
+    const guide: GuideObject = { id: 'guide-1', type: 'guide', guideType: 'a4', x: 0, y: 0, width: 100, height: 80 };
+    const [rotated, untouched] = rotateObjects([image(0, 0, 10, 10, { rotation: 170 }), guide], { x: 5, y: 5 }, 20);
+    expect(rotated).toMatchObject({ x: 0, y: 0, rotation: -170 });
+    expect(untouched).toBe(guide);
+  });
+});
+
+describe('rotated hit testing', () => {
+  it('hits a rotated node where it is drawn, not where its unrotated box is', () => {
+    // 200x20 막대를 90도 돌리면 중심 (100, 10)을 지나는 세로 막대
+    const bar = image(0, 0, 200, 20, { rotation: 90 });
+    expect(findObjectAtPin([bar], pin(100, 80), 0)).toBe(bar);
+    expect(findObjectAtPin([bar], pin(180, 10), 0)).toBeNull();
+
+    const line = text('hello', { rotation: 90 });
+    // 30x10 상자가 중심 (15, 5)에서 세로로 섬
+    expect(findObjectAtPin([line], pin(15, 18), 0)).toBe(line);
+    expect(findObjectAtPin([line], pin(28, 5), 0)).toBeNull();
+  });
+});
@@ -0,0 +1,449 @@
+import { CanvasObject, TextObject, TextAutoResize, Theme, Vector2D } from '../types';
+import { isMediaNode, getMediaNodeSize } from './mediaUtils';
+
+type MeasureText = (text: string, fontSize: number) => number;
+
+/**
+ * Unrotated box of a node in world units. `rotation` (degrees, clockwise)
+ * turns the box about its center; this is how every node is drawn.
+ */
+export interface ObjectFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+}
+
+export interface FrameBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/** Visual lines of a text node after wrapping / truncation */
+export interface TextLayout {
+  lines: string[];
+  /** 각 줄이 content에서 시작하는 위치 (검색 하이라이트용) */
+  lineStarts: number[];
+  width: number;
+  height: number;
+}
+
+export type TransformHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'rotate';
+export type ResizeHandle = Exclude<TransformHandle, 'rotate'>;
+
+export const TRANSFORM_HANDLE_CURSORS: Record<TransformHandle, string> = {
+  nw: 'nwse-resize',
+  se: 'nwse-resize',
+  ne: 'nesw-resize',
+  sw: 'nesw-resize',
+  n: 'ns-resize',
+  s: 'ns-resize',
+  e: 'ew-resize',
+  w: 'ew-resize',
+  rotate: 'crosshair'
+};
+
+// Shift를 누른 채 회전할 때의 각도 단위
+export const ROTATION_SNAP_DEGREES = 15;
+
+// JetBrains Mono 글자 폭 (em). 측정 함수가 없을 때 사용
+const MONO_CHAR_WIDTH = 0.6;
+const LINE_HEIGHT = 1.6;
+const ELLIPSIS = '…';
+// 핸들 크기, 회전 핸들이 선택 상자 위로 떨어진 거리, 클릭 여유 (px)
+const HANDLE_SIZE = 8;
+const ROTATE_HANDLE_OFFSET = 24;
+const HANDLE_HIT_TOLERANCE = 4;
+// 크기를 줄일 때의 하한 (월드 단위)
+const MIN_FONT_SIZE = 2;
+const MIN_BOX_SIZE = 4;
+
+const approximateWidth: MeasureText = (text, fontSize) => text.length * fontSize * MONO_CHAR_WIDTH;
+
+export const getTextAutoResize = (obj: TextObject): TextAutoResize => obj.textAutoResize ?? 'WIDTH_AND_HEIGHT';
+
+// 단어 단위로 줄바꿈하고, 한 줄에 들어가지 않는 단어는 글자 단위로 자름
+const wrapParagraph = (
+  paragraph: string,
+  offset: number,
+  maxWidth: number,
+  fontSize: number,
+  measure: MeasureText
+): Array<{ text: string; start: number }> => {
+  const lines: Array<{ text: string; start: number }> = [];
+  const fits = (text: string) => measure(text.trimEnd(), fontSize) <= maxWidth;
+  let line = '';
+  let lineStart = offset;
+  for (const match of paragraph.matchAll(/\s*\S+\s*|\s+/g)) {
+    let token = match[0];
+    let tokenStart = offset + (match.index ?? 0);
+    if (fits(line + token)) {
+      line += token;
+      continue;
+    }
+    if (line) lines.push({ text: line.trimEnd(), start: lineStart });
+    while (!fits(token)) {
+      let count = 1;
+      while (count < token.length && fits(token.slice(0, count + 1))) count++;
+      lines.push({ text: token.slice(0, count), start: tokenStart });
+      token = token.slice(count);
+      tokenStart += count;
+    }
+    line = token;
+    lineStart = tokenStart;
+  }
+  lines.push({ text: line.trimEnd(), start: lineStart });
+  return lines;
+};
+
+// 노드는 바뀔 때마다 새 객체라 객체 단위로 캐시
+const textLayoutCache = new WeakMap<TextObject, { measure: MeasureText; layout: TextLayout }>();
+
+/**
+ * Lines, width and height of a text node at its world font size.
+ * With `textAutoResize` 'WIDTH_AND_HEIGHT' (the default) lines follow the
+ * content and the box hugs them. Any other mode with a `width` wraps to
+ * that width; 'NONE' and 'TRUNCATE' also keep a set `height`, and
+ * 'TRUNCATE' drops the lines that don't fit, ending with an ellipsis.
+ */
+export const getTextLayout = (obj: TextObject, measure: MeasureText = approximateWidth): TextLayout => {
+  const cached = textLayoutCache.get(obj);
+  if (cached && cached.measure === measure) return cached.layout;
+
+  const fontSize = obj.fontSize;
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const mode = getTextAutoResize(obj);
+  const fixedWidth = mode !== 'WIDTH_AND_HEIGHT' && obj.width !== undefined ? obj.width : null;
+  const fixedHeight = (mode === 'NONE' || mode === 'TRUNCATE') && obj.height !== undefined ? obj.height : null;
+
+  let offset = 0;
+  let lines = obj.content.split('\n').flatMap(paragraph => {
+    const start = offset;
+    offset += paragraph.length + 1;
+    return fixedWidth === null
+      ? [{ text: paragraph, start }]
+      : wrapParagraph(paragraph, start, fixedWidth, fontSize, measure);
+  });
+
+  if (mode === 'TRUNCATE' && fixedHeight !== null) {
+    const maxLines = Math.max(1, Math.floor((fixedHeight - fontSize) / lineHeight) + 1);
+    if (lines.length > maxLines) {
+      lines = lines.slice(0, maxLines);
+      const last = lines[maxLines - 1];
+      let text = last.text;
+      while (text && fixedWidth !== null && measure(text + ELLIPSIS, fontSize) > fixedWidth) text = text.slice(0, -1);
+      lines[maxLines - 1] = { ...last, text: text + ELLIPSIS };
+    }
+  }
+
+  const layout: TextLayout = {
+    lines: lines.map(line => line.text),
+    lineStarts: lines.map(line => line.start),
+    width: fixedWidth ?? Math.max(0, ...lines.map(line => measure(line.text, fontSize))),
+    // 마지막 줄은 fontSize만, 나머지 줄들은 lineHeight 적용
+    height: fixedHeight ?? (lines.length - 1) * lineHeight + fontSize
+  };
+  textLayoutCache.set(obj, { measure, layout });
+  return layout;
+};
+
+/**
+ * Unrotated world box of a node, or null for links.
+ * Text boxes start at the cap line (y is the first baseline).
+ */
+export const getObjectFrame = (obj: CanvasObject, measure?: MeasureText): ObjectFrame | null => {
+  if (obj.type === 'text') {
+    const { width, height } = getTextLayout(obj, measure);
+    return { x: obj.x, y: obj.y - obj.fontSize, width, height, rotation: obj.rotation ?? 0 };
+  }
+  if (obj.type === 'guide') {
+    // 가이드는 용지 틀이라 회전하지 않음
+    return { x: obj.x, y: obj.y, width: obj.width, height: obj.height, rotation: 0 };
+  }
+  if (isMediaNode(obj)) {
+    const { width, height } = getMediaNodeSize(obj);
+    return { x: obj.x, y: obj.y, width, height, rotation: obj.rotation ?? 0 };
+  }
+  return null;
+};
+
+export const getFrameCenter = (frame: ObjectFrame): Vector2D => ({
+  x: frame.x + frame.width / 2,
+  y: frame.y + frame.height / 2
+});
+
+export const rotatePoint = (point: Vector2D, center: Vector2D, degrees: number): Vector2D => {
+  if (!degrees) return point;
+  const radians = degrees * Math.PI / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+};
+
+/**
+ * Corners of the frame as drawn: top-left, top-right, bottom-right, bottom-left.
+ */
+export const getFrameCorners = (frame: ObjectFrame): Vector2D[] => {
+  const center = getFrameCenter(frame);
+  return [
+    { x: frame.x, y: frame.y },
+    { x: frame.x + frame.width, y: frame.y },
+    { x: frame.x + frame.width, y: frame.y + frame.height },
+    { x: frame.x, y: frame.y + frame.height }
+  ].map(corner => rotatePoint(corner, center, frame.rotation));
+};
+
+/**
+ * Axis-aligned box around the frame as drawn
+ */
+export const getFrameBounds = (frame: ObjectFrame): FrameBounds => {
+  if (!frame.rotation) {
+    return { minX: frame.x, minY: frame.y, maxX: frame.x + frame.width, maxY: frame.y + frame.height };
+  }
+  const corners = getFrameCorners(frame);
+  return {
+    minX: Math.min(...corners.map(corner => corner.x)),
+    minY: Math.min(...corners.map(corner => corner.y)),
+    maxX: Math.max(...corners.map(corner => corner.x)),
+    maxY: Math.max(...corners.map(corner => corner.y))
+  };
+};
+
+/**
+ * A point in the frame's unrotated space, for hit testing rotated nodes
+ * against their plain box.
+ */
+export const toFrameLocal = (frame: ObjectFrame, point: Vector2D): Vector2D =>
+  rotatePoint(point, getFrameCenter(frame), -frame.rotation);
+
+/**
+ * Rotate the context about a point, so the node can be drawn unrotated.
+ */
+export const rotateContextAround = (ctx: CanvasRenderingContext2D, center: Vector2D, degrees: number) => {
+  if (!degrees) return;
+  ctx.translate(center.x, center.y);
+  ctx.rotate(degrees * Math.PI / 180);
+  ctx.translate(-center.x, -center.y);
+};
+
+export const normalizeRotation = (degrees: number): number => {
+  const normalized = ((degrees % 360) + 540) % 360 - 180;
+  // -180과 180은 같은 방향이므로 180으로 통일
+  return normalized === -180 ? 180 : normalized;
+};
+
+export const isTransformableObject = (obj: CanvasObject): boolean => obj.type === 'text' || isMediaNode(obj);
+
+// ============================================================
+// Handles
+// ============================================================
+
+/**
+ * Screen positions of the handles around a world-space selection box
+ */
+export const getTransformHandlePoints = (
+  bounds: FrameBounds,
+  scale: number,
+  canvasOffset: Vector2D
+): Array<{ handle: TransformHandle; x: number; y: number }> => {
+  const left = bounds.minX * scale + canvasOffset.x;
+  const top = bounds.minY * scale + canvasOffset.y;
+  const right = bounds.maxX * scale + canvasOffset.x;
+  const bottom = bounds.maxY * scale + canvasOffset.y;
+  const centerX = (left + right) / 2;
+  const centerY = (top + bottom) / 2;
+  return [
+    { handle: 'nw', x: left, y: top },
+    { handle: 'n', x: centerX, y: top },
+    { handle: 'ne', x: right, y: top },
+    { handle: 'e', x: right, y: centerY },
+    { handle: 'se', x: right, y: bottom },
+    { handle: 's', x: centerX, y: bottom },
+    { handle: 'sw', x: left, y: bottom },
+    { handle: 'w', x: left, y: centerY },
+    { handle: 'rotate', x: centerX, y: top - ROTATE_HANDLE_OFFSET }
+  ];
+};
+
+export const findTransformHandle = (
+  bounds: FrameBounds,
+  screenX: number,
+  screenY: number,
+  scale: number,
+  canvasOffset: Vector2D
+): TransformHandle | null => {
+  const reach = HANDLE_SIZE / 2 + HANDLE_HIT_TOLERANCE;
+  const hit = getTransformHandlePoints(bounds, scale, canvasOffset)
+    .find(point => Math.abs(screenX - point.x) <= reach && Math.abs(screenY - point.y) <= reach);
+  return hit?.handle ?? null;
+};
+
+export const drawTransformHandles = (
+  ctx: CanvasRenderingContext2D,
+  bounds: FrameBounds,
+  scale: number,
+  canvasOffset: Vector2D,
+  theme: Theme
+) => {
+  const points = getTransformHandlePoints(bounds, scale, canvasOffset);
+  const borderColor = theme === 'dark' ? 'rgba(147, 197, 253, 0.9)' : 'rgba(59, 130, 246, 0.9)';
+  const fillColor = theme === 'dark' ? '#111827' : '#ffffff';
+  const [nw, n, , , se] = points;
+  const rotate = points[8];
+
+  ctx.save();
+  ctx.strokeStyle = borderColor;
+  ctx.lineWidth = 1;
+  ctx.setLineDash([]);
+  ctx.strokeRect(nw.x, nw.y, se.x - nw.x, se.y - nw.y);
+  ctx.beginPath();
+  ctx.moveTo(n.x, n.y);
+  ctx.lineTo(rotate.x, rotate.y);
+  ctx.stroke();
+
+  ctx.fillStyle = fillColor;
+  points.forEach(point => {
+    ctx.beginPath();
+    if (point.handle === 'rotate') {
+      ctx.arc(point.x, point.y, HANDLE_SIZE / 2 + 1, 0, Math.PI * 2);
+    } else {
+      ctx.rect(point.x - HANDLE_SIZE / 2, point.y - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
+    }
+    ctx.fill();
+    ctx.stroke();
+  });
+  ctx.restore();
+};
+
+// ============================================================
+// Transforms
+// ============================================================
+
+// 프레임 중심이 `center`에 오도록 노드를 옮김
+const placeFrameCenter = (obj: CanvasObject, center: Vector2D, measure?: MeasureText): CanvasObject => {
+  const frame = getObjectFrame(obj, measure);
+  if (!frame || obj.type === 'link') return obj;
+  const current = getFrameCenter(frame);
+  return { ...obj, x: obj.x + center.x - current.x, y: obj.y + center.y - current.y };
+};
+
+const resizeObject = (
+  obj: CanvasObject,
+  handle: ResizeHandle,
+  anchor: Vector2D,
+  scaleX: number,
+  scaleY: number,
+  measure?: MeasureText
+): CanvasObject => {
+  const frame = getObjectFrame(obj, measure);
+  if (!frame || !isTransformableObject(obj)) return obj;
+  const center = getFrameCenter(frame);
+  const nextCenter = { x: anchor.x + (center.x - anchor.x) * scaleX, y: anchor.y + (center.y - anchor.y) * scaleY };
+  const isCorner = handle.length === 2;
+  let next: CanvasObject = obj;
+
+  if (obj.type === 'text') {
+    const mode = getTextAutoResize(obj);
+    if (isCorner) {
+      // 모서리는 글자 크기째로 확대/축소 (scaleX === scaleY)
+      const factor = Math.max(scaleX, MIN_FONT_SIZE / obj.fontSize);
+      next = {
+        ...obj,
+        fontSize: obj.fontSize * factor,
+        ...(obj.width !== undefined ? { width: obj.width * factor } : {}),
+        ...(obj.height !== undefined ? { height: obj.height * factor } : {})
+      };
+    } else if (handle === 'e' || handle === 'w') {
+      // 폭을 정하면 자동 폭 텍스트는 고정 폭 + 자동 높이로 바뀜
+      next = {
+        ...obj,
+        width: Math.max(MIN_BOX_SIZE, frame.width * scaleX),
+        textAutoResize: mode === 'WIDTH_AND_HEIGHT' ? 'HEIGHT' : mode
+      };
+    } else if (mode === 'NONE' || mode === 'TRUNCATE') {
+      // 높이는 고정 크기 텍스트만 바꿈 (자동 높이는 내용을 따름)
+      next = { ...obj, height: Math.max(obj.fontSize, frame.height * scaleY) };
+    }
+  } else if (isMediaNode(obj)) {
+    const size = getMediaNodeSize(obj);
+    const nodeScale = obj.scale ?? 1;
+    next = {
+      ...obj,
+      width: Math.max(MIN_BOX_SIZE, size.width * scaleX) / nodeScale,
+      height: Math.max(MIN_BOX_SIZE, size.height * scaleY) / nodeScale
+    };
+  }
+
+  // 늘이지 않는 축에서는 위/왼쪽 변을 유지 (줄바꿈으로 높이가 바뀌어도 아래로만 늘어남)
+  const nextFrame = getObjectFrame(next, measure)!;
+  const keepsEdge = !frame.rotation;
+  return placeFrameCenter(next, {
+    x: scaleX === 1 && keepsEdge ? frame.x + nextFrame.width / 2 : nextCenter.x,
+    y: scaleY === 1 && keepsEdge ? frame.y + nextFrame.height / 2 : nextCenter.y
+  }, measure);
+};
+
+/**
+ * Resize nodes by dragging a handle of their selection box to `pointer`
+ * (world). Corners scale uniformly about the opposite corner — text by
+ * font size, media by width and height. Side handles stretch about the
+ * opposite side: text changes its box width (turning auto-width text into
+ * fixed-width wrapping text) and, for fixed-size text, its height.
+ * Guides and links are left as they are.
+ */
+export const resizeObjects = (
+  objects: CanvasObject[],
+  handle: ResizeHandle,
+  bounds: FrameBounds,
+  pointer: Vector2D,
+  measure?: MeasureText
+): CanvasObject[] => {
+  const width = Math.max(bounds.maxX - bounds.minX, 1);
+  const height = Math.max(bounds.maxY - bounds.minY, 1);
+  const fromLeft = handle.includes('w');
+  const fromTop = handle.includes('n');
+  const anchor = {
+    x: fromLeft ? bounds.maxX : bounds.minX,
+    y: fromTop ? bounds.maxY : bounds.minY
+  };
+  // 반대편을 넘어가 뒤집히지 않도록 최소 비율로 제한
+  const minScale = 0.05;
+  let scaleX = Math.max(minScale, (fromLeft ? anchor.x - pointer.x : pointer.x - anchor.x) / width);
+  let scaleY = Math.max(minScale, (fromTop ? anchor.y - pointer.y : pointer.y - anchor.y) / height);
+
+  if (handle.length === 2) {
+    scaleX = scaleY = Math.max(scaleX, scaleY);
+  } else if (handle === 'e' || handle === 'w') {
+    scaleY = 1;
+  } else {
+    scaleX = 1;
+  }
+  return objects.map(obj => resizeObject(obj, handle, anchor, scaleX, scaleY, measure));
+};
+
+/**
+ * Rotate nodes about `center` (world): each node's center orbits it and
+ * its own rotation grows by the same angle. Guides and links stay put.
+ */
+export const rotateObjects = (
+  objects: CanvasObject[],
+  center: Vector2D,
+  degrees: number,
+  measure?: MeasureText
+): CanvasObject[] => objects.map(obj => {
+  const frame = getObjectFrame(obj, measure);
+  if (!frame || !isTransformableObject(obj) || obj.type === 'link' || obj.type === 'guide') return obj;
+  const current = getFrameCenter(frame);
+  const next = rotatePoint(current, center, degrees);
+  return {
+    ...obj,
+    x: obj.x + next.x - current.x,
+    y: obj.y + next.y - current.y,
+    rotation: normalizeRotation((obj.rotation ?? 0) + degrees)
+  };
+});
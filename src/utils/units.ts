@@ -91,4 +91,21 @@ export const uiToWorldFontSize = (uiFontSizePx: number, canvasZoomLevel: number)
  */
 export const worldToUIFontSize = (worldFontSizePx: number, canvasZoomLevel: number): number => {
   return worldFontSizePx * canvasZoomLevel;
-};
\ No newline at end of file
+};
+/**
+ * 밀리미터를 포인트로 변환 (용지 크기, 인쇄용)
+ * @param mm 밀리미터 값
+ * @returns 포인트 값
+ */
+export const mmToPoints = (mm: number): number => {
+  return (mm * 72) / 25.4; // 1inch = 25.4mm = 72pt
+};
+
+/**
+ * 포인트를 밀리미터로 변환
+ * @param points 포인트 값
+ * @returns 밀리미터 값
+ */
+export const pointsToMm = (points: number): number => {
+  return (points * 25.4) / 72;
+};